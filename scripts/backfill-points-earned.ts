@@ -28,6 +28,7 @@
 
 import { Client } from 'pg';
 import * as mysql from 'mysql2/promise';
+import { DEFAULT_SCORING_RULES } from '../src/core/scoring/services/scoring-rules';
 
 // ============================================================================
 // Constants
@@ -37,6 +38,10 @@ import * as mysql from 'mysql2/promise';
 const SEASON_2_START_TIMESTAMP = 1765608600;
 const SEASON_2_START_DATE = new Date(SEASON_2_START_TIMESTAMP * 1000);
 
+// Season 2 votes predate versioned scoring rules, so they were all scored
+// with the launch rules (version 1)
+const { votePoints, claimPointsPerLevel } = DEFAULT_SCORING_RULES;
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -215,12 +220,15 @@ class PointsBackfiller {
     // Season 2: on or after Dec 13, 2025 06:50:00 UTC
     if (!vote.claimedAt) {
       // Unclaimed: just voting points
-      return 3;
+      return votePoints;
     }
 
     // Claimed: 3 + (brndPowerLevel at claim time × 3)
-    const levelAtClaim = this.getBrndPowerLevelAtTime(vote.userFid, vote.claimedAt);
-    return 3 + (levelAtClaim * 3);
+    const levelAtClaim = this.getBrndPowerLevelAtTime(
+      vote.userFid,
+      vote.claimedAt,
+    );
+    return votePoints + levelAtClaim * claimPointsPerLevel;
   }
 
   /**
@@ -282,18 +290,26 @@ class PointsBackfiller {
   async bulkUpdateSeason1(): Promise<void> {
     console.log('\n📝 Processing Season 1 votes (bulk update)...');
 
-    const season2StartDate = SEASON_2_START_DATE.toISOString().slice(0, 19).replace('T', ' ');
+    const season2StartDate = SEASON_2_START_DATE.toISOString()
+      .slice(0, 19)
+      .replace('T', ' ');
 
     if (this.isDryRun) {
       // Just count what would be updated
-      const [sharedRows] = await this.mysqlConn!.execute(`
+      const [sharedRows] = await this.mysqlConn!.execute(
+        `
         SELECT COUNT(*) as cnt FROM user_brand_votes
         WHERE date < ? AND shared = 1 AND pointsEarned IS NULL
-      `, [season2StartDate]);
-      const [notSharedRows] = await this.mysqlConn!.execute(`
+      `,
+        [season2StartDate],
+      );
+      const [notSharedRows] = await this.mysqlConn!.execute(
+        `
         SELECT COUNT(*) as cnt FROM user_brand_votes
         WHERE date < ? AND shared = 0 AND pointsEarned IS NULL
-      `, [season2StartDate]);
+      `,
+        [season2StartDate],
+      );
 
       const sharedCount = (sharedRows as any[])[0].cnt;
       const notSharedCount = (notSharedRows as any[])[0].cnt;
@@ -301,31 +317,41 @@ class PointsBackfiller {
       this.stats.season1Votes = sharedCount + notSharedCount;
       this.stats.season1Updated = sharedCount + notSharedCount;
       console.log(`   Would update ${sharedCount} shared votes → 6 points`);
-      console.log(`   Would update ${notSharedCount} non-shared votes → 3 points`);
+      console.log(
+        `   Would update ${notSharedCount} non-shared votes → 3 points`,
+      );
       return;
     }
 
     // Bulk update: shared = true → 6 points
-    const [sharedResult] = await this.mysqlConn!.execute(`
+    const [sharedResult] = await this.mysqlConn!.execute(
+      `
       UPDATE user_brand_votes
       SET pointsEarned = 6
       WHERE date < ? AND shared = 1 AND pointsEarned IS NULL
-    `, [season2StartDate]);
+    `,
+      [season2StartDate],
+    );
     const sharedUpdated = (sharedResult as any).affectedRows;
 
     // Bulk update: shared = false → 3 points
-    const [notSharedResult] = await this.mysqlConn!.execute(`
+    const [notSharedResult] = await this.mysqlConn!.execute(
+      `
       UPDATE user_brand_votes
       SET pointsEarned = 3
       WHERE date < ? AND shared = 0 AND pointsEarned IS NULL
-    `, [season2StartDate]);
+    `,
+      [season2StartDate],
+    );
     const notSharedUpdated = (notSharedResult as any).affectedRows;
 
     this.stats.season1Votes = sharedUpdated + notSharedUpdated;
     this.stats.season1Updated = sharedUpdated + notSharedUpdated;
 
     console.log(`   ✅ Updated ${sharedUpdated} shared votes → 6 points`);
-    console.log(`   ✅ Updated ${notSharedUpdated} non-shared votes → 3 points`);
+    console.log(
+      `   ✅ Updated ${notSharedUpdated} non-shared votes → 3 points`,
+    );
   }
 
   /**
@@ -334,9 +360,12 @@ class PointsBackfiller {
   async getSeason2VotesToBackfill(): Promise<Vote[]> {
     console.log('\n📊 Fetching Season 2 votes to backfill...');
 
-    const season2StartDate = SEASON_2_START_DATE.toISOString().slice(0, 19).replace('T', ' ');
+    const season2StartDate = SEASON_2_START_DATE.toISOString()
+      .slice(0, 19)
+      .replace('T', ' ');
 
-    const [rows] = await this.mysqlConn!.execute(`
+    const [rows] = await this.mysqlConn!.execute(
+      `
       SELECT
         v.transactionHash,
         v.date,
@@ -348,7 +377,9 @@ class PointsBackfiller {
       INNER JOIN users u ON v.userId = u.id
       WHERE v.date >= ? AND v.pointsEarned IS NULL
       ORDER BY v.date ASC
-    `, [season2StartDate]);
+    `,
+      [season2StartDate],
+    );
 
     const votes = (rows as any[]).map((row) => ({
       transactionHash: row.transactionHash,
@@ -359,7 +390,9 @@ class PointsBackfiller {
       userFid: row.userFid,
     }));
 
-    console.log(`   Found ${votes.length} Season 2 votes with NULL pointsEarned`);
+    console.log(
+      `   Found ${votes.length} Season 2 votes with NULL pointsEarned`,
+    );
 
     return votes;
   }
@@ -373,7 +406,9 @@ class PointsBackfiller {
     console.log('\n' + '='.repeat(60));
     console.log('         POINTS EARNED BACKFILL');
     console.log('='.repeat(60));
-    console.log(`Mode: ${this.isDryRun ? 'DRY RUN (no changes)' : 'LIVE (will update DB)'}`);
+    console.log(
+      `Mode: ${this.isDryRun ? 'DRY RUN (no changes)' : 'LIVE (will update DB)'}`,
+    );
     console.log(`Season 2 start: ${SEASON_2_START_DATE.toISOString()}`);
     console.log('='.repeat(60));
 
@@ -395,7 +430,9 @@ class PointsBackfiller {
         return this.stats;
       }
 
-      console.log('\n📝 Processing Season 2 votes (one-by-one for level lookup)...');
+      console.log(
+        '\n📝 Processing Season 2 votes (one-by-one for level lookup)...',
+      );
 
       // Process Season 2 votes
       const BATCH_SIZE = 100;
@@ -408,12 +445,15 @@ class PointsBackfiller {
             let pointsEarned: number;
             if (!vote.claimedAt) {
               // Unclaimed: just voting points
-              pointsEarned = 3;
+              pointsEarned = votePoints;
               this.stats.season2Unclaimed++;
             } else {
               // Claimed: 3 + (brndPowerLevel at claim time × 3)
-              const levelAtClaim = this.getBrndPowerLevelAtTime(vote.userFid, vote.claimedAt);
-              pointsEarned = 3 + (levelAtClaim * 3);
+              const levelAtClaim = this.getBrndPowerLevelAtTime(
+                vote.userFid,
+                vote.claimedAt,
+              );
+              pointsEarned = votePoints + levelAtClaim * claimPointsPerLevel;
               this.stats.season2Claimed++;
 
               // Log interesting cases (level > 0)
@@ -458,7 +498,8 @@ class PointsBackfiller {
   printSummary(): void {
     const duration = this.stats.endTime
       ? Math.round(
-          (this.stats.endTime.getTime() - this.stats.startTime.getTime()) / 1000,
+          (this.stats.endTime.getTime() - this.stats.startTime.getTime()) /
+            1000,
         )
       : 0;
 
@@ -513,17 +554,25 @@ class FullRecalculator extends PointsBackfiller {
   async bulkUpdateSeason1(): Promise<void> {
     console.log('\n📝 Recalculating ALL Season 1 votes (bulk update)...');
 
-    const season2StartDate = SEASON_2_START_DATE.toISOString().slice(0, 19).replace('T', ' ');
+    const season2StartDate = SEASON_2_START_DATE.toISOString()
+      .slice(0, 19)
+      .replace('T', ' ');
 
     if (this.isDryRun) {
-      const [sharedRows] = await this.mysqlConn!.execute(`
+      const [sharedRows] = await this.mysqlConn!.execute(
+        `
         SELECT COUNT(*) as cnt FROM user_brand_votes
         WHERE date < ? AND shared = 1
-      `, [season2StartDate]);
-      const [notSharedRows] = await this.mysqlConn!.execute(`
+      `,
+        [season2StartDate],
+      );
+      const [notSharedRows] = await this.mysqlConn!.execute(
+        `
         SELECT COUNT(*) as cnt FROM user_brand_votes
         WHERE date < ? AND shared = 0
-      `, [season2StartDate]);
+      `,
+        [season2StartDate],
+      );
 
       const sharedCount = (sharedRows as any[])[0].cnt;
       const notSharedCount = (notSharedRows as any[])[0].cnt;
@@ -531,31 +580,41 @@ class FullRecalculator extends PointsBackfiller {
       this.stats.season1Votes = sharedCount + notSharedCount;
       this.stats.season1Updated = sharedCount + notSharedCount;
       console.log(`   Would update ${sharedCount} shared votes → 6 points`);
-      console.log(`   Would update ${notSharedCount} non-shared votes → 3 points`);
+      console.log(
+        `   Would update ${notSharedCount} non-shared votes → 3 points`,
+      );
       return;
     }
 
     // Bulk update ALL: shared = true → 6 points
-    const [sharedResult] = await this.mysqlConn!.execute(`
+    const [sharedResult] = await this.mysqlConn!.execute(
+      `
       UPDATE user_brand_votes
       SET pointsEarned = 6
       WHERE date < ? AND shared = 1
-    `, [season2StartDate]);
+    `,
+      [season2StartDate],
+    );
     const sharedUpdated = (sharedResult as any).affectedRows;
 
     // Bulk update ALL: shared = false → 3 points
-    const [notSharedResult] = await this.mysqlConn!.execute(`
+    const [notSharedResult] = await this.mysqlConn!.execute(
+      `
       UPDATE user_brand_votes
       SET pointsEarned = 3
       WHERE date < ? AND shared = 0
-    `, [season2StartDate]);
+    `,
+      [season2StartDate],
+    );
     const notSharedUpdated = (notSharedResult as any).affectedRows;
 
     this.stats.season1Votes = sharedUpdated + notSharedUpdated;
     this.stats.season1Updated = sharedUpdated + notSharedUpdated;
 
     console.log(`   ✅ Updated ${sharedUpdated} shared votes → 6 points`);
-    console.log(`   ✅ Updated ${notSharedUpdated} non-shared votes → 3 points`);
+    console.log(
+      `   ✅ Updated ${notSharedUpdated} non-shared votes → 3 points`,
+    );
   }
 
   /**
@@ -564,9 +623,12 @@ class FullRecalculator extends PointsBackfiller {
   async getSeason2VotesToBackfill(): Promise<Vote[]> {
     console.log('\n📊 Fetching ALL Season 2 votes for recalculation...');
 
-    const season2StartDate = SEASON_2_START_DATE.toISOString().slice(0, 19).replace('T', ' ');
+    const season2StartDate = SEASON_2_START_DATE.toISOString()
+      .slice(0, 19)
+      .replace('T', ' ');
 
-    const [rows] = await this.mysqlConn!.execute(`
+    const [rows] = await this.mysqlConn!.execute(
+      `
       SELECT
         v.transactionHash,
         v.date,
@@ -578,7 +640,9 @@ class FullRecalculator extends PointsBackfiller {
       INNER JOIN users u ON v.userId = u.id
       WHERE v.date >= ?
       ORDER BY v.date ASC
-    `, [season2StartDate]);
+    `,
+      [season2StartDate],
+    );
 
     const votes = (rows as any[]).map((row) => ({
       transactionHash: row.transactionHash,
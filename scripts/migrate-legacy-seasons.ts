@@ -0,0 +1,152 @@
+#!/usr/bin/env bun
+
+/**
+ * Migrate Legacy Seasons Script
+ *
+ * One-time move from the hard-coded seasons to the seasons table:
+ *   - creates Season 1 (until Dec 13, 2025 06:50:00 UTC) and Season 2
+ *     (open-ended from then on) if they do not exist yet
+ *   - copies users.totalS1Points into season_points, since Season 1 points
+ *     came from the old database and cannot be rebuilt from votes
+ *   - rebuilds Season 2 points from the votes tagged season = 2
+ *
+ * Votes already carry season 1 or 2 from the old backfill. Both steps
+ * overwrite, so the script can be re-run. Later seasons are created from the
+ * admin API and need none of this.
+ *
+ * Usage:
+ *   bun run scripts/migrate-legacy-seasons.ts
+ *   bun run scripts/migrate-legacy-seasons.ts --dry-run
+ */
+
+import * as mysql from 'mysql2/promise';
+
+// Season 2 started at Dec 13, 2025 06:50:00 UTC
+const SEASON_2_START_DATE = '2025-12-13 06:50:00';
+
+const LEGACY_SEASONS = [
+  {
+    id: 1,
+    name: 'Season 1',
+    countQuery: `SELECT COUNT(*) as cnt FROM users WHERE totalS1Points <> 0`,
+    pointsQuery: `
+      SELECT id, 1, totalS1Points
+      FROM users
+      WHERE totalS1Points <> 0
+    `,
+  },
+  {
+    id: 2,
+    name: 'Season 2',
+    countQuery: `SELECT COUNT(DISTINCT userId) as cnt FROM user_brand_votes WHERE season = 2`,
+    pointsQuery: `
+      SELECT userId, 2, SUM(COALESCE(pointsEarned, 0))
+      FROM user_brand_votes
+      WHERE season = 2 AND userId IS NOT NULL
+      GROUP BY userId
+    `,
+  },
+];
+
+async function main() {
+  const args = process.argv.slice(2);
+  const isDryRun = args.includes('--dry-run');
+
+  console.log('\n' + '='.repeat(50));
+  console.log('       LEGACY SEASON MIGRATION');
+  console.log('='.repeat(50));
+  console.log(`Mode: ${isDryRun ? 'DRY RUN (no changes)' : 'LIVE'}`);
+  console.log('='.repeat(50));
+
+  console.log('\n🔌 Connecting to MySQL...');
+
+  const mysqlConfig = {
+    host: process.env.DATABASE_HOST,
+    port: parseInt(process.env.DATABASE_PORT || '3306', 10),
+    user: process.env.DATABASE_USER,
+    password: process.env.DATABASE_PASSWORD,
+    database: process.env.DATABASE_NAME,
+  };
+
+  if (!mysqlConfig.host || !mysqlConfig.user || !mysqlConfig.database) {
+    console.error(
+      '❌ MySQL environment variables required: DATABASE_HOST, DATABASE_USER, DATABASE_PASSWORD, DATABASE_NAME',
+    );
+    process.exit(1);
+  }
+
+  const conn = await mysql.createConnection(mysqlConfig);
+  console.log('✅ Connected to MySQL');
+
+  try {
+    const [firstVoteRows] = await conn.execute(
+      `SELECT MIN(date) as firstVote FROM user_brand_votes`,
+    );
+    const season1Start =
+      (firstVoteRows as any[])[0].firstVote || SEASON_2_START_DATE;
+
+    const seasonDates = {
+      1: { startsAt: season1Start, endsAt: SEASON_2_START_DATE },
+      2: { startsAt: SEASON_2_START_DATE, endsAt: null },
+    };
+
+    for (const season of LEGACY_SEASONS) {
+      const { startsAt, endsAt } = seasonDates[season.id];
+
+      const [existing] = await conn.execute(
+        `SELECT id FROM seasons WHERE id = ?`,
+        [season.id],
+      );
+      const [pointsRows] = await conn.execute(season.countQuery);
+      const usersWithPoints = (pointsRows as any[])[0].cnt;
+
+      console.log(`\n🗓️ ${season.name}`);
+      console.log(`   Starts: ${startsAt}`);
+      console.log(`   Ends: ${endsAt || 'open-ended'}`);
+      console.log(`   Users with points: ${usersWithPoints}`);
+
+      if (isDryRun) {
+        console.log(
+          `   Would ${(existing as any[]).length ? 'keep' : 'create'} the season and write ${usersWithPoints} point totals`,
+        );
+        continue;
+      }
+
+      if ((existing as any[]).length === 0) {
+        await conn.execute(
+          `INSERT INTO seasons (id, name, startsAt, endsAt) VALUES (?, ?, ?, ?)`,
+          [season.id, season.name, startsAt, endsAt],
+        );
+        console.log(`   ✅ Created ${season.name}`);
+      } else {
+        console.log(`   ✅ ${season.name} already exists`);
+      }
+
+      await conn.beginTransaction();
+      await conn.execute(`DELETE FROM season_points WHERE seasonId = ?`, [
+        season.id,
+      ]);
+      const [result] = await conn.execute(`
+        INSERT INTO season_points (userId, seasonId, points)
+        ${season.pointsQuery}
+      `);
+      await conn.commit();
+      console.log(
+        `   ✅ Wrote ${(result as any).affectedRows} season point totals`,
+      );
+    }
+
+    if (isDryRun) {
+      console.log('\n⚠️ DRY RUN - No changes made');
+    }
+
+    console.log('\n✅ Done!');
+  } catch (error) {
+    console.error('\n❌ Error:', error);
+    process.exit(1);
+  } finally {
+    await conn.end();
+  }
+}
+
+main();
@@ -0,0 +1,200 @@
+#!/usr/bin/env bun
+
+/**
+ * Migrate Placeholder Votes Script
+ *
+ * Moves the legacy "placeholder" rows out of user_brand_votes. These were
+ * created when a reward claim was indexed before its vote: the claim tx hash
+ * was used as the primary key and all three brands were left NULL. The row
+ * is the only copy of the claim (claimTxHash, claimedAt, castHash), so each
+ * one is turned back into a pending REWARD_CLAIM indexer event waiting on
+ * the day's vote, the way out-of-order claims are held now.
+ *
+ * A placeholder also kept the real vote of that day out, so processed VOTE
+ * events of the same FID and day whose vote is not stored are reset to be
+ * ingested again. Run the indexer sync afterwards to backfill those votes;
+ * the pending-events cron then applies each claim once its vote is stored.
+ *
+ * Usage:
+ *   bun run scripts/migrate-placeholder-votes.ts
+ *   bun run scripts/migrate-placeholder-votes.ts --dry-run
+ */
+
+import * as mysql from 'mysql2/promise';
+
+const PLACEHOLDER_CONDITION = `
+  v.brand1Id IS NULL
+  AND v.brand2Id IS NULL
+  AND v.brand3Id IS NULL
+  AND v.claimTxHash IS NOT NULL
+  AND v.transactionHash = v.claimTxHash
+`;
+
+/**
+ * Rebuilds the indexer payload of the claim a placeholder row stands for.
+ * The block number and log index were never stored on the row.
+ */
+function toRewardClaimPayload(row: any) {
+  const timestamp = Math.floor(new Date(row.claimedAt).getTime() / 1000);
+  return {
+    id: `${row.claimTxHash}-0`,
+    recipient: row.address || '',
+    fid: row.fid,
+    amount: String(row.rewardAmount ?? '0'),
+    day: String(row.day),
+    castHash: row.castHash,
+    caller: row.address || '',
+    blockNumber: '0',
+    transactionHash: row.claimTxHash,
+    timestamp: String(timestamp),
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const isDryRun = args.includes('--dry-run');
+
+  console.log('\n' + '='.repeat(50));
+  console.log('     PLACEHOLDER VOTE MIGRATION');
+  console.log('='.repeat(50));
+  console.log(`Mode: ${isDryRun ? 'DRY RUN (no changes)' : 'LIVE'}`);
+  console.log('='.repeat(50));
+
+  console.log('\n🔌 Connecting to MySQL...');
+
+  const mysqlConfig = {
+    host: process.env.DATABASE_HOST,
+    port: parseInt(process.env.DATABASE_PORT || '3306', 10),
+    user: process.env.DATABASE_USER,
+    password: process.env.DATABASE_PASSWORD,
+    database: process.env.DATABASE_NAME,
+  };
+
+  if (!mysqlConfig.host || !mysqlConfig.user || !mysqlConfig.database) {
+    console.error(
+      '❌ MySQL environment variables required: DATABASE_HOST, DATABASE_USER, DATABASE_PASSWORD, DATABASE_NAME',
+    );
+    process.exit(1);
+  }
+
+  const conn = await mysql.createConnection(mysqlConfig);
+  console.log('✅ Connected to MySQL');
+
+  try {
+    const [rows] = await conn.execute(`
+      SELECT v.transactionHash, v.day, v.rewardAmount, v.castHash,
+             v.claimedAt, v.claimTxHash, u.fid, u.address
+      FROM user_brand_votes v
+      LEFT JOIN users u ON u.id = v.userId
+      WHERE ${PLACEHOLDER_CONDITION}
+      ORDER BY v.day
+    `);
+    const placeholders = rows as any[];
+
+    console.log(`\n📊 Found ${placeholders.length} placeholder votes`);
+    for (const row of placeholders) {
+      console.log(
+        `   - ${row.transactionHash} (fid ${row.fid}, day ${row.day})`,
+      );
+    }
+
+    if (placeholders.length === 0) {
+      console.log('\n✅ Nothing to do');
+      return;
+    }
+
+    if (isDryRun) {
+      console.log('\n⚠️ DRY RUN - No changes made');
+      console.log(
+        `   Would move ${placeholders.length} placeholder votes to pending claim events`,
+      );
+      return;
+    }
+
+    let migrated = 0;
+    let votesReset = 0;
+
+    for (const row of placeholders) {
+      if (!row.fid) {
+        console.warn(
+          `   ⚠️ Skipping ${row.transactionHash}: its user no longer exists`,
+        );
+        continue;
+      }
+
+      // The event and the row swap places atomically, so the claim is never
+      // lost and never held twice
+      await conn.beginTransaction();
+      try {
+        // A claim that was redelivered after the event log existed already
+        // has a row; keep its original payload and park it again
+        await conn.execute(
+          `
+          INSERT INTO indexer_events
+            (eventType, eventKey, payload, status, dependsOn, pendingSince, attempts)
+          VALUES ('reward_claim', ?, ?, 'pending', ?, NOW(), 0)
+          ON DUPLICATE KEY UPDATE
+            status = 'pending',
+            dependsOn = VALUES(dependsOn),
+            pendingSince = NOW(),
+            result = NULL,
+            error = NULL,
+            processedAt = NULL
+          `,
+          [
+            row.claimTxHash,
+            JSON.stringify(toRewardClaimPayload(row)),
+            `vote:${row.fid}:${row.day}`,
+          ],
+        );
+
+        await conn.execute(
+          `DELETE FROM user_brand_votes WHERE transactionHash = ?`,
+          [row.transactionHash],
+        );
+
+        // Votes the placeholder turned away were recorded as processed with
+        // nothing stored; let the next delivery ingest them
+        const [reset] = await conn.execute(
+          `
+          UPDATE indexer_events e
+          SET e.status = 'received', e.result = NULL, e.processedAt = NULL
+          WHERE e.eventType = 'vote'
+            AND e.status = 'processed'
+            AND JSON_EXTRACT(e.payload, '$.fid') = ?
+            AND FLOOR(JSON_UNQUOTE(JSON_EXTRACT(e.payload, '$.timestamp')) / 86400) = ?
+            AND NOT EXISTS (
+              SELECT 1 FROM user_brand_votes v
+              WHERE v.transactionHash = e.eventKey
+            )
+          `,
+          [row.fid, row.day],
+        );
+
+        await conn.commit();
+        migrated++;
+        votesReset += (reset as any).affectedRows;
+      } catch (error) {
+        await conn.rollback();
+        throw error;
+      }
+    }
+
+    console.log(
+      `\n✅ Moved ${migrated} placeholder votes to pending claim events`,
+    );
+    console.log(`✅ Reset ${votesReset} vote events to be ingested again`);
+    console.log(
+      '   Run the indexer sync to backfill the votes these claims wait on',
+    );
+
+    console.log('\n✅ Done!');
+  } catch (error) {
+    console.error('\n❌ Error:', error);
+    process.exit(1);
+  } finally {
+    await conn.end();
+  }
+}
+
+main();
@@ -17,6 +17,12 @@
 import { Client } from 'pg';
 import * as mysql from 'mysql2/promise';
 import { createHash } from 'crypto';
+import { ScoringRules } from '../src/models';
+import {
+  DEFAULT_SCORING_RULES,
+  DEFAULT_SCORING_RULES_VERSION,
+  getRewardAmountWei,
+} from '../src/core/scoring/services/scoring-rules';
 
 // Configuration interfaces
 interface IndexerConfig {
@@ -48,6 +54,11 @@ class VoteSyncer {
   private mysqlConnection: mysql.Connection;
   private userCache = new Map<number, number>(); // fid -> userId
   private brandCache = new Set<number>(); // brandId
+  private scoringVersions: Array<{
+    version: number;
+    rules: ScoringRules;
+    effectiveFrom: Date;
+  }> = [];
   private stats: SyncStats = {
     totalIndexerVotes: 0,
     totalProductionVotes: 0,
@@ -163,6 +174,31 @@ class VoteSyncer {
       this.brandCache.add(brand.id);
     });
     console.log(`✅ Loaded ${this.brandCache.size} brands into cache`);
+
+    // Load the scoring rules versions; version 1 lives in code. Season
+    // versions are picked by season rather than date, so they are left out
+    const [versions] = await this.mysqlConnection.execute(
+      'SELECT version, rules, effectiveFrom FROM scoring_rules_versions WHERE seasonId IS NULL ORDER BY version',
+    );
+    this.scoringVersions = (versions as any[]).map((row) => ({
+      version: row.version,
+      rules: { ...DEFAULT_SCORING_RULES, ...row.rules },
+      effectiveFrom: new Date(row.effectiveFrom),
+    }));
+    if (
+      !this.scoringVersions.some(
+        (row) => row.version === DEFAULT_SCORING_RULES_VERSION,
+      )
+    ) {
+      this.scoringVersions.unshift({
+        version: DEFAULT_SCORING_RULES_VERSION,
+        rules: DEFAULT_SCORING_RULES,
+        effectiveFrom: new Date(0),
+      });
+    }
+    console.log(
+      `✅ Loaded ${this.scoringVersions.length} scoring rules versions`,
+    );
   }
 
   /**
@@ -304,12 +340,23 @@ class VoteSyncer {
   }
 
   /**
-   * Calculate reward amount in wei (cost * 10)
+   * Scoring rules version in effect at a vote's timestamp
    */
-  calculateRewardAmount(cost: string): string {
-    const costBigInt = BigInt(cost);
-    const rewardBigInt = costBigInt * 10n;
-    return rewardBigInt.toString();
+  getScoringVersion(timestamp: string | number) {
+    const date = new Date(Number(timestamp) * 1000);
+    return this.scoringVersions.reduce((current, candidate) =>
+      candidate.effectiveFrom <= date ? candidate : current,
+    );
+  }
+
+  /**
+   * Calculate reward amount in wei (BRND paid * the version's reward multiplier)
+   */
+  calculateRewardAmount(cost: string, timestamp: string | number): string {
+    return getRewardAmountWei(
+      this.getScoringVersion(timestamp).rules,
+      this.weiToBrnd(cost),
+    );
   }
 
   /**
@@ -330,7 +377,10 @@ class VoteSyncer {
       const voteDate = this.timestampToMysqlDate(indexerVote.timestamp);
       const day = this.calculateDay(indexerVote.timestamp);
       const brndPaid = this.weiToBrnd(indexerVote.cost);
-      const rewardAmount = this.calculateRewardAmount(indexerVote.cost);
+      const rewardAmount = this.calculateRewardAmount(
+        indexerVote.cost,
+        indexerVote.timestamp,
+      );
 
       // Validate that we have exactly 3 brand IDs
       if (brandIds.length !== 3) {
@@ -356,8 +406,8 @@ class VoteSyncer {
         `INSERT INTO user_brand_votes (
           transactionHash, id, userId, brand1Id, brand2Id, brand3Id, 
           date, shared, brndPaidWhenCreatingPodium, rewardAmount, day,
-          shareVerified, castHash
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          shareVerified, castHash, scoringRulesVersion
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           indexerVote.transaction_hash,
           indexerVote.id,
@@ -372,6 +422,7 @@ class VoteSyncer {
           day,
           false, // shareVerified (will be updated when reward is claimed)
           null, // castHash (will be updated when reward is claimed)
+          this.getScoringVersion(indexerVote.timestamp).version,
         ],
       );
 
@@ -397,7 +448,10 @@ class VoteSyncer {
       const voteDate = this.timestampToMysqlDate(indexerVote.timestamp);
       const day = this.calculateDay(indexerVote.timestamp);
       const brndPaid = this.weiToBrnd(indexerVote.cost);
-      const rewardAmount = this.calculateRewardAmount(indexerVote.cost);
+      const rewardAmount = this.calculateRewardAmount(
+        indexerVote.cost,
+        indexerVote.timestamp,
+      );
 
       // Only update if there are actual differences
       const needsUpdate =
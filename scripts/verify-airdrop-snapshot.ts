@@ -0,0 +1,156 @@
+#!/usr/bin/env bun
+
+/**
+ * Verify Airdrop Snapshot Script
+ *
+ * Rebuilds an airdrop merkle root and checks it. Against the database, the
+ * root is rebuilt from the stored airdrop_leaves.leafHash values and compared
+ * with airdrop_snapshots.merkleRoot. With --file, an exported proofs file is
+ * checked on its own (no database needed): leaf hashes, root and every proof.
+ *
+ * Usage:
+ *   bun run scripts/verify-airdrop-snapshot.ts                   # Active snapshot
+ *   bun run scripts/verify-airdrop-snapshot.ts --snapshot 3      # Snapshot by id
+ *   bun run scripts/verify-airdrop-snapshot.ts --file proofs.json
+ */
+
+import * as fs from 'fs';
+import * as mysql from 'mysql2/promise';
+import {
+  AirdropProofsFile,
+  buildAirdropTree,
+  hashAirdropLeaf,
+  verifyAirdropProofsFile,
+} from '../src/core/airdrop/services/airdrop-merkle';
+
+function printFids(label: string, fids: number[]) {
+  if (fids.length === 0) {
+    return;
+  }
+  console.log(`❌ ${label}: ${fids.length}`);
+  console.log(
+    `   ${fids.slice(0, 20).join(', ')}${fids.length > 20 ? ', ...' : ''}`,
+  );
+}
+
+function verifyFile(path: string): boolean {
+  const file: AirdropProofsFile = JSON.parse(fs.readFileSync(path, 'utf8'));
+  const result = verifyAirdropProofsFile(file);
+
+  console.log(`Snapshot:      ${file.snapshotId} (version ${file.version})`);
+  console.log(
+    `Claims:        ${result.claimCount} (file says ${file.totalUsers})`,
+  );
+  console.log(`Merkle root:   ${result.merkleRoot}`);
+  console.log(`Rebuilt root:  ${result.rebuiltRoot}`);
+  console.log('');
+  printFids(
+    'Leaf hashes not matching fid and amount',
+    result.invalidLeafHashes,
+  );
+  printFids('Proofs not verifying against the root', result.invalidProofs);
+
+  return result.valid && result.claimCount === file.totalUsers;
+}
+
+async function verifyDatabase(snapshotId?: number): Promise<boolean> {
+  const conn = await mysql.createConnection({
+    host: process.env.DATABASE_HOST,
+    port: parseInt(process.env.DATABASE_PORT || '3306', 10),
+    user: process.env.DATABASE_USER,
+    password: process.env.DATABASE_PASSWORD,
+    database: process.env.DATABASE_NAME,
+  });
+
+  console.log('✅ Connected to MySQL\n');
+
+  try {
+    const [snapshots] = snapshotId
+      ? await conn.execute(`SELECT * FROM airdrop_snapshots WHERE id = ?`, [
+          snapshotId,
+        ])
+      : await conn.execute(
+          `SELECT * FROM airdrop_snapshots WHERE isActive = 1 LIMIT 1`,
+        );
+    const snapshot = (snapshots as any[])[0];
+    if (!snapshot) {
+      console.log(
+        snapshotId
+          ? `❌ Snapshot ${snapshotId} not found`
+          : '❌ No active snapshot',
+      );
+      return false;
+    }
+
+    const [rows] = await conn.execute(
+      `SELECT fid, baseAmount, leafHash FROM airdrop_leaves WHERE snapshotId = ? ORDER BY fid ASC`,
+      [snapshot.id],
+    );
+    const leaves = rows as {
+      fid: number;
+      baseAmount: number;
+      leafHash: string;
+    }[];
+
+    const rebuiltRoot = buildAirdropTree(
+      leaves.map((leaf) => leaf.leafHash),
+    ).getHexRoot();
+    const invalidLeafHashes = leaves
+      .filter(
+        (leaf) => hashAirdropLeaf(leaf.fid, leaf.baseAmount) !== leaf.leafHash,
+      )
+      .map((leaf) => leaf.fid);
+
+    console.log(`Snapshot:      ${snapshot.id} (version ${snapshot.version})`);
+    console.log(
+      `Leaves:        ${leaves.length} (snapshot says ${snapshot.totalUsers})`,
+    );
+    console.log(`Frozen:        ${snapshot.isFrozen ? 'yes' : 'no'}`);
+    console.log(`Active:        ${snapshot.isActive ? 'yes' : 'no'}`);
+    console.log(`Merkle root:   ${snapshot.merkleRoot}`);
+    console.log(`Rebuilt root:  ${rebuiltRoot}`);
+    console.log('');
+    printFids('Leaf hashes not matching fid and amount', invalidLeafHashes);
+
+    return (
+      rebuiltRoot === snapshot.merkleRoot &&
+      leaves.length === snapshot.totalUsers &&
+      invalidLeafHashes.length === 0
+    );
+  } finally {
+    await conn.end();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const fileIndex = args.indexOf('--file');
+  const snapshotIndex = args.indexOf('--snapshot');
+
+  console.log('\n' + '='.repeat(60));
+  console.log('         AIRDROP SNAPSHOT VERIFICATION');
+  console.log('='.repeat(60));
+
+  const valid =
+    fileIndex !== -1
+      ? verifyFile(args[fileIndex + 1])
+      : await verifyDatabase(
+          snapshotIndex !== -1
+            ? parseInt(args[snapshotIndex + 1], 10)
+            : undefined,
+        );
+
+  console.log(
+    valid ? '✅ Snapshot verified' : '❌ Snapshot verification FAILED',
+  );
+  console.log('='.repeat(60));
+
+  if (!valid) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
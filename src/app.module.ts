@@ -19,8 +19,26 @@ import {
   AirdropScore,
   AirdropSnapshot,
   AirdropLeaf,
+  AirdropRound,
   RewardClaim,
   CollectibleActivity,
+  IndexerEvent,
+  IndexerSyncCheckpoint,
+  BrandScoreEntry,
+  BrandRankingSnapshot,
+  RankingQueueEntry,
+  LiveEvent,
+  Season,
+  SeasonPoints,
+  PointsLedgerEntry,
+  BrandRequest,
+  BrandRequestVote,
+  BrandFollow,
+  ScoringRulesVersion,
+  VoteQualityFlag,
+  BrandAffinity,
+  UserFollowing,
+  BackgroundJob,
 } from './models';
 
 @Module({
@@ -45,8 +63,26 @@ import {
         AirdropScore,
         AirdropSnapshot,
         AirdropLeaf,
+        AirdropRound,
         RewardClaim,
         CollectibleActivity,
+        IndexerEvent,
+        IndexerSyncCheckpoint,
+        BrandScoreEntry,
+        BrandRankingSnapshot,
+        RankingQueueEntry,
+        LiveEvent,
+        Season,
+        SeasonPoints,
+        PointsLedgerEntry,
+        BrandRequest,
+        BrandRequestVote,
+        BrandFollow,
+        ScoringRulesVersion,
+        VoteQualityFlag,
+        BrandAffinity,
+        UserFollowing,
+        BackgroundJob,
       ],
       // Important: Set synchronize to false in production for safety
       synchronize: false, // Enabled to automatically sync schema changes
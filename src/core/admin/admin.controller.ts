@@ -15,15 +15,40 @@ import { ApiTags } from '@nestjs/swagger';
 import { Response } from 'express';
 import { AdminService } from './services/admin.service';
 import { ContractUploadService } from '../blockchain/services/contract-upload.service';
+import { IndexerEventService } from '../blockchain/services/indexer-event.service';
 import { AirdropService } from '../airdrop/services/airdrop.service';
+import { AirdropConfigOverrides } from '../airdrop/services/airdrop-config';
+import { AirdropRoundService } from '../airdrop/services/airdrop-round.service';
 import { PodiumService } from '../embeds/services/podium.service';
 import { FarcasterNotificationService } from '../notification/services/farcaster-notification.service';
 import { BrandRankingService } from '../brand/services/brand-ranking.service';
+import { BrandScoreLedgerService } from '../brand/services/brand-score-ledger.service';
+import { BrandRankingSnapshotService } from '../brand/services/brand-ranking-snapshot.service';
+import { BrandRequestService } from '../brand/services/brand-request.service';
+import { BrandAffinityService } from '../brand/services/brand-affinity.service';
+import { RankingQueueService } from '../../services/ranking-queue.service';
+import { SeasonService } from '../season/services';
+import { ScoringService } from '../scoring/services';
+import { VoteQualityService } from '../vote-quality/services';
+import { PointsLedgerService } from '../points/services';
+import { TagService } from '../tag/services';
+import { JobService } from '../job/services';
 import {
   CreateBrandDto,
   UpdateBrandDto,
   PrepareMetadataDto,
   BlockchainBrandDto,
+  CreateSeasonDto,
+  UpdateSeasonDto,
+  PointsAdjustmentDto,
+  ApproveBrandRequestDto,
+  RejectBrandRequestDto,
+  CreateTagDto,
+  UpdateTagDto,
+  SetBrandTagsDto,
+  CreateScoringRulesVersionDto,
+  CreateAirdropRoundDto,
+  UpdateAirdropRoundDto,
 } from './dto';
 import {
   AdminGuard,
@@ -37,6 +62,15 @@ import { createWalletClient, http, parseAbi } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { base } from 'viem/chains';
 import { getConfig } from '../../security/config';
+import {
+  BackgroundJobStatusEnum,
+  BackgroundJobTypeEnum,
+  BrandRankingPeriodEnum,
+  BrandRequestStatusEnum,
+  IndexerEventStatusEnum,
+  IndexerEventTypeEnum,
+  VoteQualityFlagStatusEnum,
+} from '../../models';
 
 const adminFids = [5431, 16098, 8109];
 
@@ -50,6 +84,19 @@ export class AdminController {
     private readonly podiumService: PodiumService,
     private readonly farcasterNotificationService: FarcasterNotificationService,
     private readonly brandRankingService: BrandRankingService,
+    private readonly indexerEventService: IndexerEventService,
+    private readonly brandScoreLedgerService: BrandScoreLedgerService,
+    private readonly brandRankingSnapshotService: BrandRankingSnapshotService,
+    private readonly rankingQueueService: RankingQueueService,
+    private readonly seasonService: SeasonService,
+    private readonly pointsLedgerService: PointsLedgerService,
+    private readonly brandRequestService: BrandRequestService,
+    private readonly tagService: TagService,
+    private readonly scoringService: ScoringService,
+    private readonly voteQualityService: VoteQualityService,
+    private readonly brandAffinityService: BrandAffinityService,
+    private readonly jobService: JobService,
+    private readonly airdropRoundService: AirdropRoundService,
   ) {
     console.log('AdminController initialized');
   }
@@ -304,6 +351,151 @@ export class AdminController {
     }
   }
 
+  /**
+   * Get all tags with the number of brands carrying each
+   */
+  @Get('tags')
+  @UseGuards(AuthorizationGuard)
+  async getTags(@Session() user: QuickAuthPayload, @Res() res: Response) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'getTags',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const tags = await this.tagService.getTags();
+      return hasResponse(res, { tags });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getTags',
+        error.message,
+      );
+    }
+  }
+
+  @Post('tags')
+  @UseGuards(AuthorizationGuard)
+  async createTag(
+    @Session() user: QuickAuthPayload,
+    @Body() body: CreateTagDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'createTag',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const tag = await this.tagService.createTag(body.name);
+      return hasResponse(res, tag);
+    } catch (error) {
+      return hasError(res, HttpStatus.BAD_REQUEST, 'createTag', error.message);
+    }
+  }
+
+  @Put('tags/:id')
+  @UseGuards(AuthorizationGuard)
+  async renameTag(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Body() body: UpdateTagDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'renameTag',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const tag = await this.tagService.renameTag(Number(id), body.name);
+      return hasResponse(res, tag);
+    } catch (error) {
+      return hasError(res, HttpStatus.BAD_REQUEST, 'renameTag', error.message);
+    }
+  }
+
+  /**
+   * Delete a tag and remove it from every brand
+   */
+  @Delete('tags/:id')
+  @UseGuards(AuthorizationGuard)
+  async deleteTag(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'deleteTag',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const result = await this.tagService.deleteTag(Number(id));
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(res, HttpStatus.BAD_REQUEST, 'deleteTag', error.message);
+    }
+  }
+
+  /**
+   * Replace a brand's tags
+   */
+  @Put('brands/:id/tags')
+  @UseGuards(AuthorizationGuard)
+  async setBrandTags(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Body() body: SetBrandTagsDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'setBrandTags',
+        'Admin access required',
+      );
+    }
+    if (!Array.isArray(body.tags)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'setBrandTags',
+        'tags must be an array of tag names',
+      );
+    }
+
+    try {
+      const tags = await this.tagService.setBrandTags(Number(id), body.tags);
+      return hasResponse(res, { brandId: Number(id), tags });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'setBrandTags',
+        error.message,
+      );
+    }
+  }
+
   /**
    * Refresh follower count for a specific brand from Neynar
    */
@@ -369,7 +561,8 @@ export class AdminController {
     }
 
     try {
-      const result = await this.adminService.fixWeeklyScores();
+      // Weekly scores are derived from the score ledger like every other period
+      const result = await this.brandScoreLedgerService.rebuildCounters();
       return hasResponse(res, result);
     } catch (error) {
       return hasError(
@@ -381,571 +574,1914 @@ export class AdminController {
     }
   }
 
-  // @Get('recalculate-score-day/20441')
-  // async recalculateScoreDayFor20441(@Res() res: Response) {
-  //   console.log(`recalculateScoreDayFor20441 called`);
-
-  //   try {
-  //     const result = await this.adminService.recalculateScoreDayForDay(20441);
-  //     console.log('ScoreDay recalculation result:', result);
-
-  //     return hasResponse(res, {
-  //       success: true,
-  //       message: result.message,
-  //       data: {
-  //         day: 20441,
-  //         updatedBrands: result.updatedBrands,
-  //         processedVotes: result.processedVotes,
-  //       },
-  //     });
-  //   } catch (error) {
-  //     console.error('Error in recalculateScoreDayFor20441:', error);
-  //     return hasError(
-  //       res,
-  //       HttpStatus.INTERNAL_SERVER_ERROR,
-  //       'recalculateScoreDayFor20441',
-  //       error.message,
-  //     );
-  //   }
-  // }
-
   /**
-   * Bulk operations endpoint for advanced admin tasks
+   * Brand scores summed from the score ledger over an arbitrary window
    */
-  @Post('brands/bulk-refresh-followers')
-  async bulkRefreshFollowerCounts(
+  @Get('brand-scores')
+  @UseGuards(AuthorizationGuard)
+  async getBrandScores(
     @Session() user: QuickAuthPayload,
-    @Body() { brandIds }: { brandIds: number[] },
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Query('limit') limit: number = 50,
     @Res() res: Response,
   ) {
-    console.log(
-      `bulkRefreshFollowerCounts called - user: ${user.sub}, brandIds: ${brandIds?.join(', ')}`,
-    );
-
     if (!adminFids.includes(user.sub)) {
-      console.log(`Access denied for user ${user.sub} - not in admin list`);
       return hasError(
         res,
         HttpStatus.FORBIDDEN,
-        'bulkRefreshFollowerCounts',
+        'getBrandScores',
         'Admin access required',
       );
     }
 
-    if (!brandIds || !Array.isArray(brandIds) || brandIds.length === 0) {
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
       return hasError(
         res,
         HttpStatus.BAD_REQUEST,
-        'bulkRefreshFollowerCounts',
-        'brandIds array is required',
+        'getBrandScores',
+        'from and to must be ISO dates',
       );
     }
 
     try {
-      console.log(
-        `Bulk refreshing follower counts for ${brandIds.length} brands...`,
-      );
-      const results = [];
-      const errors = [];
-
-      for (const brandId of brandIds) {
-        try {
-          const brand =
-            await this.adminService.refreshBrandFollowerCount(brandId);
-          results.push({
-            id: brand.id,
-            name: brand.name,
-            followerCount: brand.followerCount,
-            success: true,
-          });
-        } catch (error) {
-          console.error(`Failed to refresh brand ${brandId}:`, error.message);
-          errors.push({
-            id: brandId,
-            error: error.message,
-            success: false,
-          });
-        }
-      }
-
-      console.log(
-        `Bulk refresh completed: ${results.length} success, ${errors.length} errors`,
+      const scores = await this.brandScoreLedgerService.getScoresForWindow(
+        fromDate,
+        toDate,
+        Number(limit),
       );
 
       return hasResponse(res, {
-        message: `Bulk refresh completed: ${results.length} success, ${errors.length} errors`,
-        results,
-        errors,
-        summary: {
-          total: brandIds.length,
-          successful: results.length,
-          failed: errors.length,
-        },
+        from: fromDate ?? null,
+        to: toDate ?? null,
+        scores,
       });
     } catch (error) {
-      console.error('Error in bulkRefreshFollowerCounts:', error);
       return hasError(
         res,
         HttpStatus.INTERNAL_SERVER_ERROR,
-        'bulkRefreshFollowerCounts',
+        'getBrandScores',
         error.message,
       );
     }
   }
 
   /**
-   * Prepares brand metadata for on-chain creation
-   * Validates data first, then uploads metadata to IPFS and returns hash for smart contract
+   * Recomputes every brand's score counters from the score ledger.
+   * Pass backfill: true to first write ledger entries for votes that predate it.
    */
-  @Post('brands/prepare-metadata')
+  @Post('brand-scores/rebuild')
   @UseGuards(AuthorizationGuard)
-  async prepareBrandMetadata(
+  async rebuildBrandScores(
     @Session() user: QuickAuthPayload,
-    @Body() prepareMetadataDto: PrepareMetadataDto,
+    @Body() body: { backfill?: boolean },
     @Res() res: Response,
   ) {
-    console.log(
-      `prepareBrandMetadata called - user: ${user.sub}`,
-      prepareMetadataDto,
-    );
-
     if (!adminFids.includes(user.sub)) {
-      console.log(`Access denied for user ${user.sub} - not in admin list`);
       return hasError(
         res,
         HttpStatus.FORBIDDEN,
-        'prepareBrandMetadata',
+        'rebuildBrandScores',
         'Admin access required',
       );
     }
 
     try {
-      // Step 1: Validate brand data first
-      console.log('Validating brand data...');
-      const validation =
-        await this.adminService.validateBrandForCreation(prepareMetadataDto);
-
-      if (!validation.valid) {
-        console.log('Brand validation failed:', validation);
-        return hasResponse(res, {
-          success: false,
-          valid: false,
-          message: validation.message,
-          conflicts: validation.conflicts || [],
-        });
-      }
-
-      console.log(
-        'Brand validation passed, proceeding to metadata preparation...',
+      logger.log(
+        `📒 [ADMIN] Brand score rebuild requested by FID ${user.sub}${body?.backfill ? ' (with backfill)' : ''}`,
       );
-
-      // Step 2: Prepare metadata and upload to IPFS
-      const result =
-        await this.adminService.prepareBrandMetadata(prepareMetadataDto);
-      console.log('Brand metadata prepared successfully:', result);
-
-      return hasResponse(res, {
-        success: true,
-        valid: true,
-        metadataHash: result.metadataHash,
-        handle: result.handle,
-        fid: result.fid,
-        walletAddress: result.walletAddress,
-        message:
-          'Brand validation passed and metadata uploaded to IPFS. Use the metadataHash to create the brand on-chain.',
-      });
+      const result = await this.brandScoreLedgerService.rebuildCounters(
+        body?.backfill === true,
+      );
+      return hasResponse(res, result);
     } catch (error) {
-      console.error('Error in prepareBrandMetadata:', error);
       return hasError(
         res,
         HttpStatus.INTERNAL_SERVER_ERROR,
-        'prepareBrandMetadata',
+        'rebuildBrandScores',
         error.message,
       );
     }
   }
 
   /**
-   * Check contract sync status - compares database brands vs contract brands
-   * TESTING MODE: Auth disabled
+   * Captures ranking snapshots for every closed period starting on or after
+   * `from`. Existing snapshots in the range are replaced.
    */
-  @Get('brands/contract-status')
-  async getContractStatus(@Res() res: Response) {
-    logger.log(`getContractStatus called - testing mode (no auth)`);
-
-    // TESTING: Admin check disabled
-    // if (!adminFids.includes(user.sub)) {
-    //   logger.log(`Access denied for user ${user.sub} - not in admin list`);
-    //   return hasError(
-    //     res,
-    //     HttpStatus.FORBIDDEN,
-    //     'getContractStatus',
-    //     'Admin access required',
-    //   );
-    // }
+  @Post('ranking-snapshots/backfill')
+  @UseGuards(AuthorizationGuard)
+  async backfillRankingSnapshots(
+    @Session() user: QuickAuthPayload,
+    @Body() body: { period: BrandRankingPeriodEnum; from: string; to?: string },
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'backfillRankingSnapshots',
+        'Admin access required',
+      );
+    }
 
-    try {
-      logger.log('Checking contract sync status...');
-      const status = await this.contractUploadService.checkContractStatus();
+    if (!Object.values(BrandRankingPeriodEnum).includes(body?.period)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'backfillRankingSnapshots',
+        'Period must be "day", "week" or "month"',
+      );
+    }
 
-      logger.log('Contract status:', {
-        database: status.database.totalBrands,
-        contract: status.contract.totalBrands,
-        needsUpload: status.sync.needsUpload,
-        difference: status.sync.difference,
-      });
+    const from = new Date(body.from);
+    const to = body.to ? new Date(body.to) : new Date();
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'backfillRankingSnapshots',
+        'Invalid from or to date',
+      );
+    }
 
-      return hasResponse(res, {
-        ...status,
-        message: status.sync.needsUpload
-          ? `${status.sync.difference} brands need to be uploaded to contract`
-          : 'Database and contract are in sync',
-      });
+    try {
+      logger.log(
+        `📸 [ADMIN] ${body.period} ranking snapshot backfill from ${from.toISOString()} requested by FID ${user.sub}`,
+      );
+      const result = await this.brandRankingSnapshotService.backfillSnapshots(
+        body.period,
+        from,
+        to,
+      );
+      return hasResponse(res, result);
     } catch (error) {
-      logger.error('Error checking contract status:', error);
       return hasError(
         res,
         HttpStatus.INTERNAL_SERVER_ERROR,
-        'getContractStatus',
-        `Failed to check contract status: ${error.message}`,
+        'backfillRankingSnapshots',
+        error.message,
       );
     }
   }
 
   /**
-   * Upload all brands from database to smart contract
+   * Rebuild the brand affinity graph now instead of waiting for the nightly run
    */
-  @Get('brands/upload-all-brands-to-contract')
-  // UPLOAD BRANDS TO SMART CONTRACT
-  async uploadBrandsToContract(@Res() res: Response) {
-    logger.log(`uploadBrandsToContract called - testing mode (no auth)`);
-
-    try {
-      logger.log('Starting brand upload to contract...');
-
-      // 1. Get all brands from database
-      const brands = await this.contractUploadService.getAllBrandsForContract();
-      logger.log(`Found ${brands.length} brands in database`);
+  @Post('brand-affinity/rebuild')
+  @UseGuards(AuthorizationGuard)
+  async rebuildBrandAffinity(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'rebuildBrandAffinity',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(
+        `🕸️ [ADMIN] Brand affinity rebuild requested by FID ${user.sub}`,
+      );
+      const result = await this.brandAffinityService.build();
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'rebuildBrandAffinity',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Brands waiting for the real-time ranking worker
+   */
+  @Get('ranking-queue')
+  @UseGuards(AuthorizationGuard)
+  async getRankingQueueStatus(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'getRankingQueueStatus',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const status = await this.rankingQueueService.getQueueStatus();
+      return hasResponse(res, status);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getRankingQueueStatus',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Create a season. Votes cast from startsAt on are tagged with it.
+   */
+  @Post('seasons')
+  @UseGuards(AuthorizationGuard)
+  async createSeason(
+    @Session() user: QuickAuthPayload,
+    @Body() body: CreateSeasonDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'createSeason',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const season = await this.seasonService.createSeason({
+        ...body,
+        startsAt: body.startsAt ? new Date(body.startsAt) : undefined,
+        endsAt: body.endsAt ? new Date(body.endsAt) : null,
+      });
+      return hasResponse(res, season);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'createSeason',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Update a season's dates, contract or scoring rules. Run the recompute
+   * endpoint afterwards if the dates moved.
+   */
+  @Put('seasons/:id')
+  @UseGuards(AuthorizationGuard)
+  async updateSeason(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Body() body: UpdateSeasonDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'updateSeason',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const season = await this.seasonService.updateSeason(Number(id), {
+        ...body,
+        startsAt: body.startsAt ? new Date(body.startsAt) : undefined,
+        endsAt:
+          body.endsAt === undefined
+            ? undefined
+            : body.endsAt
+              ? new Date(body.endsAt)
+              : null,
+      });
+      return hasResponse(res, season);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'updateSeason',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Retag the votes inside a season's dates and rebuild its points table
+   * from the points ledger
+   */
+  @Post('seasons/:id/recompute')
+  @UseGuards(AuthorizationGuard)
+  async recomputeSeason(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'recomputeSeason',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(
+        `🗓️ [ADMIN] Season ${id} recompute requested by FID ${user.sub}`,
+      );
+      const result = await this.seasonService.recomputeSeason(Number(id));
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'recomputeSeason',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Add a scoring rules version. It applies to votes cast from effectiveFrom
+   * on; votes already stored keep the version that scored them.
+   */
+  @Post('scoring-rules')
+  @UseGuards(AuthorizationGuard)
+  async createScoringRulesVersion(
+    @Session() user: QuickAuthPayload,
+    @Body() body: CreateScoringRulesVersionDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'createScoringRulesVersion',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const version = await this.scoringService.createVersion(
+        {
+          rules: body.rules || {},
+          effectiveFrom: body.effectiveFrom
+            ? new Date(body.effectiveFrom)
+            : undefined,
+          description: body.description,
+        },
+        user.sub,
+      );
+      return hasResponse(res, version);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'createScoringRulesVersion',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Vote-quality review queue: users with flags in the given status (open
+   * by default) and what they were flagged for
+   */
+  @Get('vote-quality/flags')
+  @UseGuards(AuthorizationGuard)
+  async getVoteQualityFlags(
+    @Session() user: QuickAuthPayload,
+    @Query('status') status: VoteQualityFlagStatusEnum,
+    @Query('limit') limit: number = 50,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'getVoteQualityFlags',
+        'Admin access required',
+      );
+    }
+
+    if (
+      status &&
+      !Object.values(VoteQualityFlagStatusEnum).includes(status as any)
+    ) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getVoteQualityFlags',
+        `status must be one of ${Object.values(VoteQualityFlagStatusEnum).join(', ')}`,
+      );
+    }
+
+    try {
+      const users = await this.voteQualityService.getFlaggedUsers(
+        status || VoteQualityFlagStatusEnum.OPEN,
+        Math.min(Math.max(Number(limit) || 50, 1), 200),
+      );
+      return hasResponse(res, { users });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getVoteQualityFlags',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Run the vote-quality scan now instead of waiting for the hourly run
+   */
+  @Post('vote-quality/scan')
+  @UseGuards(AuthorizationGuard)
+  async scanVoteQuality(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'scanVoteQuality',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(`🕵️ [ADMIN] Vote-quality scan requested by FID ${user.sub}`);
+      const result = await this.voteQualityService.scan();
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'scanVoteQuality',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Clear a user's open vote-quality flags after review
+   */
+  @Post('vote-quality/users/:userId/dismiss')
+  @UseGuards(AuthorizationGuard)
+  async dismissVoteQualityFlags(
+    @Session() user: QuickAuthPayload,
+    @Param('userId') userId: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'dismissVoteQualityFlags',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const result = await this.voteQualityService.dismissFlags(
+        Number(userId),
+        user.sub,
+      );
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'dismissVoteQualityFlags',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Ban a flagged user. Their votes are taken out of the brand scores and
+   * the affected brands are re-ranked.
+   */
+  @Post('vote-quality/users/:userId/ban')
+  @UseGuards(AuthorizationGuard)
+  async banFlaggedUser(
+    @Session() user: QuickAuthPayload,
+    @Param('userId') userId: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'banFlaggedUser',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const result = await this.voteQualityService.banUser(
+        Number(userId),
+        user.sub,
+      );
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'banFlaggedUser',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Credit or debit a user's points by hand. The note is required and shows
+   * up in the user's points history.
+   */
+  @Post('points/adjustments')
+  @UseGuards(AuthorizationGuard)
+  async postPointsAdjustment(
+    @Session() user: QuickAuthPayload,
+    @Body() body: PointsAdjustmentDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'postPointsAdjustment',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const result = await this.pointsLedgerService.postAdjustment({
+        fid: Number(body.fid),
+        points: body.points,
+        note: body.note,
+        seasonId:
+          body.seasonId === undefined || body.seasonId === null
+            ? body.seasonId
+            : Number(body.seasonId),
+        actorFid: user.sub,
+      });
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'postPointsAdjustment',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Recomputes every user's points and season totals from the points ledger.
+   * Pass backfill: true to first write opening balances for points earned
+   * before the ledger existed.
+   */
+  @Post('points/rebuild')
+  @UseGuards(AuthorizationGuard)
+  async rebuildPoints(
+    @Session() user: QuickAuthPayload,
+    @Body() body: { backfill?: boolean },
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'rebuildPoints',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(
+        `🧾 [ADMIN] Points rebuild requested by FID ${user.sub}${body?.backfill ? ' (with backfill)' : ''}`,
+      );
+      const result = await this.pointsLedgerService.rebuildTotals(
+        body?.backfill === true,
+      );
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'rebuildPoints',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Brand request review queue, most upvoted first
+   */
+  @Get('brand-requests')
+  @UseGuards(AuthorizationGuard)
+  async getBrandRequests(
+    @Session() user: QuickAuthPayload,
+    @Query('status')
+    status: BrandRequestStatusEnum = BrandRequestStatusEnum.PENDING,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 50,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'getBrandRequests',
+        'Admin access required',
+      );
+    }
+
+    if (!Object.values(BrandRequestStatusEnum).includes(status)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getBrandRequests',
+        `Invalid status: ${status}`,
+      );
+    }
+
+    try {
+      const requests = await this.brandRequestService.getRequests(
+        status,
+        Math.max(1, Number(page) || 1),
+        Math.min(200, Math.max(1, Number(limit) || 50)),
+      );
+      return hasResponse(res, requests);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getBrandRequests',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Approve a brand request: creates the brand, uploads it to the contract
+   * and notifies the requester
+   */
+  @Post('brand-requests/:id/approve')
+  @UseGuards(AuthorizationGuard)
+  async approveBrandRequest(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Body() body: ApproveBrandRequestDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'approveBrandRequest',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const result = await this.brandRequestService.approveRequest(
+        Number(id),
+        user.sub,
+        body || {},
+      );
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'approveBrandRequest',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Reject a brand request. The reason is sent to the requester.
+   */
+  @Post('brand-requests/:id/reject')
+  @UseGuards(AuthorizationGuard)
+  async rejectBrandRequest(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Body() body: RejectBrandRequestDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'rejectBrandRequest',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const request = await this.brandRequestService.rejectRequest(
+        Number(id),
+        user.sub,
+        body?.reason,
+      );
+      return hasResponse(res, request);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'rejectBrandRequest',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Queues a follower count refresh of the given brands as a background job;
+   * follow it with GET jobs/:id
+   */
+  @Post('brands/bulk-refresh-followers')
+  async bulkRefreshFollowerCounts(
+    @Session() user: QuickAuthPayload,
+    @Body() { brandIds }: { brandIds: number[] },
+    @Res() res: Response,
+  ) {
+    console.log(
+      `bulkRefreshFollowerCounts called - user: ${user.sub}, brandIds: ${brandIds?.join(', ')}`,
+    );
+
+    if (!adminFids.includes(user.sub)) {
+      console.log(`Access denied for user ${user.sub} - not in admin list`);
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'bulkRefreshFollowerCounts',
+        'Admin access required',
+      );
+    }
+
+    if (!brandIds || !Array.isArray(brandIds) || brandIds.length === 0) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'bulkRefreshFollowerCounts',
+        'brandIds array is required',
+      );
+    }
+
+    try {
+      const job = await this.jobService.enqueue(
+        BackgroundJobTypeEnum.BRAND_FOLLOWER_REFRESH,
+        { brandIds },
+        { requestedByFid: user.sub },
+      );
+
+      return hasResponse(res, {
+        message: `Follower refresh for ${brandIds.length} brands queued`,
+        job,
+      });
+    } catch (error) {
+      console.error('Error in bulkRefreshFollowerCounts:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'bulkRefreshFollowerCounts',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Prepares brand metadata for on-chain creation
+   * Validates data first, then uploads metadata to IPFS and returns hash for smart contract
+   */
+  @Post('brands/prepare-metadata')
+  @UseGuards(AuthorizationGuard)
+  async prepareBrandMetadata(
+    @Session() user: QuickAuthPayload,
+    @Body() prepareMetadataDto: PrepareMetadataDto,
+    @Res() res: Response,
+  ) {
+    console.log(
+      `prepareBrandMetadata called - user: ${user.sub}`,
+      prepareMetadataDto,
+    );
+
+    if (!adminFids.includes(user.sub)) {
+      console.log(`Access denied for user ${user.sub} - not in admin list`);
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'prepareBrandMetadata',
+        'Admin access required',
+      );
+    }
+
+    try {
+      // Step 1: Validate brand data first
+      console.log('Validating brand data...');
+      const validation =
+        await this.adminService.validateBrandForCreation(prepareMetadataDto);
+
+      if (!validation.valid) {
+        console.log('Brand validation failed:', validation);
+        return hasResponse(res, {
+          success: false,
+          valid: false,
+          message: validation.message,
+          conflicts: validation.conflicts || [],
+        });
+      }
+
+      console.log(
+        'Brand validation passed, proceeding to metadata preparation...',
+      );
+
+      // Step 2: Prepare metadata and upload to IPFS
+      const result =
+        await this.adminService.prepareBrandMetadata(prepareMetadataDto);
+      console.log('Brand metadata prepared successfully:', result);
+
+      return hasResponse(res, {
+        success: true,
+        valid: true,
+        metadataHash: result.metadataHash,
+        handle: result.handle,
+        fid: result.fid,
+        walletAddress: result.walletAddress,
+        message:
+          'Brand validation passed and metadata uploaded to IPFS. Use the metadataHash to create the brand on-chain.',
+      });
+    } catch (error) {
+      console.error('Error in prepareBrandMetadata:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'prepareBrandMetadata',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Check contract sync status - compares database brands vs contract brands
+   * TESTING MODE: Auth disabled
+   */
+  @Get('brands/contract-status')
+  async getContractStatus(@Res() res: Response) {
+    logger.log(`getContractStatus called - testing mode (no auth)`);
+
+    // TESTING: Admin check disabled
+    // if (!adminFids.includes(user.sub)) {
+    //   logger.log(`Access denied for user ${user.sub} - not in admin list`);
+    //   return hasError(
+    //     res,
+    //     HttpStatus.FORBIDDEN,
+    //     'getContractStatus',
+    //     'Admin access required',
+    //   );
+    // }
+
+    try {
+      logger.log('Checking contract sync status...');
+      const status = await this.contractUploadService.checkContractStatus();
+
+      logger.log('Contract status:', {
+        database: status.database.totalBrands,
+        contract: status.contract.totalBrands,
+        needsUpload: status.sync.needsUpload,
+        difference: status.sync.difference,
+      });
+
+      return hasResponse(res, {
+        ...status,
+        message: status.sync.needsUpload
+          ? `${status.sync.difference} brands need to be uploaded to contract`
+          : 'Database and contract are in sync',
+      });
+    } catch (error) {
+      logger.error('Error checking contract status:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getContractStatus',
+        `Failed to check contract status: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Upload all brands from database to smart contract
+   */
+  @Get('brands/upload-all-brands-to-contract')
+  // UPLOAD BRANDS TO SMART CONTRACT
+  async uploadBrandsToContract(@Res() res: Response) {
+    logger.log(`uploadBrandsToContract called - testing mode (no auth)`);
+
+    try {
+      logger.log('Starting brand upload to contract...');
+
+      // 1. Get all brands from database
+      const brands = await this.contractUploadService.getAllBrandsForContract();
+      logger.log(`Found ${brands.length} brands in database`);
+
+      if (brands.length === 0) {
+        return hasResponse(res, {
+          success: true,
+          message: 'No brands found in database to upload',
+          summary: {
+            totalBrands: 0,
+            batchesProcessed: 0,
+            successfulBrands: 0,
+            failedBrands: 0,
+            gasUsed: 0,
+            transactionHashes: [],
+          },
+        });
+      }
+
+      // 2. Validate data
+      const validation =
+        this.contractUploadService.validateBrandsForContract(brands);
+      if (!validation.valid) {
+        logger.error('Brand validation failed:', validation.issues);
+        return hasError(
+          res,
+          HttpStatus.BAD_REQUEST,
+          'uploadBrandsToContract',
+          `Validation failed: ${validation.issues.join(', ')}`,
+        );
+      }
+
+      logger.log('✅ Brand validation passed');
+
+      // Organize the brands array by their id in ascending order before proceeding
+      brands.sort((a, b) => a.id - b.id);
+      console.log('*************************************************');
+      console.log('*************************************************');
+      console.log('*************************************************');
+      console.log('*************************************************');
+      console.log('*************************************************');
+      console.log('IN HERE, THE BRANDS SORTED ARE:', brands);
+      console.log('*************************************************');
+      console.log('*************************************************');
+      console.log('*************************************************');
+      console.log('*************************************************');
+      console.log(
+        '***********************we will return now**************************',
+      );
+      console.log('*************************************************');
+
+      // 3. Upload to contract in batches
+
+      const result =
+        await this.contractUploadService.uploadBrandsToContract(brands);
+
+      const summary = {
+        totalBrands: brands.length,
+        batchesProcessed: result.batchesProcessed,
+        successfulBrands: result.successfulBrands,
+        failedBrands: result.failedBrands,
+        gasUsed: result.totalGasUsed,
+        transactionHashes: result.txHashes,
+      };
+
+      if (result.errors.length > 0) {
+        logger.error('Some batches failed during upload:', result.errors);
+      }
+
+      const success = result.successfulBrands > 0;
+      const message = success
+        ? `Upload completed: ${result.successfulBrands}/${brands.length} brands uploaded successfully`
+        : 'Upload failed: No brands were uploaded successfully';
+
+      return hasResponse(res, {
+        success,
+        message,
+        summary,
+        errors: result.errors.length > 0 ? result.errors : undefined,
+      });
+    } catch (error) {
+      logger.error('Critical error during brand upload:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'uploadBrandsToContract',
+        `Upload failed: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Preview what would happen during brand upload (dry run)
+   */
+  @Get('brands/upload-preview')
+  async previewBrandUpload(@Res() res: Response) {
+    logger.log(`previewBrandUpload called - testing mode (no auth)`);
+
+    // TESTING: Admin check disabled
+    // if (!adminFids.includes(user.sub)) {
+    //   logger.log(`Access denied for user ${user.sub} - not in admin list`);
+    //   return hasError(
+    //     res,
+    //     HttpStatus.FORBIDDEN,
+    //     'previewBrandUpload',
+    //     'Admin access required',
+    //   );
+    // }
+
+    try {
+      logger.log('Generating brand upload preview...');
+
+      // Get all brands that would be uploaded
+      const brands = await this.contractUploadService.getAllBrandsForContract();
+      logger.log(`Found ${brands.length} brands for preview`);
+
+      // Validate the data
+      const validation =
+        this.contractUploadService.validateBrandsForContract(brands);
+
+      // Calculate batches
+      const batchSize = 20; // Same as in the service
+      const totalBatches = Math.ceil(brands.length / batchSize);
+
+      // Sample of brands that would be uploaded
+      const sampleBrands = brands.slice(0, 5).map((brand) => ({
+        handle: brand.handle,
+        fid: brand.fid,
+        walletAddress: brand.walletAddress,
+        hasMetadata: !!brand.metadataHash,
+      }));
+
+      return hasResponse(res, {
+        preview: {
+          totalBrands: brands.length,
+          totalBatches,
+          batchSize,
+          sampleBrands,
+          validation: {
+            valid: validation.valid,
+            issues: validation.issues,
+          },
+          estimatedGasCost: 'Gas estimation requires actual contract call',
+          warning: 'This is a preview only. No brands will be uploaded.',
+        },
+        message: validation.valid
+          ? `Ready to upload ${brands.length} brands in ${totalBatches} batches`
+          : `Validation failed: ${validation.issues.length} issues found`,
+      });
+    } catch (error) {
+      logger.error('Error generating upload preview:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'previewBrandUpload',
+        `Preview failed: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Upload limited number of brands for testing (e.g., 20 brands)
+   */
+  @Post('brands/upload-to-contract-testing')
+  async uploadLimitedBrandsToContract(
+    @Body() body: { limit?: number },
+    @Res() res: Response,
+  ) {
+    const limit = body.limit || 20; // Default to 20 for testing
+    logger.log(
+      `uploadLimitedBrandsToContract called - limit: ${limit} (no auth)`,
+    );
+
+    try {
+      logger.log(
+        `Starting limited brand upload to contract (${limit} brands)...`,
+      );
+
+      // Get limited brands from database (non-uploaded only)
+      const brands =
+        await this.contractUploadService.getAllBrandsForContract(limit);
+      logger.log(
+        `Found ${brands.length} non-uploaded brands (requesting ${limit})`,
+      );
+
+      if (brands.length === 0) {
+        return hasResponse(res, {
+          success: true,
+          message: 'No non-uploaded brands found for limited upload',
+          summary: {
+            totalBrands: 0,
+            batchesProcessed: 0,
+            successfulBrands: 0,
+            failedBrands: 0,
+            gasUsed: 0,
+            transactionHashes: [],
+          },
+        });
+      }
+
+      // Validate brands
+      const validation =
+        this.contractUploadService.validateBrandsForContract(brands);
+
+      if (!validation.valid) {
+        logger.error('Brand validation failed:', validation.issues);
+        return hasError(
+          res,
+          HttpStatus.BAD_REQUEST,
+          'uploadLimitedBrandsToContract',
+          `Validation failed: ${validation.issues.join(', ')}`,
+        );
+      }
+
+      logger.log('✅ Brand validation passed');
+
+      // Upload to contract (don't reset flags - incremental upload)
+      const result = await this.contractUploadService.uploadBrandsToContract(
+        brands,
+        false,
+      );
+
+      const summary = {
+        totalBrands: brands.length,
+        batchesProcessed: result.batchesProcessed,
+        successfulBrands: result.successfulBrands,
+        failedBrands: result.failedBrands,
+        gasUsed: result.totalGasUsed,
+        transactionHashes: result.txHashes,
+      };
+
+      if (result.errors.length > 0) {
+        logger.error(
+          'Some batches failed during limited upload:',
+          result.errors,
+        );
+      }
+
+      const success = result.successfulBrands > 0;
+      const message = success
+        ? `Limited upload completed: ${result.successfulBrands}/${brands.length} brands uploaded successfully`
+        : 'Limited upload failed: No brands were uploaded successfully';
+
+      return hasResponse(res, {
+        success,
+        message,
+        summary,
+        errors: result.errors.length > 0 ? result.errors : undefined,
+      });
+    } catch (error) {
+      logger.error('Critical error during limited brand upload:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'uploadLimitedBrandsToContract',
+        `Limited upload failed: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * View upload status of all brands
+   */
+  @Get('brands/upload-status')
+  async getBrandUploadStatus(@Res() res: Response) {
+    logger.log(`getBrandUploadStatus called (no auth)`);
+
+    try {
+      const totalBrands =
+        await this.contractUploadService.getDatabaseBrandCount();
+      const uploadedCount =
+        await this.contractUploadService.getUploadedBrandCount();
+      const remainingCount = totalBrands - uploadedCount;
+
+      return hasResponse(res, {
+        totalBrands,
+        uploadedBrands: uploadedCount,
+        remainingBrands: remainingCount,
+        uploadProgress:
+          totalBrands > 0 ? Math.round((uploadedCount / totalBrands) * 100) : 0,
+        message:
+          remainingCount > 0
+            ? `${remainingCount} brands remaining to upload`
+            : 'All brands are uploaded to contract',
+      });
+    } catch (error) {
+      logger.error('Error getting brand upload status:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getBrandUploadStatus',
+        `Failed to get upload status: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Reset upload flags (for new contract deployment)
+   */
+  @Post('brands/reset-upload-flags')
+  async resetUploadFlags(@Res() res: Response) {
+    logger.log(`resetUploadFlags called (no auth)`);
+
+    try {
+      await this.contractUploadService.resetUploadFlags();
+      const totalBrands =
+        await this.contractUploadService.getDatabaseBrandCount();
+
+      return hasResponse(res, {
+        success: true,
+        message: `Reset upload flags for ${totalBrands} brands`,
+        totalBrands,
+        note: 'All brands are now marked as non-uploaded. Ready for fresh contract deployment.',
+      });
+    } catch (error) {
+      logger.error('Error resetting upload flags:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'resetUploadFlags',
+        `Failed to reset flags: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * List stored indexer events (failed ones by default) for recovery
+   */
+  @Get('indexer-events')
+  @UseGuards(AuthorizationGuard)
+  async getIndexerEvents(
+    @Session() user: QuickAuthPayload,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 50,
+    @Query('status') status: string = IndexerEventStatusEnum.FAILED,
+    @Query('eventType') eventType: IndexerEventTypeEnum,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'getIndexerEvents',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const statuses = status
+        .split(',')
+        .map((value) => value.trim()) as IndexerEventStatusEnum[];
+      const [events, count] = await this.indexerEventService.getEvents(
+        Number(page),
+        Number(limit),
+        statuses,
+        eventType,
+      );
+      const counts = await this.indexerEventService.getStatusCounts();
+
+      return hasResponse(res, {
+        events,
+        counts,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: count,
+          totalPages: Math.ceil(count / limit),
+        },
+      });
+    } catch (error) {
+      logger.error('Error listing indexer events:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getIndexerEvents',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Replay a single stored indexer event through its handler
+   */
+  @Post('indexer-events/:id/replay')
+  @UseGuards(AuthorizationGuard)
+  async replayIndexerEvent(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'replayIndexerEvent',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(`replayIndexerEvent called - user: ${user.sub}, id: ${id}`);
+      const event = await this.indexerEventService.replay(Number(id));
+
+      return hasResponse(res, {
+        success: event.status === IndexerEventStatusEnum.PROCESSED,
+        event,
+      });
+    } catch (error) {
+      logger.error('Error replaying indexer event:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'replayIndexerEvent',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Replay failed indexer events in bulk, in block order
+   */
+  @Post('indexer-events/replay-failed')
+  @UseGuards(AuthorizationGuard)
+  async replayFailedIndexerEvents(
+    @Session() user: QuickAuthPayload,
+    @Body() body: { eventType?: IndexerEventTypeEnum; limit?: number },
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'replayFailedIndexerEvents',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(
+        `replayFailedIndexerEvents called - user: ${user.sub}, eventType: ${body?.eventType || 'all'}`,
+      );
+      const summary = await this.indexerEventService.replayFailed(
+        body?.eventType,
+        body?.limit || 100,
+      );
+
+      return hasResponse(res, summary);
+    } catch (error) {
+      logger.error('Error replaying failed indexer events:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'replayFailedIndexerEvents',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Every airdrop snapshot version, newest first
+   */
+  @Get('airdrop/snapshots')
+  @UseGuards(AuthorizationGuard)
+  async listAirdropSnapshots(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'listAirdropSnapshots',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const snapshots = await this.airdropService.listSnapshots();
+      return hasResponse(res, { snapshots });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'listAirdropSnapshots',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Freeze the current airdrop leaderboard into a new, inactive snapshot
+   */
+  @Post('airdrop/snapshots')
+  @UseGuards(AuthorizationGuard)
+  async createAirdropSnapshot(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'createAirdropSnapshot',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(`createAirdropSnapshot called - user: ${user.sub}`);
+      const snapshot = await this.airdropService.generateAirdropSnapshot();
+      return hasResponse(res, snapshot);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'createAirdropSnapshot',
+        error.message,
+      );
+    }
+  }
 
-      if (brands.length === 0) {
-        return hasResponse(res, {
-          success: true,
-          message: 'No brands found in database to upload',
-          summary: {
-            totalBrands: 0,
-            batchesProcessed: 0,
-            successfulBrands: 0,
-            failedBrands: 0,
-            gasUsed: 0,
-            transactionHashes: [],
-          },
-        });
-      }
+  /**
+   * Serve claims from a snapshot. Fails unless its merkle root is the one
+   * currently set on the airdrop contract.
+   */
+  @Post('airdrop/snapshots/:id/activate')
+  @UseGuards(AuthorizationGuard)
+  async activateAirdropSnapshot(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'activateAirdropSnapshot',
+        'Admin access required',
+      );
+    }
 
-      // 2. Validate data
-      const validation =
-        this.contractUploadService.validateBrandsForContract(brands);
-      if (!validation.valid) {
-        logger.error('Brand validation failed:', validation.issues);
-        return hasError(
-          res,
-          HttpStatus.BAD_REQUEST,
-          'uploadBrandsToContract',
-          `Validation failed: ${validation.issues.join(', ')}`,
-        );
-      }
+    try {
+      logger.log(
+        `activateAirdropSnapshot called - user: ${user.sub}, snapshot: ${id}`,
+      );
+      const snapshot = await this.airdropService.activateSnapshot(Number(id));
+      return hasResponse(res, snapshot);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'activateAirdropSnapshot',
+        error.message,
+      );
+    }
+  }
 
-      logger.log('✅ Brand validation passed');
+  /**
+   * FIDs added, removed and reallocated between two airdrop snapshots
+   */
+  @Get('airdrop/snapshots/diff')
+  @UseGuards(AuthorizationGuard)
+  async diffAirdropSnapshots(
+    @Session() user: QuickAuthPayload,
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'diffAirdropSnapshots',
+        'Admin access required',
+      );
+    }
 
-      // Organize the brands array by their id in ascending order before proceeding
-      brands.sort((a, b) => a.id - b.id);
-      console.log('*************************************************');
-      console.log('*************************************************');
-      console.log('*************************************************');
-      console.log('*************************************************');
-      console.log('*************************************************');
-      console.log('IN HERE, THE BRANDS SORTED ARE:', brands);
-      console.log('*************************************************');
-      console.log('*************************************************');
-      console.log('*************************************************');
-      console.log('*************************************************');
-      console.log(
-        '***********************we will return now**************************',
+    const fromId = Number(from);
+    const toId = Number(to);
+    if (!Number.isInteger(fromId) || !Number.isInteger(toId)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'diffAirdropSnapshots',
+        'from and to must be snapshot ids',
       );
-      console.log('*************************************************');
+    }
 
-      // 3. Upload to contract in batches
+    try {
+      const diff = await this.airdropService.diffSnapshots(fromId, toId);
+      return hasResponse(res, diff);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'diffAirdropSnapshots',
+        error.message,
+      );
+    }
+  }
 
-      const result =
-        await this.contractUploadService.uploadBrandsToContract(brands);
+  /**
+   * Re-run the airdrop calculation with different multiplier tiers, pool or
+   * number of users, without saving it. Returns the resulting distribution
+   * and the users who would gain or lose the most.
+   */
+  @Post('airdrop/simulate')
+  @UseGuards(AuthorizationGuard)
+  async simulateAirdrop(
+    @Session() user: QuickAuthPayload,
+    @Body() body: AirdropConfigOverrides & { limit?: number },
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'simulateAirdrop',
+        'Admin access required',
+      );
+    }
 
-      const summary = {
-        totalBrands: brands.length,
-        batchesProcessed: result.batchesProcessed,
-        successfulBrands: result.successfulBrands,
-        failedBrands: result.failedBrands,
-        gasUsed: result.totalGasUsed,
-        transactionHashes: result.txHashes,
-      };
+    try {
+      logger.log(`simulateAirdrop called - user: ${user.sub}`);
+      const { limit, ...overrides } = body || {};
+      const simulation = await this.airdropService.simulateAirdrop(
+        overrides,
+        Math.min(Math.max(Number(limit) || 20, 1), 100),
+      );
+      return hasResponse(res, simulation);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'simulateAirdrop',
+        error.message,
+      );
+    }
+  }
 
-      if (result.errors.length > 0) {
-        logger.error('Some batches failed during upload:', result.errors);
-      }
+  /**
+   * Every claim of a snapshot with its merkle proof, as a JSON file
+   */
+  @Get('airdrop/snapshots/:id/proofs')
+  @UseGuards(AuthorizationGuard)
+  async exportAirdropProofs(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'exportAirdropProofs',
+        'Admin access required',
+      );
+    }
 
-      const success = result.successfulBrands > 0;
-      const message = success
-        ? `Upload completed: ${result.successfulBrands}/${brands.length} brands uploaded successfully`
-        : 'Upload failed: No brands were uploaded successfully';
+    try {
+      const proofsFile = await this.airdropService.exportSnapshotProofs(
+        Number(id),
+      );
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="airdrop-proofs-v${proofsFile.version}.json"`,
+      );
+      return res.json(proofsFile);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'exportAirdropProofs',
+        error.message,
+      );
+    }
+  }
 
-      return hasResponse(res, {
-        success,
-        message,
-        summary,
-        errors: result.errors.length > 0 ? result.errors : undefined,
+  /**
+   * Upload a snapshot's proofs file to IPFS
+   */
+  @Post('airdrop/snapshots/:id/publish-proofs')
+  @UseGuards(AuthorizationGuard)
+  async publishAirdropProofs(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'publishAirdropProofs',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(
+        `publishAirdropProofs called - user: ${user.sub}, snapshot: ${id}`,
+      );
+      const result = await this.airdropService.publishSnapshotProofs(
+        Number(id),
+      );
+      return hasResponse(res, result);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'publishAirdropProofs',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Rebuild a snapshot's merkle root from its stored leaves and compare it
+   * with the stored root
+   */
+  @Get('airdrop/snapshots/:id/verify')
+  @UseGuards(AuthorizationGuard)
+  async verifyAirdropSnapshot(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'verifyAirdropSnapshot',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const verification = await this.airdropService.verifySnapshot(Number(id));
+      return hasResponse(res, verification);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'verifyAirdropSnapshot',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Every airdrop round, enabled or not, in claim order
+   */
+  @Get('airdrop/rounds')
+  @UseGuards(AuthorizationGuard)
+  async listAirdropRounds(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'listAirdropRounds',
+        'Admin access required',
+      );
+    }
+
+    try {
+      const rounds = await this.airdropRoundService.listRounds();
+      return hasResponse(res, { rounds });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'listAirdropRounds',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Add an airdrop round: a frozen snapshot claimed from its own contract,
+   * with a claim window and an optional linear vesting schedule
+   */
+  @Post('airdrop/rounds')
+  @UseGuards(AuthorizationGuard)
+  async createAirdropRound(
+    @Session() user: QuickAuthPayload,
+    @Body() body: CreateAirdropRoundDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'createAirdropRound',
+        'Admin access required',
+      );
+    }
+
+    try {
+      logger.log(`createAirdropRound called - user: ${user.sub}`);
+      const round = await this.airdropRoundService.createRound({
+        ...body,
+        snapshotId: Number(body.snapshotId),
+        claimStartsAt: body.claimStartsAt
+          ? new Date(body.claimStartsAt)
+          : undefined,
+        claimEndsAt: body.claimEndsAt ? new Date(body.claimEndsAt) : null,
+        vestingStartsAt: body.vestingStartsAt
+          ? new Date(body.vestingStartsAt)
+          : null,
+        vestingEndsAt: body.vestingEndsAt ? new Date(body.vestingEndsAt) : null,
       });
+      return hasResponse(res, round);
     } catch (error) {
-      logger.error('Critical error during brand upload:', error);
       return hasError(
         res,
-        HttpStatus.INTERNAL_SERVER_ERROR,
-        'uploadBrandsToContract',
-        `Upload failed: ${error.message}`,
+        HttpStatus.BAD_REQUEST,
+        'createAirdropRound',
+        error.message,
       );
     }
   }
 
   /**
-   * Preview what would happen during brand upload (dry run)
+   * Update an airdrop round's window, vesting schedule or contract, or
+   * disable it
    */
-  @Get('brands/upload-preview')
-  async previewBrandUpload(@Res() res: Response) {
-    logger.log(`previewBrandUpload called - testing mode (no auth)`);
+  @Put('airdrop/rounds/:id')
+  @UseGuards(AuthorizationGuard)
+  async updateAirdropRound(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Body() body: UpdateAirdropRoundDto,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'updateAirdropRound',
+        'Admin access required',
+      );
+    }
 
-    // TESTING: Admin check disabled
-    // if (!adminFids.includes(user.sub)) {
-    //   logger.log(`Access denied for user ${user.sub} - not in admin list`);
-    //   return hasError(
-    //     res,
-    //     HttpStatus.FORBIDDEN,
-    //     'previewBrandUpload',
-    //     'Admin access required',
-    //   );
-    // }
+    const toDate = (value: string | null | undefined) =>
+      value === undefined ? undefined : value ? new Date(value) : null;
 
     try {
-      logger.log('Generating brand upload preview...');
-
-      // Get all brands that would be uploaded
-      const brands = await this.contractUploadService.getAllBrandsForContract();
-      logger.log(`Found ${brands.length} brands for preview`);
-
-      // Validate the data
-      const validation =
-        this.contractUploadService.validateBrandsForContract(brands);
-
-      // Calculate batches
-      const batchSize = 20; // Same as in the service
-      const totalBatches = Math.ceil(brands.length / batchSize);
-
-      // Sample of brands that would be uploaded
-      const sampleBrands = brands.slice(0, 5).map((brand) => ({
-        handle: brand.handle,
-        fid: brand.fid,
-        walletAddress: brand.walletAddress,
-        hasMetadata: !!brand.metadataHash,
-      }));
-
-      return hasResponse(res, {
-        preview: {
-          totalBrands: brands.length,
-          totalBatches,
-          batchSize,
-          sampleBrands,
-          validation: {
-            valid: validation.valid,
-            issues: validation.issues,
-          },
-          estimatedGasCost: 'Gas estimation requires actual contract call',
-          warning: 'This is a preview only. No brands will be uploaded.',
-        },
-        message: validation.valid
-          ? `Ready to upload ${brands.length} brands in ${totalBatches} batches`
-          : `Validation failed: ${validation.issues.length} issues found`,
+      logger.log(`updateAirdropRound called - user: ${user.sub}, round: ${id}`);
+      const round = await this.airdropRoundService.updateRound(Number(id), {
+        ...body,
+        snapshotId:
+          body.snapshotId === undefined ? undefined : Number(body.snapshotId),
+        claimStartsAt: toDate(body.claimStartsAt),
+        claimEndsAt: toDate(body.claimEndsAt),
+        vestingStartsAt: toDate(body.vestingStartsAt),
+        vestingEndsAt: toDate(body.vestingEndsAt),
       });
+      return hasResponse(res, round);
     } catch (error) {
-      logger.error('Error generating upload preview:', error);
       return hasError(
         res,
-        HttpStatus.INTERNAL_SERVER_ERROR,
-        'previewBrandUpload',
-        `Preview failed: ${error.message}`,
+        HttpStatus.BAD_REQUEST,
+        'updateAirdropRound',
+        error.message,
       );
     }
   }
 
   /**
-   * Upload limited number of brands for testing (e.g., 20 brands)
+   * Background jobs, most recent first, optionally filtered by status and type
    */
-  @Post('brands/upload-to-contract-testing')
-  async uploadLimitedBrandsToContract(
-    @Body() body: { limit?: number },
+  @Get('jobs')
+  @UseGuards(AuthorizationGuard)
+  async getJobs(
+    @Session() user: QuickAuthPayload,
+    @Query('status') status: BackgroundJobStatusEnum,
+    @Query('type') type: BackgroundJobTypeEnum,
+    @Query('limit') limit: number = 50,
     @Res() res: Response,
   ) {
-    const limit = body.limit || 20; // Default to 20 for testing
-    logger.log(
-      `uploadLimitedBrandsToContract called - limit: ${limit} (no auth)`,
-    );
-
-    try {
-      logger.log(
-        `Starting limited brand upload to contract (${limit} brands)...`,
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'getJobs',
+        'Admin access required',
       );
+    }
 
-      // Get limited brands from database (non-uploaded only)
-      const brands =
-        await this.contractUploadService.getAllBrandsForContract(limit);
-      logger.log(
-        `Found ${brands.length} non-uploaded brands (requesting ${limit})`,
+    if (status && !Object.values(BackgroundJobStatusEnum).includes(status)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getJobs',
+        `status must be one of ${Object.values(BackgroundJobStatusEnum).join(', ')}`,
       );
-
-      if (brands.length === 0) {
-        return hasResponse(res, {
-          success: true,
-          message: 'No non-uploaded brands found for limited upload',
-          summary: {
-            totalBrands: 0,
-            batchesProcessed: 0,
-            successfulBrands: 0,
-            failedBrands: 0,
-            gasUsed: 0,
-            transactionHashes: [],
-          },
-        });
-      }
-
-      // Validate brands
-      const validation =
-        this.contractUploadService.validateBrandsForContract(brands);
-
-      if (!validation.valid) {
-        logger.error('Brand validation failed:', validation.issues);
-        return hasError(
-          res,
-          HttpStatus.BAD_REQUEST,
-          'uploadLimitedBrandsToContract',
-          `Validation failed: ${validation.issues.join(', ')}`,
-        );
-      }
-
-      logger.log('✅ Brand validation passed');
-
-      // Upload to contract (don't reset flags - incremental upload)
-      const result = await this.contractUploadService.uploadBrandsToContract(
-        brands,
-        false,
+    }
+    if (type && !Object.values(BackgroundJobTypeEnum).includes(type)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getJobs',
+        `type must be one of ${Object.values(BackgroundJobTypeEnum).join(', ')}`,
       );
+    }
 
-      const summary = {
-        totalBrands: brands.length,
-        batchesProcessed: result.batchesProcessed,
-        successfulBrands: result.successfulBrands,
-        failedBrands: result.failedBrands,
-        gasUsed: result.totalGasUsed,
-        transactionHashes: result.txHashes,
-      };
-
-      if (result.errors.length > 0) {
-        logger.error(
-          'Some batches failed during limited upload:',
-          result.errors,
-        );
-      }
-
-      const success = result.successfulBrands > 0;
-      const message = success
-        ? `Limited upload completed: ${result.successfulBrands}/${brands.length} brands uploaded successfully`
-        : 'Limited upload failed: No brands were uploaded successfully';
-
-      return hasResponse(res, {
-        success,
-        message,
-        summary,
-        errors: result.errors.length > 0 ? result.errors : undefined,
-      });
+    try {
+      const jobs = await this.jobService.listJobs(
+        { status, type },
+        Math.min(Math.max(Number(limit) || 50, 1), 200),
+      );
+      return hasResponse(res, { jobs });
     } catch (error) {
-      logger.error('Critical error during limited brand upload:', error);
       return hasError(
         res,
         HttpStatus.INTERNAL_SERVER_ERROR,
-        'uploadLimitedBrandsToContract',
-        `Limited upload failed: ${error.message}`,
+        'getJobs',
+        error.message,
       );
     }
   }
 
   /**
-   * View upload status of all brands
+   * A background job with its progress, result or error
    */
-  @Get('brands/upload-status')
-  async getBrandUploadStatus(@Res() res: Response) {
-    logger.log(`getBrandUploadStatus called (no auth)`);
+  @Get('jobs/:id')
+  @UseGuards(AuthorizationGuard)
+  async getJob(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
+      return hasError(
+        res,
+        HttpStatus.FORBIDDEN,
+        'getJob',
+        'Admin access required',
+      );
+    }
 
     try {
-      const totalBrands =
-        await this.contractUploadService.getDatabaseBrandCount();
-      const uploadedCount =
-        await this.contractUploadService.getUploadedBrandCount();
-      const remainingCount = totalBrands - uploadedCount;
-
-      return hasResponse(res, {
-        totalBrands,
-        uploadedBrands: uploadedCount,
-        remainingBrands: remainingCount,
-        uploadProgress:
-          totalBrands > 0 ? Math.round((uploadedCount / totalBrands) * 100) : 0,
-        message:
-          remainingCount > 0
-            ? `${remainingCount} brands remaining to upload`
-            : 'All brands are uploaded to contract',
-      });
+      const job = await this.jobService.getJob(Number(id));
+      if (!job) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getJob',
+          `Job ${id} not found`,
+        );
+      }
+      return hasResponse(res, job);
     } catch (error) {
-      logger.error('Error getting brand upload status:', error);
       return hasError(
         res,
         HttpStatus.INTERNAL_SERVER_ERROR,
-        'getBrandUploadStatus',
-        `Failed to get upload status: ${error.message}`,
+        'getJob',
+        error.message,
       );
     }
   }
 
   /**
-   * Reset upload flags (for new contract deployment)
+   * Cancel a queued job, or stop a running one after its current batch
    */
-  @Post('brands/reset-upload-flags')
-  async resetUploadFlags(@Res() res: Response) {
-    logger.log(`resetUploadFlags called (no auth)`);
-
-    try {
-      await this.contractUploadService.resetUploadFlags();
-      const totalBrands =
-        await this.contractUploadService.getDatabaseBrandCount();
-
-      return hasResponse(res, {
-        success: true,
-        message: `Reset upload flags for ${totalBrands} brands`,
-        totalBrands,
-        note: 'All brands are now marked as non-uploaded. Ready for fresh contract deployment.',
-      });
-    } catch (error) {
-      logger.error('Error resetting upload flags:', error);
+  @Post('jobs/:id/cancel')
+  @UseGuards(AuthorizationGuard)
+  async cancelJob(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ) {
+    if (!adminFids.includes(user.sub)) {
       return hasError(
         res,
-        HttpStatus.INTERNAL_SERVER_ERROR,
-        'resetUploadFlags',
-        `Failed to reset flags: ${error.message}`,
+        HttpStatus.FORBIDDEN,
+        'cancelJob',
+        'Admin access required',
       );
     }
+
+    try {
+      logger.log(`cancelJob called - user: ${user.sub}, job: ${id}`);
+      const job = await this.jobService.cancel(Number(id));
+      return hasResponse(res, job);
+    } catch (error) {
+      return hasError(res, HttpStatus.BAD_REQUEST, 'cancelJob', error.message);
+    }
   }
 
   @Get('podiums/generate-sample-image')
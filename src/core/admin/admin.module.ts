@@ -18,6 +18,12 @@ import { AirdropModule } from '../airdrop/airdrop.module';
 import { EmbedsModule } from '../embeds/embeds.module';
 import { NotificationModule } from '../notification/notification.module';
 import { BrandModule } from '../brand/brand.module';
+import { SeasonModule } from '../season/season.module';
+import { ScoringModule } from '../scoring/scoring.module';
+import { VoteQualityModule } from '../vote-quality/vote-quality.module';
+import { PointsModule } from '../points/points.module';
+import { TagModule } from '../tag/tag.module';
+import { JobModule } from '../job/job.module';
 import { IpfsService } from '../../utils/ipfs.service';
 
 @Module({
@@ -29,6 +35,12 @@ import { IpfsService } from '../../utils/ipfs.service';
     EmbedsModule,
     NotificationModule,
     BrandModule,
+    SeasonModule,
+    ScoringModule,
+    VoteQualityModule,
+    PointsModule,
+    TagModule,
+    JobModule,
   ],
   controllers: [AdminController],
   providers: [AdminService, IpfsService],
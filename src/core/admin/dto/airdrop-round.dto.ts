@@ -0,0 +1,23 @@
+export class CreateAirdropRoundDto {
+  name: string;
+  snapshotId: number;
+  contractAddress: string;
+  signatureDomain?: string; // EIP-712 domain name of the contract, BRNDAIRDROP1 by default
+  claimStartsAt: string; // ISO date
+  claimEndsAt?: string | null; // ISO date; omit for no end
+  vestingStartsAt?: string | null; // ISO date; omit both vesting dates for no vesting
+  vestingEndsAt?: string | null;
+  isEnabled?: boolean;
+}
+
+export class UpdateAirdropRoundDto {
+  name?: string;
+  snapshotId?: number;
+  contractAddress?: string;
+  signatureDomain?: string;
+  claimStartsAt?: string;
+  claimEndsAt?: string | null;
+  vestingStartsAt?: string | null;
+  vestingEndsAt?: string | null;
+  isEnabled?: boolean;
+}
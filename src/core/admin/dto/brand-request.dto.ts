@@ -0,0 +1,14 @@
+export class ApproveBrandRequestDto {
+  // Optional corrections to what the requester submitted
+  name?: string;
+  url?: string;
+  description?: string;
+  imageUrl?: string;
+  categoryId?: number; // Optional, will create "General" category if not provided
+  tags?: string[]; // Optional tag names, missing tags are created
+  uploadToContract?: boolean; // Defaults to true
+}
+
+export class RejectBrandRequestDto {
+  reason: string; // Sent to the requester
+}
@@ -10,4 +10,5 @@ export class CreateBrandDto {
   channel?: string; // Optional
   queryType: number; // 0: Channel, 1: Profile
   channelOrProfile?: string; // From frontend form
+  tags?: string[]; // Optional tag names, missing tags are created
 }
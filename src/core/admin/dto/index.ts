@@ -3,3 +3,9 @@ export * from './update-brand.dto';
 export * from './prepare-metadata.dto';
 export * from './blockchain-brand.dto';
 export * from './sync-contract-ids.dto';
+export * from './season.dto';
+export * from './points.dto';
+export * from './brand-request.dto';
+export * from './tag.dto';
+export * from './scoring.dto';
+export * from './airdrop-round.dto';
@@ -0,0 +1,6 @@
+export class PointsAdjustmentDto {
+  fid: number;
+  points: number; // Negative to debit
+  note: string; // Shown in the user's points history
+  seasonId?: number | null; // Omit for the running season, null for none
+}
@@ -0,0 +1,8 @@
+import { ScoringRules } from '../../../models';
+
+export class CreateScoringRulesVersionDto {
+  // Rules to change; everything left out is copied from the latest version
+  rules: Partial<ScoringRules>;
+  effectiveFrom?: string; // ISO date; defaults to now
+  description?: string;
+}
@@ -0,0 +1,18 @@
+import { SeasonScoringRules } from '../../../models';
+
+export class CreateSeasonDto {
+  id: number;
+  name: string;
+  startsAt: string; // ISO date, inclusive
+  endsAt?: string | null; // ISO date, exclusive; omit for an open-ended season
+  contractAddress?: string | null;
+  scoringRules?: SeasonScoringRules | null;
+}
+
+export class UpdateSeasonDto {
+  name?: string;
+  startsAt?: string;
+  endsAt?: string | null;
+  contractAddress?: string | null;
+  scoringRules?: SeasonScoringRules | null;
+}
@@ -0,0 +1,11 @@
+export class CreateTagDto {
+  name: string;
+}
+
+export class UpdateTagDto {
+  name: string;
+}
+
+export class SetBrandTagsDto {
+  tags: string[]; // Tag names, missing tags are created; [] clears the tags
+}
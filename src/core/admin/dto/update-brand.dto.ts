@@ -10,4 +10,5 @@ export class UpdateBrandDto {
   channel?: string;
   queryType?: number;
   channelOrProfile?: string; // From frontend form
+  tags?: string[]; // Replaces the brand's tags when given
 }
@@ -1,8 +1,8 @@
 // src/core/admin/services/admin.service.ts
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, Like } from 'typeorm';
-import { Brand, Category } from '../../../models';
+import { BackgroundJobTypeEnum, Brand, Category } from '../../../models';
 import {
   CreateBrandDto,
   UpdateBrandDto,
@@ -12,11 +12,26 @@ import {
 import NeynarService from '../../../utils/neynar';
 import { IpfsService } from '../../../utils/ipfs.service';
 import { BlockchainService } from '../../blockchain/services/blockchain.service';
+import { TagService } from '../../tag/services';
+import { BackgroundJobContext, JobService } from '../../job/services';
 
 import { UserBrandVotes } from '../../../models';
 
+// Where a BRAND_FOLLOWER_REFRESH job stopped, saved after each brand
+interface FollowerRefreshCheckpoint {
+  // Index in params.brandIds of the first brand not refreshed yet
+  nextIndex: number;
+  results: Array<{
+    id: number;
+    name: string;
+    followerCount: number;
+    success: true;
+  }>;
+  errors: Array<{ id: number; error: string; success: false }>;
+}
+
 @Injectable()
-export class AdminService {
+export class AdminService implements OnModuleInit {
   private neynarService: NeynarService;
 
   constructor(
@@ -28,166 +43,20 @@ export class AdminService {
     private readonly userBrandVotesRepository: Repository<UserBrandVotes>,
     private readonly ipfsService: IpfsService,
     private readonly blockchainService: BlockchainService,
+    private readonly tagService: TagService,
+    private readonly jobService: JobService,
   ) {
     this.neynarService = new NeynarService();
     console.log('AdminService initialized');
   }
 
-  async fixWeeklyScores(): Promise<{ message: string; updatedBrands: number }> {
-    console.log('🔄 Fixing weekly scores from votes since last reset...');
-
-    try {
-      // Calculate the last Friday 18:00 UTC (when weekly reset happened)
-      const lastFridayReset = this.getLastFridayReset();
-
-      console.log(
-        `📅 Calculating scores from: ${lastFridayReset.toISOString()}`,
-      );
-
-      // Use raw query to update weekly scores
-      const result = await this.brandRepository.query(
-        `
-        UPDATE brands b SET scoreWeek = (
-          SELECT COALESCE(SUM(
-            CASE 
-              WHEN ubv.brand1Id = b.id THEN 60
-              WHEN ubv.brand2Id = b.id THEN 30  
-              WHEN ubv.brand3Id = b.id THEN 10
-              ELSE 0
-            END
-          ), 0)
-          FROM user_brand_votes ubv
-          WHERE ubv.date > ?
-          AND (ubv.brand1Id = b.id OR ubv.brand2Id = b.id OR ubv.brand3Id = b.id)
-        )
-      `,
-        [lastFridayReset],
-      );
-
-      console.log('✅ Weekly scores fixed successfully');
-
-      return {
-        message: 'Weekly scores fixed successfully',
-        updatedBrands: result.affectedRows || 0,
-      };
-    } catch (error) {
-      console.error('❌ Failed to fix weekly scores:', error);
-      throw new Error(`Failed to fix weekly scores: ${error.message}`);
-    }
-  }
-
-  /**
-   * Calculate the start of the current week (Saturday 00:00:00 UTC)
-   * Week runs from Saturday 00:00:00 UTC to Friday 23:59:59 UTC
-   * Week ends on Friday at midnight UTC (Saturday 00:00:00 UTC)
-   * This uses the same logic as your BrandService deployment time
-   */
-  private getLastFridayReset(): Date {
-    const now = new Date();
-    const deploymentTime = new Date('2025-06-20T18:00:00.000Z');
-
-    // Find the first Saturday 00:00:00 UTC after deployment (same as BrandService logic)
-    const cycleStart = new Date(deploymentTime);
-    cycleStart.setUTCHours(0, 0, 0, 0); // Set to midnight UTC
-
-    // Find next Saturday 00:00:00 UTC
-    while (cycleStart.getUTCDay() !== 6) {
-      // 6 = Saturday
-      cycleStart.setUTCDate(cycleStart.getUTCDate() + 1); // Add 1 day
-    }
-
-    // Calculate which cycle we're in
-    const msPerWeek = 7 * 24 * 60 * 60 * 1000;
-    const timeSinceFirstCycle = now.getTime() - cycleStart.getTime();
-    const cycleNumber = Math.floor(timeSinceFirstCycle / msPerWeek) + 1;
-
-    // Return the start of current cycle (most recent Saturday 00:00:00 UTC)
-    return new Date(cycleStart.getTime() + (cycleNumber - 1) * msPerWeek);
-  }
-
-  async recalculateScoreDayForDay(day: number): Promise<{
-    message: string;
-    updatedBrands: number;
-    processedVotes: number;
-  }> {
-    console.log(`🔄 Recalculating scoreDay for day ${day}...`);
-
-    try {
-      // Reset all scoreDay values to 0
-      console.log('📊 Resetting all scoreDay values to 0...');
-      const resetResult = await this.brandRepository.query(
-        'UPDATE brands SET scoreDay = 0',
-      );
-      console.log(`✅ Reset scoreDay for all brands`);
-
-      // Get all votes for the specified day
-      console.log(`📊 Fetching votes for day ${day}...`);
-      const votes = await this.userBrandVotesRepository.find({
-        where: { day },
-        relations: ['brand1', 'brand2', 'brand3'],
-      });
-
-      console.log(`📊 Found ${votes.length} votes for day ${day}`);
-
-      let processedVotes = 0;
-      const brandScores = new Map<number, number>();
-
-      // Process each vote and accumulate scores
-      for (const vote of votes) {
-        if (
-          vote.brndPaidWhenCreatingPodium &&
-          vote.brndPaidWhenCreatingPodium > 0
-        ) {
-          const baseAmount = vote.brndPaidWhenCreatingPodium;
-
-          // 60% to brand1
-          if (vote.brand1?.id) {
-            const currentScore = brandScores.get(vote.brand1.id) || 0;
-            brandScores.set(vote.brand1.id, currentScore + baseAmount * 0.6);
-          }
-
-          // 30% to brand2
-          if (vote.brand2?.id) {
-            const currentScore = brandScores.get(vote.brand2.id) || 0;
-            brandScores.set(vote.brand2.id, currentScore + baseAmount * 0.3);
-          }
-
-          // 10% to brand3
-          if (vote.brand3?.id) {
-            const currentScore = brandScores.get(vote.brand3.id) || 0;
-            brandScores.set(vote.brand3.id, currentScore + baseAmount * 0.1);
-          }
-
-          processedVotes++;
-        }
-      }
-
-      console.log(
-        `📊 Processed ${processedVotes} votes with brndPaidWhenCreatingPodium values`,
-      );
-      console.log(`📊 Updating scores for ${brandScores.size} brands...`);
-
-      // Update scoreDay for each brand
-      let updatedBrands = 0;
-      for (const [brandId, score] of brandScores.entries()) {
-        await this.brandRepository.update(
-          { id: brandId },
-          { scoreDay: Math.round(score) },
-        );
-        updatedBrands++;
-      }
-
-      console.log('✅ ScoreDay recalculation completed successfully');
-
-      return {
-        message: `ScoreDay recalculated successfully for day ${day}`,
-        updatedBrands,
-        processedVotes,
-      };
-    } catch (error) {
-      console.error('❌ Failed to recalculate scoreDay:', error);
-      throw new Error(`Failed to recalculate scoreDay: ${error.message}`);
-    }
+  onModuleInit() {
+    this.jobService.registerHandler<
+      { brandIds: number[] },
+      FollowerRefreshCheckpoint
+    >(BackgroundJobTypeEnum.BRAND_FOLLOWER_REFRESH, (context) =>
+      this.bulkRefreshFollowerCounts(context),
+    );
   }
 
   async getAllBrands(
@@ -287,6 +156,9 @@ export class AdminService {
     });
 
     const savedBrand = await this.brandRepository.save(brand);
+    if (createBrandDto.tags?.length) {
+      await this.tagService.setBrandTags(savedBrand.id, createBrandDto.tags);
+    }
     console.log('Brand created successfully:', savedBrand);
     return savedBrand;
   }
@@ -347,6 +219,9 @@ export class AdminService {
     }
 
     const savedBrand = await this.brandRepository.save(brand);
+    if (updateBrandDto.tags !== undefined) {
+      await this.tagService.setBrandTags(savedBrand.id, updateBrandDto.tags);
+    }
     console.log('Brand updated successfully:', savedBrand);
     return savedBrand;
   }
@@ -371,6 +246,68 @@ export class AdminService {
   /**
    * Refresh follower count for a specific brand from Neynar
    */
+  /**
+   * Refreshes the follower count of every brand in params.brandIds, as the
+   * BRAND_FOLLOWER_REFRESH background job. Progress is saved after each
+   * brand, so a resumed job skips the brands already refreshed.
+   */
+  private async bulkRefreshFollowerCounts({
+    params,
+    resumeFrom,
+    checkpoint,
+  }: BackgroundJobContext<{ brandIds: number[] }, FollowerRefreshCheckpoint>) {
+    const { brandIds } = params;
+    const { nextIndex, results, errors } = resumeFrom || {
+      nextIndex: 0,
+      results: [],
+      errors: [],
+    };
+
+    console.log(
+      `Bulk refreshing follower counts for ${brandIds.length - nextIndex} brands...`,
+    );
+
+    for (let i = nextIndex; i < brandIds.length; i++) {
+      const brandId = brandIds[i];
+      try {
+        const brand = await this.refreshBrandFollowerCount(brandId);
+        results.push({
+          id: brand.id,
+          name: brand.name,
+          followerCount: brand.followerCount,
+          success: true,
+        });
+      } catch (error) {
+        console.error(`Failed to refresh brand ${brandId}:`, error.message);
+        errors.push({
+          id: brandId,
+          error: error.message,
+          success: false,
+        });
+      }
+
+      await checkpoint({
+        processed: i + 1,
+        total: brandIds.length,
+        checkpoint: { nextIndex: i + 1, results, errors },
+      });
+    }
+
+    console.log(
+      `Bulk refresh completed: ${results.length} success, ${errors.length} errors`,
+    );
+
+    return {
+      results,
+      errors,
+      summary: {
+        total: brandIds.length,
+        successful: results.length,
+        failed: errors.length,
+      },
+    };
+  }
+
   async refreshBrandFollowerCount(id: number): Promise<Brand> {
     const brand = await this.brandRepository.findOne({
       where: { id },
@@ -446,7 +383,7 @@ export class AdminService {
   /**
    * Process profile and channel logic (similar to seeding service)
    */
-  private processProfileAndChannel(data: any): {
+  processProfileAndChannel(data: any): {
     profile: string;
     channel: string;
     queryType: number;
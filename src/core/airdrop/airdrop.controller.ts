@@ -6,6 +6,7 @@ import {
   Res,
   Query,
   Body,
+  Param,
 } from '@nestjs/common';
 import { Response } from 'express';
 import {
@@ -17,23 +18,48 @@ import { Session } from '../../security/decorators';
 import { hasResponse, hasError, HttpStatus } from '../../utils/http';
 import { AirdropService } from './services/airdrop.service';
 import { AirdropContractService } from './services/airdrop-contract.service';
+import { AirdropRoundService } from './services/airdrop-round.service';
 import { SignatureService } from '../blockchain/services/signature.service';
-import { getConfig } from 'src/security/config';
+import { SeasonService } from '../season/services';
+import { JobService } from '../job/services';
+import { BackgroundJobTypeEnum } from '../../models';
 
 @Controller('airdrop-service')
 export class AirdropController {
   constructor(
     private readonly airdropService: AirdropService,
     private readonly airdropContractService: AirdropContractService,
+    private readonly airdropRoundService: AirdropRoundService,
     private readonly signatureService: SignatureService,
+    private readonly seasonService: SeasonService,
+    private readonly jobService: JobService,
   ) {}
 
+  /**
+   * Airdrop score of the signed-in user. Pass `season` to preview the score
+   * using only that season's points.
+   */
   @Get('check-user')
   @UseGuards(AuthorizationGuard)
-  async checkUser(@Session() user: QuickAuthPayload, @Res() res: Response) {
+  async checkUser(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+    @Query('season') season?: string,
+  ) {
     try {
+      const seasonId = await this.seasonService.resolveSeasonParam(season);
+      if (seasonId === null) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'checkUser',
+          `Season ${season} not found`,
+        );
+      }
+
       const airdropCalculation = await this.airdropService.checkUserEligibility(
         user.sub,
+        seasonId === 'all' ? undefined : seasonId,
       );
 
       return hasResponse(res, {
@@ -103,6 +129,41 @@ export class AirdropController {
     }
   }
 
+  /**
+   * Merkle proof of a FID in the active snapshot. Proofs are public data, so
+   * no session or wallet signature is needed; claiming still is. They are
+   * served from the snapshot's cached tree.
+   */
+  @Get('proof/:fid')
+  async getProof(@Param('fid') fid: string, @Res() res: Response) {
+    const fidNum = Number(fid);
+    if (!Number.isInteger(fidNum) || fidNum <= 0) {
+      return hasError(res, HttpStatus.BAD_REQUEST, 'getProof', 'Invalid FID');
+    }
+
+    try {
+      const proofData = await this.airdropService.generateMerkleProof(fidNum);
+      if (!proofData) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getProof',
+          `FID ${fidNum} is not in the active airdrop snapshot`,
+        );
+      }
+
+      return hasResponse(res, proofData);
+    } catch (error) {
+      console.error('Error generating airdrop proof:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getProof',
+        'Error generating airdrop proof',
+      );
+    }
+  }
+
   @Get('database-summary')
   @UseGuards(AuthorizationGuard)
   async getDatabaseSummary(@Res() res: Response) {
@@ -128,19 +189,28 @@ export class AirdropController {
     }
   }
 
+  /**
+   * Queues the fix as a background job; follow it with
+   * GET /admin-service/jobs/:id.
+   */
   @Get('fix-zero-allocations')
   @UseGuards(AuthorizationGuard)
-  async fixZeroAllocations(@Res() res: Response) {
+  async fixZeroAllocations(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ) {
     try {
-      console.log(`🔧 [CONTROLLER] Fixing zero score allocations...`);
-
-      const result = await this.airdropService.fixZeroScoreAllocations();
+      console.log(`🔧 [CONTROLLER] Queueing zero score allocation fix...`);
 
-      console.log(`✅ [CONTROLLER] Zero allocation fix completed`);
+      const job = await this.jobService.enqueue(
+        BackgroundJobTypeEnum.AIRDROP_FIX_ZERO_ALLOCATIONS,
+        null,
+        { requestedByFid: user.sub, unique: true },
+      );
 
       return hasResponse(res, {
-        message: 'Zero score allocations fixed successfully',
-        results: result,
+        message: 'Zero score allocation fix queued',
+        job,
       });
     } catch (error) {
       console.error('Error fixing zero allocations:', error);
@@ -153,19 +223,28 @@ export class AirdropController {
     }
   }
 
+  /**
+   * Queues the recalculation as a background job; follow it with
+   * GET /admin-service/jobs/:id.
+   */
   @Get('recalculate-tokens')
   @UseGuards(AuthorizationGuard)
-  async recalculateTokens(@Res() res: Response) {
+  async recalculateTokens(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ) {
     try {
-      console.log(`🔄 [CONTROLLER] Starting token recalculation...`);
-
-      const result = await this.airdropService.recalculateTokenDistribution();
+      console.log(`🔄 [CONTROLLER] Queueing token recalculation...`);
 
-      console.log(`✅ [CONTROLLER] Token recalculation completed`);
+      const job = await this.jobService.enqueue(
+        BackgroundJobTypeEnum.AIRDROP_TOKEN_DISTRIBUTION,
+        null,
+        { requestedByFid: user.sub, unique: true },
+      );
 
       return hasResponse(res, {
-        message: 'Token distribution recalculated successfully',
-        results: result,
+        message: 'Token distribution recalculation queued',
+        job,
       });
     } catch (error) {
       console.error('Error recalculating token distribution:', error);
@@ -442,9 +521,11 @@ export class AirdropController {
   //   }
   // }
 
-  /**cooy
-   * Check if user can claim airdrop
-   * Returns eligibility status, contract status, and claim information
+  /**
+   * Check what the user can claim across all airdrop rounds
+   * Returns, per round and in total, what is claimable now, already claimed
+   * and still to unlock, next to the original airdrop's hasClaimed,
+   * contractStatus and eligibility fields the miniapp reads
    */
   @Get('claim-status')
   @UseGuards(AuthorizationGuard)
@@ -457,48 +538,18 @@ export class AirdropController {
 
       console.log(`🔍 [AIRDROP] Checking claim status for FID: ${fid}`);
 
-      // Get contract status
-      const contractStatus =
-        await this.airdropContractService.getContractStatus();
-
-      // Check if merkle root is set
-      const isMerkleRootSet =
-        await this.airdropContractService.isMerkleRootSet();
-
-      // Check if user has already claimed
-      const hasClaimed = await this.airdropContractService.hasClaimed(fid);
-
-      // Check if user is in snapshot
-      let proofData = null;
-      try {
-        proofData = await this.airdropService.generateMerkleProof(fid);
-        if (!proofData) {
-        }
-      } catch (error) {
-        // Snapshot doesn't exist or other database error
-      }
-
-      // Determine eligibility
-      let canClaim = false;
-      let reason = '';
-
-      if (hasClaimed) {
-        reason = 'Already claimed';
-      } else if (!contractStatus.claimingEnabled) {
-        reason = 'Claiming is not enabled yet';
-      } else if (!isMerkleRootSet) {
-        reason = 'Merkle root not set on contract';
-      } else if (!proofData) {
-        reason = 'Not eligible for airdrop (not in top 1111 users)';
-      } else {
-        canClaim = true;
-        reason = 'Eligible to claim';
-      }
+      const [contractStatus, isMerkleRootSet, hasClaimed, proofData, status] =
+        await Promise.all([
+          this.airdropContractService.getContractStatus(),
+          this.airdropContractService.isMerkleRootSet(),
+          this.airdropContractService.hasClaimed(fid),
+          // Snapshot doesn't exist or other database error
+          this.airdropService.generateMerkleProof(fid).catch(() => null),
+          this.airdropRoundService.getClaimStatus(fid),
+        ]);
 
       return hasResponse(res, {
-        fid,
-        canClaim,
-        reason,
+        ...status,
         hasClaimed,
         contractStatus: {
           merkleRootSet: isMerkleRootSet,
@@ -526,16 +577,17 @@ export class AirdropController {
   /**
    * Generate airdrop claim signature and merkle proof
    * Verifies wallet belongs to FID via Neynar, then generates signature
+   * Signs for roundId, or for the first round with something claimable now
    */
   @Post('claim-signature')
   @UseGuards(AuthorizationGuard)
   async getAirdropClaimSignature(
     @Session() user: QuickAuthPayload,
-    @Body() body: { walletAddress: string; snapshotId?: number },
+    @Body() body: { walletAddress: string; roundId?: number },
     @Res() res: Response,
   ) {
     try {
-      const { walletAddress, snapshotId } = body;
+      const { walletAddress, roundId } = body;
       const fid = user.sub;
 
       if (!walletAddress || !walletAddress.startsWith('0x')) {
@@ -551,94 +603,24 @@ export class AirdropController {
         `🔐 [AIRDROP] Generating claim signature for FID: ${fid}, Wallet: ${walletAddress}`,
       );
 
-      // Check contract status first
-      const contractStatus =
-        await this.airdropContractService.getContractStatus();
-      const isMerkleRootSet =
-        await this.airdropContractService.isMerkleRootSet();
-
-      if (!contractStatus.claimingEnabled) {
-        return hasError(
-          res,
-          HttpStatus.BAD_REQUEST,
-          'getAirdropClaimSignature',
-          'Claiming is not enabled on the contract yet',
-        );
-      }
-
-      if (!isMerkleRootSet) {
-        return hasError(
-          res,
-          HttpStatus.BAD_REQUEST,
-          'getAirdropClaimSignature',
-          'Merkle root is not set on the contract yet. Please wait for the snapshot to be set.',
-        );
-      }
-
-      // Check if already claimed
-      const hasClaimed = await this.airdropContractService.hasClaimed(fid);
-      if (hasClaimed) {
-        return hasError(
-          res,
-          HttpStatus.BAD_REQUEST,
-          'getAirdropClaimSignature',
-          'Airdrop already claimed for this FID',
-        );
-      }
-
-      // Get merkle proof for this FID
-      const proofData = await this.airdropService.generateMerkleProof(
-        fid,
-        snapshotId,
-      );
-
-      console.log('THE PROOF DATA IS:', proofData);
-
-      if (!proofData) {
-        console.log(
-          `❌ [AIRDROP] FID ${fid} not found in snapshot: You are not eligible for the airdrop.`,
-        );
-        return hasError(
-          res,
-          HttpStatus.NOT_FOUND,
-          'getAirdropClaimSignature',
-          'FID not found in airdrop snapshot. You are not eligible for the airdrop.',
-        );
-      }
-
-      // Verify merkle root matches contract
-      // Normalize to lowercase for case-insensitive comparison (hex strings can vary in case)
-      const proofMerkleRoot = proofData.merkleRoot.toLowerCase();
-      const contractMerkleRoot = contractStatus.merkleRoot.toLowerCase();
-
-      console.log(`🔍 [AIRDROP] Comparing merkle roots:`);
-      console.log(`🔍 [AIRDROP] - Proof merkle root: ${proofMerkleRoot}`);
-      console.log(`🔍 [AIRDROP] - Contract merkle root: ${contractMerkleRoot}`);
-      console.log(
-        `🔍 [AIRDROP] - Match: ${proofMerkleRoot === contractMerkleRoot}`,
-      );
-
-      if (proofMerkleRoot !== contractMerkleRoot) {
-        console.log(
-          `❌ [AIRDROP] Merkle root mismatch. The snapshot may have been updated. Please try again.`,
-        );
-        console.log(`❌ [AIRDROP] Proof root (lowercase): ${proofMerkleRoot}`);
-        console.log(
-          `❌ [AIRDROP] Contract root (lowercase): ${contractMerkleRoot}`,
-        );
-        console.log(
-          `❌ [AIRDROP] Original proof root: ${proofData.merkleRoot}`,
-        );
-        console.log(
-          `❌ [AIRDROP] Original contract root: ${contractStatus.merkleRoot}`,
+      // Eligibility, claim window, vesting and the contract's merkle root are
+      // all checked per round
+      let claim: Awaited<ReturnType<AirdropRoundService['prepareClaim']>>;
+      try {
+        claim = await this.airdropRoundService.prepareClaim(
+          fid,
+          roundId ? Number(roundId) : undefined,
         );
+      } catch (error) {
+        console.log(`❌ [AIRDROP] FID ${fid} cannot claim: ${error.message}`);
         return hasError(
           res,
           HttpStatus.BAD_REQUEST,
           'getAirdropClaimSignature',
-          'Merkle root mismatch. The snapshot may have been updated. Please try again.',
+          error.message,
         );
       }
+      const { round, status, proofData } = claim;
 
       console.log(`✅ [AIRDROP] Merkle root verification passed`);
 
@@ -652,6 +634,11 @@ export class AirdropController {
           parseInt(proofData.amount), // Convert string to number for baseAmount
           proofData.merkleRoot,
           deadline,
+          {
+            contractAddress: round.contractAddress,
+            signatureDomain: round.signatureDomain,
+            unlockedAmount: status.vesting ? status.unlocked : undefined,
+          },
         );
 
       console.log(`✅ [AIRDROP] Claim signature generated successfully`);
@@ -716,8 +703,10 @@ export class AirdropController {
         signature,
         deadline,
         snapshotId: proofData.snapshotId,
-        contractAddress: getConfig().blockchain
-          .airdropContractAddress as string,
+        roundId: round.id,
+        unlockedAmount: status.vesting ? status.unlocked : null,
+        claimableNow: status.claimableNow,
+        contractAddress: round.contractAddress,
         message:
           'Use these values to call claimAirdrop() on the smart contract',
       });
@@ -3,9 +3,19 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { AirdropController } from './airdrop.controller';
 import { AirdropService } from './services/airdrop.service';
 import { AirdropContractService } from './services/airdrop-contract.service';
-import { AirdropScore, AirdropSnapshot, AirdropLeaf, User } from '../../models';
+import { AirdropRoundService } from './services/airdrop-round.service';
+import {
+  AirdropScore,
+  AirdropSnapshot,
+  AirdropLeaf,
+  AirdropRound,
+  User,
+} from '../../models';
 import { AuthModule } from '../auth/auth.module';
 import { BlockchainModule } from '../blockchain/blockchain.module';
+import { SeasonModule } from '../season/season.module';
+import { JobModule } from '../job/job.module';
+import { IpfsService } from '../../utils/ipfs.service';
 
 @Module({
   imports: [
@@ -13,13 +23,21 @@ import { BlockchainModule } from '../blockchain/blockchain.module';
       AirdropScore,
       AirdropSnapshot,
       AirdropLeaf,
+      AirdropRound,
       User,
     ]),
     forwardRef(() => AuthModule),
     forwardRef(() => BlockchainModule), // Import to access SignatureService
+    SeasonModule,
+    JobModule,
   ],
   controllers: [AirdropController],
-  providers: [AirdropService, AirdropContractService],
-  exports: [AirdropService, AirdropContractService],
+  providers: [
+    AirdropService,
+    AirdropContractService,
+    AirdropRoundService,
+    IpfsService,
+  ],
+  exports: [AirdropService, AirdropContractService, AirdropRoundService],
 })
 export class AirdropModule {}
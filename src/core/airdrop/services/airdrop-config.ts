@@ -0,0 +1,190 @@
+/*
+ * Everything that decides how the airdrop is split: the pool, how many
+ * users share it and the tiers of each multiplier. Both the multiplier math
+ * and the tiers shown to users in ChallengeBreakdown read from here, and the
+ * simulation endpoint runs the same math on a modified copy.
+ */
+
+export type AirdropMultiplierKey =
+  | 'followAccounts'
+  | 'channelInteraction'
+  | 'holdingBrnd'
+  | 'collectibles'
+  | 'votedBrands'
+  | 'sharedPodiums'
+  | 'neynarScore'
+  | 'proUser';
+
+export const AIRDROP_MULTIPLIER_KEYS: AirdropMultiplierKey[] = [
+  'followAccounts',
+  'channelInteraction',
+  'holdingBrnd',
+  'collectibles',
+  'votedBrands',
+  'sharedPodiums',
+  'neynarScore',
+  'proUser',
+];
+
+export interface AirdropMultiplierTier {
+  // Lowest value that earns the multiplier
+  requirement: number;
+  multiplier: number;
+}
+
+export interface AirdropConfig {
+  // Whole BRND split between the top users
+  totalAllocation: number;
+  topUsers: number;
+  // Tiers in ascending order of requirement. The value each one is compared
+  // to is the measurement the multiplier is named after, except for the
+  // yes/no challenges, which use levels:
+  //   followAccounts      number of @brnd and @floc followed (0-2)
+  //   channelInteraction  1 = follows /brnd, 2 = also published a podium
+  //   proUser             1 = Pro subscriber, 2 = also has $BRND in profile
+  multipliers: Record<AirdropMultiplierKey, AirdropMultiplierTier[]>;
+}
+
+export type AirdropConfigOverrides = Partial<
+  Omit<AirdropConfig, 'multipliers'> & {
+    multipliers: Partial<AirdropConfig['multipliers']>;
+  }
+>;
+
+export const DEFAULT_AIRDROP_CONFIG: AirdropConfig = {
+  totalAllocation: 1_500_000_000,
+  topUsers: 1111,
+  multipliers: {
+    followAccounts: [
+      { requirement: 1, multiplier: 1.2 },
+      { requirement: 2, multiplier: 1.4 },
+    ],
+    channelInteraction: [
+      { requirement: 1, multiplier: 1.2 },
+      { requirement: 2, multiplier: 1.4 },
+    ],
+    holdingBrnd: [
+      { requirement: 100_000_000, multiplier: 1.2 },
+      { requirement: 200_000_000, multiplier: 1.4 },
+      { requirement: 400_000_000, multiplier: 1.6 },
+      { requirement: 800_000_000, multiplier: 1.8 },
+    ],
+    collectibles: [
+      { requirement: 1, multiplier: 1.2 },
+      { requirement: 2, multiplier: 1.4 },
+      { requirement: 3, multiplier: 1.8 },
+    ],
+    votedBrands: [
+      { requirement: 9, multiplier: 1.2 },
+      { requirement: 18, multiplier: 1.4 },
+      { requirement: 36, multiplier: 1.6 },
+      { requirement: 72, multiplier: 1.8 },
+    ],
+    sharedPodiums: [
+      { requirement: 10, multiplier: 1.2 },
+      { requirement: 20, multiplier: 1.4 },
+      { requirement: 40, multiplier: 1.6 },
+      { requirement: 80, multiplier: 1.8 },
+    ],
+    neynarScore: [
+      { requirement: 0.85, multiplier: 1.2 },
+      { requirement: 0.9, multiplier: 1.5 },
+      { requirement: 1.0, multiplier: 1.8 },
+    ],
+    proUser: [
+      { requirement: 1, multiplier: 1.2 },
+      { requirement: 2, multiplier: 1.4 },
+    ],
+  },
+};
+
+/**
+ * Multiplier of the highest tier the value reaches, or 1 below every tier.
+ */
+export function getTierMultiplier(
+  tiers: AirdropMultiplierTier[],
+  value: number,
+): number {
+  return tiers.reduce(
+    (multiplier, tier) =>
+      (value || 0) >= tier.requirement ? tier.multiplier : multiplier,
+    1.0,
+  );
+}
+
+/**
+ * First tier the value has not reached yet, or null once all are.
+ */
+export function getNextTier(
+  tiers: AirdropMultiplierTier[],
+  value: number,
+): AirdropMultiplierTier | null {
+  return tiers.find((tier) => (value || 0) < tier.requirement) || null;
+}
+
+/**
+ * The tiers as shown in ChallengeBreakdown.tiers.
+ */
+export function describeTiers(
+  tiers: AirdropMultiplierTier[],
+  value: number,
+): { requirement: number; multiplier: number; achieved: boolean }[] {
+  return tiers.map((tier) => ({
+    requirement: tier.requirement,
+    multiplier: tier.multiplier,
+    achieved: (value || 0) >= tier.requirement,
+  }));
+}
+
+/**
+ * A config with some fields replaced. Multipliers are replaced one at a
+ * time, so overriding one keeps the others' tiers.
+ */
+export function mergeAirdropConfig(
+  base: AirdropConfig,
+  overrides: AirdropConfigOverrides = {},
+): AirdropConfig {
+  return {
+    totalAllocation: overrides.totalAllocation ?? base.totalAllocation,
+    topUsers: overrides.topUsers ?? base.topUsers,
+    multipliers: { ...base.multipliers, ...overrides.multipliers },
+  };
+}
+
+/**
+ * Throws when a config could not split the airdrop sensibly.
+ */
+export function validateAirdropConfig(config: AirdropConfig): void {
+  if (
+    !Number.isInteger(config.totalAllocation) ||
+    config.totalAllocation <= 0
+  ) {
+    throw new Error('totalAllocation must be a positive whole number of BRND');
+  }
+  if (!Number.isInteger(config.topUsers) || config.topUsers < 1) {
+    throw new Error('topUsers must be a whole number of at least 1');
+  }
+
+  for (const key of Object.keys(config.multipliers)) {
+    if (!AIRDROP_MULTIPLIER_KEYS.includes(key as AirdropMultiplierKey)) {
+      throw new Error(`Unknown multiplier: ${key}`);
+    }
+  }
+  for (const key of AIRDROP_MULTIPLIER_KEYS) {
+    const tiers = config.multipliers[key];
+    if (
+      !Array.isArray(tiers) ||
+      !tiers.every(
+        (tier, index) =>
+          Number.isFinite(tier?.requirement) &&
+          Number.isFinite(tier?.multiplier) &&
+          tier.multiplier >= 1 &&
+          (index === 0 || tier.requirement > tiers[index - 1].requirement),
+      )
+    ) {
+      throw new Error(
+        `${key} tiers must be { requirement, multiplier >= 1 } in ascending order of requirement`,
+      );
+    }
+  }
+}
@@ -354,6 +354,19 @@ const AIRDROP_CONTRACT_ABI = [
   },
 ] as const;
 
+// Rounds with a vesting schedule are deployed with the vesting variant of the
+// contract, which records how much each FID has claimed so far instead of a
+// yes/no flag, so the unlocked part can be claimed more than once
+const VESTING_AIRDROP_CONTRACT_ABI = [
+  {
+    inputs: [{ internalType: 'uint256', name: 'fid', type: 'uint256' }],
+    name: 'claimedAmount',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
 @Injectable()
 export class AirdropContractService {
   private readonly contractAddress: string;
@@ -378,9 +391,12 @@ export class AirdropContractService {
   }
 
   /**
-   * Get the current status of the airdrop contract
+   * Get the current status of the airdrop contract, or of another round's
+   * contract
    */
-  async getContractStatus(): Promise<{
+  async getContractStatus(
+    contractAddress: string = this.contractAddress,
+  ): Promise<{
     merkleRoot: string;
     claimingEnabled: boolean;
     totalClaimed: string;
@@ -389,11 +405,11 @@ export class AirdropContractService {
   }> {
     try {
       logger.log(
-        `📞 [AIRDROP CONTRACT] Calling getStatus on ${this.contractAddress}`,
+        `📞 [AIRDROP CONTRACT] Calling getStatus on ${contractAddress}`,
       );
 
       const result = (await this.publicClient.readContract({
-        address: this.contractAddress as Address,
+        address: contractAddress as Address,
         abi: AIRDROP_CONTRACT_ABI,
         functionName: 'getStatus',
       } as any)) as [string, boolean, bigint, bigint, bigint];
@@ -435,12 +451,15 @@ export class AirdropContractService {
   /**
    * Check if a FID has already claimed
    */
-  async hasClaimed(fid: number): Promise<boolean> {
+  async hasClaimed(
+    fid: number,
+    contractAddress: string = this.contractAddress,
+  ): Promise<boolean> {
     try {
       logger.log(`📞 [AIRDROP CONTRACT] Checking if FID ${fid} has claimed`);
 
       const result = (await this.publicClient.readContract({
-        address: this.contractAddress as Address,
+        address: contractAddress as Address,
         abi: AIRDROP_CONTRACT_ABI,
         functionName: 'fidClaimed',
         args: [BigInt(fid)],
@@ -471,6 +490,28 @@ export class AirdropContractService {
     }
   }
 
+  /**
+   * Amount a FID has claimed so far from a vesting round's contract, in
+   * whole BRND
+   */
+  async getClaimedAmount(
+    fid: number,
+    contractAddress: string,
+  ): Promise<number> {
+    logger.log(
+      `📞 [AIRDROP CONTRACT] Checking amount claimed by FID ${fid} on ${contractAddress}`,
+    );
+
+    const result = (await this.publicClient.readContract({
+      address: contractAddress as Address,
+      abi: VESTING_AIRDROP_CONTRACT_ABI,
+      functionName: 'claimedAmount',
+      args: [BigInt(fid)],
+    } as any)) as bigint;
+
+    return Number(result);
+  }
+
   /**
    * Check if merkle root is set (not zero)
    */
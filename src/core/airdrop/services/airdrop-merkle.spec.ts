@@ -0,0 +1,119 @@
+import { describe, expect, it } from '@jest/globals';
+import { AbiCoder, keccak256 } from 'ethers';
+
+import {
+  AIRDROP_PROOFS_FORMAT,
+  AirdropProofsFile,
+  buildAirdropTree,
+  hashAirdropLeaf,
+  verifyAirdropProofsFile,
+} from './airdrop-merkle';
+
+// Whole token amounts, as AirdropLeaf.baseAmount stores them
+const amounts: Record<number, string> = { 7: '1500', 12: '250', 3: '42' };
+
+/**
+ * A proofs file laid out the way AirdropService.exportSnapshotProofs
+ * writes it.
+ */
+function buildProofsFile(): AirdropProofsFile {
+  const fids = Object.keys(amounts)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const leafHashes = fids.map((fid) => hashAirdropLeaf(fid, amounts[fid]));
+  const tree = buildAirdropTree(leafHashes);
+
+  const claims: AirdropProofsFile['claims'] = {};
+  fids.forEach((fid, index) => {
+    claims[fid] = {
+      amount: amounts[fid],
+      leafHash: leafHashes[index],
+      proof: tree.getHexProof(leafHashes[index], index),
+    };
+  });
+
+  return {
+    format: AIRDROP_PROOFS_FORMAT,
+    leafEncoding: ['uint256', 'uint256'],
+    snapshotId: 1,
+    version: 1,
+    merkleRoot: tree.getHexRoot(),
+    contractAddress: null,
+    totalUsers: fids.length,
+    totalTokens: '0',
+    claims,
+  };
+}
+
+describe('airdrop merkle', () => {
+  describe('hashAirdropLeaf', () => {
+    it('hashes abi.encode(fid, amount) once', () => {
+      const encoded = AbiCoder.defaultAbiCoder().encode(
+        ['uint256', 'uint256'],
+        [7n, 1500n],
+      );
+
+      expect(hashAirdropLeaf(7, amounts[7])).toBe(keccak256(encoded));
+    });
+  });
+
+  describe('verifyAirdropProofsFile', () => {
+    it('accepts an exported file', () => {
+      const file = buildProofsFile();
+
+      expect(verifyAirdropProofsFile(file)).toEqual({
+        merkleRoot: file.merkleRoot,
+        rebuiltRoot: file.merkleRoot,
+        rootMatches: true,
+        claimCount: 3,
+        invalidLeafHashes: [],
+        invalidProofs: [],
+        valid: true,
+      });
+    });
+
+    it('catches an amount edited after export', () => {
+      const file = buildProofsFile();
+      file.claims[12].amount = '9999';
+
+      const verification = verifyAirdropProofsFile(file);
+
+      expect(verification.invalidLeafHashes).toEqual([12]);
+      expect(verification.valid).toBe(false);
+    });
+
+    it('catches a leaf that is not in the tree', () => {
+      const file = buildProofsFile();
+      const forged = hashAirdropLeaf(12, 9999);
+      file.claims[12] = { ...file.claims[12], leafHash: forged };
+
+      const verification = verifyAirdropProofsFile(file);
+
+      expect(verification.rootMatches).toBe(false);
+      expect(verification.invalidProofs).toEqual([12]);
+      expect(verification.valid).toBe(false);
+    });
+
+    it('catches a proof that does not lead to the root', () => {
+      const file = buildProofsFile();
+      file.claims[3].proof = file.claims[7].proof;
+
+      const verification = verifyAirdropProofsFile(file);
+
+      expect(verification.rootMatches).toBe(true);
+      expect(verification.invalidProofs).toEqual([3]);
+      expect(verification.valid).toBe(false);
+    });
+
+    it('refuses files in another format', () => {
+      const file = {
+        ...buildProofsFile(),
+        format: 'openzeppelin-standard-v1',
+      } as unknown as AirdropProofsFile;
+
+      expect(() => verifyAirdropProofsFile(file)).toThrow(
+        'Unsupported proofs file format: openzeppelin-standard-v1',
+      );
+    });
+  });
+});
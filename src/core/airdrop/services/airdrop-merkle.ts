@@ -0,0 +1,122 @@
+import { MerkleTree } from 'merkletreejs';
+import { keccak256, AbiCoder } from 'ethers';
+
+/*
+ * The airdrop tree as the contract verifies it: each leaf is
+ * keccak256(abi.encode(fid, amount)), leaves are ordered by FID and pairs
+ * are sorted before hashing. OpenZeppelin's StandardMerkleTree hashes leaves
+ * twice and lays the tree out differently, so its dumps would not have the
+ * on-chain root; proofs are exported in the format below instead.
+ *
+ * These are plain functions so the standalone scripts in /scripts can check
+ * an exported file without the API.
+ */
+
+export const AIRDROP_PROOFS_FORMAT = 'brnd-airdrop-proofs-v1';
+
+export interface AirdropProofsFile {
+  format: typeof AIRDROP_PROOFS_FORMAT;
+  leafEncoding: ['uint256', 'uint256'];
+  snapshotId: number;
+  version: number;
+  merkleRoot: string;
+  contractAddress: string | null;
+  totalUsers: number;
+  totalTokens: string;
+  // Keyed by FID
+  claims: Record<string, AirdropProofsFileClaim>;
+}
+
+export interface AirdropProofsFileClaim {
+  amount: string;
+  leafHash: string;
+  proof: string[];
+}
+
+export interface AirdropProofsFileVerification {
+  merkleRoot: string;
+  rebuiltRoot: string;
+  rootMatches: boolean;
+  claimCount: number;
+  // FIDs whose leaf hash is not keccak256(abi.encode(fid, amount))
+  invalidLeafHashes: number[];
+  // FIDs whose proof does not verify against merkleRoot
+  invalidProofs: number[];
+  valid: boolean;
+}
+
+/**
+ * Leaf hash of a claim, as computed by the contract.
+ */
+export function hashAirdropLeaf(fid: number, amount: number | string): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ['uint256', 'uint256'],
+      [BigInt(fid), BigInt(amount)],
+    ),
+  );
+}
+
+/**
+ * Builds the tree from leaves ordered by FID.
+ */
+export function buildAirdropTree(leafHashesByFid: string[]): MerkleTree {
+  return new MerkleTree(leafHashesByFid, keccak256, { sortPairs: true });
+}
+
+/**
+ * Checks an exported proofs file on its own: every leaf hash is recomputed,
+ * the root is rebuilt from them and every proof is verified against the
+ * file's root.
+ */
+export function verifyAirdropProofsFile(
+  file: AirdropProofsFile,
+): AirdropProofsFileVerification {
+  if (file.format !== AIRDROP_PROOFS_FORMAT) {
+    throw new Error(`Unsupported proofs file format: ${file.format}`);
+  }
+
+  const claims = Object.entries(file.claims)
+    .map(([fid, claim]) => ({ fid: Number(fid), ...claim }))
+    .sort((a, b) => a.fid - b.fid);
+
+  const invalidLeafHashes = claims
+    .filter(
+      (claim) =>
+        hashAirdropLeaf(claim.fid, claim.amount).toLowerCase() !==
+        claim.leafHash.toLowerCase(),
+    )
+    .map((claim) => claim.fid);
+
+  const rebuiltRoot = buildAirdropTree(
+    claims.map((claim) => claim.leafHash),
+  ).getHexRoot();
+  const rootMatches =
+    rebuiltRoot.toLowerCase() === file.merkleRoot.toLowerCase();
+
+  const invalidProofs = claims
+    .filter(
+      (claim) =>
+        !MerkleTree.verify(
+          claim.proof,
+          claim.leafHash,
+          file.merkleRoot,
+          keccak256,
+          { sortPairs: true },
+        ),
+    )
+    .map((claim) => claim.fid);
+
+  return {
+    merkleRoot: file.merkleRoot,
+    rebuiltRoot,
+    rootMatches,
+    claimCount: claims.length,
+    invalidLeafHashes,
+    invalidProofs,
+    valid:
+      rootMatches &&
+      invalidLeafHashes.length === 0 &&
+      invalidProofs.length === 0,
+  };
+}
@@ -0,0 +1,279 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { Repository } from 'typeorm';
+
+import { AirdropLeaf, AirdropRound, AirdropSnapshot } from '../../../models';
+import { AirdropContractService } from './airdrop-contract.service';
+import { AirdropRoundService } from './airdrop-round.service';
+import { AirdropService } from './airdrop.service';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const ROOT = `0x${'ab'.repeat(32)}`;
+const NOW = new Date('2026-03-02T00:00:00Z');
+
+describe('AirdropRoundService', () => {
+  let rounds: AirdropRound[];
+  let allocations: Record<number, number>;
+  let claimed: Record<string, number>;
+  let service: AirdropRoundService;
+
+  // 120 days of vesting from the start of claiming; NOW is day 60
+  const round = (overrides: Partial<AirdropRound> = {}) =>
+    ({
+      id: rounds.length + 1,
+      name: `Round ${rounds.length + 1}`,
+      snapshotId: 1,
+      contractAddress: `0x${String(rounds.length + 1).padStart(40, '0')}`,
+      signatureDomain: 'BRNDAIRDROP1',
+      claimStartsAt: new Date('2026-01-01T00:00:00Z'),
+      claimEndsAt: null,
+      vestingStartsAt: new Date('2026-01-01T00:00:00Z'),
+      vestingEndsAt: new Date('2026-05-01T00:00:00Z'),
+      isEnabled: true,
+      ...overrides,
+    }) as AirdropRound;
+
+  const addRound = (overrides: Partial<AirdropRound> = {}) => {
+    const added = round(overrides);
+    rounds.push(added);
+    return added;
+  };
+
+  const statusOf = async (fid: number) =>
+    (await service.getClaimStatus(fid)).rounds[0];
+
+  beforeEach(() => {
+    jest.useFakeTimers({
+      now: NOW,
+      doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'],
+    });
+    delete process.env.AIRDROP_CONTRACT_ADDRESS;
+
+    rounds = [];
+    allocations = { 7: 1000 };
+    claimed = {};
+
+    const roundRepository = {
+      find: async () => rounds,
+      findOne: async () => null,
+      create: (values: Partial<AirdropRound>) => ({ ...values }),
+      save: async (values: AirdropRound) => values,
+    };
+    const snapshotRepository = {
+      findOne: async () => ({ id: 1, merkleRoot: ROOT, isFrozen: true }),
+    };
+    const leafRepository = {
+      findOne: async ({ where }: { where: { fid: number } }) =>
+        allocations[where.fid] ? { baseAmount: allocations[where.fid] } : null,
+    };
+    const contractService = {
+      getContractStatus: async () => ({
+        merkleRoot: ROOT,
+        claimingEnabled: true,
+      }),
+      getClaimedAmount: async (fid: number, contractAddress: string) =>
+        claimed[`${contractAddress}:${fid}`] || 0,
+      hasClaimed: async (fid: number, contractAddress: string) =>
+        Boolean(claimed[`${contractAddress}:${fid}`]),
+    };
+
+    service = new AirdropRoundService(
+      roundRepository as unknown as Repository<AirdropRound>,
+      snapshotRepository as unknown as Repository<AirdropSnapshot>,
+      leafRepository as unknown as Repository<AirdropLeaf>,
+      {} as AirdropService,
+      contractService as unknown as AirdropContractService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('vesting', () => {
+    it('unlocks the allocation linearly over the vesting period', async () => {
+      const { contractAddress } = addRound();
+      claimed[`${contractAddress}:7`] = 200;
+
+      expect(await statusOf(7)).toMatchObject({
+        amount: 1000,
+        unlocked: 500,
+        claimed: 200,
+        claimableNow: 300,
+        unlocksLater: 500,
+        canClaim: true,
+      });
+    });
+
+    it('rounds the unlocked amount down to whole BRND', async () => {
+      allocations[7] = 999;
+      addRound();
+
+      expect((await statusOf(7)).unlocked).toBe(499);
+    });
+
+    it('unlocks nothing before vesting starts', async () => {
+      addRound({
+        vestingStartsAt: new Date('2026-04-01T00:00:00Z'),
+        vestingEndsAt: new Date('2026-06-01T00:00:00Z'),
+      });
+
+      expect(await statusOf(7)).toMatchObject({
+        unlocked: 0,
+        claimableNow: 0,
+        unlocksLater: 1000,
+        canClaim: false,
+        reason: 'Nothing unlocked since the last claim',
+      });
+    });
+
+    it('unlocks everything once vesting has ended', async () => {
+      const { contractAddress } = addRound({
+        vestingStartsAt: new Date('2025-11-01T00:00:00Z'),
+        vestingEndsAt: new Date('2026-02-01T00:00:00Z'),
+      });
+      claimed[`${contractAddress}:7`] = 400;
+
+      expect(await statusOf(7)).toMatchObject({
+        unlocked: 1000,
+        claimableNow: 600,
+        unlocksLater: 0,
+      });
+    });
+
+    it('unlocks the whole allocation at once without vesting', async () => {
+      addRound({ vestingStartsAt: null, vestingEndsAt: null });
+
+      expect(await statusOf(7)).toMatchObject({
+        vesting: null,
+        unlocked: 1000,
+        claimableNow: 1000,
+      });
+    });
+
+    it('counts an unvested claim as the whole allocation', async () => {
+      const { contractAddress } = addRound({
+        vestingStartsAt: null,
+        vestingEndsAt: null,
+      });
+      claimed[`${contractAddress}:7`] = 1;
+
+      expect(await statusOf(7)).toMatchObject({
+        claimed: 1000,
+        claimableNow: 0,
+        reason: 'Already claimed',
+      });
+    });
+
+    it('unlocks nothing before claiming opens', async () => {
+      const claimStartsAt = new Date('2026-04-01T00:00:00Z');
+      addRound({ claimStartsAt, vestingStartsAt: null, vestingEndsAt: null });
+
+      expect(await statusOf(7)).toMatchObject({
+        unlocked: 0,
+        unlocksLater: 1000,
+        canClaim: false,
+        reason: `Claiming opens at ${claimStartsAt.toISOString()}`,
+      });
+    });
+
+    it('has nothing left to unlock once the claim window has ended', async () => {
+      addRound({
+        claimEndsAt: new Date('2026-03-01T00:00:00Z'),
+        vestingStartsAt: null,
+        vestingEndsAt: null,
+      });
+
+      expect(await statusOf(7)).toMatchObject({
+        unlocksLater: 0,
+        canClaim: false,
+        reason: 'Claim window has ended',
+      });
+    });
+  });
+
+  describe('getClaimStatus', () => {
+    it('adds up every round the FID is in', async () => {
+      const first = addRound();
+      addRound({ vestingStartsAt: null, vestingEndsAt: null });
+      claimed[`${first.contractAddress}:7`] = 100;
+
+      const status = await service.getClaimStatus(7);
+
+      expect(status.totals).toEqual({
+        amount: 2000,
+        claimed: 100,
+        claimableNow: 1400,
+        unlocksLater: 500,
+      });
+      expect(status.canClaim).toBe(true);
+      expect(status.reason).toBe('Claimable in 2 round(s)');
+    });
+
+    it('reports an FID that is in no snapshot', async () => {
+      addRound();
+
+      const status = await service.getClaimStatus(8);
+
+      expect(status.totals.amount).toBe(0);
+      expect(status.reason).toBe('Not eligible for any airdrop round');
+    });
+  });
+
+  describe('createRound', () => {
+    const input = {
+      name: 'Season 2 airdrop',
+      snapshotId: 1,
+      contractAddress: `0x${'1'.repeat(40)}`,
+      claimStartsAt: new Date('2026-04-01T00:00:00Z'),
+      vestingStartsAt: new Date('2026-04-01T00:00:00Z'),
+      vestingEndsAt: new Date('2026-10-01T00:00:00Z'),
+    };
+
+    it('creates a round whose window covers its vesting', async () => {
+      const created = await service.createRound({
+        ...input,
+        claimEndsAt: new Date('2026-12-01T00:00:00Z'),
+      });
+
+      expect(created).toMatchObject({
+        name: 'Season 2 airdrop',
+        signatureDomain: 'BRNDAIRDROP1',
+        isEnabled: true,
+      });
+    });
+
+    it('refuses a claim window that closes before vesting ends', async () => {
+      await expect(
+        service.createRound({
+          ...input,
+          claimEndsAt: new Date('2026-09-01T00:00:00Z'),
+        }),
+      ).rejects.toThrow('claimEndsAt cannot be before vestingEndsAt');
+    });
+
+    it('refuses vesting dates that are not dates', async () => {
+      await expect(
+        service.createRound({
+          ...input,
+          vestingEndsAt: new Date('not a date'),
+        }),
+      ).rejects.toThrow('vestingEndsAt must be a date');
+    });
+
+    it('refuses half a vesting schedule', async () => {
+      await expect(
+        service.createRound({ ...input, vestingEndsAt: null }),
+      ).rejects.toThrow('vestingStartsAt and vestingEndsAt go together');
+    });
+  });
+});
@@ -0,0 +1,461 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { AirdropLeaf, AirdropRound, AirdropSnapshot } from '../../../models';
+import { getConfig } from '../../../security/config';
+import { logger } from '../../../main';
+import { AirdropService } from './airdrop.service';
+import { AirdropContractService } from './airdrop-contract.service';
+
+const ZERO_ROOT =
+  '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+export interface AirdropRoundInput {
+  name?: string;
+  snapshotId?: number;
+  contractAddress?: string;
+  signatureDomain?: string;
+  claimStartsAt?: Date;
+  claimEndsAt?: Date | null;
+  vestingStartsAt?: Date | null;
+  vestingEndsAt?: Date | null;
+  isEnabled?: boolean;
+}
+
+/**
+ * One round as seen by a user. Amounts are whole BRND.
+ */
+export interface AirdropRoundClaimStatus {
+  // Null for the original airdrop while it has no airdrop_rounds row
+  roundId: number | null;
+  name: string;
+  contractAddress: string;
+  snapshotId: number;
+  claimStartsAt: Date | null;
+  claimEndsAt: Date | null;
+  vesting: { startsAt: Date; endsAt: Date } | null;
+  // Allocation in the round's snapshot, 0 when the FID is not in it
+  amount: number;
+  unlocked: number;
+  claimed: number;
+  claimableNow: number;
+  // Still locked by the vesting schedule or the claim window not being open yet
+  unlocksLater: number;
+  canClaim: boolean;
+  reason: string;
+}
+
+export interface AirdropClaimStatus {
+  fid: number;
+  canClaim: boolean;
+  reason: string;
+  totals: {
+    amount: number;
+    claimed: number;
+    claimableNow: number;
+    unlocksLater: number;
+  };
+  rounds: AirdropRoundClaimStatus[];
+}
+
+/**
+ * Airdrop rounds: each one distributes a snapshot from its own contract,
+ * within its own claim window and optionally on a linear vesting schedule.
+ * Claim status and signatures are worked out across all enabled rounds.
+ */
+@Injectable()
+export class AirdropRoundService {
+  constructor(
+    @InjectRepository(AirdropRound)
+    private readonly airdropRoundRepository: Repository<AirdropRound>,
+    @InjectRepository(AirdropSnapshot)
+    private readonly airdropSnapshotRepository: Repository<AirdropSnapshot>,
+    @InjectRepository(AirdropLeaf)
+    private readonly airdropLeafRepository: Repository<AirdropLeaf>,
+    private readonly airdropService: AirdropService,
+    private readonly airdropContractService: AirdropContractService,
+  ) {}
+
+  async listRounds(): Promise<AirdropRound[]> {
+    return this.airdropRoundRepository.find({
+      order: { claimStartsAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async createRound(input: AirdropRoundInput): Promise<AirdropRound> {
+    if (
+      !input.name ||
+      !input.snapshotId ||
+      !input.contractAddress ||
+      !input.claimStartsAt
+    ) {
+      throw new Error(
+        'name, snapshotId, contractAddress and claimStartsAt are required',
+      );
+    }
+
+    const round = this.airdropRoundRepository.create({
+      name: input.name,
+      snapshotId: input.snapshotId,
+      contractAddress: input.contractAddress,
+      signatureDomain: input.signatureDomain || 'BRNDAIRDROP1',
+      claimStartsAt: input.claimStartsAt,
+      claimEndsAt: input.claimEndsAt || null,
+      vestingStartsAt: input.vestingStartsAt || null,
+      vestingEndsAt: input.vestingEndsAt || null,
+      isEnabled: input.isEnabled ?? true,
+    });
+    await this.assertValidRound(round);
+
+    const saved = await this.airdropRoundRepository.save(round);
+    logger.log(
+      `🪂 [AIRDROP ROUNDS] Created round ${saved.id} (${saved.name}) on ${saved.contractAddress}`,
+    );
+    return saved;
+  }
+
+  async updateRound(
+    id: number,
+    input: AirdropRoundInput,
+  ): Promise<AirdropRound> {
+    const round = await this.airdropRoundRepository.findOne({ where: { id } });
+    if (!round) {
+      throw new Error(`Airdrop round ${id} not found`);
+    }
+
+    // Left-out fields keep their value; null clears the optional dates
+    if (input.name !== undefined) round.name = input.name;
+    if (input.snapshotId !== undefined) round.snapshotId = input.snapshotId;
+    if (input.contractAddress !== undefined) {
+      round.contractAddress = input.contractAddress;
+    }
+    if (input.signatureDomain !== undefined) {
+      round.signatureDomain = input.signatureDomain;
+    }
+    if (input.claimStartsAt !== undefined) {
+      round.claimStartsAt = input.claimStartsAt;
+    }
+    if (input.claimEndsAt !== undefined) round.claimEndsAt = input.claimEndsAt;
+    if (input.vestingStartsAt !== undefined) {
+      round.vestingStartsAt = input.vestingStartsAt;
+    }
+    if (input.vestingEndsAt !== undefined) {
+      round.vestingEndsAt = input.vestingEndsAt;
+    }
+    if (input.isEnabled !== undefined) round.isEnabled = input.isEnabled;
+    await this.assertValidRound(round);
+
+    const saved = await this.airdropRoundRepository.save(round);
+    logger.log(`🪂 [AIRDROP ROUNDS] Updated round ${saved.id} (${saved.name})`);
+    return saved;
+  }
+
+  /**
+   * What the FID has in every enabled round: claimable now, already claimed
+   * and still to unlock.
+   */
+  async getClaimStatus(fid: number): Promise<AirdropClaimStatus> {
+    const rounds = await this.getEnabledRounds();
+    const statuses = await Promise.all(
+      rounds.map((round) => this.getRoundClaimStatus(fid, round)),
+    );
+
+    const sum = (key: keyof AirdropClaimStatus['totals']) =>
+      statuses.reduce((total, status) => total + status[key], 0);
+    const claimable = statuses.filter((status) => status.canClaim);
+    const eligible = statuses.filter((status) => status.amount > 0);
+
+    return {
+      fid,
+      canClaim: claimable.length > 0,
+      reason:
+        claimable.length > 0
+          ? `Claimable in ${claimable.length} round(s)`
+          : eligible.length > 0
+            ? eligible[0].reason
+            : 'Not eligible for any airdrop round',
+      totals: {
+        amount: sum('amount'),
+        claimed: sum('claimed'),
+        claimableNow: sum('claimableNow'),
+        unlocksLater: sum('unlocksLater'),
+      },
+      rounds: statuses,
+    };
+  }
+
+  /**
+   * Everything needed to sign a claim in one round: the round, the FID's
+   * status in it and its merkle proof. Without roundId, the first round with
+   * something claimable is used. Throws when nothing can be claimed.
+   */
+  async prepareClaim(
+    fid: number,
+    roundId?: number,
+  ): Promise<{
+    round: AirdropRound;
+    status: AirdropRoundClaimStatus;
+    proofData: {
+      fid: number;
+      amount: string;
+      proof: string[];
+      merkleRoot: string;
+      snapshotId: number;
+    };
+  }> {
+    const rounds = await this.getEnabledRounds();
+    const candidates = roundId
+      ? rounds.filter((round) => round.id === roundId)
+      : rounds;
+    if (candidates.length === 0) {
+      throw new Error(`Airdrop round ${roundId} not found`);
+    }
+
+    let firstStatus: AirdropRoundClaimStatus = null;
+    for (const round of candidates) {
+      const status = await this.getRoundClaimStatus(fid, round);
+      firstStatus = firstStatus || status;
+      if (!status.canClaim) {
+        continue;
+      }
+
+      const proofData = await this.airdropService.generateMerkleProof(
+        fid,
+        round.snapshotId,
+      );
+      if (!proofData) {
+        throw new Error(
+          `FID ${fid} not found in the snapshot of round ${round.name}`,
+        );
+      }
+      return { round, status, proofData };
+    }
+
+    throw new Error(
+      roundId ? firstStatus.reason : 'Nothing to claim in any airdrop round',
+    );
+  }
+
+  /**
+   * Enabled rounds in claim order. The original airdrop, configured through
+   * AIRDROP_CONTRACT_ADDRESS and the active snapshot, is included as a round
+   * of its own until a row is added for it.
+   */
+  private async getEnabledRounds(): Promise<AirdropRound[]> {
+    const rounds = await this.airdropRoundRepository.find({
+      where: { isEnabled: true },
+      order: { claimStartsAt: 'ASC', id: 'ASC' },
+    });
+
+    const legacyAddress = getConfig().blockchain.airdropContractAddress;
+    if (
+      !legacyAddress ||
+      rounds.some(
+        (round) =>
+          round.contractAddress.toLowerCase() === legacyAddress.toLowerCase(),
+      )
+    ) {
+      return rounds;
+    }
+
+    const activeSnapshot = await this.airdropSnapshotRepository.findOne({
+      where: { isActive: true },
+    });
+    if (!activeSnapshot) {
+      return rounds;
+    }
+
+    const legacyRound = this.airdropRoundRepository.create({
+      id: null,
+      name: 'BRND airdrop',
+      snapshotId: activeSnapshot.id,
+      contractAddress: legacyAddress,
+      signatureDomain: 'BRNDAIRDROP1',
+      // The contract enforces its own window; only claimingEnabled gates it here
+      claimStartsAt: null,
+      claimEndsAt: null,
+      vestingStartsAt: null,
+      vestingEndsAt: null,
+      isEnabled: true,
+    });
+    return [legacyRound, ...rounds];
+  }
+
+  private async getRoundClaimStatus(
+    fid: number,
+    round: AirdropRound,
+  ): Promise<AirdropRoundClaimStatus> {
+    const now = new Date();
+    const vesting =
+      round.vestingStartsAt && round.vestingEndsAt
+        ? { startsAt: round.vestingStartsAt, endsAt: round.vestingEndsAt }
+        : null;
+    const status: AirdropRoundClaimStatus = {
+      roundId: round.id,
+      name: round.name,
+      contractAddress: round.contractAddress,
+      snapshotId: round.snapshotId,
+      claimStartsAt: round.claimStartsAt,
+      claimEndsAt: round.claimEndsAt,
+      vesting,
+      amount: 0,
+      unlocked: 0,
+      claimed: 0,
+      claimableNow: 0,
+      unlocksLater: 0,
+      canClaim: false,
+      reason: 'Not eligible for this round',
+    };
+
+    const leaf = await this.airdropLeafRepository.findOne({
+      where: { snapshotId: round.snapshotId, fid },
+    });
+    if (!leaf) {
+      return status;
+    }
+
+    const amount = leaf.baseAmount;
+    status.amount = amount;
+    status.unlocked = this.getUnlockedAmount(amount, round, now);
+
+    let contractStatus: Awaited<
+      ReturnType<AirdropContractService['getContractStatus']>
+    >;
+    try {
+      [contractStatus, status.claimed] = await Promise.all([
+        this.airdropContractService.getContractStatus(round.contractAddress),
+        vesting
+          ? this.airdropContractService.getClaimedAmount(
+              fid,
+              round.contractAddress,
+            )
+          : this.airdropContractService
+              .hasClaimed(fid, round.contractAddress)
+              .then((hasClaimed) => (hasClaimed ? amount : 0)),
+      ]);
+    } catch (error) {
+      logger.error(
+        `❌ [AIRDROP ROUNDS] Failed to read round ${round.name} contract for FID ${fid}:`,
+        error,
+      );
+      status.reason = 'Could not read the round contract, try again later';
+      return status;
+    }
+
+    const ended = round.claimEndsAt && now >= round.claimEndsAt;
+    status.unlocksLater = ended
+      ? 0
+      : Math.max(amount - Math.max(status.unlocked, status.claimed), 0);
+
+    const snapshot = await this.airdropSnapshotRepository.findOne({
+      where: { id: round.snapshotId },
+    });
+    const contractRoot = contractStatus.merkleRoot.toLowerCase();
+
+    if (status.claimed >= amount) {
+      status.reason = 'Already claimed';
+    } else if (ended) {
+      status.reason = 'Claim window has ended';
+    } else if (round.claimStartsAt && now < round.claimStartsAt) {
+      status.reason = `Claiming opens at ${round.claimStartsAt.toISOString()}`;
+    } else if (!contractStatus.claimingEnabled) {
+      status.reason = 'Claiming is not enabled yet';
+    } else if (contractRoot === ZERO_ROOT) {
+      status.reason = 'Merkle root not set on contract';
+    } else if (contractRoot !== snapshot?.merkleRoot.toLowerCase()) {
+      status.reason =
+        "Contract merkle root does not match the round's snapshot";
+    } else if (status.unlocked <= status.claimed) {
+      status.reason = 'Nothing unlocked since the last claim';
+    } else {
+      status.claimableNow = status.unlocked - status.claimed;
+      status.canClaim = true;
+      status.reason = 'Eligible to claim';
+    }
+
+    return status;
+  }
+
+  /**
+   * Part of the allocation unlocked at a time: all of it once claiming opens,
+   * or a linear share between vestingStartsAt and vestingEndsAt.
+   */
+  private getUnlockedAmount(
+    amount: number,
+    round: AirdropRound,
+    at: Date,
+  ): number {
+    if (round.claimStartsAt && at < round.claimStartsAt) {
+      return 0;
+    }
+    if (!round.vestingStartsAt || !round.vestingEndsAt) {
+      return amount;
+    }
+
+    const start = round.vestingStartsAt.getTime();
+    const end = round.vestingEndsAt.getTime();
+    const share = Math.min(
+      Math.max((at.getTime() - start) / (end - start), 0),
+      1,
+    );
+    return Math.floor(amount * share);
+  }
+
+  private async assertValidRound(round: AirdropRound): Promise<void> {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(round.contractAddress)) {
+      throw new Error('contractAddress must be a 0x-prefixed address');
+    }
+    const isDate = (value: Date | null) =>
+      value instanceof Date && !isNaN(value.getTime());
+    if (!isDate(round.claimStartsAt)) {
+      throw new Error('claimStartsAt must be a date');
+    }
+    for (const key of [
+      'claimEndsAt',
+      'vestingStartsAt',
+      'vestingEndsAt',
+    ] as const) {
+      if (round[key] !== null && !isDate(round[key])) {
+        throw new Error(`${key} must be a date`);
+      }
+    }
+
+    if (round.claimEndsAt && round.claimEndsAt <= round.claimStartsAt) {
+      throw new Error('claimEndsAt must be after claimStartsAt');
+    }
+    if (!round.vestingStartsAt !== !round.vestingEndsAt) {
+      throw new Error('vestingStartsAt and vestingEndsAt go together');
+    }
+    if (round.vestingStartsAt && round.vestingEndsAt <= round.vestingStartsAt) {
+      throw new Error('vestingEndsAt must be after vestingStartsAt');
+    }
+    // Whatever vests after the window closes could never be claimed
+    if (
+      round.claimEndsAt &&
+      round.vestingEndsAt &&
+      round.claimEndsAt < round.vestingEndsAt
+    ) {
+      throw new Error('claimEndsAt cannot be before vestingEndsAt');
+    }
+
+    const snapshot = await this.airdropSnapshotRepository.findOne({
+      where: { id: round.snapshotId },
+    });
+    if (!snapshot) {
+      throw new Error(`Snapshot ${round.snapshotId} not found`);
+    }
+    if (!snapshot.isFrozen) {
+      throw new Error(`Snapshot ${round.snapshotId} is not frozen yet`);
+    }
+
+    const sameContract = await this.airdropRoundRepository.findOne({
+      where: { contractAddress: round.contractAddress },
+    });
+    if (sameContract && sameContract.id !== round.id) {
+      throw new Error(
+        `Round ${sameContract.id} (${sameContract.name}) already uses ${round.contractAddress}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Repository } from 'typeorm';
+
+import {
+  AirdropLeaf,
+  AirdropScore,
+  AirdropSnapshot,
+  User,
+} from '../../../models';
+import { SeasonService } from '../../season/services';
+import { JobService } from '../../job/services';
+import { IpfsService } from '../../../utils/ipfs.service';
+import { AirdropContractService } from './airdrop-contract.service';
+import { AirdropService } from './airdrop.service';
+import {
+  AirdropProofsFile,
+  buildAirdropTree,
+  hashAirdropLeaf,
+  verifyAirdropProofsFile,
+} from './airdrop-merkle';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('AirdropService', () => {
+  const amounts: Record<number, number> = { 3: 42, 7: 1500, 12: 250 };
+  let leaves: AirdropLeaf[];
+  let snapshot: AirdropSnapshot;
+  let snapshotRepository: {
+    findOne: jest.Mock<() => Promise<AirdropSnapshot | null>>;
+    update: jest.Mock<(where: unknown, values: unknown) => Promise<void>>;
+  };
+  let leafRepository: {
+    find: jest.Mock<() => Promise<AirdropLeaf[]>>;
+  };
+  let ipfsService: {
+    uploadJsonToIpfs: jest.Mock<(file: AirdropProofsFile) => Promise<string>>;
+  };
+  let service: AirdropService;
+
+  beforeEach(() => {
+    leaves = Object.entries(amounts).map(
+      ([fid, baseAmount]) =>
+        ({
+          fid: Number(fid),
+          baseAmount,
+          leafHash: hashAirdropLeaf(Number(fid), baseAmount),
+        }) as AirdropLeaf,
+    );
+    snapshot = {
+      id: 5,
+      version: 2,
+      merkleRoot: buildAirdropTree(
+        leaves.map((leaf) => leaf.leafHash),
+      ).getHexRoot(),
+      contractAddress: '0xairdrop',
+      totalUsers: leaves.length,
+      totalTokens: '1792000000000000000000',
+      isActive: true,
+      isFrozen: true,
+    } as AirdropSnapshot;
+
+    snapshotRepository = {
+      findOne: jest.fn(async () => snapshot),
+      update: jest.fn(async () => undefined),
+    };
+    ipfsService = {
+      uploadJsonToIpfs: jest.fn(async () => 'ipfs://proofs'),
+    };
+    leafRepository = { find: jest.fn(async () => leaves) };
+
+    service = new AirdropService(
+      {} as Repository<AirdropScore>,
+      snapshotRepository as unknown as Repository<AirdropSnapshot>,
+      leafRepository as unknown as Repository<AirdropLeaf>,
+      {} as Repository<User>,
+      {} as SeasonService,
+      {} as AirdropContractService,
+      ipfsService as unknown as IpfsService,
+      {} as JobService,
+    );
+  });
+
+  describe('exportSnapshotProofs', () => {
+    it('exports a proof for every claim that verifies on its own', async () => {
+      const file = await service.exportSnapshotProofs();
+
+      expect(snapshotRepository.findOne).toHaveBeenCalledWith({
+        where: { isActive: true },
+      });
+      expect(file).toMatchObject({
+        snapshotId: 5,
+        version: 2,
+        merkleRoot: snapshot.merkleRoot,
+        contractAddress: '0xairdrop',
+        totalUsers: 3,
+      });
+      expect(Object.keys(file.claims)).toEqual(['3', '7', '12']);
+      expect(file.claims[7].amount).toBe('1500');
+      expect(verifyAirdropProofsFile(file).valid).toBe(true);
+    });
+
+    it('refuses to export leaves that do not rebuild the snapshot root', async () => {
+      leaves[1].leafHash = hashAirdropLeaf(7, 9999);
+
+      await expect(service.exportSnapshotProofs(5)).rejects.toThrow(
+        'Snapshot 5 leaves do not rebuild its merkle root',
+      );
+    });
+
+    it('fails when there is no active snapshot', async () => {
+      snapshotRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.exportSnapshotProofs()).rejects.toThrow(
+        'No active airdrop snapshot',
+      );
+    });
+  });
+
+  describe('generateMerkleProof', () => {
+    it('serves proofs of a frozen snapshot from the tree built once', async () => {
+      const first = await service.generateMerkleProof(7);
+      const second = await service.generateMerkleProof(12);
+      const file = await service.exportSnapshotProofs();
+
+      expect(first).toEqual({
+        fid: 7,
+        amount: '1500',
+        proof: file.claims[7].proof,
+        merkleRoot: snapshot.merkleRoot,
+        snapshotId: 5,
+      });
+      expect(second.proof).toEqual(file.claims[12].proof);
+      expect(leafRepository.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('has no proof for a FID outside the snapshot', async () => {
+      expect(await service.generateMerkleProof(99)).toBeNull();
+    });
+
+    it('rebuilds the tree of a snapshot that is not frozen yet', async () => {
+      snapshot.isFrozen = false;
+
+      await service.generateMerkleProof(7);
+      await service.generateMerkleProof(7);
+
+      expect(leafRepository.find).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not keep a tree that failed to rebuild the root', async () => {
+      const stored = leaves[1].leafHash;
+      leaves[1].leafHash = hashAirdropLeaf(7, 9999);
+      await expect(service.generateMerkleProof(7)).rejects.toThrow(
+        'Snapshot 5 leaves do not rebuild its merkle root',
+      );
+
+      leaves[1].leafHash = stored;
+
+      expect((await service.generateMerkleProof(7)).amount).toBe('1500');
+    });
+  });
+
+  describe('publishSnapshotProofs', () => {
+    it('uploads the proofs file and records where it is', async () => {
+      const result = await service.publishSnapshotProofs(5);
+
+      expect(ipfsService.uploadJsonToIpfs.mock.calls[0][0].merkleRoot).toBe(
+        snapshot.merkleRoot,
+      );
+      expect(snapshotRepository.update).toHaveBeenCalledWith(
+        { id: 5 },
+        { proofsUri: 'ipfs://proofs' },
+      );
+      expect(result).toEqual({ snapshotId: 5, proofsUri: 'ipfs://proofs' });
+    });
+  });
+
+  describe('verifySnapshot', () => {
+    it('accepts a snapshot whose leaves rebuild its root', async () => {
+      const verification = await service.verifySnapshot(5);
+
+      expect(verification).toMatchObject({
+        rebuiltRoot: snapshot.merkleRoot,
+        rootMatches: true,
+        leafCountMatches: true,
+        invalidLeafHashes: [],
+        valid: true,
+      });
+    });
+
+    it('catches an amount edited after the snapshot', async () => {
+      leaves[2].baseAmount = 9999;
+
+      const verification = await service.verifySnapshot(5);
+
+      expect(verification.rootMatches).toBe(true);
+      expect(verification.invalidLeafHashes).toEqual([12]);
+      expect(verification.valid).toBe(false);
+    });
+  });
+});
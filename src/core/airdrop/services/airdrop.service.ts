@@ -1,18 +1,44 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, Not, In } from 'typeorm';
 import {
   AirdropScore,
   AirdropSnapshot,
   AirdropLeaf,
+  BackgroundJobTypeEnum,
   User,
 } from '../../../models';
 import { MerkleTree } from 'merkletreejs';
 import { getConfig } from '../../../security/config';
+import { SeasonService } from '../../season/services';
+import { AirdropContractService } from './airdrop-contract.service';
+import {
+  AIRDROP_PROOFS_FORMAT,
+  AirdropProofsFile,
+  buildAirdropTree,
+  hashAirdropLeaf,
+} from './airdrop-merkle';
+import { IpfsService } from '../../../utils/ipfs.service';
+import { JobService } from '../../job/services';
+import {
+  AIRDROP_MULTIPLIER_KEYS,
+  AirdropConfig,
+  AirdropConfigOverrides,
+  AirdropMultiplierKey,
+  DEFAULT_AIRDROP_CONFIG,
+  describeTiers,
+  getNextTier,
+  getTierMultiplier,
+  mergeAirdropConfig,
+  validateAirdropConfig,
+} from './airdrop-config';
 import { StandardMerkleTree } from '@openzeppelin/merkle-tree';
 import { keccak256, AbiCoder } from 'ethers';
 import { StandardMerkleTreeData } from '@openzeppelin/merkle-tree/dist/standard';
 
+// Rows of airdrop_scores updated per batch by the allocation jobs
+const AIRDROP_SCORE_BATCH_SIZE = 500;
+
 export interface AirdropMultipliers {
   followAccounts: number;
   channelInteraction: number;
@@ -62,10 +88,171 @@ export interface AirdropCalculation {
   };
 }
 
+interface AirdropMeasurements {
+  followedAccounts: {
+    followedCount: number;
+    details: { followingBrnd: boolean; followingFloc: boolean };
+  };
+  channelInteraction: { isFollowingChannel: boolean; podiumCastsCount: number };
+  holdings: {
+    totalBalance: number;
+    walletBalance: number;
+    stakedBalance: number;
+  };
+  collectiblesCount: number;
+  votedBrandsCount: number;
+  sharedPodiumsCount: number;
+  neynarScore: number;
+  hasPowerBadge: boolean;
+  isProUser: boolean;
+  hasBrndTokenInProfile: boolean;
+}
+
+export interface AirdropSimulationChange {
+  fid: number;
+  username: string | null;
+  currentAllocation: number;
+  simulatedAllocation: number;
+  delta: number;
+}
+
+export interface AirdropSimulation {
+  config: AirdropConfig;
+  eligibleUsers: number;
+  processed: number;
+  failed: number;
+  errors: Array<{ fid: number; error: string }>;
+  totalAirdropPoints: number;
+  totalTokensAllocated: number;
+  distribution: {
+    users: number;
+    min: number;
+    median: number;
+    p90: number;
+    p99: number;
+    max: number;
+    mean: number;
+    // Percent of the allocated tokens going to the top 10 and top 100
+    top10Share: number;
+    top100Share: number;
+    gini: number;
+  };
+  // The same figures for the allocations in airdrop_scores
+  currentDistribution: AirdropSimulation['distribution'];
+  winners: AirdropSimulationChange[];
+  losers: AirdropSimulationChange[];
+}
+
+export interface AirdropSnapshotDiff {
+  from: Pick<
+    AirdropSnapshot,
+    'id' | 'version' | 'merkleRoot' | 'totalUsers' | 'isActive' | 'snapshotDate'
+  >;
+  to: AirdropSnapshotDiff['from'];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    fromTotalTokens: number;
+    toTotalTokens: number;
+    totalTokensDelta: number;
+  };
+  added: Array<{ fid: number; amount: number; rank: number }>;
+  removed: Array<{ fid: number; amount: number; rank: number }>;
+  changed: Array<{
+    fid: number;
+    fromAmount: number;
+    toAmount: number;
+    delta: number;
+    fromRank: number;
+    toRank: number;
+  }>;
+}
+
+export interface AirdropSnapshotVerification {
+  snapshotId: number;
+  version: number;
+  merkleRoot: string;
+  rebuiltRoot: string;
+  rootMatches: boolean;
+  leafCount: number;
+  leafCountMatches: boolean;
+  // FIDs whose stored leaf hash is not keccak256(abi.encode(fid, amount))
+  invalidLeafHashes: number[];
+  valid: boolean;
+}
+
+/**
+ * Where a scoring run over the top users stopped, saved after each batch so
+ * an interrupted airdrop calculation job resumes from there.
+ */
+export interface AirdropScoringCheckpoint {
+  // The users being scored, in points order when the run started
+  fids: number[];
+  // Index in fids of the first user not scored yet
+  nextIndex: number;
+  airdropCalculations: Array<{
+    fid: number;
+    username: string;
+    airdropScore: number;
+  }>;
+  processed: number;
+  successful: number;
+  failed: number;
+  errors: Array<{ fid: number; error: string }>;
+}
+
+/**
+ * Where fixZeroScoreAllocations stopped. Rows are walked in id order, so a
+ * resumed job continues after lastId.
+ */
+export interface ZeroAllocationCheckpoint {
+  lastId: number;
+  processed: number;
+  // Rows to fix when the run started
+  total: number;
+  updatedUsers: number;
+}
+
+/**
+ * Where recalculateTokenDistribution stopped, with the totals of the rows
+ * already allocated. Rows are walked in id order.
+ */
+export interface TokenDistributionCheckpoint {
+  // Sum of the final scores when the run started; every batch splits the
+  // pool by it
+  totalAirdropPoints: number;
+  totalUsers: number;
+  lastId: number;
+  processed: number;
+  totalTokensAllocated: number;
+  distributionStats: {
+    under1USD: number;
+    under5USD: number;
+    under10USD: number;
+    under20USD: number;
+    over20USD: number;
+    over30USD: number;
+  };
+}
+
+/**
+ * A frozen snapshot's tree, built once and kept to serve its proofs.
+ */
+interface AirdropSnapshotTree {
+  tree: MerkleTree;
+  // Ordered by FID, as the tree is built
+  leaves: AirdropLeaf[];
+  // Position of each FID's leaf in leaves
+  indexByFid: Map<number, number>;
+}
+
 @Injectable()
-export class AirdropService {
-  private readonly TOTAL_ALLOCATION = 1_500_000_000;
-  private readonly TOP_USERS = 1111;
+export class AirdropService implements OnModuleInit {
+  // Frozen snapshots never change, so their trees are built once per
+  // snapshot. Concurrent requests share the build in progress
+  private snapshotTrees = new Map<number, Promise<AirdropSnapshotTree>>();
 
   constructor(
     @InjectRepository(AirdropScore)
@@ -76,9 +263,72 @@ export class AirdropService {
     private readonly airdropLeafRepository: Repository<AirdropLeaf>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    private readonly seasonService: SeasonService,
+    private readonly airdropContractService: AirdropContractService,
+    private readonly ipfsService: IpfsService,
+    private readonly jobService: JobService,
   ) {}
 
-  async checkUserEligibility(fid: number): Promise<AirdropCalculation> {
+  onModuleInit() {
+    this.jobService.registerHandler<
+      { batchSize?: number } | null,
+      AirdropScoringCheckpoint
+    >(
+      BackgroundJobTypeEnum.AIRDROP_CALCULATION,
+      async ({ params, resumeFrom, checkpoint }) => {
+        const result = await this.calculateAirdropForAllUsers(
+          params?.batchSize || 88,
+          {
+            checkpoint: resumeFrom,
+            onBatch: (scoring) =>
+              checkpoint({
+                processed: scoring.nextIndex,
+                total: scoring.fids.length,
+                checkpoint: scoring,
+              }),
+          },
+        );
+        // The database summary is large and only useful in the logs
+        return { ...result, databaseSummary: undefined };
+      },
+    );
+    this.jobService.registerHandler<null, ZeroAllocationCheckpoint>(
+      BackgroundJobTypeEnum.AIRDROP_FIX_ZERO_ALLOCATIONS,
+      ({ resumeFrom, checkpoint }) =>
+        this.fixZeroScoreAllocations({
+          checkpoint: resumeFrom,
+          onBatch: (batch) =>
+            checkpoint({
+              processed: batch.processed,
+              total: batch.total,
+              checkpoint: batch,
+            }),
+        }),
+    );
+    this.jobService.registerHandler<null, TokenDistributionCheckpoint>(
+      BackgroundJobTypeEnum.AIRDROP_TOKEN_DISTRIBUTION,
+      ({ resumeFrom, checkpoint }) =>
+        this.recalculateTokenDistribution({
+          checkpoint: resumeFrom,
+          onBatch: (distribution) =>
+            checkpoint({
+              processed: distribution.processed,
+              total: distribution.totalUsers,
+              checkpoint: distribution,
+            }),
+        }),
+    );
+  }
+
+  /**
+   * Calculates a user's airdrop score. With a seasonId the base points are
+   * the user's points in that season, and the result is a preview that is
+   * not saved.
+   */
+  async checkUserEligibility(
+    fid: number,
+    seasonId?: number,
+  ): Promise<AirdropCalculation> {
     const user = await this.userRepository.findOne({ where: { fid } });
     if (!user) {
       throw new Error('User not found');
@@ -91,10 +341,16 @@ export class AirdropService {
     });
 
     // STEP 1: Get base points (user's accumulated system points)
-    const userSystemPoints = user.points;
+    const userSystemPoints =
+      seasonId === undefined
+        ? user.points
+        : await this.seasonService.getUserPoints(user.id, seasonId);
 
     // STEP 2: Calculate all multipliers
-    const multiplierData = await this.calculateMultipliersWithBreakdown(fid);
+    const multiplierData = this.calculateMultipliersWithBreakdown(
+      await this.measureUser(fid),
+      DEFAULT_AIRDROP_CONFIG,
+    );
 
     // STEP 3: Calculate total multiplier
     const totalMultiplier = this.calculateTotalMultiplier(
@@ -137,7 +393,9 @@ export class AirdropService {
         : undefined,
     };
 
-    await this.saveAirdropScore(calculation);
+    if (seasonId === undefined) {
+      await this.saveAirdropScore(calculation);
+    }
 
     return calculation;
   }
@@ -151,7 +409,8 @@ export class AirdropService {
 
   /**
    * OPTIMIZED: Check user eligibility with pre-fetched data
-   * This version avoids redundant API calls and DB queries
+   * This version avoids redundant API calls and DB queries. Without persist
+   * the score is only returned, for simulations.
    */
   private async checkUserEligibilityOptimized(
     fid: number,
@@ -159,6 +418,8 @@ export class AirdropService {
     neynarUserInfoCache: Map<number, any>,
     votedBrandsCount: number,
     sharedPodiumsCount: number,
+    config: AirdropConfig,
+    persist: boolean,
   ): Promise<AirdropCalculation> {
     // Check if user already has an airdrop score
     const existingAirdropScore = await this.airdropScoreRepository.findOne({
@@ -166,13 +427,14 @@ export class AirdropService {
     });
 
     // Calculate multipliers with pre-fetched data
-    const multiplierData =
-      await this.calculateMultipliersWithBreakdownOptimized(
-        fid,
-        neynarUserInfoCache,
+    const multiplierData = this.calculateMultipliersWithBreakdown(
+      await this.measureUser(fid, {
+        userInfo: neynarUserInfoCache.get(fid),
         votedBrandsCount,
         sharedPodiumsCount,
-      );
+      }),
+      config,
+    );
 
     // Calculate total multiplier
     const totalMultiplier = this.calculateTotalMultiplier(
@@ -212,7 +474,9 @@ export class AirdropService {
     };
 
     // Save airdrop score (without leaderboard position for now)
-    await this.saveAirdropScore(calculation);
+    if (persist) {
+      await this.saveAirdropScore(calculation);
+    }
 
     return calculation;
   }
@@ -245,8 +509,7 @@ export class AirdropService {
     }
   }
 
-  private async calculateFollowAccountsMultiplier(fid: number): Promise<{
-    multiplier: number;
+  private async getFollowedAccounts(fid: number): Promise<{
     followedCount: number;
     details: {
       followingBrnd: boolean;
@@ -293,16 +556,10 @@ export class AirdropService {
         Boolean,
       ).length;
 
-      let multiplier = 1.0;
-      if (followedCount >= 2)
-        multiplier = 1.4; // Follow both @brnd and @floc
-      else if (followedCount >= 1) multiplier = 1.2; // Follow at least one account
-
-      return { multiplier, followedCount, details };
+      return { followedCount, details };
     } catch (error) {
-      console.error('Error calculating follow accounts multiplier:', error);
+      console.error('Error checking followed accounts:', error);
       return {
-        multiplier: 1.0,
         followedCount: 0,
         details: {
           followingBrnd: false,
@@ -386,8 +643,7 @@ export class AirdropService {
     }
   }
 
-  private async calculateChannelInteractionMultiplier(fid: number): Promise<{
-    multiplier: number;
+  private async getChannelInteraction(fid: number): Promise<{
     isFollowingChannel: boolean;
     podiumCastsCount: number;
   }> {
@@ -398,37 +654,27 @@ export class AirdropService {
         this.checkPodiumCasts(fid),
       ]);
 
-      // Apply multiplier logic according to spec
-      let multiplier = 1.0;
-      if (podiumCastsCount >= 1 && isFollowingChannel) {
-        multiplier = 1.4; // Follow + Publish podium
-      } else if (isFollowingChannel) {
-        multiplier = 1.2; // Follow channel only
-      }
-
-      return { multiplier, isFollowingChannel, podiumCastsCount };
+      return { isFollowingChannel, podiumCastsCount };
     } catch (error) {
-      console.error('Error calculating channel interaction multiplier:', error);
+      console.error('Error checking channel interaction:', error);
       return {
-        multiplier: 1.0,
         isFollowingChannel: false,
         podiumCastsCount: 0,
       };
     }
   }
 
-  private async calculateHoldingMultiplier(fid: number): Promise<{
-    multiplier: number;
+  /**
+   * BRND in the user's verified wallets, held or staked.
+   */
+  private async getBrndHoldings(userInfo: any): Promise<{
     totalBalance: number;
     walletBalance: number;
     stakedBalance: number;
   }> {
     try {
-      // Get user's verified addresses from Neynar
-      const userInfo = await this.getNeynarUserInfo(fid);
       if (!userInfo?.verified_addresses?.eth_addresses) {
         return {
-          multiplier: 1.0,
           totalBalance: 0,
           walletBalance: 0,
           stakedBalance: 0,
@@ -459,29 +705,14 @@ export class AirdropService {
       );
       const totalBalance = totalWalletBalance + totalStakedBalance;
 
-      // Apply multiplier based on total holdings (wallet + staked) according to spec
-      let multiplier = 1.0;
-
-      if (totalBalance >= 800_000_000) {
-        multiplier = 1.8;
-      } else if (totalBalance >= 400_000_000) {
-        multiplier = 1.6;
-      } else if (totalBalance >= 200_000_000) {
-        multiplier = 1.4;
-      } else if (totalBalance >= 100_000_000) {
-        multiplier = 1.2;
-      }
-
       return {
-        multiplier,
         totalBalance,
         walletBalance: totalWalletBalance,
         stakedBalance: totalStakedBalance,
       };
     } catch (error) {
-      console.error('Error calculating holdings multiplier:', error);
+      console.error('Error getting BRND holdings:', error);
       return {
-        multiplier: 1.0,
         totalBalance: 0,
         walletBalance: 0,
         stakedBalance: 0,
@@ -639,540 +870,257 @@ export class AirdropService {
     }
   }
 
-  private async calculateCollectiblesMultiplier(fid: number): Promise<{
-    multiplier: number;
-    collectiblesCount: number;
-  }> {
-    try {
-      const collectiblesCount = await this.getCollectiblesCount(fid);
-
-      let multiplier = 1.0;
-
-      if (collectiblesCount >= 3) {
-        multiplier = 1.8;
-      } else if (collectiblesCount >= 2) {
-        multiplier = 1.4;
-      } else if (collectiblesCount >= 1) {
-        multiplier = 1.2;
-      }
-
-      return { multiplier, collectiblesCount };
-    } catch (error) {
-      console.error('Error calculating collectibles multiplier:', error);
-      return { multiplier: 1.0, collectiblesCount: 0 };
-    }
-  }
-
-  private async calculateVotedBrandsMultiplier(fid: number): Promise<{
-    multiplier: number;
-    votedBrandsCount: number;
-  }> {
-    try {
-      const votedBrandsCount = await this.getVotedBrandsCount(fid);
-
-      let multiplier = 1.0;
-
-      if (votedBrandsCount >= 72) {
-        multiplier = 1.8;
-      } else if (votedBrandsCount >= 36) {
-        multiplier = 1.6;
-      } else if (votedBrandsCount >= 18) {
-        multiplier = 1.4;
-      } else if (votedBrandsCount >= 9) {
-        multiplier = 1.2;
-      }
-
-      return { multiplier, votedBrandsCount };
-    } catch (error) {
-      console.error('Error calculating voted brands multiplier:', error);
-      return { multiplier: 1.0, votedBrandsCount: 0 };
-    }
-  }
-
-  private async calculateSharedPodiumsMultiplier(fid: number): Promise<{
-    multiplier: number;
-    sharedPodiumsCount: number;
-  }> {
-    try {
-      // Query for shared podiums from UserBrandVotes
-      const sharedPodiumsCount = await this.getSharedPodiumsCount(fid);
-
-      let multiplier = 1.0;
-
-      if (sharedPodiumsCount >= 80) {
-        multiplier = 1.8;
-      } else if (sharedPodiumsCount >= 40) {
-        multiplier = 1.6;
-      } else if (sharedPodiumsCount >= 20) {
-        multiplier = 1.4;
-      } else if (sharedPodiumsCount >= 10) {
-        multiplier = 1.2;
-      }
-
-      return { multiplier, sharedPodiumsCount };
-    } catch (error) {
-      console.error('Error calculating shared podiums multiplier:', error);
-      return { multiplier: 1.0, sharedPodiumsCount: 0 };
-    }
-  }
-
-  private async calculateNeynarScoreMultiplier(fid: number): Promise<{
-    multiplier: number;
-    neynarScore: number;
-  }> {
-    try {
-      const userInfo = await this.getNeynarUserInfo(fid);
-      const neynarScore = userInfo?.score;
+  /**
+   * Everything the multipliers are based on. Neynar info and vote counts
+   * already fetched in bulk (see calculateAirdropForAllUsers) are used
+   * instead of fetching them again.
+   */
+  private async measureUser(
+    fid: number,
+    prefetched: {
+      userInfo?: any;
+      votedBrandsCount?: number;
+      sharedPodiumsCount?: number;
+    } = {},
+  ): Promise<AirdropMeasurements> {
+    const userInfo = prefetched.userInfo ?? (await this.getNeynarUserInfo(fid));
 
-      let multiplier = 1.0;
+    const [
+      followedAccounts,
+      channelInteraction,
+      holdings,
+      collectiblesCount,
+      votedBrandsCount,
+      sharedPodiumsCount,
+    ] = await Promise.all([
+      this.getFollowedAccounts(fid),
+      this.getChannelInteraction(fid),
+      this.getBrndHoldings(userInfo),
+      this.getCollectiblesCount(fid),
+      prefetched.votedBrandsCount ?? this.getVotedBrandsCount(fid),
+      prefetched.sharedPodiumsCount ?? this.getSharedPodiumsCount(fid),
+    ]);
 
-      if (neynarScore >= 1.0) {
-        multiplier = 1.8;
-      } else if (neynarScore >= 0.9) {
-        multiplier = 1.5;
-      } else if (neynarScore >= 0.85) {
-        multiplier = 1.2;
-      }
+    // Check if user has Pro subscription
+    const isProUser = !!(
+      userInfo?.pro?.status === 'subscribed' &&
+      userInfo.pro.expires_at &&
+      new Date(userInfo.pro.expires_at) > new Date()
+    );
 
-      return { multiplier, neynarScore };
-    } catch (error) {
-      console.error('Error calculating Neynar score multiplier:', error);
-      return { multiplier: 1.0, neynarScore: 0 };
-    }
+    return {
+      followedAccounts,
+      channelInteraction,
+      holdings,
+      collectiblesCount,
+      votedBrandsCount,
+      sharedPodiumsCount,
+      neynarScore: userInfo?.score || 0,
+      hasPowerBadge: userInfo?.power_badge || false,
+      isProUser,
+      // TODO: Check the profile bio for $BRND
+      hasBrndTokenInProfile: false,
+    };
   }
 
-  private async calculateProUserMultiplier(fid: number): Promise<{
-    multiplier: number;
-    isProUser: boolean;
-    hasBrndTokenInProfile: boolean;
-  }> {
-    try {
-      // Get user info from Neynar to check Pro status and profile
-      const userInfo = await this.getNeynarUserInfo(fid);
-
-      if (!userInfo) {
-        return {
-          multiplier: 1.0,
-          isProUser: false,
-          hasBrndTokenInProfile: false,
-        };
-      }
-
-      // Check if user has Pro subscription
-      const isProUser =
-        userInfo.pro?.status === 'subscribed' &&
-        userInfo.pro?.expires_at &&
-        new Date(userInfo.pro.expires_at) > new Date();
-
-      // Check if user has BRND token in their profile bio
-      const hasBrndTokenInProfile = false;
-
-      let multiplier = 1.0;
-
-      if (isProUser && hasBrndTokenInProfile) {
-        multiplier = 1.4;
-      } else if (isProUser) {
-        multiplier = 1.2;
-      }
-
-      return { multiplier, isProUser, hasBrndTokenInProfile };
-    } catch (error) {
-      console.error('Error calculating Pro User multiplier:', error);
-      return {
-        multiplier: 1.0,
-        isProUser: false,
-        hasBrndTokenInProfile: false,
-      };
-    }
+  /**
+   * The value each multiplier's tiers are compared to (see AirdropConfig).
+   */
+  private getMultiplierValues(
+    measurements: AirdropMeasurements,
+  ): Record<AirdropMultiplierKey, number> {
+    const { channelInteraction } = measurements;
+    return {
+      followAccounts: measurements.followedAccounts.followedCount,
+      channelInteraction: channelInteraction.isFollowingChannel
+        ? channelInteraction.podiumCastsCount >= 1
+          ? 2
+          : 1
+        : 0,
+      holdingBrnd: measurements.holdings.totalBalance,
+      collectibles: measurements.collectiblesCount,
+      votedBrands: measurements.votedBrandsCount,
+      sharedPodiums: measurements.sharedPodiumsCount,
+      neynarScore: measurements.neynarScore,
+      proUser: measurements.isProUser
+        ? measurements.hasBrndTokenInProfile
+          ? 2
+          : 1
+        : 0,
+    };
   }
 
-  private async calculateMultipliersWithBreakdown(fid: number): Promise<{
+  private calculateMultipliersWithBreakdown(
+    measurements: AirdropMeasurements,
+    config: AirdropConfig,
+  ): {
     multipliers: AirdropMultipliers;
     challenges: ChallengeBreakdown[];
-  }> {
-    // Execute all multiplier calculations in parallel
-    const [
-      followAccountsResult,
-      channelInteractionResult,
-      holdingResult,
-      collectiblesResult,
-      votedBrandsResult,
-      sharedPodiumsResult,
-      neynarScoreResult,
-      proUserResult,
-    ] = await Promise.all([
-      this.calculateFollowAccountsMultiplier(fid),
-      this.calculateChannelInteractionMultiplier(fid),
-      this.calculateHoldingMultiplier(fid),
-      this.calculateCollectiblesMultiplier(fid),
-      this.calculateVotedBrandsMultiplier(fid),
-      this.calculateSharedPodiumsMultiplier(fid),
-      this.calculateNeynarScoreMultiplier(fid),
-      this.calculateProUserMultiplier(fid),
-    ]);
+  } {
+    const values = this.getMultiplierValues(measurements);
+    const multipliers = Object.fromEntries(
+      AIRDROP_MULTIPLIER_KEYS.map((key) => [
+        key,
+        getTierMultiplier(config.multipliers[key], values[key]),
+      ]),
+    ) as Record<AirdropMultiplierKey, number>;
+
+    // Tiers, current and max multiplier and completion come from the config;
+    // progress is shown in the challenge's own unit
+    const challenge = (
+      key: AirdropMultiplierKey,
+      fields: Pick<ChallengeBreakdown, 'name' | 'description' | 'details'> & {
+        current: number;
+        required?: number;
+        unit: string;
+      },
+    ): ChallengeBreakdown => {
+      const tiers = config.multipliers[key];
+      const topTier = tiers[tiers.length - 1];
+      return {
+        name: fields.name,
+        description: fields.description,
+        currentValue: fields.current,
+        currentMultiplier: multipliers[key],
+        maxMultiplier: topTier?.multiplier ?? 1.0,
+        completed: !!topTier && values[key] >= topTier.requirement,
+        progress: {
+          current: fields.current,
+          required: fields.required ?? topTier?.requirement ?? 0,
+          unit: fields.unit,
+        },
+        tiers: describeTiers(tiers, values[key]),
+        details: fields.details,
+      };
+    };
+    const nextTier = (key: AirdropMultiplierKey) =>
+      getNextTier(config.multipliers[key], values[key]);
+
+    const {
+      followedAccounts,
+      channelInteraction,
+      holdings,
+      collectiblesCount,
+      votedBrandsCount,
+      sharedPodiumsCount,
+      neynarScore,
+      isProUser,
+    } = measurements;
 
-    // Build challenges array
     const challenges: ChallengeBreakdown[] = [
-      // Follow Accounts Challenge
-      {
+      challenge('followAccounts', {
         name: 'Follow Accounts',
         description: 'Follow @brnd + @floc accounts',
-        currentValue: followAccountsResult.followedCount,
-        currentMultiplier: followAccountsResult.multiplier,
-        maxMultiplier: 1.4,
-        completed: followAccountsResult.followedCount >= 2,
-        progress: {
-          current: followAccountsResult.followedCount,
-          required: 2,
-          unit: 'following',
-        },
-        tiers: [
-          {
-            requirement: 1,
-            multiplier: 1.2,
-            achieved: followAccountsResult.followedCount >= 1,
-          },
-          {
-            requirement: 2,
-            multiplier: 1.4,
-            achieved: followAccountsResult.followedCount >= 2,
-          },
-        ],
+        current: followedAccounts.followedCount,
+        unit: 'following',
         details: {
           accounts: [
             {
               name: '@brnd',
               fid: 1108951,
-              followed: followAccountsResult.details.followingBrnd,
+              followed: followedAccounts.details.followingBrnd,
               required: true,
             },
             {
               name: '@floc',
               fid: 6946,
-              followed: followAccountsResult.details.followingFloc,
+              followed: followedAccounts.details.followingFloc,
               required: true,
             },
           ],
-          summary: `${followAccountsResult.followedCount}/2 accounts followed`,
+          summary: `${followedAccounts.followedCount}/2 accounts followed`,
         },
-      },
-
-      // Channel Interaction Challenge
-      {
+      }),
+      challenge('channelInteraction', {
         name: 'Channel Interaction /brnd',
         description: 'Follow channel + Publish podiums',
-        currentValue: channelInteractionResult.podiumCastsCount,
-        currentMultiplier: channelInteractionResult.multiplier,
-        maxMultiplier: 1.4,
-        completed:
-          channelInteractionResult.podiumCastsCount >= 1 &&
-          channelInteractionResult.isFollowingChannel,
-        progress: {
-          current: channelInteractionResult.podiumCastsCount,
-          required: 1,
-          unit: 'podiums',
-        },
-        tiers: [
-          {
-            requirement: 1,
-            multiplier: 1.2,
-            achieved: channelInteractionResult.isFollowingChannel,
-          },
-          {
-            requirement: 2,
-            multiplier: 1.4,
-            achieved:
-              channelInteractionResult.podiumCastsCount >= 1 &&
-              channelInteractionResult.isFollowingChannel,
-          },
-        ],
+        current: channelInteraction.podiumCastsCount,
+        required: 1,
+        unit: 'podiums',
         details: {
           channelFollow: {
             channel: '/brnd',
-            followed: channelInteractionResult.isFollowingChannel,
+            followed: channelInteraction.isFollowingChannel,
             required: true,
           },
           podiumCasts: {
-            count: channelInteractionResult.podiumCastsCount,
+            count: channelInteraction.podiumCastsCount,
             required: 1,
             description: 'Publish podium casts in /brnd channel',
           },
-          summary: `Channel followed: ${channelInteractionResult.isFollowingChannel ? 'Yes' : 'No'}, Podiums published: ${channelInteractionResult.podiumCastsCount}`,
+          summary: `Channel followed: ${channelInteraction.isFollowingChannel ? 'Yes' : 'No'}, Podiums published: ${channelInteraction.podiumCastsCount}`,
         },
-      },
-
-      // BRND Holdings Challenge
-      {
+      }),
+      challenge('holdingBrnd', {
         name: 'Holding $BRND',
         description: 'Hold $BRND',
-        currentValue: holdingResult.totalBalance,
-        currentMultiplier: holdingResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: holdingResult.totalBalance >= 800_000_000,
-        progress: {
-          current: holdingResult.totalBalance,
-          required: 800_000_000,
-          unit: '$BRND',
-        },
-        tiers: [
-          {
-            requirement: 100_000_000,
-            multiplier: 1.2,
-            achieved: holdingResult.totalBalance >= 100_000_000,
-          },
-          {
-            requirement: 200_000_000,
-            multiplier: 1.4,
-            achieved: holdingResult.totalBalance >= 200_000_000,
-          },
-          {
-            requirement: 400_000_000,
-            multiplier: 1.6,
-            achieved: holdingResult.totalBalance >= 400_000_000,
-          },
-          {
-            requirement: 800_000_000,
-            multiplier: 1.8,
-            achieved: holdingResult.totalBalance >= 800_000_000,
-          },
-        ],
+        current: holdings.totalBalance,
+        unit: '$BRND',
         details: {
-          totalBalance: holdingResult.totalBalance,
-          walletBalance: holdingResult.walletBalance,
-          stakedBalance: holdingResult.stakedBalance,
-          formattedBalance: holdingResult.totalBalance.toLocaleString(),
-          formattedWalletBalance: holdingResult.walletBalance.toLocaleString(),
-          formattedStakedBalance: holdingResult.stakedBalance.toLocaleString(),
-          nextTier:
-            holdingResult.totalBalance >= 800_000_000
-              ? null
-              : holdingResult.totalBalance >= 400_000_000
-                ? { requirement: 800_000_000, multiplier: 1.8 }
-                : holdingResult.totalBalance >= 200_000_000
-                  ? { requirement: 400_000_000, multiplier: 1.6 }
-                  : holdingResult.totalBalance >= 100_000_000
-                    ? { requirement: 200_000_000, multiplier: 1.4 }
-                    : { requirement: 100_000_000, multiplier: 1.2 },
-          summary: `Holding ${holdingResult.totalBalance.toLocaleString()} BRND tokens (${holdingResult.walletBalance.toLocaleString()} wallet + ${holdingResult.stakedBalance.toLocaleString()} staked)`,
+          totalBalance: holdings.totalBalance,
+          walletBalance: holdings.walletBalance,
+          stakedBalance: holdings.stakedBalance,
+          formattedBalance: holdings.totalBalance.toLocaleString(),
+          formattedWalletBalance: holdings.walletBalance.toLocaleString(),
+          formattedStakedBalance: holdings.stakedBalance.toLocaleString(),
+          nextTier: nextTier('holdingBrnd'),
+          summary: `Holding ${holdings.totalBalance.toLocaleString()} BRND tokens (${holdings.walletBalance.toLocaleString()} wallet + ${holdings.stakedBalance.toLocaleString()} staked)`,
         },
-      },
-
-      // Collectibles Challenge
-      {
+      }),
+      challenge('collectibles', {
         name: 'Collect @brndbot casts',
         description: 'Collect @brndbot casts',
-        currentValue: collectiblesResult.collectiblesCount,
-        currentMultiplier: collectiblesResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: collectiblesResult.collectiblesCount >= 3,
-        progress: {
-          current: collectiblesResult.collectiblesCount,
-          required: 3,
-          unit: 'collectibles',
-        },
-        tiers: [
-          {
-            requirement: 1,
-            multiplier: 1.2,
-            achieved: collectiblesResult.collectiblesCount >= 1,
-          },
-          {
-            requirement: 2,
-            multiplier: 1.4,
-            achieved: collectiblesResult.collectiblesCount >= 2,
-          },
-          {
-            requirement: 3,
-            multiplier: 1.8,
-            achieved: collectiblesResult.collectiblesCount >= 3,
-          },
-        ],
-      },
-
-      // Voted Brands Challenge
-      {
+        current: collectiblesCount,
+        unit: 'collectibles',
+      }),
+      challenge('votedBrands', {
         name: '# of different brands voted',
         description: 'Vote for different brands',
-        currentValue: votedBrandsResult.votedBrandsCount,
-        currentMultiplier: votedBrandsResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: votedBrandsResult.votedBrandsCount >= 72,
-        progress: {
-          current: votedBrandsResult.votedBrandsCount,
-          required: 72,
-          unit: 'brands',
-        },
-        tiers: [
-          {
-            requirement: 9,
-            multiplier: 1.2,
-            achieved: votedBrandsResult.votedBrandsCount >= 9,
-          },
-          {
-            requirement: 18,
-            multiplier: 1.4,
-            achieved: votedBrandsResult.votedBrandsCount >= 18,
-          },
-          {
-            requirement: 36,
-            multiplier: 1.6,
-            achieved: votedBrandsResult.votedBrandsCount >= 36,
-          },
-          {
-            requirement: 72,
-            multiplier: 1.8,
-            achieved: votedBrandsResult.votedBrandsCount >= 72,
-          },
-        ],
+        current: votedBrandsCount,
+        unit: 'brands',
         details: {
-          uniqueBrandsVoted: votedBrandsResult.votedBrandsCount,
-          nextTier:
-            votedBrandsResult.votedBrandsCount >= 72
-              ? null
-              : votedBrandsResult.votedBrandsCount >= 36
-                ? { requirement: 72, multiplier: 1.8 }
-                : votedBrandsResult.votedBrandsCount >= 18
-                  ? { requirement: 36, multiplier: 1.6 }
-                  : votedBrandsResult.votedBrandsCount >= 9
-                    ? { requirement: 18, multiplier: 1.4 }
-                    : { requirement: 9, multiplier: 1.2 },
-          summary: `Voted for ${votedBrandsResult.votedBrandsCount} unique brands`,
+          uniqueBrandsVoted: votedBrandsCount,
+          nextTier: nextTier('votedBrands'),
+          summary: `Voted for ${votedBrandsCount} unique brands`,
         },
-      },
-
-      // Shared Podiums Challenge
-      {
+      }),
+      challenge('sharedPodiums', {
         name: 'Podiums Shared',
         description: 'Shared podiums',
-        currentValue: sharedPodiumsResult.sharedPodiumsCount,
-        currentMultiplier: sharedPodiumsResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: sharedPodiumsResult.sharedPodiumsCount >= 80,
-        progress: {
-          current: sharedPodiumsResult.sharedPodiumsCount,
-          required: 80,
-          unit: 'podiums',
-        },
-        tiers: [
-          {
-            requirement: 10,
-            multiplier: 1.2,
-            achieved: sharedPodiumsResult.sharedPodiumsCount >= 10,
-          },
-          {
-            requirement: 20,
-            multiplier: 1.4,
-            achieved: sharedPodiumsResult.sharedPodiumsCount >= 20,
-          },
-          {
-            requirement: 40,
-            multiplier: 1.6,
-            achieved: sharedPodiumsResult.sharedPodiumsCount >= 40,
-          },
-          {
-            requirement: 80,
-            multiplier: 1.8,
-            achieved: sharedPodiumsResult.sharedPodiumsCount >= 80,
-          },
-        ],
+        current: sharedPodiumsCount,
+        unit: 'podiums',
         details: {
-          sharedPodiumsCount: sharedPodiumsResult.sharedPodiumsCount,
-          nextTier:
-            sharedPodiumsResult.sharedPodiumsCount >= 80
-              ? null
-              : sharedPodiumsResult.sharedPodiumsCount >= 40
-                ? { requirement: 80, multiplier: 1.8 }
-                : sharedPodiumsResult.sharedPodiumsCount >= 20
-                  ? { requirement: 40, multiplier: 1.6 }
-                  : sharedPodiumsResult.sharedPodiumsCount >= 10
-                    ? { requirement: 20, multiplier: 1.4 }
-                    : { requirement: 10, multiplier: 1.2 },
-          summary: `Shared ${sharedPodiumsResult.sharedPodiumsCount} podiums with castHash`,
+          sharedPodiumsCount,
+          nextTier: nextTier('sharedPodiums'),
+          summary: `Shared ${sharedPodiumsCount} podiums with castHash`,
         },
-      },
-
-      // Neynar Score Challenge
-      {
+      }),
+      challenge('neynarScore', {
         name: 'Neynar Score',
         description: 'Score de reputación en Neynar',
-        currentValue: neynarScoreResult.neynarScore,
-        currentMultiplier: neynarScoreResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: neynarScoreResult.neynarScore >= 1.0,
-        progress: {
-          current: neynarScoreResult.neynarScore,
-          required: 1.0,
-          unit: 'score',
-        },
-        tiers: [
-          {
-            requirement: 0.85,
-            multiplier: 1.2,
-            achieved: neynarScoreResult.neynarScore >= 0.85,
-          },
-          {
-            requirement: 0.9,
-            multiplier: 1.5,
-            achieved: neynarScoreResult.neynarScore >= 0.9,
-          },
-          {
-            requirement: 1.0,
-            multiplier: 1.8,
-            achieved: neynarScoreResult.neynarScore >= 1.0,
-          },
-        ],
+        current: neynarScore,
+        unit: 'score',
         details: {
-          neynarScore: neynarScoreResult.neynarScore,
-          nextTier:
-            neynarScoreResult.neynarScore >= 1.0
-              ? null
-              : neynarScoreResult.neynarScore >= 0.9
-                ? { requirement: 1.0, multiplier: 1.8 }
-                : neynarScoreResult.neynarScore >= 0.85
-                  ? { requirement: 0.9, multiplier: 1.5 }
-                  : { requirement: 0.85, multiplier: 1.2 },
-          summary: `Neynar score: ${neynarScoreResult.neynarScore}`,
+          neynarScore,
+          hasPowerBadge: measurements.hasPowerBadge,
+          nextTier: nextTier('neynarScore'),
+          summary: `Neynar score: ${neynarScore}`,
         },
-      },
-
-      // Pro User Challenge
-      {
+      }),
+      challenge('proUser', {
         name: 'Pro User',
         description: 'Pro User',
-        currentValue: proUserResult.isProUser ? 1 : 0,
-        currentMultiplier: proUserResult.multiplier,
-        maxMultiplier: 1.4,
-        completed: proUserResult.isProUser,
-        progress: {
-          current: proUserResult.isProUser ? 1 : 0,
-          required: 1,
-          unit: 'is pro',
-        },
-        tiers: [
-          {
-            requirement: 1,
-            multiplier: 1.2,
-            achieved: proUserResult.isProUser,
-          },
-        ],
+        current: isProUser ? 1 : 0,
+        required: 1,
+        unit: 'is pro',
         details: {
-          isProUser: proUserResult.isProUser,
-          summary: `Pro User: ${proUserResult.isProUser}`,
+          isProUser,
+          hasBrndTokenInProfile: measurements.hasBrndTokenInProfile,
+          summary: `Pro User: ${isProUser}`,
         },
-      },
+      }),
     ];
 
-    const multipliers: AirdropMultipliers = {
-      followAccounts: followAccountsResult.multiplier,
-      channelInteraction: channelInteractionResult.multiplier,
-      holdingBrnd: holdingResult.multiplier,
-      collectibles: collectiblesResult.multiplier,
-      votedBrands: votedBrandsResult.multiplier,
-      sharedPodiums: sharedPodiumsResult.multiplier,
-      neynarScore: neynarScoreResult.multiplier,
-      proUser: proUserResult.multiplier,
-    };
-
     return { multipliers, challenges };
   }
 
@@ -1479,132 +1427,192 @@ export class AirdropService {
     return summary;
   }
 
-  async fixZeroScoreAllocations(): Promise<{ updatedUsers: number }> {
-    const result = await this.airdropScoreRepository
-      .createQueryBuilder()
-      .update()
-      .set({
-        tokenAllocation: 0,
-        percentage: 0,
-      })
-      .where('finalScore = 0 OR finalScore IS NULL')
-      .execute();
+  /**
+   * Zeroes the allocation of every user without a final score, in batches.
+   * From a checkpoint, continues after the last completed batch.
+   */
+  async fixZeroScoreAllocations(
+    progress: {
+      checkpoint?: ZeroAllocationCheckpoint;
+      onBatch?: (checkpoint: ZeroAllocationCheckpoint) => Promise<void>;
+    } = {},
+  ): Promise<{ updatedUsers: number }> {
+    const zeroScore = '(score.finalScore = 0 OR score.finalScore IS NULL)';
+    const state = progress.checkpoint || {
+      lastId: 0,
+      processed: 0,
+      total: await this.airdropScoreRepository
+        .createQueryBuilder('score')
+        .where(zeroScore)
+        .getCount(),
+      updatedUsers: 0,
+    };
+
+    for (;;) {
+      const rows = await this.airdropScoreRepository
+        .createQueryBuilder('score')
+        .select('score.id', 'id')
+        .where(zeroScore)
+        .andWhere('score.id > :lastId', { lastId: state.lastId })
+        .orderBy('score.id', 'ASC')
+        .limit(AIRDROP_SCORE_BATCH_SIZE)
+        .getRawMany();
+      if (rows.length === 0) {
+        break;
+      }
+
+      const ids = rows.map((row) => Number(row.id));
+      const result = await this.airdropScoreRepository
+        .createQueryBuilder()
+        .update()
+        .set({
+          tokenAllocation: 0,
+          percentage: 0,
+        })
+        .whereInIds(ids)
+        .execute();
+
+      state.updatedUsers += result.affected || 0;
+      state.processed += ids.length;
+      state.lastId = ids[ids.length - 1];
+      await progress.onBatch?.(state);
+    }
 
-    return { updatedUsers: result.affected || 0 };
+    return { updatedUsers: state.updatedUsers };
   }
 
-  async recalculateTokenDistribution(): Promise<{
+  /**
+   * Splits the token pool between users by final score, in batches. From a
+   * checkpoint, continues after the last completed batch with the totals the
+   * run started with.
+   */
+  async recalculateTokenDistribution(
+    progress: {
+      checkpoint?: TokenDistributionCheckpoint;
+      onBatch?: (checkpoint: TokenDistributionCheckpoint) => Promise<void>;
+    } = {},
+  ): Promise<{
     totalUsers: number;
     totalAirdropPoints: number;
     totalTokensAllocated: number;
     usersWithZeroScore: number;
-    distributionStats: {
-      under1USD: number;
-      under5USD: number;
-      under10USD: number;
-      under20USD: number;
-      over20USD: number;
-      over30USD: number;
-    };
+    distributionStats: TokenDistributionCheckpoint['distributionStats'];
   }> {
-    // STEP 1: Fix zero score allocations first
-    await this.fixZeroScoreAllocations();
+    let state = progress.checkpoint;
+    if (!state) {
+      // STEP 1: Fix zero score allocations first
+      await this.fixZeroScoreAllocations();
 
-    // STEP 2: Get all airdrop scores with valid values
-    const airdropScores = await this.airdropScoreRepository
-      .createQueryBuilder('score')
-      .select(['score.fid', 'score.finalScore'])
-      .where('score.finalScore > 0')
-      .getMany();
-
-    const totalAirdropPoints = airdropScores.reduce(
-      (sum, score) => sum + Number(score.finalScore),
-      0,
-    );
+      // STEP 2: Totals over all airdrop scores with valid values
+      const totals = await this.airdropScoreRepository
+        .createQueryBuilder('score')
+        .select('COUNT(*)', 'users')
+        .addSelect('SUM(score.finalScore)', 'points')
+        .where('score.finalScore > 0')
+        .getRawOne();
+
+      state = {
+        totalAirdropPoints: Number(totals.points) || 0,
+        totalUsers: Number(totals.users) || 0,
+        lastId: 0,
+        processed: 0,
+        totalTokensAllocated: 0,
+        distributionStats: {
+          under1USD: 0,
+          under5USD: 0,
+          under10USD: 0,
+          under20USD: 0,
+          over20USD: 0,
+          over30USD: 0,
+        },
+      };
+    }
 
-    // Update token allocations for all users using BULK SQL operation
-    let totalTokensAllocated = 0;
+    // Update token allocations batch by batch using BULK SQL operations
     const BRND_USD_PRICE = 0.0000009867;
-    const distributionStats = {
-      under1USD: 0,
-      under5USD: 0,
-      under10USD: 0,
-      under20USD: 0,
-      over20USD: 0,
-      over30USD: 0,
-    };
+    const { totalAirdropPoints, distributionStats } = state;
 
-    // Prepare CASE statements for bulk SQL update
-    const fidList: number[] = [];
-    const tokenAllocationCases: string[] = [];
-    const percentageCases: string[] = [];
-    for (const score of airdropScores) {
-      const finalScore = Number(score.finalScore);
-      const percentage = (finalScore / totalAirdropPoints) * 100;
-      const tokenAllocation = Math.round(
-        (finalScore / totalAirdropPoints) * this.TOTAL_ALLOCATION,
-      );
-      const usdValue = tokenAllocation * BRND_USD_PRICE;
+    for (;;) {
+      const airdropScores = await this.airdropScoreRepository
+        .createQueryBuilder('score')
+        .select(['score.id', 'score.fid', 'score.finalScore'])
+        .where('score.finalScore > 0')
+        .andWhere('score.id > :lastId', { lastId: state.lastId })
+        .orderBy('score.id', 'ASC')
+        .take(AIRDROP_SCORE_BATCH_SIZE)
+        .getMany();
+      if (airdropScores.length === 0) {
+        break;
+      }
 
-      // Validate calculations
-      if (isNaN(percentage) || isNaN(tokenAllocation)) {
-        console.error(
-          `❌ [TOKEN RECALC] Invalid calculation for FID ${score.fid}:`,
-          {
-            finalScore,
-            totalAirdropPoints,
-            percentage,
-            tokenAllocation,
-          },
+      // Prepare CASE statements for bulk SQL update
+      const fidList: number[] = [];
+      const tokenAllocationCases: string[] = [];
+      const percentageCases: string[] = [];
+      for (const score of airdropScores) {
+        const finalScore = Number(score.finalScore);
+        const percentage = (finalScore / totalAirdropPoints) * 100;
+        const tokenAllocation = Math.round(
+          (finalScore / totalAirdropPoints) *
+            DEFAULT_AIRDROP_CONFIG.totalAllocation,
         );
-        continue;
-      }
+        const usdValue = tokenAllocation * BRND_USD_PRICE;
 
-      fidList.push(score.fid);
-      tokenAllocationCases.push(`WHEN ${score.fid} THEN ${tokenAllocation}`);
-      percentageCases.push(`WHEN ${score.fid} THEN ${percentage}`);
+        // Validate calculations
+        if (isNaN(percentage) || isNaN(tokenAllocation)) {
+          console.error(
+            `❌ [TOKEN RECALC] Invalid calculation for FID ${score.fid}:`,
+            {
+              finalScore,
+              totalAirdropPoints,
+              percentage,
+              tokenAllocation,
+            },
+          );
+          continue;
+        }
 
-      totalTokensAllocated += tokenAllocation;
+        fidList.push(score.fid);
+        tokenAllocationCases.push(`WHEN ${score.fid} THEN ${tokenAllocation}`);
+        percentageCases.push(`WHEN ${score.fid} THEN ${percentage}`);
 
-      // Categorize by USD value
-      if (usdValue < 1) distributionStats.under1USD++;
-      else if (usdValue < 5) distributionStats.under5USD++;
-      else if (usdValue < 10) distributionStats.under10USD++;
-      else if (usdValue < 20) distributionStats.under20USD++;
-      else if (usdValue >= 30) distributionStats.over30USD++;
-      else distributionStats.over20USD++;
-    }
+        state.totalTokensAllocated += tokenAllocation;
 
-    // Execute BULK update using raw SQL with CASE statements
-    try {
-      // Get the correct table name from TypeORM metadata
-      const tableName = this.airdropScoreRepository.metadata.tableName;
-
-      const sql = `
-        UPDATE ${tableName} 
-        SET 
-          tokenAllocation = CASE fid ${tokenAllocationCases.join(' ')} END,
-          percentage = CASE fid ${percentageCases.join(' ')} END,
-          updatedAt = NOW()
-        WHERE fid IN (${fidList.join(',')})
-      `;
-
-      await this.airdropScoreRepository.query(sql);
-    } catch (error) {
-      console.error(`[AIRDROP] BULK update failed:`, error);
-      throw error;
-    }
+        // Categorize by USD value
+        if (usdValue < 1) distributionStats.under1USD++;
+        else if (usdValue < 5) distributionStats.under5USD++;
+        else if (usdValue < 10) distributionStats.under10USD++;
+        else if (usdValue < 20) distributionStats.under20USD++;
+        else if (usdValue >= 30) distributionStats.over30USD++;
+        else distributionStats.over20USD++;
+      }
 
-    // Set zero allocation for users with 0 score - do this FIRST
-    await this.airdropScoreRepository
-      .createQueryBuilder()
-      .update()
-      .set({
-        tokenAllocation: 0,
-        percentage: 0,
-      })
-      .where('finalScore = 0')
-      .execute();
+      // Execute BULK update using raw SQL with CASE statements
+      if (fidList.length > 0) {
+        try {
+          // Get the correct table name from TypeORM metadata
+          const tableName = this.airdropScoreRepository.metadata.tableName;
+
+          const sql = `
+            UPDATE ${tableName} 
+            SET 
+              tokenAllocation = CASE fid ${tokenAllocationCases.join(' ')} END,
+              percentage = CASE fid ${percentageCases.join(' ')} END,
+              updatedAt = NOW()
+            WHERE fid IN (${fidList.join(',')})
+          `;
+
+          await this.airdropScoreRepository.query(sql);
+        } catch (error) {
+          console.error(`[AIRDROP] BULK update failed:`, error);
+          throw error;
+        }
+      }
+
+      state.processed += airdropScores.length;
+      state.lastId = airdropScores[airdropScores.length - 1].id;
+      await progress.onBatch?.(state);
+    }
 
     const usersWithZeroScore = await this.airdropScoreRepository
       .createQueryBuilder('score')
@@ -1612,9 +1620,9 @@ export class AirdropService {
       .getCount();
 
     return {
-      totalUsers: airdropScores.length,
+      totalUsers: state.totalUsers,
       totalAirdropPoints,
-      totalTokensAllocated,
+      totalTokensAllocated: state.totalTokensAllocated,
       usersWithZeroScore,
       distributionStats,
     };
@@ -1849,531 +1857,88 @@ export class AirdropService {
   }
 
   /**
-   * OPTIMIZED: Calculate multipliers with pre-fetched data to avoid redundant calls
-   */
-  private async calculateMultipliersWithBreakdownOptimized(
-    fid: number,
-    neynarUserInfoCache: Map<number, any>,
-    votedBrandsCount: number,
-    sharedPodiumsCount: number,
-  ): Promise<{
-    multipliers: AirdropMultipliers;
-    challenges: ChallengeBreakdown[];
-  }> {
-    // Get cached user info (or fetch if not in cache)
-    let userInfo = neynarUserInfoCache.get(fid);
-    if (!userInfo) {
-      userInfo = await this.getNeynarUserInfo(fid);
-      if (userInfo) {
-        neynarUserInfoCache.set(fid, userInfo);
-      }
-    }
-
-    // Execute multiplier calculations in parallel
-    const [
-      followAccountsResult,
-      channelInteractionResult,
-      holdingResult,
-      collectiblesResult,
-      sharedPodiumsResult,
-      neynarScoreResult,
-      proUserResult,
-    ] = await Promise.all([
-      this.calculateFollowAccountsMultiplier(fid),
-      this.calculateChannelInteractionMultiplier(fid),
-      this.calculateHoldingMultiplierOptimized(fid, userInfo),
-      this.calculateCollectiblesMultiplier(fid),
-      Promise.resolve({
-        multiplier:
-          this.getSharedPodiumsMultiplierFromCount(sharedPodiumsCount),
-        sharedPodiumsCount,
-      }),
-      this.calculateNeynarScoreMultiplierOptimized(userInfo),
-      this.calculateProUserMultiplierOptimized(userInfo),
-    ]);
-
-    // Use pre-fetched voted brands count
-    const votedBrandsResult = {
-      multiplier: this.getVotedBrandsMultiplierFromCount(votedBrandsCount),
-      votedBrandsCount,
-    };
-
-    // Build challenges array (same structure as before)
-    const challenges: ChallengeBreakdown[] = [
-      {
-        name: 'Follow Accounts',
-        description: 'Follow @brnd + @floc accounts',
-        currentValue: followAccountsResult.followedCount,
-        currentMultiplier: followAccountsResult.multiplier,
-        maxMultiplier: 1.4,
-        completed: followAccountsResult.followedCount >= 2,
-        progress: {
-          current: followAccountsResult.followedCount,
-          required: 2,
-          unit: 'following',
-        },
-        tiers: [
-          {
-            requirement: 1,
-            multiplier: 1.2,
-            achieved: followAccountsResult.followedCount >= 1,
-          },
-          {
-            requirement: 2,
-            multiplier: 1.4,
-            achieved: followAccountsResult.followedCount >= 2,
-          },
-        ],
-        details: followAccountsResult.details,
-      },
-      {
-        name: 'Channel Interaction',
-        description: 'Follow @brnd channel + publish podium casts',
-        currentValue: channelInteractionResult.podiumCastsCount,
-        currentMultiplier: channelInteractionResult.multiplier,
-        maxMultiplier: 1.4,
-        completed:
-          channelInteractionResult.podiumCastsCount >= 1 &&
-          channelInteractionResult.isFollowingChannel,
-        progress: {
-          current: channelInteractionResult.podiumCastsCount,
-          required: 1,
-          unit: 'casts',
-        },
-        tiers: [
-          {
-            requirement: 1,
-            multiplier: 1.2,
-            achieved: channelInteractionResult.isFollowingChannel,
-          },
-          {
-            requirement: 1,
-            multiplier: 1.4,
-            achieved:
-              channelInteractionResult.podiumCastsCount >= 1 &&
-              channelInteractionResult.isFollowingChannel,
-          },
-        ],
-        details: {
-          isFollowingChannel: channelInteractionResult.isFollowingChannel,
-          podiumCastsCount: channelInteractionResult.podiumCastsCount,
-        },
-      },
-      {
-        name: 'Holding BRND',
-        description: 'Hold BRND tokens in wallet or staked',
-        currentValue: holdingResult.totalBalance,
-        currentMultiplier: holdingResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: holdingResult.totalBalance >= 800_000_000,
-        progress: {
-          current: holdingResult.totalBalance,
-          required: 800_000_000,
-          unit: 'BRND',
-        },
-        tiers: [
-          {
-            requirement: 100_000_000,
-            multiplier: 1.2,
-            achieved: holdingResult.totalBalance >= 100_000_000,
-          },
-          {
-            requirement: 200_000_000,
-            multiplier: 1.4,
-            achieved: holdingResult.totalBalance >= 200_000_000,
-          },
-          {
-            requirement: 400_000_000,
-            multiplier: 1.6,
-            achieved: holdingResult.totalBalance >= 400_000_000,
-          },
-          {
-            requirement: 800_000_000,
-            multiplier: 1.8,
-            achieved: holdingResult.totalBalance >= 800_000_000,
-          },
-        ],
-        details: {
-          walletBalance: holdingResult.walletBalance,
-          stakedBalance: holdingResult.stakedBalance,
-          totalBalance: holdingResult.totalBalance,
-        },
-      },
-      {
-        name: 'Collectibles',
-        description: 'Collect BRND cast collectibles',
-        currentValue: collectiblesResult.collectiblesCount,
-        currentMultiplier: collectiblesResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: collectiblesResult.collectiblesCount >= 3,
-        progress: {
-          current: collectiblesResult.collectiblesCount,
-          required: 3,
-          unit: 'collectibles',
-        },
-        tiers: [
-          {
-            requirement: 1,
-            multiplier: 1.2,
-            achieved: collectiblesResult.collectiblesCount >= 1,
-          },
-          {
-            requirement: 2,
-            multiplier: 1.4,
-            achieved: collectiblesResult.collectiblesCount >= 2,
-          },
-          {
-            requirement: 3,
-            multiplier: 1.8,
-            achieved: collectiblesResult.collectiblesCount >= 3,
-          },
-        ],
-      },
-      {
-        name: 'Voted Brands',
-        description: 'Vote for unique brands',
-        currentValue: votedBrandsResult.votedBrandsCount,
-        currentMultiplier: votedBrandsResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: votedBrandsResult.votedBrandsCount >= 72,
-        progress: {
-          current: votedBrandsResult.votedBrandsCount,
-          required: 72,
-          unit: 'brands',
-        },
-        tiers: [
-          {
-            requirement: 9,
-            multiplier: 1.2,
-            achieved: votedBrandsResult.votedBrandsCount >= 9,
-          },
-          {
-            requirement: 18,
-            multiplier: 1.4,
-            achieved: votedBrandsResult.votedBrandsCount >= 18,
-          },
-          {
-            requirement: 36,
-            multiplier: 1.6,
-            achieved: votedBrandsResult.votedBrandsCount >= 36,
-          },
-          {
-            requirement: 72,
-            multiplier: 1.8,
-            achieved: votedBrandsResult.votedBrandsCount >= 72,
-          },
-        ],
-      },
-      {
-        name: 'Shared Podiums',
-        description: 'Share your podium casts',
-        currentValue: sharedPodiumsResult.sharedPodiumsCount,
-        currentMultiplier: sharedPodiumsResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: sharedPodiumsResult.sharedPodiumsCount >= 80,
-        progress: {
-          current: sharedPodiumsResult.sharedPodiumsCount,
-          required: 80,
-          unit: 'podiums',
-        },
-        tiers: [
-          {
-            requirement: 10,
-            multiplier: 1.2,
-            achieved: sharedPodiumsResult.sharedPodiumsCount >= 10,
-          },
-          {
-            requirement: 20,
-            multiplier: 1.4,
-            achieved: sharedPodiumsResult.sharedPodiumsCount >= 20,
-          },
-          {
-            requirement: 40,
-            multiplier: 1.6,
-            achieved: sharedPodiumsResult.sharedPodiumsCount >= 40,
-          },
-          {
-            requirement: 80,
-            multiplier: 1.8,
-            achieved: sharedPodiumsResult.sharedPodiumsCount >= 80,
-          },
-        ],
-      },
-      {
-        name: 'Neynar Score',
-        description: 'Maintain high Neynar power badge score',
-        currentValue: neynarScoreResult.neynarScore,
-        currentMultiplier: neynarScoreResult.multiplier,
-        maxMultiplier: 1.8,
-        completed: neynarScoreResult.neynarScore >= 1.0,
-        progress: {
-          current: neynarScoreResult.neynarScore,
-          required: 1.0,
-          unit: 'score',
-        },
-        tiers: [
-          {
-            requirement: 0.85,
-            multiplier: 1.2,
-            achieved: neynarScoreResult.neynarScore >= 0.85,
-          },
-          {
-            requirement: 0.9,
-            multiplier: 1.5,
-            achieved: neynarScoreResult.neynarScore >= 0.9,
-          },
-          {
-            requirement: 1.0,
-            multiplier: 1.8,
-            achieved: neynarScoreResult.neynarScore >= 1.0,
-          },
-        ],
-        details: {
-          hasPowerBadge: neynarScoreResult.hasPowerBadge,
-        },
-      },
-      {
-        name: 'Pro User',
-        description: 'Subscribe to Farcaster Pro',
-        currentValue: proUserResult.isProUser ? 1 : 0,
-        currentMultiplier: proUserResult.multiplier,
-        maxMultiplier: 1.4,
-        completed:
-          proUserResult.isProUser && proUserResult.hasBrndTokenInProfile,
-        progress: {
-          current: proUserResult.isProUser ? 1 : 0,
-          required: 1,
-          unit: 'subscription',
-        },
-        tiers: [
-          {
-            requirement: 1,
-            multiplier: 1.2,
-            achieved: proUserResult.isProUser,
-          },
-          {
-            requirement: 1,
-            multiplier: 1.4,
-            achieved:
-              proUserResult.isProUser && proUserResult.hasBrndTokenInProfile,
-          },
-        ],
-        details: {
-          isProUser: proUserResult.isProUser,
-          hasBrndTokenInProfile: proUserResult.hasBrndTokenInProfile,
-        },
-      },
-    ];
-
-    return {
-      multipliers: {
-        followAccounts: followAccountsResult.multiplier,
-        channelInteraction: channelInteractionResult.multiplier,
-        holdingBrnd: holdingResult.multiplier,
-        collectibles: collectiblesResult.multiplier,
-        votedBrands: votedBrandsResult.multiplier,
-        sharedPodiums: sharedPodiumsResult.multiplier,
-        neynarScore: neynarScoreResult.multiplier,
-        proUser: proUserResult.multiplier,
-      },
-      challenges,
-    };
-  }
-
-  /**
-   * Helper: Get multiplier from voted brands count
-   */
-  private getVotedBrandsMultiplierFromCount(count: number): number {
-    if (count >= 72) return 1.8;
-    if (count >= 36) return 1.6;
-    if (count >= 18) return 1.4;
-    if (count >= 9) return 1.2;
-    return 1.0;
-  }
-
-  /**
-   * Helper: Get multiplier from shared podiums count
-   */
-  private getSharedPodiumsMultiplierFromCount(count: number): number {
-    if (count >= 80) return 1.8;
-    if (count >= 40) return 1.6;
-    if (count >= 20) return 1.4;
-    if (count >= 10) return 1.2;
-    return 1.0;
-  }
-
-  /**
-   * OPTIMIZED: Calculate holding multiplier with pre-fetched user info
+   * Airdrop scores of the top users by points under a config. Scores are
+   * saved to airdrop_scores only with persist. From a checkpoint, the same
+   * users are scored starting after the last completed batch.
    */
-  private async calculateHoldingMultiplierOptimized(
-    fid: number,
-    userInfo: any,
+  private async scoreTopUsers(
+    config: AirdropConfig,
+    batchSize: number,
+    persist: boolean,
+    progress: {
+      checkpoint?: AirdropScoringCheckpoint;
+      onBatch?: (checkpoint: AirdropScoringCheckpoint) => Promise<void>;
+    } = {},
   ): Promise<{
-    multiplier: number;
-    totalBalance: number;
-    walletBalance: number;
-    stakedBalance: number;
-  }> {
-    try {
-      if (!userInfo?.verified_addresses?.eth_addresses) {
-        return {
-          multiplier: 1.0,
-          totalBalance: 0,
-          walletBalance: 0,
-          stakedBalance: 0,
-        };
-      }
-
-      const ethAddresses = userInfo.verified_addresses.eth_addresses;
-      const balancePromises = ethAddresses.map(async (address: string) => {
-        const [walletBalance, stakedBalance] = await Promise.all([
-          this.getBrndBalance(address),
-          this.getStakedBrndBalance(address),
-        ]);
-        return { walletBalance, stakedBalance };
-      });
-
-      const addressBalances = await Promise.all(balancePromises);
-      const totalWalletBalance = addressBalances.reduce(
-        (sum, balance) => sum + balance.walletBalance,
-        0,
-      );
-      const totalStakedBalance = addressBalances.reduce(
-        (sum, balance) => sum + balance.stakedBalance,
-        0,
-      );
-      const totalBalance = totalWalletBalance + totalStakedBalance;
-
-      let multiplier = 1.0;
-      if (totalBalance >= 800_000_000) multiplier = 1.8;
-      else if (totalBalance >= 400_000_000) multiplier = 1.6;
-      else if (totalBalance >= 200_000_000) multiplier = 1.4;
-      else if (totalBalance >= 100_000_000) multiplier = 1.2;
-
-      return {
-        multiplier,
-        totalBalance,
-        walletBalance: totalWalletBalance,
-        stakedBalance: totalStakedBalance,
-      };
-    } catch (error) {
-      console.error('Error calculating holdings multiplier:', error);
-      return {
-        multiplier: 1.0,
-        totalBalance: 0,
-        walletBalance: 0,
-        stakedBalance: 0,
-      };
-    }
-  }
-
-  /**
-   * OPTIMIZED: Calculate Neynar score multiplier with pre-fetched user info
-   */
-  private calculateNeynarScoreMultiplierOptimized(userInfo: any): {
-    multiplier: number;
-    neynarScore: number;
-    hasPowerBadge: boolean;
-  } {
-    const hasPowerBadge = userInfo?.power_badge || false;
-    const neynarScore = userInfo?.score;
-
-    let multiplier = 1.0;
-    if (neynarScore >= 1.0) multiplier = 1.8;
-    else if (neynarScore >= 0.9) multiplier = 1.5;
-    else if (neynarScore >= 0.85) multiplier = 1.2;
-
-    return { multiplier, neynarScore, hasPowerBadge };
-  }
-
-  /**
-   * OPTIMIZED: Calculate Pro User multiplier with pre-fetched user info
-   */
-  private calculateProUserMultiplierOptimized(userInfo: any): {
-    multiplier: number;
-    isProUser: boolean;
-    hasBrndTokenInProfile: boolean;
-  } {
-    if (!userInfo) {
-      return {
-        multiplier: 1.0,
-        isProUser: false,
-        hasBrndTokenInProfile: false,
-      };
-    }
-
-    const isProUser =
-      userInfo.pro?.status === 'subscribed' &&
-      userInfo.pro?.expires_at &&
-      new Date(userInfo.pro.expires_at) > new Date();
-    const hasBrndTokenInProfile = false; // TODO: Implement if needed
-
-    let multiplier = 1.0;
-    if (isProUser && hasBrndTokenInProfile) multiplier = 1.4;
-    else if (isProUser) multiplier = 1.2;
-
-    return { multiplier, isProUser, hasBrndTokenInProfile };
-  }
-
-  async calculateAirdropForAllUsers(batchSize: number = 88): Promise<{
-    databaseSummary: any;
-    eligibleUsers: number;
-    totalAirdropPoints: number;
-    totalTokensAllocated: number;
-    processed: number;
-    successful: number;
-    failed: number;
-    errors: Array<{ fid: number; error: string }>;
-    topAirdropScores: Array<{
+    users: User[];
+    airdropCalculations: Array<{
       fid: number;
       username: string;
       airdropScore: number;
-      tokenAllocation: number;
-      percentage: number;
     }>;
+    processed: number;
+    successful: number;
+    failed: number;
+    errors: Array<{ fid: number; error: string }>;
   }> {
-    // STEP 1: Generate database summary first
-    const databaseSummary = await this.getDatabaseSummary();
+    const { checkpoint, onBatch } = progress;
+    const userSelect: (keyof User)[] = [
+      'fid',
+      'username',
+      'points',
+      'id',
+      'dailyStreak',
+      'maxDailyStreak',
+      'brndPowerLevel',
+    ];
 
-    // STEP 2: Get top 1111 users by points
-    const allUsers = await this.userRepository.find({
-      select: [
-        'fid',
-        'username',
-        'points',
-        'id',
-        'dailyStreak',
-        'maxDailyStreak',
-        'brndPowerLevel',
-      ],
-      // where: {
-      //   fid: Not(In([5431, 6099, 8109, 222144])),
-      // },
-      order: { points: 'DESC' },
-      take: 1115, // 1111
-    });
+    // STEP 2: Get top users by points
+    let users: User[];
+    if (checkpoint) {
+      const usersByFid = new Map(
+        (
+          await this.userRepository.find({
+            select: userSelect,
+            where: { fid: In(checkpoint.fids) },
+          })
+        ).map((user) => [user.fid, user]),
+      );
+      users = checkpoint.fids
+        .map((fid) => usersByFid.get(fid))
+        .filter((user) => user);
+    } else {
+      const allUsers = await this.userRepository.find({
+        select: userSelect,
+        // where: {
+        //   fid: Not(In([5431, 6099, 8109, 222144])),
+        // },
+        order: { points: 'DESC' },
+        take: config.topUsers + 4,
+      });
 
-    // Remove users with FIDs 5431, 6099, 8109, 222144 from the users array
-    const excludedFids = [5431, 6099, 8109, 222144];
-    const users = allUsers.filter((u) => !excludedFids.includes(u.fid));
+      // Remove users with FIDs 5431, 6099, 8109, 222144 from the users array
+      const excludedFids = [5431, 6099, 8109, 222144];
+      users = allUsers.filter((u) => !excludedFids.includes(u.fid));
+    }
     console.log('THE USERS NOW ARE: ', users.length);
     // STEP 3: Pre-fetch all vote data in bulk (OPTIMIZATION)
     const allFids = users.map((u) => u.fid);
     const { votedBrandsCountMap, sharedPodiumsCountMap } =
       await this.preFetchVoteData(allFids);
 
-    let processed = 0;
-    let successful = 0;
-    let failed = 0;
-    const errors: Array<{ fid: number; error: string }> = [];
+    let processed = checkpoint?.processed || 0;
+    let successful = checkpoint?.successful || 0;
+    let failed = checkpoint?.failed || 0;
+    const errors: Array<{ fid: number; error: string }> =
+      checkpoint?.errors || [];
     const airdropCalculations: Array<{
       fid: number;
       username: string;
       airdropScore: number;
-    }> = [];
+    }> = checkpoint?.airdropCalculations || [];
 
     // STEP 4: Calculate airdrop scores for all eligible users (OPTIMIZED)
-    for (let i = 0; i < users.length; i += batchSize) {
+    for (let i = checkpoint?.nextIndex || 0; i < users.length; i += batchSize) {
       const batch = users.slice(i, i + batchSize);
       const batchFids = batch.map((u) => u.fid);
       const batchNumber = Math.floor(i / batchSize) + 1;
@@ -2391,6 +1956,8 @@ export class AirdropService {
             neynarUserInfoCache,
             votedBrandsCountMap.get(user.fid) || 0,
             sharedPodiumsCountMap.get(user.fid) || 0,
+            config,
+            persist,
           );
 
           airdropCalculations.push({
@@ -2431,7 +1998,6 @@ export class AirdropService {
           console.log(
             `[AIRDROP] FID ${user.fid} (@${user.username}): Airdrop Score: ${calculation.totalMultiplier.toFixed(2)}x${user.points} points=${calculation.finalScore.toLocaleString()}, position #${pointsPosition}/1111 on the $BRND leaderboard. Current streak: ${user.dailyStreak} days. Max streak: ${user.maxDailyStreak} days. BRND Power Level: ${user.brndPowerLevel}.`,
           );
-
           successful++;
         } catch (error) {
           console.error(
@@ -2447,12 +2013,80 @@ export class AirdropService {
         processed++;
       }
 
+      if (onBatch) {
+        await onBatch({
+          fids: allFids,
+          nextIndex: Math.min(i + batchSize, users.length),
+          airdropCalculations,
+          processed,
+          successful,
+          failed,
+          errors,
+        });
+      }
+
       // Reduced delay - only 500ms between batches (was 2000ms)
       if (i + batchSize < users.length) {
         await new Promise((resolve) => setTimeout(resolve, 500));
       }
     }
 
+    return {
+      users,
+      airdropCalculations,
+      processed,
+      successful,
+      failed,
+      errors,
+    };
+  }
+
+  /**
+   * Scores the top users and splits the pool between them. Runs as the
+   * AIRDROP_CALCULATION background job, which passes its checkpoint through
+   * progress so a restarted run skips the users already scored.
+   */
+  async calculateAirdropForAllUsers(
+    batchSize: number = 88,
+    progress: {
+      checkpoint?: AirdropScoringCheckpoint;
+      onBatch?: (checkpoint: AirdropScoringCheckpoint) => Promise<void>;
+    } = {},
+  ): Promise<{
+    databaseSummary: any;
+    eligibleUsers: number;
+    totalAirdropPoints: number;
+    totalTokensAllocated: number;
+    processed: number;
+    successful: number;
+    failed: number;
+    errors: Array<{ fid: number; error: string }>;
+    topAirdropScores: Array<{
+      fid: number;
+      username: string;
+      airdropScore: number;
+      tokenAllocation: number;
+      percentage: number;
+    }>;
+  }> {
+    // STEP 1: Generate database summary first
+    const databaseSummary = await this.getDatabaseSummary();
+
+    // STEPS 2-4: Score the top users
+    const {
+      users,
+      airdropCalculations,
+      processed,
+      successful,
+      failed,
+      errors,
+    } = await this.scoreTopUsers(
+      DEFAULT_AIRDROP_CONFIG,
+      batchSize,
+      true,
+      progress,
+    );
+
     // STEP 5: Calculate token distribution
     const totalAirdropPoints = airdropCalculations.reduce(
       (sum, calc) => sum + calc.airdropScore,
@@ -2466,7 +2100,8 @@ export class AirdropService {
     for (const calc of airdropCalculations) {
       const percentage = (calc.airdropScore / totalAirdropPoints) * 100;
       const tokenAllocation = Math.round(
-        (calc.airdropScore / totalAirdropPoints) * this.TOTAL_ALLOCATION,
+        (calc.airdropScore / totalAirdropPoints) *
+          DEFAULT_AIRDROP_CONFIG.totalAllocation,
       );
       totalTokensAllocated += tokenAllocation;
 
@@ -2539,6 +2174,148 @@ export class AirdropService {
     };
   }
 
+  /**
+   * Re-runs calculateAirdropForAllUsers with a modified config without
+   * writing anything, and compares the result with the current allocations
+   * in airdrop_scores.
+   */
+  async simulateAirdrop(
+    overrides: AirdropConfigOverrides = {},
+    limit: number = 20,
+    batchSize: number = 88,
+  ): Promise<AirdropSimulation> {
+    const config = mergeAirdropConfig(DEFAULT_AIRDROP_CONFIG, overrides);
+    validateAirdropConfig(config);
+
+    const { airdropCalculations, processed, failed, errors } =
+      await this.scoreTopUsers(config, batchSize, false);
+
+    const totalAirdropPoints = airdropCalculations.reduce(
+      (sum, calc) => sum + calc.airdropScore,
+      0,
+    );
+    const simulated = new Map(
+      airdropCalculations.map((calc) => [
+        calc.fid,
+        {
+          username: calc.username,
+          allocation:
+            totalAirdropPoints > 0
+              ? Math.round(
+                  (calc.airdropScore / totalAirdropPoints) *
+                    config.totalAllocation,
+                )
+              : 0,
+        },
+      ]),
+    );
+
+    const currentScores = await this.airdropScoreRepository.find({
+      select: ['fid', 'tokenAllocation'],
+      where: { tokenAllocation: Not(0) },
+      relations: ['user'],
+    });
+    const current = new Map(
+      currentScores.map((score) => [
+        score.fid,
+        {
+          username: score.user?.username,
+          allocation: Number(score.tokenAllocation),
+        },
+      ]),
+    );
+
+    // Everyone with an allocation before or after, so users who drop out
+    // show up as losers
+    const changes = [...new Set([...current.keys(), ...simulated.keys()])].map(
+      (fid) => {
+        const currentAllocation = current.get(fid)?.allocation || 0;
+        const simulatedAllocation = simulated.get(fid)?.allocation || 0;
+        return {
+          fid,
+          username:
+            simulated.get(fid)?.username || current.get(fid)?.username || null,
+          currentAllocation,
+          simulatedAllocation,
+          delta: simulatedAllocation - currentAllocation,
+        };
+      },
+    );
+
+    const simulatedAllocations = [...simulated.values()].map(
+      (entry) => entry.allocation,
+    );
+
+    return {
+      config,
+      eligibleUsers: airdropCalculations.length,
+      processed,
+      failed,
+      errors,
+      totalAirdropPoints,
+      totalTokensAllocated: simulatedAllocations.reduce(
+        (sum, allocation) => sum + allocation,
+        0,
+      ),
+      distribution: this.describeDistribution(simulatedAllocations),
+      currentDistribution: this.describeDistribution(
+        [...current.values()].map((entry) => entry.allocation),
+      ),
+      winners: changes
+        .filter((change) => change.delta > 0)
+        .sort((a, b) => b.delta - a.delta || a.fid - b.fid)
+        .slice(0, limit),
+      losers: changes
+        .filter((change) => change.delta < 0)
+        .sort((a, b) => a.delta - b.delta || a.fid - b.fid)
+        .slice(0, limit),
+    };
+  }
+
+  private describeDistribution(
+    allocations: number[],
+  ): AirdropSimulation['distribution'] {
+    const sorted = [...allocations].sort((a, b) => a - b);
+    const total = sorted.reduce((sum, allocation) => sum + allocation, 0);
+    const percentile = (p: number) =>
+      sorted.length
+        ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]
+        : 0;
+    const topShare = (count: number) =>
+      total > 0
+        ? Math.round(
+            (sorted.slice(-count).reduce((sum, value) => sum + value, 0) /
+              total) *
+              10000,
+          ) / 100
+        : 0;
+
+    // Gini over the ascending values: 0 is a perfectly even split, values
+    // near 1 mean a few users get almost everything
+    const weightedSum = sorted.reduce(
+      (sum, allocation, index) => sum + (index + 1) * allocation,
+      0,
+    );
+    const gini =
+      total > 0
+        ? (2 * weightedSum) / (sorted.length * total) -
+          (sorted.length + 1) / sorted.length
+        : 0;
+
+    return {
+      users: sorted.length,
+      min: sorted[0] || 0,
+      median: percentile(0.5),
+      p90: percentile(0.9),
+      p99: percentile(0.99),
+      max: sorted[sorted.length - 1] || 0,
+      mean: sorted.length ? Math.round(total / sorted.length) : 0,
+      top10Share: topShare(10),
+      top100Share: topShare(100),
+      gini: Math.round(gini * 10000) / 10000,
+    };
+  }
+
   /**
    * ------------------------------------------------------------------
    * MERKLE TREE & SNAPSHOT GENERATION
@@ -2547,28 +2324,27 @@ export class AirdropService {
    * ------------------------------------------------------------------
    */
 
+  /**
+   * Builds a new snapshot version from the current airdrop leaderboard.
+   * Earlier snapshots are kept untouched; the new one stays inactive until
+   * activateSnapshot confirms its root is the one on the contract.
+   */
   async generateAirdropSnapshot(): Promise<{
     merkleRoot: string;
     totalUsers: number;
     totalTokens: string;
     totalTokensFormatted: string;
     snapshotId: number;
+    version: number;
     migratedUsers: number;
   }> {
-    // 1. Delete all existing snapshots (leaves will be deleted via CASCADE)
-    const existingSnapshotsCount = await this.airdropSnapshotRepository.count();
-    if (existingSnapshotsCount > 0) {
-      await this.airdropSnapshotRepository
-        .createQueryBuilder()
-        .delete()
-        .execute();
-    }
-
-    const TOP_USERS = 1111;
+    // 1. Snapshots are immutable, so nothing is deleted here
 
     // 2. Get top users from airdrop scores
     // Assuming getLeaderboard is available in your class context
-    const topUsers: AirdropScore[] = await this.getLeaderboard(TOP_USERS);
+    const topUsers: AirdropScore[] = await this.getLeaderboard(
+      DEFAULT_AIRDROP_CONFIG.topUsers,
+    );
 
     if (topUsers.length === 0) {
       throw new Error('No users found in leaderboard');
@@ -2630,24 +2406,44 @@ export class AirdropService {
 
     const merkleRoot = tree.getHexRoot();
 
-    // 5. Create snapshot record
-    const snapshot = this.airdropSnapshotRepository.create({
-      merkleRoot,
-      totalUsers: leafData.length,
-      totalTokens: totalTokensFormatted.toString(),
-      totalTokensFormatted: totalTokensFormatted.toString(),
-      snapshotDate: new Date(),
-      isActive: true,
-      isFrozen: false,
+    // 5. The same leaves always give the same root, so an unchanged
+    // leaderboard has nothing new to snapshot
+    const existingSnapshot = await this.airdropSnapshotRepository.findOne({
+      where: { merkleRoot },
     });
+    if (existingSnapshot) {
+      throw new Error(
+        `Snapshot ${existingSnapshot.id} (version ${existingSnapshot.version}) already has merkle root ${merkleRoot}`,
+      );
+    }
 
-    const savedSnapshot = await this.airdropSnapshotRepository.save(snapshot);
+    const latestSnapshot = await this.airdropSnapshotRepository.findOne({
+      where: {},
+      order: { version: 'DESC' },
+    });
+    const version = (latestSnapshot?.version || 0) + 1;
 
-    // 7. Bulk insert leaves using raw SQL for maximum performance
-    // Using transaction to ensure data integrity
+    // 6. Create the snapshot and its leaves in one transaction, then freeze
+    // it, so a snapshot is either complete or absent
+    let snapshotId: number;
     try {
       await this.airdropLeafRepository.manager.transaction(
         async (transactionalEntityManager) => {
+          const savedSnapshot = await transactionalEntityManager.save(
+            AirdropSnapshot,
+            transactionalEntityManager.create(AirdropSnapshot, {
+              version,
+              merkleRoot,
+              totalUsers: leafData.length,
+              totalTokens: totalTokensFormatted.toString(),
+              totalTokensFormatted: totalTokensFormatted.toString(),
+              snapshotDate: new Date(),
+              isActive: false,
+              isFrozen: false,
+            }),
+          );
+          snapshotId = savedSnapshot.id;
+
           // Use larger batch size for raw SQL (MySQL can handle ~1000-2000 placeholders per query)
           // Each row has 7 values, so 500 rows = 3500 placeholders (safe limit)
           const BATCH_SIZE = 500;
@@ -2685,17 +2481,22 @@ export class AirdropService {
 
             await transactionalEntityManager.query(sql, values);
           }
+
+          // 7. Freeze the snapshot
+          await transactionalEntityManager.update(
+            AirdropSnapshot,
+            { id: savedSnapshot.id },
+            { isFrozen: true },
+          );
         },
       );
     } catch (error) {
-      console.error(`❌ [LEAVES] Failed to save leaf records:`, error);
+      console.error(`❌ [LEAVES] Failed to save snapshot records:`, error);
       throw error;
     }
 
-    // 8. Freeze the snapshot
-    await this.airdropSnapshotRepository.update(
-      { id: savedSnapshot.id },
-      { isFrozen: true },
+    console.log(
+      `📸 [AIRDROP] Created snapshot ${snapshotId} (version ${version}) with root ${merkleRoot}`,
     );
 
     return {
@@ -2703,13 +2504,345 @@ export class AirdropService {
       totalUsers: leafData.length,
       totalTokens: totalTokensFormatted.toString(),
       totalTokensFormatted: totalTokensFormatted.toString(),
-      snapshotId: savedSnapshot.id,
+      snapshotId,
+      version,
       migratedUsers: leafData.length,
     };
   }
 
   /**
-   * Generates a merkle proof using 'merkletreejs'
+   * Every snapshot version, newest first, without leaves.
+   */
+  async listSnapshots(): Promise<AirdropSnapshot[]> {
+    return this.airdropSnapshotRepository.find({
+      order: { version: 'DESC' },
+    });
+  }
+
+  /**
+   * Makes a frozen snapshot the one claims are served from. Its root must
+   * already be set on the airdrop contract, so proofs from the active
+   * snapshot always verify on-chain.
+   */
+  async activateSnapshot(snapshotId: number): Promise<AirdropSnapshot> {
+    const snapshot = await this.airdropSnapshotRepository.findOne({
+      where: { id: snapshotId },
+    });
+    if (!snapshot) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+    if (!snapshot.isFrozen) {
+      throw new Error(
+        `Snapshot ${snapshotId} is not frozen; its leaves were never completely written`,
+      );
+    }
+
+    const contractStatus =
+      await this.airdropContractService.getContractStatus();
+    if (
+      contractStatus.merkleRoot.toLowerCase() !==
+      snapshot.merkleRoot.toLowerCase()
+    ) {
+      throw new Error(
+        `Snapshot ${snapshotId} root ${snapshot.merkleRoot} does not match the contract root ${contractStatus.merkleRoot}`,
+      );
+    }
+
+    const now = new Date();
+    await this.airdropSnapshotRepository.manager.transaction(
+      async (transactionalEntityManager) => {
+        await transactionalEntityManager.update(
+          AirdropSnapshot,
+          { isActive: true, id: Not(snapshotId) },
+          { isActive: false },
+        );
+        await transactionalEntityManager.update(
+          AirdropSnapshot,
+          { id: snapshotId },
+          {
+            isActive: true,
+            activatedAt: now,
+            contractAddress:
+              getConfig().blockchain.airdropContractAddress || null,
+            // First time this root was seen on the contract
+            deployedAt: snapshot.deployedAt || now,
+          },
+        );
+      },
+    );
+
+    console.log(
+      `✅ [AIRDROP] Activated snapshot ${snapshotId} (version ${snapshot.version})`,
+    );
+
+    return this.airdropSnapshotRepository.findOne({
+      where: { id: snapshotId },
+    });
+  }
+
+  /**
+   * Differences between two snapshots, to review a new root before it is
+   * pushed on-chain: FIDs only in one of them and FIDs whose allocation
+   * changed.
+   */
+  async diffSnapshots(
+    fromSnapshotId: number,
+    toSnapshotId: number,
+  ): Promise<AirdropSnapshotDiff> {
+    const [fromSnapshot, toSnapshot] = await Promise.all([
+      this.airdropSnapshotRepository.findOne({ where: { id: fromSnapshotId } }),
+      this.airdropSnapshotRepository.findOne({ where: { id: toSnapshotId } }),
+    ]);
+    if (!fromSnapshot) {
+      throw new Error(`Snapshot ${fromSnapshotId} not found`);
+    }
+    if (!toSnapshot) {
+      throw new Error(`Snapshot ${toSnapshotId} not found`);
+    }
+
+    const leafSelect: (keyof AirdropLeaf)[] = [
+      'fid',
+      'baseAmount',
+      'leaderboardRank',
+    ];
+    const [fromLeaves, toLeaves] = await Promise.all([
+      this.airdropLeafRepository.find({
+        select: leafSelect,
+        where: { snapshotId: fromSnapshotId },
+      }),
+      this.airdropLeafRepository.find({
+        select: leafSelect,
+        where: { snapshotId: toSnapshotId },
+      }),
+    ]);
+    const fromByFid = new Map(fromLeaves.map((leaf) => [leaf.fid, leaf]));
+    const toByFid = new Map(toLeaves.map((leaf) => [leaf.fid, leaf]));
+
+    const added = toLeaves
+      .filter((leaf) => !fromByFid.has(leaf.fid))
+      .map((leaf) => ({
+        fid: leaf.fid,
+        amount: leaf.baseAmount,
+        rank: leaf.leaderboardRank,
+      }))
+      .sort((a, b) => b.amount - a.amount || a.fid - b.fid);
+    const removed = fromLeaves
+      .filter((leaf) => !toByFid.has(leaf.fid))
+      .map((leaf) => ({
+        fid: leaf.fid,
+        amount: leaf.baseAmount,
+        rank: leaf.leaderboardRank,
+      }))
+      .sort((a, b) => b.amount - a.amount || a.fid - b.fid);
+    const changed = toLeaves
+      .filter(
+        (leaf) =>
+          fromByFid.has(leaf.fid) &&
+          fromByFid.get(leaf.fid).baseAmount !== leaf.baseAmount,
+      )
+      .map((leaf) => {
+        const previous = fromByFid.get(leaf.fid);
+        return {
+          fid: leaf.fid,
+          fromAmount: previous.baseAmount,
+          toAmount: leaf.baseAmount,
+          delta: leaf.baseAmount - previous.baseAmount,
+          fromRank: previous.leaderboardRank,
+          toRank: leaf.leaderboardRank,
+        };
+      })
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.fid - b.fid);
+
+    const sumAmounts = (leaves: AirdropLeaf[]) =>
+      leaves.reduce((sum, leaf) => sum + leaf.baseAmount, 0);
+    const fromTotal = sumAmounts(fromLeaves);
+    const toTotal = sumAmounts(toLeaves);
+
+    return {
+      from: this.toSnapshotSummary(fromSnapshot),
+      to: this.toSnapshotSummary(toSnapshot),
+      summary: {
+        added: added.length,
+        removed: removed.length,
+        changed: changed.length,
+        unchanged: toLeaves.length - added.length - changed.length,
+        fromTotalTokens: fromTotal,
+        toTotalTokens: toTotal,
+        totalTokensDelta: toTotal - fromTotal,
+      },
+      added,
+      removed,
+      changed,
+    };
+  }
+
+  private toSnapshotSummary(
+    snapshot: AirdropSnapshot,
+  ): AirdropSnapshotDiff['from'] {
+    return {
+      id: snapshot.id,
+      version: snapshot.version,
+      merkleRoot: snapshot.merkleRoot,
+      totalUsers: snapshot.totalUsers,
+      isActive: snapshot.isActive,
+      snapshotDate: snapshot.snapshotDate,
+    };
+  }
+
+  /**
+   * Every claim of a snapshot (the active one by default) with its proof, as
+   * a file anyone can check against the contract without our API.
+   */
+  async exportSnapshotProofs(snapshotId?: number): Promise<AirdropProofsFile> {
+    const snapshot = await this.findSnapshot(snapshotId);
+    const { tree, leaves } = await this.getSnapshotTree(snapshot);
+
+    const claims: AirdropProofsFile['claims'] = {};
+    leaves.forEach((leaf, index) => {
+      claims[leaf.fid] = {
+        amount: leaf.baseAmount.toString(),
+        leafHash: leaf.leafHash,
+        proof: tree.getHexProof(leaf.leafHash, index),
+      };
+    });
+
+    return {
+      format: AIRDROP_PROOFS_FORMAT,
+      leafEncoding: ['uint256', 'uint256'],
+      snapshotId: snapshot.id,
+      version: snapshot.version,
+      merkleRoot: snapshot.merkleRoot,
+      contractAddress: snapshot.contractAddress || null,
+      totalUsers: snapshot.totalUsers,
+      totalTokens: snapshot.totalTokens,
+      claims,
+    };
+  }
+
+  /**
+   * Uploads a snapshot's proofs file to IPFS and records where it is.
+   */
+  async publishSnapshotProofs(
+    snapshotId?: number,
+  ): Promise<{ snapshotId: number; proofsUri: string }> {
+    const proofsFile = await this.exportSnapshotProofs(snapshotId);
+    const proofsUri = await this.ipfsService.uploadJsonToIpfs(proofsFile);
+
+    await this.airdropSnapshotRepository.update(
+      { id: proofsFile.snapshotId },
+      { proofsUri },
+    );
+
+    console.log(
+      `📤 [AIRDROP] Published proofs of snapshot ${proofsFile.snapshotId} to ${proofsUri}`,
+    );
+
+    return { snapshotId: proofsFile.snapshotId, proofsUri };
+  }
+
+  /**
+   * Rebuilds a snapshot's root from its stored leaf hashes and checks it
+   * against the stored merkle root. Also recomputes every leaf hash from
+   * its FID and amount, so an edited amount is caught too.
+   */
+  async verifySnapshot(
+    snapshotId: number,
+  ): Promise<AirdropSnapshotVerification> {
+    const snapshot = await this.findSnapshot(snapshotId);
+    const leaves = await this.getSnapshotLeavesByFid(snapshot.id);
+
+    const rebuiltRoot = buildAirdropTree(
+      leaves.map((leaf) => leaf.leafHash),
+    ).getHexRoot();
+    const invalidLeafHashes = leaves
+      .filter(
+        (leaf) => hashAirdropLeaf(leaf.fid, leaf.baseAmount) !== leaf.leafHash,
+      )
+      .map((leaf) => leaf.fid);
+
+    const rootMatches = rebuiltRoot === snapshot.merkleRoot;
+    const leafCountMatches = leaves.length === snapshot.totalUsers;
+
+    return {
+      snapshotId: snapshot.id,
+      version: snapshot.version,
+      merkleRoot: snapshot.merkleRoot,
+      rebuiltRoot,
+      rootMatches,
+      leafCount: leaves.length,
+      leafCountMatches,
+      invalidLeafHashes,
+      valid: rootMatches && leafCountMatches && invalidLeafHashes.length === 0,
+    };
+  }
+
+  private async findSnapshot(snapshotId?: number): Promise<AirdropSnapshot> {
+    const snapshot = await this.airdropSnapshotRepository.findOne({
+      where: snapshotId ? { id: snapshotId } : { isActive: true },
+    });
+    if (!snapshot) {
+      throw new Error(
+        snapshotId
+          ? `Snapshot ${snapshotId} not found`
+          : 'No active airdrop snapshot',
+      );
+    }
+    return snapshot;
+  }
+
+  /**
+   * The snapshot's tree, checked against its merkle root. Trees of frozen
+   * snapshots come from the cache after the first build; a build that fails
+   * is not cached.
+   */
+  private getSnapshotTree(
+    snapshot: AirdropSnapshot,
+  ): Promise<AirdropSnapshotTree> {
+    if (!snapshot.isFrozen) {
+      return this.buildSnapshotTree(snapshot);
+    }
+
+    let snapshotTree = this.snapshotTrees.get(snapshot.id);
+    if (!snapshotTree) {
+      snapshotTree = this.buildSnapshotTree(snapshot);
+      this.snapshotTrees.set(snapshot.id, snapshotTree);
+      snapshotTree.catch(() => this.snapshotTrees.delete(snapshot.id));
+    }
+    return snapshotTree;
+  }
+
+  private async buildSnapshotTree(
+    snapshot: AirdropSnapshot,
+  ): Promise<AirdropSnapshotTree> {
+    const leaves = await this.getSnapshotLeavesByFid(snapshot.id);
+    const tree = buildAirdropTree(leaves.map((leaf) => leaf.leafHash));
+
+    if (tree.getHexRoot() !== snapshot.merkleRoot) {
+      throw new Error(
+        `Snapshot ${snapshot.id} leaves do not rebuild its merkle root`,
+      );
+    }
+
+    return {
+      tree,
+      leaves,
+      indexByFid: new Map(leaves.map((leaf, index) => [leaf.fid, index])),
+    };
+  }
+
+  // Ordered by FID, as the tree is built
+  private getSnapshotLeavesByFid(snapshotId: number): Promise<AirdropLeaf[]> {
+    return this.airdropLeafRepository.find({
+      select: ['fid', 'baseAmount', 'leafHash'],
+      where: { snapshotId },
+      order: { fid: 'ASC' },
+    });
+  }
+
+  /**
+   * Merkle proof of a FID in a snapshot (the active one by default), from
+   * the snapshot's cached tree. Null when there is no such snapshot or the
+   * FID is not in it.
    */
   async generateMerkleProof(
     fid: number,
@@ -2721,50 +2854,22 @@ export class AirdropService {
     merkleRoot: string;
     snapshotId: number;
   } | null> {
-    // 1. Get the active snapshot and its leaves
     const snapshot = await this.airdropSnapshotRepository.findOne({
       where: snapshotId ? { id: snapshotId } : { isActive: true },
-      relations: ['leaves'],
     });
-
     if (!snapshot) {
       return null;
     }
 
-    // 2. Find the specific user's leaf
-    const userLeaf = snapshot.leaves.find((leaf) => leaf.fid === fid);
-    if (!userLeaf) {
+    const { tree, leaves, indexByFid } = await this.getSnapshotTree(snapshot);
+    const index = indexByFid.get(fid);
+    if (index === undefined) {
       return null;
     }
 
-    // 3. Rebuild Merkle Tree
-    // CRITICAL: We must sort the leaves exactly as we did during generation
-    const sortedLeaves = snapshot.leaves.sort((a, b) => a.fid - b.fid);
-
-    const allLeafHashes = sortedLeaves.map((l) => l.leafHash);
-
-    const tree = new MerkleTree(allLeafHashes, keccak256, {
-      sortPairs: true,
-    });
-
-    // 4. Verify Root Matches Database
-    const rebuiltRoot = tree.getHexRoot();
-    if (rebuiltRoot !== snapshot.merkleRoot) {
-      console.error(`[AIRDROP] Tree reconstruction failed!`);
-      console.error(`Expected root: ${snapshot.merkleRoot}`);
-      console.error(`Rebuilt root: ${rebuiltRoot}`);
-      throw new Error('Merkle tree reconstruction failed - roots do not match');
-    }
-
-    // 5. Generate Proof
-    // We use the stored leafHash directly, because that's what the tree is built of.
-    const targetLeaf = userLeaf.leafHash;
-    const proof = tree.getHexProof(targetLeaf);
-
-    // 6. Local Verification
-    const isValid = tree.verify(proof, targetLeaf, rebuiltRoot);
-
-    if (!isValid) {
+    const userLeaf = leaves[index];
+    const proof = tree.getHexProof(userLeaf.leafHash, index);
+    if (!tree.verify(proof, userLeaf.leafHash, snapshot.merkleRoot)) {
       console.error(`[AIRDROP] Local verification failed for FID ${fid}`);
       return null;
     }
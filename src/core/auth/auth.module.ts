@@ -20,6 +20,8 @@ import {
 } from '../../models';
 import { AdminGuard } from 'src/security/guards';
 import { AirdropModule } from '../airdrop/airdrop.module';
+import { SeasonModule } from '../season/season.module';
+import { PointsModule } from '../points/points.module';
 
 @Module({
   imports: [
@@ -32,6 +34,8 @@ import { AirdropModule } from '../airdrop/airdrop.module';
       AirdropScore,
     ]),
     forwardRef(() => AirdropModule),
+    SeasonModule,
+    PointsModule,
   ],
   controllers: [AuthController],
   providers: [AuthService, UserService, AdminGuard],
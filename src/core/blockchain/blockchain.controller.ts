@@ -15,7 +15,7 @@ import { PowerLevelService } from './services/power-level.service';
 import { SignatureService } from './services/signature.service';
 import { RewardService } from './services/reward.service';
 import { CastVerificationService } from './services/cast-verification.service';
-import { IndexerService } from './services/indexer.service';
+import { IndexerEventService } from './services/indexer-event.service';
 import { PodiumService } from './services/podium.service';
 
 import {
@@ -46,6 +46,7 @@ import {
 } from './dto';
 import { BlockchainBrandDto, PrepareMetadataDto } from '../admin/dto';
 import { AdminService } from '../admin/services/admin.service';
+import { IndexerEventTypeEnum } from '../../models';
 
 @ApiTags('blockchain-service')
 @Controller('blockchain-service')
@@ -56,7 +57,7 @@ export class BlockchainController {
     private readonly signatureService: SignatureService,
     private readonly rewardService: RewardService,
     private readonly castVerificationService: CastVerificationService,
-    private readonly indexerService: IndexerService,
+    private readonly indexerEventService: IndexerEventService,
     private readonly adminService: AdminService,
     private readonly podiumService: PodiumService,
     private readonly ipfsService: IpfsService,
@@ -471,13 +472,16 @@ export class BlockchainController {
         `🏆 [INDEXER] Received collectible mint: Token #${data.tokenId}, Brands: [${data.brandIds.join(', ')}]`,
       );
 
-      const result = await this.podiumService.handleCollectibleMinted(data);
+      const result = await this.indexerEventService.ingest(
+        IndexerEventTypeEnum.COLLECTIBLE_MINTED,
+        data,
+      );
 
       return {
         success: true,
         message: 'Collectible mint processed successfully',
         tokenId: data.tokenId,
-        affected: result.affected,
+        affected: result?.affected ?? 0,
       };
     } catch (error) {
       logger.error(
@@ -502,14 +506,17 @@ export class BlockchainController {
         `💰 [INDEXER] Received collectible buy: Token #${data.tokenId}, New Owner: ${data.newOwnerFid}`,
       );
 
-      const result = await this.podiumService.handleCollectibleBought(data);
+      const result = await this.indexerEventService.ingest(
+        IndexerEventTypeEnum.COLLECTIBLE_BOUGHT,
+        data,
+      );
 
       return {
         success: true,
         message: 'Collectible buy processed successfully',
         tokenId: data.tokenId,
         newOwnerFid: data.newOwnerFid,
-        affected: result.affected,
+        affected: result?.affected ?? 0,
       };
     } catch (error) {
       logger.error(
@@ -531,7 +538,10 @@ export class BlockchainController {
     try {
       logger.log(`🗳️ [INDEXER] Received vote submission: ${submitVoteDto.id}`);
 
-      await this.indexerService.handleVoteSubmission(submitVoteDto);
+      await this.indexerEventService.ingest(
+        IndexerEventTypeEnum.VOTE,
+        submitVoteDto,
+      );
 
       return {
         success: true,
@@ -560,7 +570,8 @@ export class BlockchainController {
         `💰 [INDEXER] Received reward claim submission: ${submitRewardClaimDto.id}`,
       );
 
-      await this.indexerService.handleRewardClaimSubmission(
+      await this.indexerEventService.ingest(
+        IndexerEventTypeEnum.REWARD_CLAIM,
         submitRewardClaimDto,
       );
 
@@ -591,7 +602,10 @@ export class BlockchainController {
         `📈 [INDEXER] Received user level update: ${updateUserLevelDto.levelUpId}`,
       );
 
-      await this.indexerService.handleUserLevelUpdate(updateUserLevelDto);
+      await this.indexerEventService.ingest(
+        IndexerEventTypeEnum.USER_LEVEL,
+        updateUserLevelDto,
+      );
 
       return {
         success: true,
@@ -625,10 +639,10 @@ export class BlockchainController {
         `📋 [INDEXER] Received brand creation: ${blockchainBrandDto.id} - ${blockchainBrandDto.handle}`,
       );
 
-      const brand =
-        await this.adminService.createOrUpdateBrandFromBlockchain(
-          blockchainBrandDto,
-        );
+      const brand = await this.indexerEventService.ingest(
+        IndexerEventTypeEnum.BRAND,
+        blockchainBrandDto,
+      );
 
       return {
         success: true,
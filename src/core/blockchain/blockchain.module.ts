@@ -13,12 +13,19 @@ import { DataRepairService } from './services/data-repair.service';
 import { BrandSyncService } from './services/brand-sync.service';
 import { PodiumService } from './services/podium.service';
 import { IndexerSyncService } from './services/indexer-sync.service';
+import { IndexerEventService } from './services/indexer-event.service';
 import { UserService } from '../user/services';
 import { AdminService } from '../admin/services/admin.service';
 import { IpfsService } from '../../utils/ipfs.service';
 import { AuthModule } from '../auth/auth.module';
 import { EmbedsModule } from '../embeds/embeds.module';
 import { BrandModule } from '../brand/brand.module';
+import { LiveModule } from '../live/live.module';
+import { SeasonModule } from '../season/season.module';
+import { ScoringModule } from '../scoring/scoring.module';
+import { VoteQualityModule } from '../vote-quality/vote-quality.module';
+import { PointsModule } from '../points/points.module';
+import { TagModule } from '../tag/tag.module';
 
 import {
   User,
@@ -29,6 +36,8 @@ import {
   AirdropSnapshot,
   AirdropScore,
   CollectibleActivity,
+  IndexerEvent,
+  IndexerSyncCheckpoint,
 } from '../../models';
 
 @Module({
@@ -42,10 +51,18 @@ import {
       AirdropSnapshot,
       AirdropScore,
       CollectibleActivity,
+      IndexerEvent,
+      IndexerSyncCheckpoint,
     ]),
     forwardRef(() => AuthModule),
     forwardRef(() => BrandModule),
     EmbedsModule,
+    LiveModule,
+    SeasonModule,
+    ScoringModule,
+    forwardRef(() => VoteQualityModule),
+    PointsModule,
+    TagModule,
   ],
   controllers: [BlockchainController],
   providers: [
@@ -58,6 +75,7 @@ import {
     ContractUploadService,
     IndexerService,
     IndexerSyncService,
+    IndexerEventService,
     DataRepairService,
     BrandSyncService,
     UserService,
@@ -74,6 +92,7 @@ import {
     ContractUploadService,
     IndexerService,
     IndexerSyncService,
+    IndexerEventService,
     DataRepairService,
     BrandSyncService,
   ],
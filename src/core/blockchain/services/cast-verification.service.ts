@@ -260,7 +260,7 @@ export class CastVerificationService {
       );
 
       if (verified) {
-        const rewardAmount = this.rewardService.calculateRewardAmount(
+        const rewardAmount = await this.rewardService.calculateRewardAmount(
           user.brndPowerLevel,
         );
         return {
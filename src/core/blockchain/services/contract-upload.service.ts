@@ -742,10 +742,13 @@ export class ContractUploadService {
     private readonly ipfsService: IpfsService,
   ) {}
 
-  async getAllBrandsForContract(limit?: number): Promise<ContractBrand[]> {
+  async getAllBrandsForContract(
+    limit?: number,
+    brandIds?: number[],
+  ): Promise<ContractBrand[]> {
     try {
       logger.log(
-        `📋 [CONTRACT] Fetching ${limit || 'all'} brands from database for contract upload`,
+        `📋 [CONTRACT] Fetching ${brandIds ? `brands [${brandIds.join(', ')}]` : `${limit || 'all'} brands`} from database for contract upload`,
       );
 
       const queryOptions: any = {
@@ -765,6 +768,10 @@ export class ContractUploadService {
         queryOptions.take = limit;
       }
 
+      if (brandIds) {
+        queryOptions.where = { id: In(brandIds) };
+      }
+
       const brands = await this.brandRepository.find(queryOptions);
 
       logger.log(`📋 [CONTRACT] Found ${brands.length} brands in database`);
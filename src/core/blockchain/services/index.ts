@@ -6,6 +6,7 @@ export { CastVerificationService } from './cast-verification.service';
 export { ContractUploadService } from './contract-upload.service';
 export { IndexerService } from './indexer.service';
 export { IndexerSyncService } from './indexer-sync.service';
+export { IndexerEventService } from './indexer-event.service';
 export { DataRepairService } from './data-repair.service';
 export { BrandSyncService } from './brand-sync.service';
 export { PodiumService } from './podium.service';
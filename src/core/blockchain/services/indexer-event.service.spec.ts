@@ -0,0 +1,398 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FindOperator, Repository } from 'typeorm';
+
+import {
+  Brand,
+  IndexerEvent,
+  IndexerEventStatusEnum,
+  IndexerEventTypeEnum,
+  UserBrandVotes,
+} from '../../../models';
+import { AdminService } from '../../admin/services/admin.service';
+import { IndexerEventService } from './indexer-event.service';
+import { IndexerService } from './indexer.service';
+import { PodiumService } from './podium.service';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+type EventWhere = Record<string, unknown>;
+
+/**
+ * In-memory indexer_events table. Rows are copied in and out like a real
+ * repository, so the service only sees what it saved.
+ */
+function createEventRepository() {
+  const events: IndexerEvent[] = [];
+
+  const matches = (event: IndexerEvent, where: EventWhere) =>
+    Object.entries(where).every(([column, condition]) => {
+      const value = event[column as keyof IndexerEvent];
+      if (condition instanceof FindOperator) {
+        if (condition.type === 'in') {
+          return (condition.value as unknown as unknown[]).includes(value);
+        }
+        throw new Error(`Unsupported operator ${condition.type}`);
+      }
+      return value === condition;
+    });
+
+  const inBlockOrder = (a: IndexerEvent, b: IndexerEvent) =>
+    (a.blockNumber ?? 0) - (b.blockNumber ?? 0) || a.id - b.id;
+
+  const repository = {
+    create: (values: Partial<IndexerEvent>) => ({ ...values }) as IndexerEvent,
+    save: async (event: IndexerEvent) => {
+      if (!event.id) {
+        if (
+          events.some(
+            (e) =>
+              e.eventType === event.eventType && e.eventKey === event.eventKey,
+          )
+        ) {
+          throw Object.assign(new Error('Duplicate entry'), {
+            code: 'ER_DUP_ENTRY',
+          });
+        }
+        event.id = events.length + 1;
+        events.push({ ...event });
+      } else {
+        Object.assign(
+          events.find((e) => e.id === event.id),
+          event,
+        );
+      }
+      return event;
+    },
+    findOne: async ({ where }: { where: EventWhere }) => {
+      const event = events.find((e) => matches(e, where));
+      return event ? { ...event } : null;
+    },
+    find: async ({ where, take }: { where: EventWhere; take?: number }) =>
+      events
+        .filter((e) => matches(e, where))
+        .sort(inBlockOrder)
+        .slice(0, take)
+        .map((e) => ({ ...e })),
+  };
+
+  return {
+    events,
+    repository: repository as unknown as Repository<IndexerEvent>,
+  };
+}
+
+describe('IndexerEventService', () => {
+  let events: IndexerEvent[];
+  // `${fid}:${day}` of every stored vote
+  let votedDays: string[];
+  let indexerService: {
+    handleVoteSubmission: jest.Mock<(payload: unknown) => Promise<boolean>>;
+    handleRewardClaimSubmission: jest.Mock<(payload: unknown) => Promise<void>>;
+  };
+  let service: IndexerEventService;
+
+  const claim = (overrides: Record<string, unknown> = {}) => ({
+    id: '0xclaim-3',
+    recipient: '0xvoter',
+    fid: 7,
+    amount: '1000000000000000000000',
+    day: '20514',
+    castHash: '0xcast',
+    caller: '0xvoter',
+    blockNumber: '1005',
+    transactionHash: '0xclaim',
+    timestamp: '1772456400',
+    ...overrides,
+  });
+
+  const vote = (overrides: Record<string, unknown> = {}) => ({
+    id: '0xvote-1',
+    fid: 7,
+    brandIds: [10, 11, 12],
+    blockNumber: '1000',
+    transactionHash: '0xvote',
+    // Day 20514
+    timestamp: '1772452800',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    const store = createEventRepository();
+    events = store.events;
+    votedDays = [];
+
+    indexerService = {
+      handleVoteSubmission: jest.fn(async (payload) => {
+        const { fid, timestamp } = payload as {
+          fid: number;
+          timestamp: string;
+        };
+        votedDays.push(`${fid}:${Math.floor(parseInt(timestamp) / 86400)}`);
+        return true;
+      }),
+      handleRewardClaimSubmission: jest.fn(async () => undefined),
+    };
+    const brandRepository = {
+      find: async () => [{ id: 10 }, { id: 11 }, { id: 12 }],
+    };
+
+    const votesRepository = {
+      count: async ({
+        where,
+      }: {
+        where: { user: { fid: number }; day: number };
+      }) =>
+        votedDays.filter((key) => key === `${where.user.fid}:${where.day}`)
+          .length,
+    };
+
+    service = new IndexerEventService(
+      store.repository,
+      votesRepository as unknown as Repository<UserBrandVotes>,
+      brandRepository as unknown as Repository<Brand>,
+      indexerService as unknown as IndexerService,
+      {} as PodiumService,
+      {} as AdminService,
+    );
+  });
+
+  describe('ingest', () => {
+    it('records the event and stores what its handler returned', async () => {
+      expect(await service.ingest(IndexerEventTypeEnum.VOTE, vote())).toBe(
+        true,
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        eventType: IndexerEventTypeEnum.VOTE,
+        eventKey: '0xvote',
+        blockNumber: 1000,
+        status: IndexerEventStatusEnum.PROCESSED,
+        attempts: 1,
+        result: true,
+        error: null,
+      });
+    });
+
+    it('answers a redelivered event with its stored result without running it again', async () => {
+      await service.ingest(IndexerEventTypeEnum.VOTE, vote());
+
+      const redelivered = await service.ingest(
+        IndexerEventTypeEnum.VOTE,
+        vote(),
+      );
+
+      expect(redelivered).toBe(true);
+      expect(indexerService.handleVoteSubmission).toHaveBeenCalledTimes(1);
+      expect(events).toHaveLength(1);
+    });
+
+    it('records a failure and rethrows it so the indexer retries', async () => {
+      indexerService.handleVoteSubmission.mockRejectedValueOnce(
+        new Error('Lock timeout'),
+      );
+
+      await expect(
+        service.ingest(IndexerEventTypeEnum.VOTE, vote()),
+      ).rejects.toThrow('Lock timeout');
+
+      expect(events[0]).toMatchObject({
+        status: IndexerEventStatusEnum.FAILED,
+        error: 'Lock timeout',
+        attempts: 1,
+      });
+    });
+
+    it('runs a failed event again when the indexer redelivers it', async () => {
+      indexerService.handleVoteSubmission.mockRejectedValueOnce(
+        new Error('Lock timeout'),
+      );
+      await expect(
+        service.ingest(IndexerEventTypeEnum.VOTE, vote()),
+      ).rejects.toThrow();
+
+      expect(await service.ingest(IndexerEventTypeEnum.VOTE, vote())).toBe(
+        true,
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        status: IndexerEventStatusEnum.PROCESSED,
+        attempts: 2,
+        error: null,
+      });
+    });
+
+    it('uses the row a concurrent delivery inserted first', async () => {
+      await service.ingest(IndexerEventTypeEnum.VOTE, vote());
+      // Our lookup ran before the other delivery committed its row
+      jest
+        .spyOn(service['indexerEventRepository'], 'findOne')
+        .mockResolvedValueOnce(null);
+
+      const result = await service.ingest(IndexerEventTypeEnum.VOTE, vote());
+
+      expect(result).toBe(true);
+      expect(indexerService.handleVoteSubmission).toHaveBeenCalledTimes(1);
+      expect(events).toHaveLength(1);
+    });
+  });
+
+  describe('replayFailed', () => {
+    it('replays failed events in block order and reports the outcome', async () => {
+      indexerService.handleVoteSubmission
+        .mockRejectedValueOnce(new Error('Lock timeout'))
+        .mockRejectedValueOnce(new Error('Lock timeout'));
+      for (const [transactionHash, blockNumber] of [
+        ['0xlater', '1200'],
+        ['0xearlier', '1100'],
+      ]) {
+        await expect(
+          service.ingest(
+            IndexerEventTypeEnum.VOTE,
+            vote({ transactionHash, blockNumber }),
+          ),
+        ).rejects.toThrow();
+      }
+      indexerService.handleVoteSubmission
+        .mockClear()
+        .mockRejectedValueOnce(new Error('Brands not found: 12'));
+
+      const summary = await service.replayFailed(IndexerEventTypeEnum.VOTE);
+
+      expect(
+        indexerService.handleVoteSubmission.mock.calls.map(
+          ([payload]) =>
+            (payload as { transactionHash: string }).transactionHash,
+        ),
+      ).toEqual(['0xearlier', '0xlater']);
+      expect(summary).toMatchObject({ replayed: 2, processed: 1, failed: 1 });
+      expect(summary.events[0]).toMatchObject({
+        eventKey: '0xearlier',
+        status: IndexerEventStatusEnum.FAILED,
+        error: 'Brands not found: 12',
+      });
+    });
+  });
+
+  describe('pending events', () => {
+    it('parks a claim that arrives before its vote', async () => {
+      expect(
+        await service.ingest(IndexerEventTypeEnum.REWARD_CLAIM, claim()),
+      ).toBeNull();
+
+      expect(indexerService.handleRewardClaimSubmission).not.toHaveBeenCalled();
+      expect(events[0]).toMatchObject({
+        status: IndexerEventStatusEnum.PENDING,
+        dependsOn: 'vote:7:20514',
+        attempts: 0,
+      });
+      expect(events[0].pendingSince).toBeInstanceOf(Date);
+    });
+
+    it('applies the parked claim as soon as its vote is processed', async () => {
+      await service.ingest(IndexerEventTypeEnum.REWARD_CLAIM, claim());
+
+      await service.ingest(IndexerEventTypeEnum.VOTE, vote());
+
+      expect(indexerService.handleRewardClaimSubmission).toHaveBeenCalledWith(
+        claim(),
+      );
+      expect(events[0]).toMatchObject({
+        eventKey: '0xclaim',
+        status: IndexerEventStatusEnum.PROCESSED,
+        dependsOn: null,
+        attempts: 1,
+      });
+    });
+
+    it('leaves claims for other days parked', async () => {
+      await service.ingest(
+        IndexerEventTypeEnum.REWARD_CLAIM,
+        claim({ day: '20513' }),
+      );
+
+      await service.ingest(IndexerEventTypeEnum.VOTE, vote());
+
+      expect(indexerService.handleRewardClaimSubmission).not.toHaveBeenCalled();
+      expect(events[0].status).toBe(IndexerEventStatusEnum.PENDING);
+    });
+  });
+
+  describe('after a revert', () => {
+    /** Reopens the events the way IndexerService.revertVote does. */
+    const revert = () => {
+      votedDays = [];
+      Object.assign(events[0], {
+        status: IndexerEventStatusEnum.RECEIVED,
+        result: null,
+        error: null,
+        processedAt: null,
+      });
+      Object.assign(events[1], {
+        status: IndexerEventStatusEnum.PENDING,
+        dependsOn: 'vote:7:20514',
+        pendingSince: new Date(),
+        result: null,
+        processedAt: null,
+      });
+    };
+
+    it('ingests the redelivered vote and applies its claim again', async () => {
+      await service.ingest(IndexerEventTypeEnum.VOTE, vote());
+      await service.ingest(IndexerEventTypeEnum.REWARD_CLAIM, claim());
+      revert();
+
+      expect(await service.ingest(IndexerEventTypeEnum.VOTE, vote())).toBe(
+        true,
+      );
+
+      expect(indexerService.handleVoteSubmission).toHaveBeenCalledTimes(2);
+      expect(indexerService.handleRewardClaimSubmission).toHaveBeenCalledTimes(
+        2,
+      );
+      expect(events.map((event) => event.status)).toEqual([
+        IndexerEventStatusEnum.PROCESSED,
+        IndexerEventStatusEnum.PROCESSED,
+      ]);
+    });
+  });
+
+  describe('resolvePendingEvents', () => {
+    it('applies a claim whose vote was stored outside the event log', async () => {
+      await service.ingest(IndexerEventTypeEnum.REWARD_CLAIM, claim());
+      votedDays.push('7:20514');
+
+      await service.resolvePendingEvents();
+
+      expect(indexerService.handleRewardClaimSubmission).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(events[0].status).toBe(IndexerEventStatusEnum.PROCESSED);
+    });
+
+    it('fails an event that waited too long for its prerequisite', async () => {
+      await service.ingest(IndexerEventTypeEnum.REWARD_CLAIM, claim());
+      events[0].pendingSince = new Date(Date.now() - 61 * 60 * 1000);
+
+      await service.resolvePendingEvents();
+
+      expect(indexerService.handleRewardClaimSubmission).not.toHaveBeenCalled();
+      expect(events[0]).toMatchObject({
+        status: IndexerEventStatusEnum.FAILED,
+        error: 'Timed out waiting for vote:7:20514',
+      });
+    });
+
+    it('keeps waiting within the timeout', async () => {
+      await service.ingest(IndexerEventTypeEnum.REWARD_CLAIM, claim());
+      events[0].pendingSince = new Date(Date.now() - 59 * 60 * 1000);
+
+      await service.resolvePendingEvents();
+
+      expect(events[0].status).toBe(IndexerEventStatusEnum.PENDING);
+    });
+  });
+});
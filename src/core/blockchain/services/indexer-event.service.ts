@@ -0,0 +1,484 @@
+import { Injectable, Inject, forwardRef } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Not, IsNull } from 'typeorm';
+
+import {
+  Brand,
+  IndexerEvent,
+  IndexerEventStatusEnum,
+  IndexerEventTypeEnum,
+  UserBrandVotes,
+} from '../../../models';
+import { IndexerService } from './indexer.service';
+import { PodiumService } from './podium.service';
+import { AdminService } from '../../admin/services/admin.service';
+import { logger } from '../../../main';
+
+// How long an event may wait for its prerequisite before it is failed
+const PENDING_TIMEOUT_MS = 60 * 60 * 1000;
+
+export interface ReplaySummary {
+  replayed: number;
+  processed: number;
+  failed: number;
+  events: Array<{
+    id: number;
+    eventType: IndexerEventTypeEnum;
+    eventKey: string;
+    status: IndexerEventStatusEnum;
+    error: string | null;
+  }>;
+}
+
+@Injectable()
+export class IndexerEventService {
+  constructor(
+    @InjectRepository(IndexerEvent)
+    private readonly indexerEventRepository: Repository<IndexerEvent>,
+    @InjectRepository(UserBrandVotes)
+    private readonly userBrandVotesRepository: Repository<UserBrandVotes>,
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+    @Inject(forwardRef(() => IndexerService))
+    private readonly indexerService: IndexerService,
+    private readonly podiumService: PodiumService,
+    @Inject(forwardRef(() => AdminService))
+    private readonly adminService: AdminService,
+  ) {}
+
+  /**
+   * Persists an inbound indexer payload and runs it through its handler.
+   * The stored event is marked processed or failed; handler errors are rethrown
+   * so the indexer still sees a failed delivery. Events that arrive before
+   * their prerequisite are parked as pending and resolve to null. An event
+   * that was already processed resolves to its stored result.
+   */
+  async ingest(eventType: IndexerEventTypeEnum, payload: any): Promise<any> {
+    const event = await this.record(eventType, payload);
+
+    if (event.status === IndexerEventStatusEnum.PROCESSED) {
+      logger.log(
+        `⏭️ [INDEXER EVENTS] ${event.eventType} event ${event.eventKey} was already processed, returning its stored result`,
+      );
+      return event.result;
+    }
+
+    return this.execute(event);
+  }
+
+  /**
+   * Re-runs a single stored event through the same handler used at ingestion.
+   */
+  async replay(id: number): Promise<IndexerEvent> {
+    const event = await this.indexerEventRepository.findOne({ where: { id } });
+
+    if (!event) {
+      throw new Error(`Indexer event with ID ${id} not found.`);
+    }
+
+    logger.log(
+      `🔁 [INDEXER EVENTS] Replaying ${event.eventType} event ${event.eventKey} (attempt ${event.attempts + 1})`,
+    );
+
+    try {
+      await this.execute(event);
+    } catch {
+      // Failure is already recorded on the event row
+    }
+
+    return event;
+  }
+
+  /**
+   * Replays failed events in block order, oldest first, so votes land after
+   * the brands they reference.
+   */
+  async replayFailed(
+    eventType?: IndexerEventTypeEnum,
+    limit: number = 100,
+  ): Promise<ReplaySummary> {
+    const events = await this.indexerEventRepository.find({
+      where: {
+        status: IndexerEventStatusEnum.FAILED,
+        ...(eventType && { eventType }),
+      },
+      order: { blockNumber: 'ASC', id: 'ASC' },
+      take: limit,
+    });
+
+    logger.log(
+      `🔁 [INDEXER EVENTS] Bulk replay of ${events.length} failed events${eventType ? ` (${eventType})` : ''}`,
+    );
+
+    const summary: ReplaySummary = {
+      replayed: 0,
+      processed: 0,
+      failed: 0,
+      events: [],
+    };
+
+    for (const event of events) {
+      const replayed = await this.replay(event.id);
+
+      summary.replayed++;
+      if (replayed.status === IndexerEventStatusEnum.PROCESSED) {
+        summary.processed++;
+      } else {
+        summary.failed++;
+      }
+      summary.events.push({
+        id: replayed.id,
+        eventType: replayed.eventType,
+        eventKey: replayed.eventKey,
+        status: replayed.status,
+        error: replayed.error,
+      });
+    }
+
+    logger.log(
+      `✅ [INDEXER EVENTS] Bulk replay finished: ${summary.processed} processed, ${summary.failed} still failing`,
+    );
+
+    return summary;
+  }
+
+  /**
+   * Lists stored events, newest first. Defaults to failed events.
+   */
+  async getEvents(
+    page: number = 1,
+    limit: number = 50,
+    status: IndexerEventStatusEnum[] = [IndexerEventStatusEnum.FAILED],
+    eventType?: IndexerEventTypeEnum,
+  ): Promise<[IndexerEvent[], number]> {
+    return this.indexerEventRepository.findAndCount({
+      where: {
+        status: In(status),
+        ...(eventType && { eventType }),
+      },
+      order: { receivedAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+  }
+
+  /**
+   * Counts stored events grouped by type and status.
+   */
+  async getStatusCounts(): Promise<
+    Array<{ eventType: string; status: string; count: number }>
+  > {
+    const rows = await this.indexerEventRepository
+      .createQueryBuilder('event')
+      .select('event.eventType', 'eventType')
+      .addSelect('event.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('event.eventType')
+      .addGroupBy('event.status')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      eventType: row.eventType,
+      status: row.status,
+      count: parseInt(row.count),
+    }));
+  }
+
+  /**
+   * Retries pending events every 10 minutes in case their prerequisite was
+   * written outside the event log (sync scripts, admin repairs). Events still
+   * waiting after PENDING_TIMEOUT_MS are failed and reported.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'indexer-pending-events' })
+  async resolvePendingEvents(): Promise<void> {
+    const events = await this.indexerEventRepository.find({
+      where: { status: IndexerEventStatusEnum.PENDING },
+      order: { blockNumber: 'ASC', id: 'ASC' },
+    });
+
+    if (events.length === 0) {
+      return;
+    }
+
+    logger.log(
+      `⏳ [INDEXER EVENTS] Re-checking ${events.length} pending events`,
+    );
+
+    const cutoff = new Date(Date.now() - PENDING_TIMEOUT_MS);
+    let timedOut = 0;
+
+    for (const event of events) {
+      // An earlier iteration may already have released this one
+      if (event.status !== IndexerEventStatusEnum.PENDING) {
+        continue;
+      }
+
+      try {
+        await this.execute(event);
+      } catch {
+        // Failure is already recorded on the event row
+      }
+
+      if (
+        event.status === IndexerEventStatusEnum.PENDING &&
+        event.pendingSince < cutoff
+      ) {
+        event.status = IndexerEventStatusEnum.FAILED;
+        event.error = `Timed out waiting for ${event.dependsOn}`;
+        await this.indexerEventRepository.save(event);
+        timedOut++;
+      }
+    }
+
+    if (timedOut > 0) {
+      logger.error(
+        `🚨 [INDEXER EVENTS] ${timedOut} events waited more than ${PENDING_TIMEOUT_MS / 60000} minutes for a prerequisite and were marked failed`,
+      );
+    }
+  }
+
+  /**
+   * Stores the payload, or refreshes the existing row when the indexer
+   * redelivers the same event. Processed rows are returned untouched.
+   */
+  private async record(
+    eventType: IndexerEventTypeEnum,
+    payload: any,
+  ): Promise<IndexerEvent> {
+    const eventKey = this.getEventKey(eventType, payload);
+    const blockNumber = payload?.blockNumber
+      ? parseInt(payload.blockNumber)
+      : null;
+
+    const existing = await this.indexerEventRepository.findOne({
+      where: { eventType, eventKey },
+    });
+
+    if (existing) {
+      if (existing.status === IndexerEventStatusEnum.PROCESSED) {
+        return existing;
+      }
+      existing.payload = payload;
+      return this.indexerEventRepository.save(existing);
+    }
+
+    try {
+      return await this.indexerEventRepository.save(
+        this.indexerEventRepository.create({
+          eventType,
+          eventKey,
+          payload,
+          blockNumber,
+          status: IndexerEventStatusEnum.RECEIVED,
+          attempts: 0,
+        }),
+      );
+    } catch (error) {
+      // Concurrent redelivery inserted the row first
+      const concurrent = await this.indexerEventRepository.findOne({
+        where: { eventType, eventKey },
+      });
+      if (!concurrent) {
+        throw error;
+      }
+      return concurrent;
+    }
+  }
+
+  /**
+   * Runs the handler for an event and records the outcome on the row.
+   * Parks the event as pending when its prerequisite has not been indexed
+   * yet, and releases any events that were waiting on this one.
+   */
+  private async execute(event: IndexerEvent): Promise<any> {
+    const dependsOn = await this.findMissingDependency(event);
+
+    if (dependsOn) {
+      event.status = IndexerEventStatusEnum.PENDING;
+      event.dependsOn = dependsOn;
+      event.pendingSince = event.pendingSince || new Date();
+      await this.indexerEventRepository.save(event);
+
+      logger.warn(
+        `⏸️ [INDEXER EVENTS] ${event.eventType} event ${event.eventKey} is waiting for ${dependsOn}`,
+      );
+      return null;
+    }
+
+    event.attempts += 1;
+
+    let result: any;
+    try {
+      result = await this.dispatch(event.eventType, event.payload);
+
+      event.status = IndexerEventStatusEnum.PROCESSED;
+      event.result = result ?? null;
+      event.error = null;
+      event.dependsOn = null;
+      event.processedAt = new Date();
+      await this.indexerEventRepository.save(event);
+    } catch (error) {
+      event.status = IndexerEventStatusEnum.FAILED;
+      event.error = error?.message || String(error);
+      await this.indexerEventRepository.save(event);
+
+      logger.error(
+        `❌ [INDEXER EVENTS] ${event.eventType} event ${event.eventKey} failed (attempt ${event.attempts}): ${event.error}`,
+      );
+      throw error;
+    }
+
+    await this.releaseDependents(this.getProvidedKeys(event, result));
+
+    return result;
+  }
+
+  /**
+   * Returns the key of the prerequisite an event is missing, or null when it
+   * can be applied. Claims need the day's vote, votes need their brands and
+   * collectible events need the podium they reference. Level-ups and brands
+   * have no prerequisites.
+   */
+  private async findMissingDependency(
+    event: IndexerEvent,
+  ): Promise<string | null> {
+    const payload = event.payload;
+
+    switch (event.eventType) {
+      case IndexerEventTypeEnum.REWARD_CLAIM: {
+        // Legacy placeholder rows (no brands) do not count as the day's vote
+        const day = parseInt(payload.day);
+        const voteCount = await this.userBrandVotesRepository.count({
+          where: { user: { fid: payload.fid }, day, brand1: Not(IsNull()) },
+        });
+        return voteCount > 0 ? null : `vote:${payload.fid}:${day}`;
+      }
+      case IndexerEventTypeEnum.VOTE: {
+        const brands = await this.brandRepository.find({
+          select: ['id'],
+          where: { id: In(payload.brandIds) },
+        });
+        const found = new Set(brands.map((brand) => brand.id));
+        const missing = payload.brandIds.find((id: number) => !found.has(id));
+        return missing === undefined ? null : `brand:${missing}`;
+      }
+      case IndexerEventTypeEnum.COLLECTIBLE_MINTED: {
+        const [b1, b2, b3] = payload.brandIds;
+        const voteCount = await this.userBrandVotesRepository.count({
+          where: { brand1: { id: b1 }, brand2: { id: b2 }, brand3: { id: b3 } },
+        });
+        return voteCount > 0 ? null : `combination:${b1}-${b2}-${b3}`;
+      }
+      case IndexerEventTypeEnum.COLLECTIBLE_BOUGHT: {
+        const voteCount = await this.userBrandVotesRepository.count({
+          where: { collectibleTokenId: payload.tokenId },
+        });
+        return voteCount > 0 ? null : `collectible:${payload.tokenId}`;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Dependency keys an event satisfies once it has been processed.
+   */
+  private getProvidedKeys(event: IndexerEvent, result: any): string[] {
+    const payload = event.payload;
+
+    switch (event.eventType) {
+      case IndexerEventTypeEnum.VOTE: {
+        // Votes are stored under the day derived from the block timestamp
+        const day = Math.floor(parseInt(payload.timestamp) / 86400);
+        return [
+          `vote:${payload.fid}:${day}`,
+          `combination:${payload.brandIds.join('-')}`,
+        ];
+      }
+      case IndexerEventTypeEnum.BRAND:
+        return result?.id ? [`brand:${result.id}`] : [];
+      case IndexerEventTypeEnum.COLLECTIBLE_MINTED:
+        return [`collectible:${payload.tokenId}`];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Runs pending events that were waiting on any of the given keys, in
+   * block order. Failures stay on their own rows.
+   */
+  private async releaseDependents(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    const dependents = await this.indexerEventRepository.find({
+      where: {
+        status: IndexerEventStatusEnum.PENDING,
+        dependsOn: In(keys),
+      },
+      order: { blockNumber: 'ASC', id: 'ASC' },
+    });
+
+    for (const dependent of dependents) {
+      logger.log(
+        `▶️ [INDEXER EVENTS] Releasing ${dependent.eventType} event ${dependent.eventKey} (was waiting for ${dependent.dependsOn})`,
+      );
+
+      try {
+        await this.execute(dependent);
+      } catch {
+        // Failure is already recorded on the event row
+      }
+    }
+  }
+
+  /**
+   * Routes an event to the handler that owns its side effects.
+   */
+  private async dispatch(
+    eventType: IndexerEventTypeEnum,
+    payload: any,
+  ): Promise<any> {
+    switch (eventType) {
+      case IndexerEventTypeEnum.VOTE:
+        return this.indexerService.handleVoteSubmission(payload);
+      case IndexerEventTypeEnum.REWARD_CLAIM:
+        return this.indexerService.handleRewardClaimSubmission(payload);
+      case IndexerEventTypeEnum.USER_LEVEL:
+        return this.indexerService.handleUserLevelUpdate(payload);
+      case IndexerEventTypeEnum.COLLECTIBLE_MINTED:
+        return this.podiumService.handleCollectibleMinted(payload);
+      case IndexerEventTypeEnum.COLLECTIBLE_BOUGHT:
+        return this.podiumService.handleCollectibleBought(payload);
+      case IndexerEventTypeEnum.BRAND:
+        return this.adminService.createOrUpdateBrandFromBlockchain(payload);
+      default:
+        throw new Error(`Unsupported indexer event type: ${eventType}`);
+    }
+  }
+
+  /**
+   * Builds the natural key that identifies an event within its type.
+   */
+  private getEventKey(eventType: IndexerEventTypeEnum, payload: any): string {
+    switch (eventType) {
+      case IndexerEventTypeEnum.VOTE:
+      case IndexerEventTypeEnum.REWARD_CLAIM:
+        return payload.transactionHash;
+      case IndexerEventTypeEnum.USER_LEVEL:
+        return payload.levelUpId;
+      case IndexerEventTypeEnum.COLLECTIBLE_MINTED:
+        return `${payload.tokenId}-${payload.txHash}`;
+      case IndexerEventTypeEnum.COLLECTIBLE_BOUGHT:
+        // Each sale bumps the claim count, so it identifies the trade
+        return `${payload.tokenId}-${payload.claimCount}`;
+      case IndexerEventTypeEnum.BRAND:
+        return `${payload.id}-${payload.transactionHash}`;
+      default:
+        throw new Error(`Unsupported indexer event type: ${eventType}`);
+    }
+  }
+}
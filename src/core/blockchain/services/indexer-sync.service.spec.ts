@@ -0,0 +1,243 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FindOperator, Repository } from 'typeorm';
+
+import {
+  Brand,
+  Category,
+  IndexerEventTypeEnum,
+  IndexerSyncCheckpoint,
+  IndexerSyncStreamEnum,
+  User,
+  UserBrandVotes,
+} from '../../../models';
+import { BlockchainService } from './blockchain.service';
+import { IndexerEventService } from './indexer-event.service';
+import { IndexerService } from './indexer.service';
+import { IndexerSyncService } from './indexer-sync.service';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+interface IndexedVote {
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Stand-in for the Ponder database: answers the head and vote queries the
+ * votes stream runs.
+ */
+function createIndexerClient(indexed: IndexedVote[]) {
+  const fromBlock = (sql: string) =>
+    Number(/block_number >= (\d+)/.exec(sql)?.[1] ?? 0);
+
+  return {
+    query: jest.fn(async (sql: string) => {
+      const rows = indexed.filter((vote) => vote.blockNumber >= fromBlock(sql));
+      if (sql.includes('MAX(block_number)')) {
+        return {
+          rows: [{ head: Math.max(0, ...indexed.map((v) => v.blockNumber)) }],
+        };
+      }
+      if (sql.includes('SELECT transaction_hash')) {
+        return {
+          rows: rows.map((vote) => ({
+            transaction_hash: vote.transactionHash,
+          })),
+        };
+      }
+      return {
+        rows: rows.map((vote) => ({
+          id: `${vote.transactionHash}-0`,
+          voter: '0xvoter',
+          fid: 7,
+          day: 20514,
+          brand_ids: '[10,11,12]',
+          cost: '100000000000000000000',
+          block_number: vote.blockNumber,
+          transaction_hash: vote.transactionHash,
+          timestamp: 1772452800,
+        })),
+      };
+    }),
+    end: async () => undefined,
+  };
+}
+
+describe('IndexerSyncService', () => {
+  let indexed: IndexedVote[];
+  let stored: IndexedVote[];
+  let checkpoint: IndexerSyncCheckpoint | null;
+  let checkpointRepository: {
+    findOne: jest.Mock<() => Promise<IndexerSyncCheckpoint | null>>;
+    save: jest.Mock<(values: unknown) => Promise<void>>;
+  };
+  let indexerService: {
+    revertVote: jest.Mock<(transactionHash: string) => Promise<boolean>>;
+  };
+  let indexerEventService: {
+    ingest: jest.Mock<
+      (eventType: IndexerEventTypeEnum, payload: unknown) => Promise<unknown>
+    >;
+  };
+  let service: IndexerSyncService;
+
+  const syncVotes = () => {
+    service['indexerClient'] = createIndexerClient(
+      indexed,
+    ) as unknown as IndexerSyncService['indexerClient'];
+    return service.sync({
+      syncBrands: false,
+      syncPowerLevels: false,
+      syncCollectibles: false,
+    });
+  };
+
+  beforeEach(() => {
+    indexed = [];
+    stored = [];
+    checkpoint = {
+      stream: IndexerSyncStreamEnum.VOTES,
+      blockNumber: 1000,
+    } as IndexerSyncCheckpoint;
+
+    checkpointRepository = {
+      findOne: jest.fn(async () => checkpoint),
+      save: jest.fn(async () => undefined),
+    };
+    indexerService = { revertVote: jest.fn(async () => true) };
+    indexerEventService = { ingest: jest.fn(async () => true) };
+
+    // Stored votes from a block, or with one of the given hashes
+    const votesRepository = {
+      find: async ({ where }: { where: Record<string, FindOperator<any>> }) =>
+        stored
+          .filter((vote) =>
+            where.blockNumber
+              ? vote.blockNumber >= where.blockNumber.value
+              : where.transactionHash.value.includes(vote.transactionHash),
+          )
+          .map(({ transactionHash }) => ({ transactionHash })),
+    };
+
+    service = new IndexerSyncService(
+      {} as Repository<User>,
+      votesRepository as unknown as Repository<UserBrandVotes>,
+      {} as Repository<Brand>,
+      {} as Repository<Category>,
+      checkpointRepository as unknown as Repository<IndexerSyncCheckpoint>,
+      {} as BlockchainService,
+      indexerService as unknown as IndexerService,
+      indexerEventService as unknown as IndexerEventService,
+    );
+    for (const level of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(service['logger'], level).mockImplementation(() => undefined);
+    }
+  });
+
+  describe('sync votes', () => {
+    it('reverts votes the indexer rolled back, ingests new ones and checkpoints the head', async () => {
+      stored = [
+        { transactionHash: '0xkept', blockNumber: 950 },
+        { transactionHash: '0xorphan', blockNumber: 990 },
+      ];
+      indexed = [
+        { transactionHash: '0xkept', blockNumber: 950 },
+        { transactionHash: '0xnew', blockNumber: 1050 },
+      ];
+
+      const stats = await syncVotes();
+
+      expect(indexerService.revertVote.mock.calls).toEqual([['0xorphan']]);
+      expect(indexerEventService.ingest).toHaveBeenCalledTimes(1);
+      expect(indexerEventService.ingest.mock.calls[0][1]).toMatchObject({
+        transactionHash: '0xnew',
+        blockNumber: '1050',
+      });
+      expect(stats).toMatchObject({
+        votesReverted: 1,
+        votesInserted: 1,
+        errors: [],
+      });
+      expect(checkpointRepository.save).toHaveBeenCalledWith({
+        stream: IndexerSyncStreamEnum.VOTES,
+        blockNumber: 1050,
+      });
+    });
+
+    it('follows a rollback as deep as a reorg can be', async () => {
+      stored = [{ transactionHash: '0xorphan', blockNumber: 990 }];
+      indexed = [{ transactionHash: '0xkept', blockNumber: 900 }];
+
+      const stats = await syncVotes();
+
+      expect(stats.votesReverted).toBe(1);
+      expect(checkpointRepository.save).toHaveBeenCalledWith({
+        stream: IndexerSyncStreamEnum.VOTES,
+        blockNumber: 900,
+      });
+    });
+
+    it('stops the checkpoint short of the first vote that failed', async () => {
+      indexed = [
+        { transactionHash: '0xfirst', blockNumber: 1010 },
+        { transactionHash: '0xbad', blockNumber: 1020 },
+        { transactionHash: '0xlast', blockNumber: 1050 },
+      ];
+      indexerEventService.ingest.mockImplementation(
+        async (eventType, payload) => {
+          if (
+            (payload as { transactionHash: string }).transactionHash === '0xbad'
+          ) {
+            throw new Error('Lock timeout');
+          }
+          return true;
+        },
+      );
+
+      const stats = await syncVotes();
+
+      expect(stats.votesInserted).toBe(2);
+      expect(stats.errors).toEqual(['Vote 0xbad: Lock timeout']);
+      expect(checkpointRepository.save).toHaveBeenCalledWith({
+        stream: IndexerSyncStreamEnum.VOTES,
+        blockNumber: 1019,
+      });
+    });
+
+    it('treats an empty indexer as an outage instead of reverting every vote', async () => {
+      stored = [{ transactionHash: '0xkept', blockNumber: 950 }];
+
+      const stats = await syncVotes();
+
+      expect(indexerService.revertVote).not.toHaveBeenCalled();
+      expect(indexerEventService.ingest).not.toHaveBeenCalled();
+      expect(checkpointRepository.save).not.toHaveBeenCalled();
+      expect(stats.errors).toEqual([
+        'Vote sync error: Indexer votes head 0 is 1000 blocks behind checkpoint 1000, the indexer looks empty or is reindexing',
+      ]);
+      expect(service['logger'].error).toHaveBeenCalled();
+    });
+
+    it('treats a rollback deeper than any reorg as a reindexing indexer', async () => {
+      checkpoint!.blockNumber = 5000;
+      stored = [{ transactionHash: '0xkept', blockNumber: 4950 }];
+      indexed = [{ transactionHash: '0xold', blockNumber: 3000 }];
+
+      const stats = await syncVotes();
+
+      expect(indexerService.revertVote).not.toHaveBeenCalled();
+      expect(checkpointRepository.save).not.toHaveBeenCalled();
+      expect(stats.errors).toHaveLength(1);
+    });
+
+    it('does not record a checkpoint for an empty indexer on a windowed sync', async () => {
+      checkpoint = null;
+
+      await syncVotes();
+
+      expect(checkpointRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
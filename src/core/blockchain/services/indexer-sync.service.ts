@@ -1,11 +1,27 @@
 import { Injectable, Logger, forwardRef, Inject } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In, DataSource } from 'typeorm';
+import { Repository, In, DataSource, MoreThanOrEqual } from 'typeorm';
 import { Client } from 'pg';
 
-import { User, UserBrandVotes, Brand, Category } from '../../../models';
-import { UserService } from '../../user/services/user.service';
+import {
+  User,
+  UserBrandVotes,
+  Brand,
+  Category,
+  IndexerEventTypeEnum,
+  IndexerSyncCheckpoint,
+  IndexerSyncStreamEnum,
+} from '../../../models';
 import { BlockchainService } from './blockchain.service';
+import { IndexerService } from './indexer.service';
+import { IndexerEventService } from './indexer-event.service';
+
+// Blocks re-read behind each checkpoint so re-mined blocks are picked up again
+const REORG_SAFETY_BLOCKS = 300;
+
+// Deepest rollback treated as a reorg. An indexer further behind than this is
+// empty or reindexing, and syncing against it would revert every stored vote
+const MAX_ROLLBACK_BLOCKS = 4 * REORG_SAFETY_BLOCKS;
 
 export interface SyncStats {
   usersChecked: number;
@@ -13,23 +29,33 @@ export interface SyncStats {
   votesChecked: number;
   votesInserted: number;
   votesUpdated: number;
+  votesReverted: number;
   brandsChecked: number;
   brandsCreated: number;
   brandsUpdated: number;
+  collectiblesChecked: number;
+  collectiblesUpdated: number;
   errors: string[];
   startTime: Date;
   endTime?: Date;
 }
 
 export interface SyncOptions {
-  /** Sync window in hours. Use 0 for full sync. Default: 48 */
+  /**
+   * Sync window in hours, used for streams without a checkpoint.
+   * Use 0 for a full sync that ignores checkpoints. Default: 48
+   */
   windowHours?: number;
+  /** Whether to resume each stream from its block checkpoint. Default: true */
+  useCheckpoints?: boolean;
   /** Whether to sync user power levels. Default: true */
   syncPowerLevels?: boolean;
   /** Whether to sync votes. Default: true */
   syncVotes?: boolean;
   /** Whether to sync brands. Default: true */
   syncBrands?: boolean;
+  /** Whether to sync collectible mints and sales. Default: true */
+  syncCollectibles?: boolean;
 }
 
 @Injectable()
@@ -46,10 +72,14 @@ export class IndexerSyncService {
     private readonly brandRepository: Repository<Brand>,
     @InjectRepository(Category)
     private readonly categoryRepository: Repository<Category>,
-    @Inject(forwardRef(() => UserService))
-    private readonly userService: UserService,
+    @InjectRepository(IndexerSyncCheckpoint)
+    private readonly checkpointRepository: Repository<IndexerSyncCheckpoint>,
     @Inject(forwardRef(() => BlockchainService))
     private readonly blockchainService: BlockchainService,
+    @Inject(forwardRef(() => IndexerService))
+    private readonly indexerService: IndexerService,
+    @Inject(forwardRef(() => IndexerEventService))
+    private readonly indexerEventService: IndexerEventService,
   ) {}
 
   /**
@@ -91,15 +121,80 @@ export class IndexerSyncService {
     return process.env.INDEXER_DB_SCHEMA || 'public';
   }
 
+  /**
+   * Get the highest block number the indexer has written to a table
+   */
+  private async getIndexerHead(table: string): Promise<number> {
+    const schema = this.getSchema();
+    const result = await this.indexerClient!.query(
+      `SELECT COALESCE(MAX(block_number), 0) AS head FROM "${schema}".${table}`,
+    );
+    return Number(result.rows[0].head);
+  }
+
+  /**
+   * Get the block a stream should resume from, or null when the stream has no
+   * checkpoint yet and the time window applies. Warns when the indexer head is
+   * behind the checkpoint, which means Ponder rolled back blocks we applied,
+   * and throws when it is empty or too far behind to be a reorg.
+   */
+  private async getStartBlock(
+    stream: IndexerSyncStreamEnum,
+    head: number,
+  ): Promise<number | null> {
+    const checkpoint = await this.checkpointRepository.findOne({
+      where: { stream },
+    });
+
+    if (!checkpoint) {
+      return null;
+    }
+
+    const applied = Number(checkpoint.blockNumber);
+    if (applied > 0 && (head === 0 || applied - head > MAX_ROLLBACK_BLOCKS)) {
+      throw new Error(
+        `Indexer ${stream} head ${head} is ${applied - head} blocks behind checkpoint ${applied}, the indexer looks empty or is reindexing`,
+      );
+    }
+    if (head < applied) {
+      this.logger.warn(
+        `Indexer ${stream} head ${head} is behind checkpoint ${applied}, indexer rolled back ${applied - head} blocks`,
+      );
+    }
+
+    return Math.max(0, Math.min(applied, head) - REORG_SAFETY_BLOCKS);
+  }
+
+  /**
+   * Record the last indexer block applied for a stream. When items failed,
+   * the checkpoint stops short of the first failed block so the next run
+   * retries it. An empty indexer table has no block to record.
+   */
+  private async saveCheckpoint(
+    stream: IndexerSyncStreamEnum,
+    head: number,
+    failedBlocks: number[] = [],
+  ): Promise<void> {
+    const blockNumber =
+      failedBlocks.length > 0 ? Math.min(...failedBlocks) - 1 : head;
+    if (blockNumber <= 0) {
+      return;
+    }
+    await this.checkpointRepository.save({ stream, blockNumber });
+    this.logger.log(`Checkpoint ${stream} -> block ${blockNumber}`);
+  }
+
   /**
    * Main sync method - syncs data from indexer to MySQL
    */
   async sync(options: SyncOptions = {}): Promise<SyncStats> {
     const {
       windowHours = 48,
+      useCheckpoints = true,
       syncPowerLevels = true,
       syncVotes = true,
       syncBrands = true,
+      syncCollectibles = true,
     } = options;
 
     const stats: SyncStats = {
@@ -108,16 +203,20 @@ export class IndexerSyncService {
       votesChecked: 0,
       votesInserted: 0,
       votesUpdated: 0,
+      votesReverted: 0,
       brandsChecked: 0,
       brandsCreated: 0,
       brandsUpdated: 0,
+      collectiblesChecked: 0,
+      collectiblesUpdated: 0,
       errors: [],
       startTime: new Date(),
     };
 
     const isFullSync = windowHours === 0;
+    const resume = useCheckpoints && !isFullSync;
     this.logger.log(
-      `Starting indexer sync (${isFullSync ? 'FULL SYNC' : `last ${windowHours}h`})`,
+      `Starting indexer sync (${isFullSync ? 'FULL SYNC' : resume ? `from checkpoints, last ${windowHours}h for new streams` : `last ${windowHours}h`})`,
     );
 
     try {
@@ -125,15 +224,20 @@ export class IndexerSyncService {
 
       // Sync brands FIRST so votes have valid brand references
       if (syncBrands) {
-        await this.syncBrands(stats, windowHours);
+        await this.syncBrands(stats, windowHours, resume);
       }
 
       if (syncPowerLevels) {
-        await this.syncUserPowerLevels(stats, windowHours);
+        await this.syncUserPowerLevels(stats, windowHours, resume);
       }
 
       if (syncVotes) {
-        await this.syncVotes(stats, windowHours);
+        await this.syncVotes(stats, windowHours, resume);
+      }
+
+      // Collectibles reference votes, so they go last
+      if (syncCollectibles) {
+        await this.syncCollectibles(stats, resume);
       }
     } catch (error) {
       const errorMessage =
@@ -155,16 +259,29 @@ export class IndexerSyncService {
   private async syncUserPowerLevels(
     stats: SyncStats,
     windowHours: number,
+    resume: boolean,
   ): Promise<void> {
     this.logger.log('Syncing user power levels...');
     const schema = this.getSchema();
 
     try {
-      // Build query based on window
+      const head = await this.getIndexerHead('brnd_power_level_ups');
+      const fromBlock = resume
+        ? await this.getStartBlock(IndexerSyncStreamEnum.POWER_LEVELS, head)
+        : null;
+
+      // Build query based on checkpoint or window
       let query: string;
       const isFullSync = windowHours === 0;
 
-      if (isFullSync) {
+      if (fromBlock !== null) {
+        query = `
+          SELECT DISTINCT u.fid, u.brnd_power_level
+          FROM "${schema}".users u
+          INNER JOIN "${schema}".brnd_power_level_ups lup ON u.fid = lup.fid
+          WHERE lup.block_number >= ${fromBlock}
+        `;
+      } else if (isFullSync) {
         // Full sync - get all users with power level > 0
         query = `
           SELECT fid, brnd_power_level
@@ -192,6 +309,7 @@ export class IndexerSyncService {
 
       if (indexerUsers.length === 0) {
         this.logger.log('No users to sync');
+        await this.saveCheckpoint(IndexerSyncStreamEnum.POWER_LEVELS, head);
         return;
       }
 
@@ -207,6 +325,7 @@ export class IndexerSyncService {
       const mysqlUserMap = new Map(mysqlUsers.map((u) => [u.fid, u]));
 
       // Process each user
+      let failedUsers = 0;
       for (const indexerUser of indexerUsers) {
         const fid = indexerUser.fid;
         const indexerLevel = indexerUser.brnd_power_level;
@@ -223,17 +342,33 @@ export class IndexerSyncService {
             `Updating user FID ${fid}: brndPowerLevel ${mysqlUser.brndPowerLevel} -> ${indexerLevel}`,
           );
 
-          await this.userRepository.update(
-            { fid },
-            { brndPowerLevel: indexerLevel },
-          );
-          stats.usersUpdated++;
+          try {
+            await this.userRepository.update(
+              { fid },
+              { brndPowerLevel: indexerLevel },
+            );
+            stats.usersUpdated++;
+          } catch (error) {
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            stats.errors.push(`User FID ${fid}: ${errorMessage}`);
+            failedUsers++;
+          }
         }
       }
 
       this.logger.log(
         `Power level sync complete: ${stats.usersUpdated} users updated`,
       );
+      // Level-up rows are read per user without their block, so any failure
+      // holds the checkpoint where it was
+      if (failedUsers > 0) {
+        this.logger.warn(
+          `Power level checkpoint not advanced, ${failedUsers} users failed`,
+        );
+      } else {
+        await this.saveCheckpoint(IndexerSyncStreamEnum.POWER_LEVELS, head);
+      }
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -245,16 +380,37 @@ export class IndexerSyncService {
   /**
    * Sync votes from indexer to MySQL
    */
-  private async syncVotes(stats: SyncStats, windowHours: number): Promise<void> {
+  private async syncVotes(
+    stats: SyncStats,
+    windowHours: number,
+    resume: boolean,
+  ): Promise<void> {
     this.logger.log('Syncing votes...');
     const schema = this.getSchema();
 
     try {
-      // Build query based on window
+      const head = await this.getIndexerHead('votes');
+      const fromBlock = resume
+        ? await this.getStartBlock(IndexerSyncStreamEnum.VOTES, head)
+        : null;
+
+      // Undo votes from blocks the indexer no longer has before adding new ones
+      if (fromBlock !== null) {
+        await this.revertOrphanedVotes(stats, fromBlock);
+      }
+
+      // Build query based on checkpoint or window
       let query: string;
       const isFullSync = windowHours === 0;
 
-      if (isFullSync) {
+      if (fromBlock !== null) {
+        query = `
+          SELECT id, voter, fid, day, brand_ids, cost, block_number, transaction_hash, timestamp
+          FROM "${schema}".votes
+          WHERE block_number >= ${fromBlock}
+          ORDER BY block_number ASC
+        `;
+      } else if (isFullSync) {
         query = `
           SELECT id, voter, fid, day, brand_ids, cost, block_number, transaction_hash, timestamp
           FROM "${schema}".votes
@@ -280,6 +436,7 @@ export class IndexerSyncService {
 
       if (indexerVotes.length === 0) {
         this.logger.log('No votes to sync');
+        await this.saveCheckpoint(IndexerSyncStreamEnum.VOTES, head);
         return;
       }
 
@@ -291,18 +448,8 @@ export class IndexerSyncService {
       });
       const existingTxSet = new Set(existingVotes.map((v) => v.transactionHash));
 
-      // Preload user and brand caches
-      const fids = [...new Set(indexerVotes.map((v: any) => v.fid))];
-      const mysqlUsers = await this.userRepository.find({
-        where: { fid: In(fids) },
-        select: ['id', 'fid'],
-      });
-      const userFidToId = new Map(mysqlUsers.map((u) => [u.fid, u.id]));
-
-      const brands = await this.brandRepository.find({ select: ['id'] });
-      const brandIds = new Set(brands.map((b) => b.id));
-
       // Process votes in batches
+      const failedBlocks: number[] = [];
       const BATCH_SIZE = 50;
       for (let i = 0; i < indexerVotes.length; i += BATCH_SIZE) {
         const batch = indexerVotes.slice(i, i + BATCH_SIZE);
@@ -334,73 +481,27 @@ export class IndexerSyncService {
               continue;
             }
 
-            // Check if all brands exist
-            const missingBrands = brandIdsArray.filter((id) => !brandIds.has(id));
-            if (missingBrands.length > 0) {
-              this.logger.warn(
-                `Vote ${txHash} has missing brands: ${missingBrands.join(', ')}, skipping`,
-              );
-              continue;
-            }
-
-            // Get or create user
-            let userId = userFidToId.get(indexerVote.fid);
-            if (!userId) {
-              // Create minimal user record
-              const newUser = await this.createMinimalUser(
-                indexerVote.fid,
-                indexerVote.voter,
-              );
-              if (newUser) {
-                userId = newUser.id;
-                userFidToId.set(indexerVote.fid, userId);
-              } else {
-                this.logger.warn(
-                  `Could not create user for FID ${indexerVote.fid}, skipping vote`,
-                );
-                continue;
-              }
-            }
-
-            // Calculate vote data
-            const voteDate = new Date(Number(indexerVote.timestamp) * 1000);
-            const day = Math.floor(Number(indexerVote.timestamp) / 86400);
-            const costBigInt = BigInt(indexerVote.cost);
-            const brndPaid = Number(costBigInt / BigInt(10 ** 18));
-            const rewardAmount = (costBigInt * 10n).toString();
-
-            // Insert the vote using raw query for simplicity with foreign keys
-            await this.userBrandVotesRepository.query(
-              `INSERT INTO user_brand_votes
-               (transactionHash, id, userId, brand1Id, brand2Id, brand3Id, date, day,
-                brndPaidWhenCreatingPodium, rewardAmount, shared, shareVerified, pointsEarned)
-               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-              [
-                txHash,
-                indexerVote.id,
-                userId,
-                brandIdsArray[0],
-                brandIdsArray[1],
-                brandIdsArray[2],
-                voteDate,
-                day,
-                brndPaid,
-                rewardAmount,
-                false,
-                false,
-                3, // Initial 3 points for voting
-              ],
+            // Replay through the webhook path so scores, points and vote
+            // counts are applied exactly like a live vote (and can be reverted).
+            // Resolves to null while the vote waits for a missing brand
+            const inserted = await this.indexerEventService.ingest(
+              IndexerEventTypeEnum.VOTE,
+              {
+                id: indexerVote.id,
+                voter: indexerVote.voter,
+                fid: Number(indexerVote.fid),
+                day: String(indexerVote.day),
+                brandIds: brandIdsArray,
+                cost: String(indexerVote.cost),
+                blockNumber: String(indexerVote.block_number),
+                transactionHash: txHash,
+                timestamp: String(indexerVote.timestamp),
+              },
             );
 
-            stats.votesInserted++;
             existingTxSet.add(txHash); // Prevent duplicate inserts in same run
-
-            // Add 3 points for the vote to user's points and totalS2Points
-            try {
-              await this.userService.addPoints(userId, 3);
-              this.logger.debug(`Added 3 points for synced vote to user ${userId}`);
-            } catch (pointsError) {
-              this.logger.warn(`Failed to add points for vote ${txHash}: ${pointsError}`);
+            if (inserted) {
+              stats.votesInserted++;
             }
           } catch (error) {
             const errorMessage =
@@ -408,6 +509,7 @@ export class IndexerSyncService {
             stats.errors.push(
               `Vote ${indexerVote.transaction_hash}: ${errorMessage}`,
             );
+            failedBlocks.push(Number(indexerVote.block_number));
           }
         }
 
@@ -421,6 +523,11 @@ export class IndexerSyncService {
       this.logger.log(
         `Vote sync complete: ${stats.votesInserted} votes inserted`,
       );
+      await this.saveCheckpoint(
+        IndexerSyncStreamEnum.VOTES,
+        head,
+        failedBlocks,
+      );
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -429,20 +536,91 @@ export class IndexerSyncService {
     }
   }
 
+  /**
+   * Revert stored votes from fromBlock onwards that the indexer no longer has.
+   * This is what a Base reorg or an indexer redeploy looks like from here.
+   */
+  private async revertOrphanedVotes(
+    stats: SyncStats,
+    fromBlock: number,
+  ): Promise<void> {
+    const schema = this.getSchema();
+
+    const storedVotes = await this.userBrandVotesRepository.find({
+      where: { blockNumber: MoreThanOrEqual(fromBlock) },
+      select: ['transactionHash'],
+    });
+
+    if (storedVotes.length === 0) {
+      return;
+    }
+
+    const result = await this.indexerClient!.query(`
+      SELECT transaction_hash
+      FROM "${schema}".votes
+      WHERE block_number >= ${fromBlock}
+    `);
+    const indexedTxSet = new Set(
+      result.rows.map((v: any) => v.transaction_hash),
+    );
+
+    const orphanedVotes = storedVotes.filter(
+      (v) => !indexedTxSet.has(v.transactionHash),
+    );
+
+    if (orphanedVotes.length === 0) {
+      return;
+    }
+
+    this.logger.warn(
+      `Found ${orphanedVotes.length} votes from block ${fromBlock} onwards that the indexer rolled back, reverting`,
+    );
+
+    for (const vote of orphanedVotes) {
+      try {
+        if (await this.indexerService.revertVote(vote.transactionHash)) {
+          stats.votesReverted++;
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        stats.errors.push(
+          `Revert vote ${vote.transactionHash}: ${errorMessage}`,
+        );
+      }
+    }
+  }
+
   /**
    * Sync brands from indexer to MySQL
    */
-  private async syncBrands(stats: SyncStats, windowHours: number): Promise<void> {
+  private async syncBrands(
+    stats: SyncStats,
+    windowHours: number,
+    resume: boolean,
+  ): Promise<void> {
     this.logger.log('Syncing brands...');
     const schema = this.getSchema();
 
     try {
-      // Build query - for brands we typically want full sync since they're not time-windowed
-      // But we can use block_number for incremental syncs
+      const head = await this.getIndexerHead('brands');
+      const fromBlock = resume
+        ? await this.getStartBlock(IndexerSyncStreamEnum.BRANDS, head)
+        : null;
+
+      // Build query - incremental from the checkpoint block when we have one
       let query: string;
       const isFullSync = windowHours === 0;
 
-      if (isFullSync) {
+      if (fromBlock !== null) {
+        query = `
+          SELECT id, fid, wallet_address, handle, metadata_hash, total_brnd_awarded,
+                 available_brnd, created_at, block_number, transaction_hash
+          FROM "${schema}".brands
+          WHERE block_number >= ${fromBlock}
+          ORDER BY id ASC
+        `;
+      } else if (isFullSync) {
         query = `
           SELECT id, fid, wallet_address, handle, metadata_hash, total_brnd_awarded,
                  available_brnd, created_at, block_number, transaction_hash
@@ -467,11 +645,14 @@ export class IndexerSyncService {
       const result = await this.indexerClient!.query(query);
       const indexerBrands = result.rows;
 
-      this.logger.log(`Found ${indexerBrands.length} brands to check in indexer`);
+      this.logger.log(
+        `Found ${indexerBrands.length} brands to check in indexer`,
+      );
       stats.brandsChecked = indexerBrands.length;
 
       if (indexerBrands.length === 0) {
         this.logger.log('No brands to sync');
+        await this.saveCheckpoint(IndexerSyncStreamEnum.BRANDS, head);
         return;
       }
 
@@ -496,6 +677,7 @@ export class IndexerSyncService {
       }
 
       // Process each brand
+      const failedBlocks: number[] = [];
       for (const indexerBrand of indexerBrands) {
         try {
           const onChainId = indexerBrand.id;
@@ -641,6 +823,7 @@ export class IndexerSyncService {
           stats.errors.push(
             `Brand ${indexerBrand.id} (${indexerBrand.handle}): ${errorMessage}`,
           );
+          failedBlocks.push(Number(indexerBrand.block_number));
           this.logger.error(
             `Error syncing brand ${indexerBrand.id}:`,
             error,
@@ -651,6 +834,11 @@ export class IndexerSyncService {
       this.logger.log(
         `Brand sync complete: ${stats.brandsCreated} created, ${stats.brandsUpdated} updated`,
       );
+      await this.saveCheckpoint(
+        IndexerSyncStreamEnum.BRANDS,
+        head,
+        failedBlocks,
+      );
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -660,38 +848,121 @@ export class IndexerSyncService {
   }
 
   /**
-   * Create a minimal user record for a new FID
+   * Sync collectible mints and sales from indexer to MySQL
    */
-  private async createMinimalUser(
-    fid: number,
-    voterAddress: string,
-  ): Promise<User | null> {
+  private async syncCollectibles(
+    stats: SyncStats,
+    resume: boolean,
+  ): Promise<void> {
+    this.logger.log('Syncing collectibles...');
+    const schema = this.getSchema();
+
     try {
-      const user = this.userRepository.create({
-        fid,
-        username: `user_${fid}`,
-        photoUrl: '',
-        address: voterAddress,
-        points: 0,
-        totalS1Points: 0,
-        totalS2Points: 0,
-        dailyStreak: 0,
-        maxDailyStreak: 0,
-        totalPodiums: 0,
-        votedBrandsCount: 0,
-        brndPowerLevel: 0,
-        totalVotes: 0,
-        banned: false,
-        powerups: 0,
-        verified: false,
-        notificationsEnabled: false,
-        neynarScore: 0,
+      const head = await this.getIndexerHead('podium_collectibles');
+      const fromBlock = resume
+        ? await this.getStartBlock(IndexerSyncStreamEnum.COLLECTIBLES, head)
+        : null;
+
+      let query: string;
+      const columns = `token_id, brand_ids, owner_fid, owner_wallet, price, claim_count,
+                 mint_tx_hash, metadata_uri, block_number`;
+
+      if (fromBlock !== null) {
+        query = `
+          SELECT ${columns}
+          FROM "${schema}".podium_collectibles
+          WHERE block_number >= ${fromBlock}
+          ORDER BY block_number ASC
+        `;
+      } else {
+        // Collectibles are few, so the first run reads them all
+        query = `
+          SELECT ${columns}
+          FROM "${schema}".podium_collectibles
+          ORDER BY block_number ASC
+        `;
+      }
+
+      const result = await this.indexerClient!.query(query);
+      const indexerCollectibles = result.rows;
+
+      this.logger.log(
+        `Found ${indexerCollectibles.length} collectibles to check in indexer`,
+      );
+      stats.collectiblesChecked = indexerCollectibles.length;
+
+      if (indexerCollectibles.length === 0) {
+        this.logger.log('No collectibles to sync');
+        await this.saveCheckpoint(IndexerSyncStreamEnum.COLLECTIBLES, head);
+        return;
+      }
+
+      // Current state per token in MySQL
+      const tokenIds = indexerCollectibles.map((c: any) => Number(c.token_id));
+      const storedVotes = await this.userBrandVotesRepository.find({
+        where: { collectibleTokenId: In(tokenIds) },
+        select: ['collectibleTokenId', 'collectibleClaimCount'],
       });
+      const storedClaimCounts = new Map(
+        storedVotes.map((v) => [v.collectibleTokenId, v.collectibleClaimCount]),
+      );
 
-      return await this.userRepository.save(user);
+      const failedBlocks: number[] = [];
+      for (const collectible of indexerCollectibles) {
+        const tokenId = Number(collectible.token_id);
+        const claimCount = Number(collectible.claim_count);
+
+        try {
+          if (!storedClaimCounts.has(tokenId)) {
+            await this.indexerEventService.ingest(
+              IndexerEventTypeEnum.COLLECTIBLE_MINTED,
+              {
+                tokenId,
+                brandIds: JSON.parse(collectible.brand_ids),
+                ownerFid: Number(collectible.owner_fid),
+                ownerWallet: collectible.owner_wallet,
+                price: String(collectible.price),
+                txHash: collectible.mint_tx_hash,
+                metadataURI: collectible.metadata_uri,
+                blockNumber: String(collectible.block_number),
+              },
+            );
+            stats.collectiblesUpdated++;
+          } else if (storedClaimCounts.get(tokenId) !== claimCount) {
+            await this.indexerEventService.ingest(
+              IndexerEventTypeEnum.COLLECTIBLE_BOUGHT,
+              {
+                tokenId,
+                newOwnerFid: Number(collectible.owner_fid),
+                newOwnerWallet: collectible.owner_wallet,
+                price: String(collectible.price),
+                claimCount,
+                blockNumber: String(collectible.block_number),
+              },
+            );
+            stats.collectiblesUpdated++;
+          }
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          stats.errors.push(`Collectible #${tokenId}: ${errorMessage}`);
+          failedBlocks.push(Number(collectible.block_number));
+        }
+      }
+
+      this.logger.log(
+        `Collectible sync complete: ${stats.collectiblesUpdated} collectibles updated`,
+      );
+      await this.saveCheckpoint(
+        IndexerSyncStreamEnum.COLLECTIBLES,
+        head,
+        failedBlocks,
+      );
     } catch (error) {
-      this.logger.error(`Error creating user for FID ${fid}:`, error);
-      return null;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      stats.errors.push(`Collectible sync error: ${errorMessage}`);
+      this.logger.error('Error syncing collectibles:', error);
     }
   }
 
@@ -714,6 +985,10 @@ export class IndexerSyncService {
     this.logger.log(`Users updated:      ${stats.usersUpdated}`);
     this.logger.log(`Votes checked:      ${stats.votesChecked}`);
     this.logger.log(`Votes inserted:     ${stats.votesInserted}`);
+    this.logger.log(`Votes reverted:     ${stats.votesReverted}`);
+    this.logger.log(
+      `Collectibles:       ${stats.collectiblesUpdated}/${stats.collectiblesChecked} updated`,
+    );
     this.logger.log(`Errors:             ${stats.errors.length}`);
     this.logger.log('========================================');
 
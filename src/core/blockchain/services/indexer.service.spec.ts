@@ -0,0 +1,391 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FindOperator, Repository } from 'typeorm';
+
+import {
+  Brand,
+  IndexerEvent,
+  IndexerEventStatusEnum,
+  IndexerEventTypeEnum,
+  PointsReasonEnum,
+  User,
+  UserBrandVotes,
+} from '../../../models';
+import { UserService } from '../../user/services';
+import { BrandService, BrandScoreLedgerService } from '../../brand/services';
+import { RankingQueueService } from '../../../services/ranking-queue.service';
+import { LiveEventService } from '../../live/services';
+import { ScoringService, DEFAULT_SCORING_RULES } from '../../scoring/services';
+import { VoteQualityService } from '../../vote-quality/services';
+import { PodiumService } from 'src/core/embeds/services/podium.service';
+import { SubmitVoteDto } from '../dto';
+import { BlockchainService } from './blockchain.service';
+import { IndexerService } from './indexer.service';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const WEI_PER_BRND = 10n ** 18n;
+
+// 2026-03-02T12:00:00Z, day 20514
+const TIMESTAMP = 1772452800;
+
+type VoteWhere = Record<string, unknown>;
+
+/**
+ * In-memory user_brand_votes table behind a fake EntityManager. A transaction
+ * restores the table when its work throws, like a MySQL rollback. Writes to
+ * indexer_events are only recorded.
+ */
+function createVoteStore() {
+  const votes: UserBrandVotes[] = [];
+
+  const matches = (vote: UserBrandVotes, where: VoteWhere) =>
+    Object.entries(where).every(([column, condition]) => {
+      const value = vote[column as keyof UserBrandVotes] as unknown;
+      if (condition instanceof FindOperator) {
+        if (condition.type === 'between') {
+          const [from, to] = condition.value as unknown as Date[];
+          return value >= from && value <= to;
+        }
+        if (condition.type === 'not' && condition.child?.type === 'isNull') {
+          return value !== null && value !== undefined;
+        }
+        throw new Error(`Unsupported operator ${condition.type}`);
+      }
+      if (condition && typeof condition === 'object') {
+        return (
+          (value as { id: number } | null)?.id ===
+          (condition as { id: number }).id
+        );
+      }
+      return value === condition;
+    });
+
+  // Bulk updates are asserted through the services they feed, not replayed
+  const queryBuilder = () => {
+    const builder = {
+      update: () => builder,
+      set: () => builder,
+      where: () => builder,
+      andWhere: () => builder,
+      execute: async () => ({ affected: 1 }),
+    };
+    return builder;
+  };
+
+  const repository = {
+    findOne: async ({ where }: { where: VoteWhere }) =>
+      votes.find((vote) => matches(vote, where)) ?? null,
+    create: (values: Partial<UserBrandVotes>) => ({ ...values }),
+    insert: async (vote: UserBrandVotes) => {
+      if (votes.some((v) => v.transactionHash === vote.transactionHash)) {
+        throw Object.assign(new Error('Duplicate entry'), {
+          code: 'ER_DUP_ENTRY',
+          sqlMessage: `Duplicate entry '${vote.transactionHash}' for key 'user_brand_votes.PRIMARY'`,
+        });
+      }
+      votes.push({ ...vote });
+    },
+    delete: async (where: VoteWhere) => {
+      const index = votes.findIndex((vote) => matches(vote, where));
+      if (index >= 0) {
+        votes.splice(index, 1);
+      }
+    },
+    update: async () => undefined,
+    createQueryBuilder: queryBuilder,
+    manager: null as unknown,
+  };
+
+  const eventUpdates = {
+    update: jest.fn<(where: unknown, values: unknown) => Promise<void>>(
+      async () => undefined,
+    ),
+  };
+
+  const manager = {
+    getRepository: (entity: unknown) =>
+      entity === IndexerEvent ? eventUpdates : repository,
+    createQueryBuilder: queryBuilder,
+    transaction: async <T>(work: (m: unknown) => Promise<T>) => {
+      const before = votes.map((vote) => ({ ...vote }));
+      try {
+        return await work(manager);
+      } catch (error) {
+        votes.splice(0, votes.length, ...before);
+        throw error;
+      }
+    },
+  };
+  repository.manager = manager;
+
+  return {
+    votes,
+    eventUpdates: eventUpdates.update,
+    repository: repository as unknown as Repository<UserBrandVotes>,
+  };
+}
+
+describe('IndexerService', () => {
+  let votes: UserBrandVotes[];
+  let eventUpdates: ReturnType<typeof createVoteStore>['eventUpdates'];
+  let storedBrandIds: number[];
+  let userService: {
+    getByFid: jest.Mock<(fid: number) => Promise<User | null>>;
+    addPoints: jest.Mock<
+      (userId: number, points: number, entry: unknown) => Promise<void>
+    >;
+    updateUserCalculatedFields: jest.Mock<(userId: number) => Promise<void>>;
+    invalidateLeaderboardCache: jest.Mock<() => void>;
+  };
+  let ledgerService: {
+    recordVote: jest.Mock<(manager: unknown, entry: unknown) => Promise<void>>;
+    recordReversal: jest.Mock<
+      (manager: unknown, transactionHash: string) => Promise<unknown[] | null>
+    >;
+  };
+  let liveEventService: { publish: jest.Mock<() => Promise<void>> };
+  let service: IndexerService;
+
+  const user = { id: 1, fid: 7, username: 'alice', banned: false } as User;
+
+  const voteData = (overrides: Partial<SubmitVoteDto> = {}): SubmitVoteDto => ({
+    id: '0xvote-1',
+    voter: '0xvoter',
+    fid: 7,
+    day: String(Math.floor(TIMESTAMP / 86400)),
+    brandIds: [10, 11, 12],
+    cost: String(100n * WEI_PER_BRND),
+    blockNumber: '1000',
+    transactionHash: '0xvote',
+    timestamp: String(TIMESTAMP),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    const store = createVoteStore();
+    votes = store.votes;
+    eventUpdates = store.eventUpdates;
+    storedBrandIds = [10, 11, 12];
+
+    userService = {
+      getByFid: jest.fn(async () => user),
+      addPoints: jest.fn(async () => undefined),
+      updateUserCalculatedFields: jest.fn(async () => undefined),
+      invalidateLeaderboardCache: jest.fn(),
+    };
+    ledgerService = {
+      recordVote: jest.fn(async () => undefined),
+      recordReversal: jest.fn(async () => []),
+    };
+    liveEventService = { publish: jest.fn(async () => undefined) };
+
+    const brandRepository = {
+      findOne: async ({ where }: { where: { id: number } }) =>
+        storedBrandIds.includes(where.id)
+          ? ({
+              id: where.id,
+              name: `Brand ${where.id}`,
+              bonusPoints: 0,
+            } as Brand)
+          : null,
+    };
+    const scoringService = {
+      getRulesForDate: async () => ({
+        version: 1,
+        season: null,
+        rules: DEFAULT_SCORING_RULES,
+      }),
+    };
+
+    service = new IndexerService(
+      {} as Repository<User>,
+      brandRepository as unknown as Repository<Brand>,
+      store.repository,
+      userService as unknown as UserService,
+      {} as BrandService,
+      ledgerService as unknown as BrandScoreLedgerService,
+      {
+        queueRankingUpdate: async () => undefined,
+      } as unknown as RankingQueueService,
+      liveEventService as unknown as LiveEventService,
+      scoringService as unknown as ScoringService,
+      { isFlagged: async () => false } as unknown as VoteQualityService,
+      {} as PodiumService,
+      {} as BlockchainService,
+    );
+  });
+
+  describe('handleVoteSubmission', () => {
+    it('stores the vote with its scores and points in one transaction', async () => {
+      expect(await service.handleVoteSubmission(voteData())).toBe(true);
+
+      expect(votes).toHaveLength(1);
+      expect(votes[0]).toMatchObject({
+        transactionHash: '0xvote',
+        day: 20514,
+        brndPaidWhenCreatingPodium: 100,
+        rewardAmount: String(1000n * WEI_PER_BRND),
+        pointsEarned: 3,
+        scoringRulesVersion: 1,
+        blockNumber: 1000,
+      });
+      expect(ledgerService.recordVote.mock.calls[0][1]).toMatchObject({
+        transactionHash: '0xvote',
+        brandIds: [10, 11, 12],
+        brndPaid: 100,
+        voteWeight: 1,
+      });
+      expect(userService.addPoints).toHaveBeenCalledWith(
+        1,
+        3,
+        expect.objectContaining({ reason: PointsReasonEnum.VOTE }),
+        expect.anything(),
+      );
+      expect(userService.updateUserCalculatedFields).toHaveBeenCalledWith(1);
+      expect(liveEventService.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves nothing behind when a side effect fails', async () => {
+      userService.addPoints.mockRejectedValueOnce(new Error('Lock timeout'));
+
+      await expect(service.handleVoteSubmission(voteData())).rejects.toThrow(
+        'Lock timeout',
+      );
+
+      expect(votes).toHaveLength(0);
+      expect(liveEventService.publish).not.toHaveBeenCalled();
+    });
+
+    it('only refreshes derived fields for a transaction it already stored', async () => {
+      await service.handleVoteSubmission(voteData());
+      ledgerService.recordVote.mockClear();
+
+      expect(await service.handleVoteSubmission(voteData())).toBe(false);
+
+      expect(votes).toHaveLength(1);
+      expect(ledgerService.recordVote).not.toHaveBeenCalled();
+      expect(userService.updateUserCalculatedFields).toHaveBeenCalledTimes(2);
+    });
+
+    it('skips a second vote from the same user on the same day', async () => {
+      await service.handleVoteSubmission(voteData());
+
+      const ingested = await service.handleVoteSubmission(
+        voteData({ id: '0xother-1', transactionHash: '0xother' }),
+      );
+
+      expect(ingested).toBe(false);
+      expect(votes.map((vote) => vote.transactionHash)).toEqual(['0xvote']);
+    });
+
+    it("does not mistake a legacy placeholder row for the day's vote", async () => {
+      votes.push({
+        transactionHash: '0xclaim',
+        user: { id: 1 },
+        brand1: null,
+        date: new Date(TIMESTAMP * 1000),
+        claimTxHash: '0xclaim',
+      } as UserBrandVotes);
+
+      expect(await service.handleVoteSubmission(voteData())).toBe(true);
+
+      expect(votes.map((vote) => vote.transactionHash)).toEqual([
+        '0xclaim',
+        '0xvote',
+      ]);
+    });
+
+    it('treats losing the insert race to a concurrent delivery as done', async () => {
+      // The concurrent delivery commits between our lookup and our insert
+      const store = service['userBrandVotesRepository'];
+      const findOne = store.findOne.bind(store);
+      jest.spyOn(store, 'findOne').mockImplementationOnce(async (options) => {
+        const found = await findOne(options);
+        votes.push({ transactionHash: '0xvote' } as UserBrandVotes);
+        return found;
+      });
+
+      expect(await service.handleVoteSubmission(voteData())).toBe(false);
+
+      expect(votes).toHaveLength(1);
+      expect(liveEventService.publish).not.toHaveBeenCalled();
+    });
+
+    it('refuses a vote for a brand that is not stored yet', async () => {
+      storedBrandIds = [];
+
+      await expect(service.handleVoteSubmission(voteData())).rejects.toThrow(
+        'Brands not found: 10, 11, 12',
+      );
+      expect(votes).toHaveLength(0);
+    });
+  });
+
+  describe('revertVote', () => {
+    it('takes back the vote and reopens its event for redelivery', async () => {
+      await service.handleVoteSubmission(voteData());
+
+      expect(await service.revertVote('0xvote')).toBe(true);
+
+      expect(votes).toHaveLength(0);
+      expect(ledgerService.recordReversal).toHaveBeenCalledWith(
+        expect.anything(),
+        '0xvote',
+      );
+      expect(userService.addPoints).toHaveBeenLastCalledWith(
+        1,
+        -3,
+        expect.objectContaining({ reason: PointsReasonEnum.VOTE_REVERSAL }),
+        expect.anything(),
+      );
+      expect(eventUpdates).toHaveBeenCalledTimes(1);
+      expect(eventUpdates).toHaveBeenCalledWith(
+        { eventType: IndexerEventTypeEnum.VOTE, eventKey: '0xvote' },
+        {
+          status: IndexerEventStatusEnum.RECEIVED,
+          result: null,
+          error: null,
+          processedAt: null,
+        },
+      );
+    });
+
+    it('parks the claim of a reverted vote until the vote is back', async () => {
+      await service.handleVoteSubmission(voteData());
+      Object.assign(votes[0], {
+        claimTxHash: '0xclaim',
+        user: { id: 1, fid: 7 },
+      });
+
+      await service.revertVote('0xvote');
+
+      expect(eventUpdates).toHaveBeenCalledWith(
+        { eventType: IndexerEventTypeEnum.REWARD_CLAIM, eventKey: '0xclaim' },
+        expect.objectContaining({
+          status: IndexerEventStatusEnum.PENDING,
+          dependsOn: 'vote:7:20514',
+          result: null,
+          processedAt: null,
+        }),
+      );
+    });
+
+    it('ingests a reverted vote again when the indexer redelivers it', async () => {
+      await service.handleVoteSubmission(voteData());
+      await service.revertVote('0xvote');
+
+      expect(await service.handleVoteSubmission(voteData())).toBe(true);
+
+      expect(votes.map((vote) => vote.transactionHash)).toEqual(['0xvote']);
+      expect(ledgerService.recordVote).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports a vote that is not stored', async () => {
+      expect(await service.revertVote('0xmissing')).toBe(false);
+
+      expect(eventUpdates).not.toHaveBeenCalled();
+    });
+  });
+});
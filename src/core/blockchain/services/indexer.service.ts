@@ -1,10 +1,19 @@
 import { Injectable, Inject, forwardRef } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between, Not, IsNull } from 'typeorm';
+import { Repository, Between, Not, IsNull, EntityManager } from 'typeorm';
 
-import { Brand, User, UserBrandVotes } from '../../../models';
+import {
+  Brand,
+  IndexerEvent,
+  IndexerEventStatusEnum,
+  IndexerEventTypeEnum,
+  LiveEventTypeEnum,
+  PointsReasonEnum,
+  User,
+  UserBrandVotes,
+} from '../../../models';
 import { UserService } from '../../user/services';
-import { BrandService } from '../../brand/services';
+import { BrandService, BrandScoreLedgerService } from '../../brand/services';
 import { BlockchainService } from './blockchain.service';
 import { logger } from '../../../main';
 import { getConfig } from '../../../security/config';
@@ -15,6 +24,14 @@ import {
   UpdateUserLevelDto,
 } from '../dto';
 import { PodiumService } from 'src/core/embeds/services/podium.service';
+import { RankingQueueService } from '../../../services/ranking-queue.service';
+import { LiveEventService } from '../../live/services';
+import {
+  ScoringService,
+  getRewardAmountWei,
+  getStreakBonus,
+} from '../../scoring/services';
+import { VoteQualityService } from '../../vote-quality/services';
 
 @Injectable()
 export class IndexerService {
@@ -27,147 +44,53 @@ export class IndexerService {
     private readonly userBrandVotesRepository: Repository<UserBrandVotes>,
     private readonly userService: UserService,
     private readonly brandService: BrandService,
+    private readonly brandScoreLedgerService: BrandScoreLedgerService,
+    private readonly rankingQueueService: RankingQueueService,
+    private readonly liveEventService: LiveEventService,
+    private readonly scoringService: ScoringService,
+    private readonly voteQualityService: VoteQualityService,
     private readonly podiumService: PodiumService,
     @Inject(forwardRef(() => BlockchainService))
     private readonly blockchainService: BlockchainService,
   ) {}
 
   /**
-   * Checks if a vote date falls within the current week
-   * Week ends on Friday at midnight UTC (Saturday 00:00:00 UTC)
-   * Week runs from Saturday 00:00:00 UTC to Friday 23:59:59 UTC
+   * Handles vote submission from the Ponder indexer.
+   *
+   * The vote row and every side effect derived from it (combination flags,
+   * brand scores, user counters and leaderboard points) are written in a single
+   * transaction keyed on the vote's transaction hash. A retry of a vote that was
+   * already committed only re-runs the idempotent follow-up work.
+   * Returns true when this call stored the vote.
    */
-  private isWithinCurrentWeek(voteDate: Date): boolean {
-    const now = new Date();
-    const voteDateUTC = new Date(
-      Date.UTC(
-        voteDate.getUTCFullYear(),
-        voteDate.getUTCMonth(),
-        voteDate.getUTCDate(),
-        voteDate.getUTCHours(),
-        voteDate.getUTCMinutes(),
-        voteDate.getUTCSeconds(),
-      ),
-    );
-    const nowUTC = new Date(
-      Date.UTC(
-        now.getUTCFullYear(),
-        now.getUTCMonth(),
-        now.getUTCDate(),
-        now.getUTCHours(),
-        now.getUTCMinutes(),
-        now.getUTCSeconds(),
-      ),
-    );
-
-    // Get the current day of week (0 = Sunday, 5 = Friday, 6 = Saturday)
-    const currentDayOfWeek = nowUTC.getUTCDay();
-
-    // Calculate days to subtract to get to the start of current week (Saturday)
-    // If today is Saturday (6), subtract 0 days (week started today)
-    // If today is Sunday (0), subtract 1 day (week started yesterday)
-    // If today is Monday (1), subtract 2 days
-    // ... If today is Friday (5), subtract 6 days (week started last Saturday)
-    const daysToSubtract =
-      currentDayOfWeek === 6 ? 0 : (currentDayOfWeek + 1) % 7;
-
-    // Calculate the start of current week (most recent Saturday at 00:00:00 UTC)
-    const weekStart = new Date(nowUTC);
-    weekStart.setUTCDate(nowUTC.getUTCDate() - daysToSubtract);
-    weekStart.setUTCHours(0, 0, 0, 0);
-
-    // Calculate the end of current week (Friday at 23:59:59.999 UTC)
-    // Week ends when it becomes Saturday 00:00:00 UTC, so Friday 23:59:59.999 is the last moment
-    const weekEnd = new Date(weekStart);
-    weekEnd.setUTCDate(weekStart.getUTCDate() + 6); // Add 6 days to get to Friday
-    weekEnd.setUTCHours(23, 59, 59, 999);
-
-    return voteDateUTC >= weekStart && voteDateUTC <= weekEnd;
-  }
-
-  /**
-   * Checks if a vote date falls within the current day
-   * Day runs from 00:00:00 UTC to 23:59:59 UTC
-   * Day ends at midnight UTC (next day 00:00:00 UTC)
-   */
-  private isWithinCurrentDay(voteDate: Date): boolean {
-    const now = new Date();
-    const voteDateUTC = new Date(
-      Date.UTC(
-        voteDate.getUTCFullYear(),
-        voteDate.getUTCMonth(),
-        voteDate.getUTCDate(),
-        voteDate.getUTCHours(),
-        voteDate.getUTCMinutes(),
-        voteDate.getUTCSeconds(),
-      ),
-    );
-    const nowUTC = new Date(
-      Date.UTC(
-        now.getUTCFullYear(),
-        now.getUTCMonth(),
-        now.getUTCDate(),
-        now.getUTCHours(),
-        now.getUTCMinutes(),
-        now.getUTCSeconds(),
-      ),
-    );
-
-    // Check if vote is on the same day (year, month, and date)
-    return (
-      voteDateUTC.getUTCFullYear() === nowUTC.getUTCFullYear() &&
-      voteDateUTC.getUTCMonth() === nowUTC.getUTCMonth() &&
-      voteDateUTC.getUTCDate() === nowUTC.getUTCDate()
-    );
-  }
-
-  /**
-   * Checks if a vote date falls within the current month
-   * Month ends at the end of the month at midnight UTC
-   */
-  private isWithinCurrentMonth(voteDate: Date): boolean {
-    const now = new Date();
-    const voteDateUTC = new Date(
-      Date.UTC(
-        voteDate.getUTCFullYear(),
-        voteDate.getUTCMonth(),
-        voteDate.getUTCDate(),
-        voteDate.getUTCHours(),
-        voteDate.getUTCMinutes(),
-        voteDate.getUTCSeconds(),
-      ),
-    );
-    const nowUTC = new Date(
-      Date.UTC(
-        now.getUTCFullYear(),
-        now.getUTCMonth(),
-        now.getUTCDate(),
-        now.getUTCHours(),
-        now.getUTCMinutes(),
-        now.getUTCSeconds(),
-      ),
-    );
-
-    // Check if vote is in the same year and month
-    return (
-      voteDateUTC.getUTCFullYear() === nowUTC.getUTCFullYear() &&
-      voteDateUTC.getUTCMonth() === nowUTC.getUTCMonth()
-    );
-  }
-
-  /**
-   * Handles vote submission from the Ponder indexer
-   */
-  async handleVoteSubmission(voteData: SubmitVoteDto): Promise<void> {
+  async handleVoteSubmission(voteData: SubmitVoteDto): Promise<boolean> {
     logger.log(`🗳️ [INDEXER] Processing vote submission: ${voteData.id}`);
 
     try {
       // Convert string values to appropriate types
-      const dayNumber = parseInt(voteData.day);
-      const blockNumber = parseInt(voteData.blockNumber);
       const timestamp = parseInt(voteData.timestamp);
       const voteDate = new Date(timestamp * 1000); // Convert Unix timestamp to Date
 
+      // Calculate day from timestamp (block.timestamp / 86400)
+      const day = Math.floor(timestamp / 86400);
+
+      // If this transaction was already ingested, every write committed with it.
+      // Only the derived user fields may be stale, so refresh them and stop.
+      const existingVote = await this.userBrandVotesRepository.findOne({
+        where: { transactionHash: voteData.transactionHash },
+        relations: ['user'],
+      });
+
+      if (existingVote) {
+        logger.log(
+          `⚠️ [INDEXER] Vote with transaction hash ${voteData.transactionHash} already ingested, refreshing derived fields only`,
+        );
+        if (existingVote.user) {
+          await this.finalizeVoteIngestion(existingVote.user.id);
+        }
+        return false;
+      }
+
       // Find or create user by FID
       let user = await this.userService.getByFid(voteData.fid);
       if (!user) {
@@ -222,334 +145,360 @@ export class IndexerService {
         throw new Error(`Brands not found: ${missingBrands.join(', ')}`);
       }
 
-      // Check if vote already exists (prevent duplicates)
-      // First check by transaction hash for exact duplicate detection
-      const existingVoteByTx = await this.userBrandVotesRepository.findOne({
-        where: {
-          transactionHash: voteData.transactionHash,
-        },
-      });
-
-      if (existingVoteByTx) {
-        logger.log(
-          `⚠️ [INDEXER] Vote with transaction hash ${voteData.transactionHash} already exists, skipping`,
+      let ingested = false;
+      try {
+        ingested = await this.userBrandVotesRepository.manager.transaction(
+          (manager) =>
+            this.ingestVote(
+              manager,
+              voteData,
+              user,
+              [brand1, brand2, brand3],
+              voteDate,
+              day,
+            ),
         );
-        return;
-      }
-
-      // First check if this exact transaction was already processed
-      const existingVoteByTxHash = await this.userBrandVotesRepository.findOne({
-        where: { transactionHash: voteData.transactionHash },
-      });
-
-      if (existingVoteByTxHash) {
+      } catch (error) {
+        // A concurrent delivery of the same event won the insert race; its
+        // transaction already applied every side effect
+        if (!this.isDuplicateVoteError(error)) {
+          throw error;
+        }
         logger.log(
-          `⚠️ [INDEXER] Transaction ${voteData.transactionHash} already processed, skipping duplicate`,
+          `⚠️ [INDEXER] Transaction ${voteData.transactionHash} was ingested concurrently, skipping duplicate`,
         );
-        return;
       }
 
-      // Calculate day from timestamp (block.timestamp / 86400)
-      const day = Math.floor(timestamp / 86400);
-
-      // Check if there's a placeholder vote created from a claim that came before this vote
-      // Placeholder votes have null brands and a claimTxHash
-      const placeholderVote = await this.userBrandVotesRepository.findOne({
-        where: {
-          user: { id: user.id },
-          day: day,
-          brand1: null, // Placeholder indicator
-          claimTxHash: Not(IsNull()), // Has claim data
-        },
-        relations: ['user'],
-      });
-
-      let placeholderClaimData: {
-        claimedAt?: Date;
-        claimTxHash?: string;
-        castHash?: string;
-        shared?: boolean;
-        shareVerified?: boolean;
-        shareVerifiedAt?: Date;
-      } | null = null;
+      await this.finalizeVoteIngestion(user.id);
 
-      if (placeholderVote) {
-        logger.log(
-          `🔄 [INDEXER] Found placeholder vote from claim event, will merge with actual vote: ${placeholderVote.transactionHash}`,
-        );
-        // Save claim data from placeholder before deleting it
-        placeholderClaimData = {
-          claimedAt: placeholderVote.claimedAt,
-          claimTxHash: placeholderVote.claimTxHash,
-          castHash: placeholderVote.castHash,
-          shared: placeholderVote.shared,
-          shareVerified: placeholderVote.shareVerified,
-          shareVerifiedAt: placeholderVote.shareVerifiedAt,
-        };
-        // Delete the placeholder since we'll create the real vote with the correct transactionHash
-        await this.userBrandVotesRepository.delete({
-          transactionHash: placeholderVote.transactionHash,
+      if (ingested) {
+        await this.liveEventService.publish(LiveEventTypeEnum.PODIUM_VOTE, {
+          transactionHash: voteData.transactionHash,
+          fid: user.fid,
+          username: user.username,
+          photoUrl: user.photoUrl,
+          brands: [brand1, brand2, brand3].map((brand) => ({
+            id: brand.id,
+            name: brand.name,
+            imageUrl: brand.imageUrl,
+          })),
+          brndPaid: Number(BigInt(voteData.cost) / BigInt(10 ** 18)),
+          date: voteDate,
         });
-        logger.log(
-          `🗑️ [INDEXER] Deleted placeholder vote: ${placeholderVote.transactionHash}`,
-        );
       }
 
-      // Then check if user already voted this day (business rule)
-      const dayStart = new Date(voteDate);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(voteDate);
-      dayEnd.setHours(23, 59, 59, 999);
-
-      const existingVoteByDay = await this.userBrandVotesRepository.findOne({
-        where: {
-          user: { id: user.id },
-          date: Between(dayStart, dayEnd),
-        },
-        relations: ['user'],
-      });
+      logger.log(
+        ingested
+          ? `✅ [INDEXER] Vote processing completed: ${voteData.id}`
+          : `✅ [INDEXER] Vote ${voteData.id} required no changes`,
+      );
 
-      if (existingVoteByDay) {
-        logger.log(
-          `⚠️ [INDEXER] User ${user.id} already voted on ${voteDate.toDateString()}, skipping duplicate`,
-        );
-        return;
-      }
+      return ingested;
+    } catch (error) {
+      logger.error(`❌ [INDEXER] Error processing vote ${voteData.id}:`, error);
+      throw error;
+    }
+  }
 
-      // Use actual on-chain cost from the vote event
-      // voteData.cost is in wei (e.g., "100000000000000000000" for 100 BRND)
-      // Convert to BRND units by dividing by 10^18
-      const WEI_PER_BRND = BigInt(10 ** 18);
-      const costInWei = BigInt(voteData.cost);
-      const brndPaid = Number(costInWei / WEI_PER_BRND);
-      // Calculate reward amount in wei (brndPaid is in BRND units, convert to wei then multiply by 10)
-      // 1 BRND = 10^18 wei, so reward = brndPaid * 10^18 * 10 = brndPaid * 10^19
-      const REWARD_MULTIPLIER = BigInt(10);
-      const rewardAmount = (
-        BigInt(brndPaid) *
-        WEI_PER_BRND *
-        REWARD_MULTIPLIER
-      ).toString();
-
-      // Create the vote record
-      // If we found a placeholder, merge the claim data into the vote
-      // Initial points for voting is 3; will be updated when claimed
-      const vote = this.userBrandVotesRepository.create({
-        id: voteData.transactionHash, // Use transaction hash as id
+  /**
+   * Writes a vote and all of its side effects inside the given transaction.
+   * Returns false when the vote was skipped by a business rule.
+   */
+  private async ingestVote(
+    manager: EntityManager,
+    voteData: SubmitVoteDto,
+    user: User,
+    brands: Brand[],
+    voteDate: Date,
+    day: number,
+  ): Promise<boolean> {
+    const votesRepository = manager.getRepository(UserBrandVotes);
+
+    // Check if user already voted this day (business rule). Legacy placeholder
+    // rows left by early claims have no brands and are not votes
+    const dayStart = new Date(voteDate);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(voteDate);
+    dayEnd.setHours(23, 59, 59, 999);
+
+    const existingVoteByDay = await votesRepository.findOne({
+      where: {
         user: { id: user.id },
-        brand1: { id: voteData.brandIds[0] },
-        brand2: { id: voteData.brandIds[1] },
-        brand3: { id: voteData.brandIds[2] },
-        date: voteDate,
-        shared: placeholderClaimData?.shared || false, // Use placeholder data if available
-        castHash: placeholderClaimData?.castHash || null, // Use placeholder castHash if available
-        transactionHash: voteData.transactionHash, // Store blockchain transaction hash
-        brndPaidWhenCreatingPodium: brndPaid,
-        rewardAmount: rewardAmount, // Store reward amount in wei (cost * 10 in wei)
-        day: day, // Store blockchain day
-        shareVerified: placeholderClaimData?.shareVerified || false, // Use placeholder data if available
-        shareVerifiedAt: placeholderClaimData?.shareVerifiedAt || null, // Use placeholder data if available
-        claimedAt: placeholderClaimData?.claimedAt || null, // Use placeholder data if available
-        claimTxHash: placeholderClaimData?.claimTxHash || null, // Use placeholder data if available
-        isLastVoteForCombination: true, // This is now the latest vote for this combination
-        pointsEarned: 3, // Initial 3 points for voting
-      });
-
-      await this.userBrandVotesRepository.save(vote);
-
-      // Update any previous votes with the same brand combination to no longer be the last
-      // This enables frontend to know if a user can mint (only last voter can mint)
-      await this.userBrandVotesRepository
-        .createQueryBuilder()
-        .update(UserBrandVotes)
-        .set({ isLastVoteForCombination: false })
-        .where('brand1Id = :b1 AND brand2Id = :b2 AND brand3Id = :b3', {
-          b1: voteData.brandIds[0],
-          b2: voteData.brandIds[1],
-          b3: voteData.brandIds[2],
-        })
-        .andWhere('transactionHash != :txHash', {
-          txHash: voteData.transactionHash,
-        })
-        .execute();
+        date: Between(dayStart, dayEnd),
+        brand1: Not(IsNull()),
+      },
+    });
 
+    if (existingVoteByDay) {
       logger.log(
-        `✅ [INDEXER] Updated isLastVoteForCombination flags for brand combination [${voteData.brandIds.join(', ')}]`,
+        `⚠️ [INDEXER] User ${user.id} already voted on ${voteDate.toDateString()}, skipping duplicate`,
       );
+      return false;
+    }
 
-      if (placeholderClaimData) {
-        logger.log(
-          `✅ [INDEXER] Saved vote and merged placeholder claim data: ${voteData.id}`,
-        );
-        // Add level-based leaderboard points for the claim (since we merged claim data)
-        // User gets brndPowerLevel * 3 additional points
-        // Read brndPowerLevel from contract (source of truth)
+    // Use actual on-chain cost from the vote event
+    // voteData.cost is in wei (e.g., "100000000000000000000" for 100 BRND)
+    // Convert to BRND units by dividing by 10^18
+    const WEI_PER_BRND = BigInt(10 ** 18);
+    const costInWei = BigInt(voteData.cost);
+    const brndPaid = Number(costInWei / WEI_PER_BRND);
+
+    // Everything below is scored with the rules in effect when the vote was
+    // cast, and the vote records which version that was
+    const { version, season, rules } =
+      await this.scoringService.getRulesForDate(voteDate);
+    const rewardAmount = getRewardAmountWei(rules, brndPaid);
+
+    // Banned voters no longer move brand scores, and voters with an open
+    // vote-quality flag only move them as much as the rules allow
+    const voteWeight = user.banned
+      ? 0
+      : (await this.voteQualityService.isFlagged(user.id))
+        ? rules.flaggedVoteWeight
+        : 1;
+
+    // Leaderboard points for voting, plus the bonus for the streak this vote
+    // extends. Level-based points are awarded separately when reward is claimed
+    const streak =
+      user.lastVoteDay === day - 1 ? (user.dailyStreak || 0) + 1 : 1;
+    const streakBonus = getStreakBonus(rules, streak);
+    const votePoints = rules.votePoints + streakBonus;
+
+    // Create the vote record
+    // The primary key on transactionHash rejects concurrent duplicates
+    const vote = votesRepository.create({
+      id: voteData.transactionHash, // Use transaction hash as id
+      user: { id: user.id },
+      brand1: { id: voteData.brandIds[0] },
+      brand2: { id: voteData.brandIds[1] },
+      brand3: { id: voteData.brandIds[2] },
+      date: voteDate,
+      shared: false,
+      castHash: null,
+      transactionHash: voteData.transactionHash, // Store blockchain transaction hash
+      brndPaidWhenCreatingPodium: brndPaid,
+      rewardAmount: rewardAmount, // Store reward amount in wei (cost * multiplier in wei)
+      day: day, // Store blockchain day
+      shareVerified: false,
+      shareVerifiedAt: null,
+      claimedAt: null,
+      claimTxHash: null,
+      isLastVoteForCombination: true, // This is now the latest vote for this combination
+      pointsEarned: votePoints, // Initial points for voting
+      season: season?.id ?? null,
+      scoringRulesVersion: version,
+      blockNumber: parseInt(voteData.blockNumber),
+    });
+    await votesRepository.insert(vote);
+
+    // Brand scores (each position's share of the BRND paid) go through the
+    // ledger, which also moves the brands' counters
+    await this.brandScoreLedgerService.recordVote(manager, {
+      transactionHash: voteData.transactionHash,
+      brandIds: voteData.brandIds,
+      brndPaid,
+      date: voteDate,
+      day,
+      rules,
+      brandBonusPoints: brands.map((brand) => brand.bonusPoints),
+      voteWeight,
+    });
+    await this.rankingQueueService.queueRankingUpdate(
+      voteData.brandIds,
+      manager,
+    );
 
-        let contractLevel = user.brndPowerLevel;
-        try {
-          const contractInfo =
-            await this.blockchainService.getUserInfoFromContractByFid(user.fid);
-          contractLevel = contractInfo?.brndPowerLevel ?? user.brndPowerLevel;
-        } catch (err) {
-          logger.warn(
-            `⚠️ [INDEXER] Could not read contract level for FID ${user.fid}, using DB level ${user.brndPowerLevel}`,
-          );
+    // Update any previous votes with the same brand combination to no longer be the last
+    // This enables frontend to know if a user can mint (only last voter can mint)
+    await votesRepository
+      .createQueryBuilder()
+      .update(UserBrandVotes)
+      .set({ isLastVoteForCombination: false })
+      .where('brand1Id = :b1 AND brand2Id = :b2 AND brand3Id = :b3', {
+        b1: voteData.brandIds[0],
+        b2: voteData.brandIds[1],
+        b3: voteData.brandIds[2],
+      })
+      .andWhere('transactionHash != :txHash', {
+        txHash: voteData.transactionHash,
+      })
+      .execute();
+
+    // Update user's last vote timestamp, day and vote counter
+    await manager
+      .createQueryBuilder()
+      .update(User)
+      .set({
+        lastVoteTimestamp: voteDate,
+        lastVoteDay: day,
+        totalVotes: () => 'totalVotes + 1',
+      })
+      .where('id = :id', { id: user.id })
+      .execute();
+
+    await this.userService.addPoints(
+      user.id,
+      votePoints,
+      {
+        reason: PointsReasonEnum.VOTE,
+        seasonId: season?.id ?? null,
+        transactionHash: voteData.transactionHash,
+        voteTransactionHash: voteData.transactionHash,
+        note: streakBonus
+          ? `Includes ${streakBonus} bonus points for a ${streak} day streak`
+          : undefined,
+      },
+      manager,
+    );
+
+    logger.log(
+      `✅ [INDEXER] Saved vote: ${voteData.id} (scoring rules v${version})`,
+    );
+
+    return true;
+  }
+
+  /**
+   * Reverses a vote the indexer no longer has, e.g. after a Base reorg or an
+   * indexer redeploy. Takes back the brand scores, the user's points and vote
+   * count, then deletes the row. The vote's event is reopened so a later
+   * delivery ingests it again, and its claim waits for that vote. Returns
+   * false when the vote is not stored.
+   */
+  async revertVote(transactionHash: string): Promise<boolean> {
+    const userId = await this.userBrandVotesRepository.manager.transaction(
+      async (manager) => {
+        const votesRepository = manager.getRepository(UserBrandVotes);
+        const vote = await votesRepository.findOne({
+          where: { transactionHash },
+          relations: ['user', 'brand1', 'brand2', 'brand3'],
+        });
+
+        if (!vote) {
+          return null;
         }
 
-        const claimLeaderboardPoints = contractLevel * 3;
-        await this.userService.addPoints(user.id, claimLeaderboardPoints);
-        logger.log(
-          `✅ [INDEXER] Added ${claimLeaderboardPoints} claim points to user ${user.id} (contract level ${contractLevel})`,
-        );
+        const brandIds = [vote.brand1?.id, vote.brand2?.id, vote.brand3?.id];
 
-        // Update the vote's pointsEarned to include claim points
-        const totalPointsEarned = 3 + claimLeaderboardPoints;
-        await this.userBrandVotesRepository.update(
-          { transactionHash: voteData.transactionHash },
-          { pointsEarned: totalPointsEarned },
-        );
-        logger.log(
-          `✅ [INDEXER] Updated vote pointsEarned to ${totalPointsEarned} for tx ${voteData.transactionHash}`,
-        );
-      } else {
-        logger.log(`✅ [INDEXER] Saved vote: ${voteData.id}`);
-      }
+        // Take back what the ledger says each position earned. Votes that
+        // predate the ledger are entered first, scored with the rules that
+        // scored them, so there is something to cancel
+        const reversedEntries =
+          await this.brandScoreLedgerService.recordReversal(
+            manager,
+            transactionHash,
+          );
+        if (reversedEntries === null) {
+          await this.brandScoreLedgerService.backfillVote(manager, vote);
+          await this.brandScoreLedgerService.recordReversal(
+            manager,
+            transactionHash,
+          );
+        }
+        await this.rankingQueueService.queueRankingUpdate(brandIds, manager);
 
-      // Update brand scores (60, 30, 10 points for 1st, 2nd, 3rd place)
-      // Always update score, but conditionally update scoreDay, scoreWeek and scoreMonth
-      // based on when the vote was actually cast on-chain
-      const score1 = 0.6 * vote.brndPaidWhenCreatingPodium;
-      const score2 = 0.3 * vote.brndPaidWhenCreatingPodium;
-      const score3 = 0.1 * vote.brndPaidWhenCreatingPodium;
+        await votesRepository.delete({ transactionHash });
 
-      // Check if vote falls within current day, week and month
-      const isInCurrentDay = this.isWithinCurrentDay(voteDate);
-      const isInCurrentWeek = this.isWithinCurrentWeek(voteDate);
-      const isInCurrentMonth = this.isWithinCurrentMonth(voteDate);
+        // Hand the mint right back to the previous voter of this combination
+        if (vote.isLastVoteForCombination && brandIds.every(Boolean)) {
+          const previous = await votesRepository.findOne({
+            where: {
+              brand1: { id: brandIds[0] },
+              brand2: { id: brandIds[1] },
+              brand3: { id: brandIds[2] },
+            },
+            order: { date: 'DESC' },
+          });
+          if (previous) {
+            await votesRepository.update(
+              { transactionHash: previous.transactionHash },
+              { isLastVoteForCombination: true },
+            );
+          }
+        }
 
-      logger.log(
-        `📅 [INDEXER] Vote date: ${voteDate.toISOString()}, In current day: ${isInCurrentDay}, In current week: ${isInCurrentWeek}, In current month: ${isInCurrentMonth}`,
-      );
+        await manager
+          .createQueryBuilder()
+          .update(User)
+          .set({ totalVotes: () => 'GREATEST(totalVotes - 1, 0)' })
+          .where('id = :id', { id: vote.user.id })
+          .execute();
 
-      // Build array of increment operations conditionally
-      const incrementOperations = [
-        // Always increment score for all brands
-        this.brandRepository.increment(
-          { id: voteData.brandIds[0] },
-          'score',
-          score1,
-        ),
-        this.brandRepository.increment(
-          { id: voteData.brandIds[1] },
-          'score',
-          score2,
-        ),
-        this.brandRepository.increment(
-          { id: voteData.brandIds[2] },
-          'score',
-          score3,
-        ),
-      ];
-
-      // Conditionally increment scoreDay if vote is in current day
-      if (isInCurrentDay) {
-        incrementOperations.push(
-          this.brandRepository.increment(
-            { id: voteData.brandIds[0] },
-            'scoreDay',
-            score1,
-          ),
-          this.brandRepository.increment(
-            { id: voteData.brandIds[1] },
-            'scoreDay',
-            score2,
-          ),
-          this.brandRepository.increment(
-            { id: voteData.brandIds[2] },
-            'scoreDay',
-            score3,
-          ),
+        await this.userService.addPoints(
+          vote.user.id,
+          -(vote.pointsEarned || 0),
+          {
+            reason: PointsReasonEnum.VOTE_REVERSAL,
+            seasonId: vote.season ?? null,
+            transactionHash,
+            voteTransactionHash: transactionHash,
+          },
+          manager,
         );
-      }
 
-      // Conditionally increment scoreWeek if vote is in current week
-      if (isInCurrentWeek) {
-        incrementOperations.push(
-          this.brandRepository.increment(
-            { id: voteData.brandIds[0] },
-            'scoreWeek',
-            score1,
-          ),
-          this.brandRepository.increment(
-            { id: voteData.brandIds[1] },
-            'scoreWeek',
-            score2,
-          ),
-          this.brandRepository.increment(
-            { id: voteData.brandIds[2] },
-            'scoreWeek',
-            score3,
-          ),
+        // Otherwise a redelivery would be answered with the stored result
+        // and never re-insert the vote
+        const eventsRepository = manager.getRepository(IndexerEvent);
+        await eventsRepository.update(
+          { eventType: IndexerEventTypeEnum.VOTE, eventKey: transactionHash },
+          {
+            status: IndexerEventStatusEnum.RECEIVED,
+            result: null,
+            error: null,
+            processedAt: null,
+          },
         );
-      }
+        if (vote.claimTxHash) {
+          await eventsRepository.update(
+            {
+              eventType: IndexerEventTypeEnum.REWARD_CLAIM,
+              eventKey: vote.claimTxHash,
+            },
+            {
+              status: IndexerEventStatusEnum.PENDING,
+              dependsOn: `vote:${vote.user.fid}:${vote.day}`,
+              pendingSince: new Date(),
+              result: null,
+              error: null,
+              processedAt: null,
+            },
+          );
+        }
 
-      // Conditionally increment scoreMonth if vote is in current month
-      if (isInCurrentMonth) {
-        incrementOperations.push(
-          this.brandRepository.increment(
-            { id: voteData.brandIds[0] },
-            'scoreMonth',
-            score1,
-          ),
-          this.brandRepository.increment(
-            { id: voteData.brandIds[1] },
-            'scoreMonth',
-            score2,
-          ),
-          this.brandRepository.increment(
-            { id: voteData.brandIds[2] },
-            'scoreMonth',
-            score3,
-          ),
-        );
-      }
+        return vote.user.id;
+      },
+    );
 
-      await Promise.all(incrementOperations);
+    if (userId === null) {
+      return false;
+    }
 
-      logger.log(`✅ [INDEXER] Updated brand scores for vote: ${voteData.id}`);
+    await this.finalizeVoteIngestion(userId);
 
-      // Optional: Queue ranking update for affected brands (lightweight)
-      // Uncomment if you want near real-time ranking updates
-      // this.queueRankingUpdate([voteData.brandIds[0], voteData.brandIds[1], voteData.brandIds[2]]);
+    logger.warn(`↩️ [INDEXER] Reverted vote ${transactionHash}`);
+    return true;
+  }
 
-      // Update user's last vote timestamp and day FIRST
-      await this.userRepository.update(user.id, {
-        lastVoteTimestamp: voteDate,
-        lastVoteDay: day,
-        totalVotes: user.totalVotes + 1,
-      });
+  /**
+   * Follow-up work that runs after a vote transaction commits. Everything here
+   * is recomputed from committed rows, so it is safe to repeat on retries.
+   */
+  private async finalizeVoteIngestion(userId: number): Promise<void> {
+    await this.userService.updateUserCalculatedFields(userId);
+    this.userService.invalidateLeaderboardCache();
+  }
 
-      // Then update calculated fields (which depend on the updated totalVotes)
-      await this.userService.updateUserCalculatedFields(user.id);
-
-      // Calculate leaderboard points for voting (flat 3 points regardless of level)
-      // Level-based points are awarded separately when reward is claimed
-      const leaderboardPoints = 3;
-      await this.userService.addPoints(user.id, leaderboardPoints);
-      // let cloudinaryUrl: string | null = null;
-      // try {
-      //   cloudinaryUrl = await this.podiumService.generatePodiumImageFromTxHash(
-      //     voteData.transactionHash,
-      //   );
-      // } catch (error) {
-      //   logger.error(`❌ [INDEXER] Error generating podium image:`, error);
-      // }
-
-      logger.log(`✅ [INDEXER] Vote processing completed: ${voteData.id}`);
-    } catch (error) {
-      logger.error(`❌ [INDEXER] Error processing vote ${voteData.id}:`, error);
-      throw error;
-    }
+  /**
+   * Detects a MySQL violation of the user_brand_votes primary key surfaced
+   * through TypeORM, i.e. another transaction stored the same vote first.
+   * Other unique-key violations are real failures.
+   */
+  private isDuplicateVoteError(error: any): boolean {
+    const driverError = error?.driverError || error;
+    return (
+      driverError?.code === 'ER_DUP_ENTRY' &&
+      /for key '(user_brand_votes\.)?PRIMARY'/.test(driverError.sqlMessage)
+    );
   }
 
   /**
@@ -611,6 +560,7 @@ export class IndexerService {
           where: {
             user: { fid: claimData.fid },
             day: dayNumber,
+            brand1: Not(IsNull()),
           },
           relations: ['user'],
         });
@@ -639,111 +589,76 @@ export class IndexerService {
           );
         }
 
-        const claimLeaderboardPoints = contractLevel * 3;
-
-        // Calculate total points earned: 3 (voting) + claim points
-        const totalPointsEarned = 3 + claimLeaderboardPoints;
+        const { rules } = await this.scoringService.getRulesForVote(userVote);
+        const claimLeaderboardPoints =
+          contractLevel * rules.claimPointsPerLevel;
+
+        // Calculate total points earned: voting points (with any streak
+        // bonus) + claim points
+        const totalPointsEarned =
+          (userVote.pointsEarned ?? rules.votePoints) + claimLeaderboardPoints;
+
+        // The claim is only recorded on a vote that has none yet, and points
+        // are credited in the same transaction, so concurrent deliveries of
+        // the same claim credit it once
+        const credited =
+          await this.userBrandVotesRepository.manager.transaction(
+            async (manager) => {
+              const { affected } = await manager
+                .createQueryBuilder()
+                .update(UserBrandVotes)
+                .set({
+                  claimedAt: claimDate,
+                  claimTxHash: claimData.transactionHash,
+                  castHash: claimData.castHash,
+                  shared: true,
+                  shareVerified: true,
+                  shareVerifiedAt: claimDate,
+                  pointsEarned: totalPointsEarned,
+                })
+                .where('transactionHash = :transactionHash', {
+                  transactionHash: userVote.transactionHash,
+                })
+                .andWhere('claimTxHash IS NULL')
+                .execute();
+              if (!affected) {
+                return false;
+              }
+
+              await this.userService.addPoints(
+                userVote.user.id,
+                claimLeaderboardPoints,
+                {
+                  reason: PointsReasonEnum.CLAIM,
+                  seasonId: userVote.season ?? null,
+                  transactionHash: claimData.transactionHash,
+                  voteTransactionHash: userVote.transactionHash,
+                  note: `Claim ${claimData.id} at level ${contractLevel}`,
+                },
+                manager,
+              );
+              return true;
+            },
+          );
 
-        await this.userBrandVotesRepository.update(
-          { transactionHash: userVote.transactionHash },
-          {
-            claimedAt: claimDate,
-            claimTxHash: claimData.transactionHash,
-            castHash: claimData.castHash,
-            shared: true,
-            shareVerified: true,
-            shareVerifiedAt: claimDate,
-            pointsEarned: totalPointsEarned,
-          },
-        );
+        if (!credited) {
+          logger.log(
+            `⚠️ [INDEXER] Vote ${userVote.transactionHash} already has a claim recorded, skipping claim ${claimData.transactionHash}`,
+          );
+          return;
+        }
 
         logger.log(
           `✅ [INDEXER] Updated UserBrandVotes: ${userVote.transactionHash} with pointsEarned: ${totalPointsEarned}`,
         );
-
-        await this.userService.addPoints(
-          userVote.user.id,
-          claimLeaderboardPoints,
-        );
         logger.log(
           `✅ [INDEXER] Added ${claimLeaderboardPoints} claim points to user ${userVote.user.id} (contract level ${contractLevel})`,
         );
       } else {
-        // Edge case: Claim event came before vote event
-        // Create a placeholder vote record that will be updated when the vote event arrives
-        logger.warn(
-          `⚠️ [INDEXER] No existing vote found for FID ${claimData.fid}, castHash ${claimData.castHash}. Creating placeholder vote record.`,
-        );
-
-        // Find or create user by FID
-        let user = await this.userService.getByFid(claimData.fid);
-        if (!user) {
-          logger.log(
-            `👤 [INDEXER] User with FID ${claimData.fid} not found, fetching from Neynar`,
-          );
-
-          // Fetch user info from Neynar API
-          const neynarUserInfo = await this.getNeynarUserInfo(claimData.fid);
-
-          // Extract user data from Neynar response
-          const username = neynarUserInfo?.username || `user_${claimData.fid}`;
-          const photoUrl = neynarUserInfo?.pfp_url || '';
-          const neynarScore =
-            neynarUserInfo?.score ||
-            neynarUserInfo?.experimental?.neynar_user_score ||
-            0.0;
-          const verified =
-            neynarUserInfo?.verified_addresses?.eth_addresses?.length > 0 ||
-            false;
-
-          // Use verified address from Neynar if available, otherwise use recipient address
-          const address =
-            neynarUserInfo?.verified_addresses?.primary?.eth_address ||
-            neynarUserInfo?.verified_addresses?.eth_addresses?.[0] ||
-            claimData.recipient;
-
-          user = await this.userRepository.save({
-            fid: claimData.fid,
-            username,
-            photoUrl,
-            address,
-            banned: false,
-            powerups: 0,
-            points: 0,
-            verified,
-            neynarScore,
-            createdAt: claimDate,
-            updatedAt: claimDate,
-          });
-          logger.log(
-            `✅ [INDEXER] Created user from Neynar data: ${user.id} (username: ${username})`,
-          );
-        }
-
-        // Create placeholder vote record with claim data
-        // Use claim transaction hash as primary key since vote transaction doesn't exist yet
-        // This is an edge case where claim came before vote (shouldn't normally happen)
-        const placeholderVote = this.userBrandVotesRepository.create({
-          transactionHash: claimData.transactionHash, // Use claim tx hash as primary key
-          user: { id: user.id },
-          // These will be null since we don't have vote data yet
-          brand1: null,
-          brand2: null,
-          brand3: null,
-          date: claimDate,
-          day: dayNumber,
-          rewardAmount: claimData.amount,
-          shared: true,
-          shareVerified: true,
-          shareVerifiedAt: claimDate,
-          castHash: claimData.castHash,
-          claimedAt: claimDate,
-          claimTxHash: claimData.transactionHash,
-        });
-
-        await this.userBrandVotesRepository.save(placeholderVote);
-        logger.log(
-          `✅ [INDEXER] Created placeholder vote record: ${placeholderVote.transactionHash}`,
+        // The vote for this day has not been indexed yet. The event log keeps
+        // the claim pending and replays it once the vote lands.
+        throw new Error(
+          `No vote found for FID ${claimData.fid} on day ${dayNumber}`,
         );
       }
 
@@ -822,6 +737,7 @@ export class IndexerService {
         logger.log(
           `✅ [INDEXER] Created user from Neynar data: ${user.id} (username: ${username})`,
         );
+        await this.publishLevelUp(user, 0, levelUpData.brndPowerLevel);
       } else {
         // Update existing user's power level and wallet address
         logger.log(
@@ -839,6 +755,11 @@ export class IndexerService {
           logger.log(
             `✅ [INDEXER] User level update completed: ${levelUpData.levelUpId}`,
           );
+          await this.publishLevelUp(
+            user,
+            user.brndPowerLevel,
+            levelUpData.brndPowerLevel,
+          );
         }
       }
     } catch (error) {
@@ -850,6 +771,23 @@ export class IndexerService {
     }
   }
 
+  /**
+   * Announces a power level increase on the live stream
+   */
+  private async publishLevelUp(
+    user: User,
+    previousLevel: number,
+    level: number,
+  ): Promise<void> {
+    await this.liveEventService.publish(LiveEventTypeEnum.LEVEL_UP, {
+      fid: user.fid,
+      username: user.username,
+      photoUrl: user.photoUrl,
+      previousLevel,
+      level,
+    });
+  }
+
   /**
    * Fetches user info from Neynar API
    */
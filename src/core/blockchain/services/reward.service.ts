@@ -6,6 +6,12 @@ import { UserBrandVotes, User } from '../../../models';
 import { getConfig } from '../../../security/config';
 import { logger } from '../../../main';
 import { SignatureService } from './signature.service';
+import {
+  DEFAULT_SCORING_RULES,
+  ScoringService,
+  getRewardAmountWei,
+  getVoteCostWei,
+} from '../../scoring/services';
 
 import { verifyTypedData } from 'viem';
 
@@ -37,10 +43,6 @@ export interface ClaimRewardResponse {
 
 @Injectable()
 export class RewardService {
-  private readonly BASE_VOTE_COST = '100000000000000000000'; // 100 BRND in wei
-  private readonly REWARD_MULTIPLIER = 10;
-  private readonly WEI_PER_BRND = BigInt(10 ** 18);
-  private readonly REWARD_MULTIPLIER_BIGINT = BigInt(10);
   private readonly MIN_WEI_AMOUNT = BigInt(10 ** 18); // 1 BRND in wei
 
   constructor(
@@ -49,6 +51,7 @@ export class RewardService {
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     private readonly signatureService: SignatureService,
+    private readonly scoringService: ScoringService,
   ) {}
 
   /**
@@ -72,12 +75,10 @@ export class RewardService {
     // If it's too small (like "1000"), it means it wasn't converted to wei
     const amountBigInt = BigInt(amount);
     if (amountBigInt < this.MIN_WEI_AMOUNT && brndPaid) {
-      // Recalculate if the stored value is too small
-      const recalculated = (
-        BigInt(brndPaid) *
-        this.WEI_PER_BRND *
-        this.REWARD_MULTIPLIER_BIGINT
-      ).toString();
+      // Recalculate if the stored value is too small. Only votes stored
+      // before amounts were kept in wei get here, and those were all scored
+      // with the launch rules
+      const recalculated = getRewardAmountWei(DEFAULT_SCORING_RULES, brndPaid);
       logger.log(
         `💰 [REWARD] Recalculated amount: ${recalculated} (from brndPaid: ${brndPaid}, original: ${amount})`,
       );
@@ -278,17 +279,15 @@ export class RewardService {
     }
   }
 
-  calculateRewardAmount(brndPowerLevel: number): string {
-    const voteCost = this.getVoteCost(brndPowerLevel);
-    const rewardAmount = BigInt(voteCost) * BigInt(this.REWARD_MULTIPLIER);
-    return rewardAmount.toString();
-  }
-
-  private getVoteCost(brndPowerLevel: number): string {
-    if (brndPowerLevel === 0) return this.BASE_VOTE_COST;
-    if (brndPowerLevel >= 8)
-      return (BigInt(this.BASE_VOTE_COST) * BigInt(8)).toString();
-    return (BigInt(this.BASE_VOTE_COST) * BigInt(brndPowerLevel)).toString();
+  /**
+   * Reward in wei for a vote cast now at the given BRND power level, under
+   * the scoring rules currently in effect.
+   */
+  async calculateRewardAmount(brndPowerLevel: number): Promise<string> {
+    const { rules } = await this.scoringService.getRulesForDate(new Date());
+    return (
+      getVoteCostWei(rules, brndPowerLevel) * BigInt(rules.rewardMultiplier)
+    ).toString();
   }
 
   async markRewardClaimed(
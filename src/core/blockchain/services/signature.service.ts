@@ -370,6 +370,8 @@ export class SignatureService {
    * Generates EIP-712 signature for airdrop claim
    * Verifies wallet belongs to FID via Neynar before signing
    * UPDATED: Now uses baseAmount (whole number) instead of Wei amount
+   * Pass round to sign for another airdrop round's contract; for vesting rounds the
+   * message also carries unlockedAmount, the most the FID may have claimed in total
    */
   async generateAirdropClaimSignature(
     fid: number,
@@ -377,6 +379,11 @@ export class SignatureService {
     baseAmount: number,
     merkleRoot: string,
     deadline: number,
+    round?: {
+      contractAddress: string;
+      signatureDomain: string;
+      unlockedAmount?: number;
+    },
   ): Promise<string> {
     logger.log(
       `🔐 [AIRDROP SIGNATURE] Generating airdrop claim signature for FID: ${fid}, Wallet: ${walletAddress}`,
@@ -427,7 +434,8 @@ export class SignatureService {
 
     // Get airdrop contract address from config
     const config = getConfig();
-    const airdropContractAddress = config.blockchain.airdropContractAddress;
+    const airdropContractAddress =
+      round?.contractAddress || config.blockchain.airdropContractAddress;
 
     if (!airdropContractAddress) {
       throw new Error('AIRDROP_CONTRACT_ADDRESS not configured');
@@ -440,7 +448,7 @@ export class SignatureService {
     });
 
     const domain = {
-      name: 'BRNDAIRDROP1',
+      name: round?.signatureDomain || 'BRNDAIRDROP1',
       version: '1',
       chainId: this.CHAIN_ID,
       verifyingContract: airdropContractAddress as `0x${string}`,
@@ -458,6 +466,32 @@ export class SignatureService {
 
     // Convert baseAmount to Wei (multiply by 1e18)
 
+    if (round?.unlockedAmount !== undefined) {
+      return walletClient.signTypedData({
+        account,
+        domain,
+        types: {
+          VestedAirdropClaim: [
+            { name: 'fid', type: 'uint256' },
+            { name: 'wallet', type: 'address' },
+            { name: 'baseAmount', type: 'uint256' },
+            { name: 'unlockedAmount', type: 'uint256' },
+            { name: 'merkleRoot', type: 'bytes32' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        primaryType: 'VestedAirdropClaim',
+        message: {
+          fid: BigInt(fid),
+          wallet: walletAddress as `0x${string}`,
+          baseAmount: BigInt(baseAmount),
+          unlockedAmount: BigInt(round.unlockedAmount),
+          merkleRoot: merkleRootBytes32,
+          deadline: BigInt(deadline),
+        },
+      });
+    }
+
     const signature = await walletClient.signTypedData({
       account,
       domain,
@@ -2,6 +2,7 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   Param,
   Post,
@@ -15,14 +16,30 @@ import { ApiTags } from '@nestjs/swagger';
 import { Response } from 'express';
 
 // Services
-import { BrandOrderType, BrandResponse, BrandService } from './services';
+import {
+  BrandAffinityService,
+  BrandAffinitySort,
+  BrandLeaderboardPeriod,
+  BrandListFilters,
+  BrandOrderType,
+  BrandOwnerService,
+  BrandResponse,
+  BrandSearchService,
+  BrandService,
+  MAX_DASHBOARD_DAYS,
+} from './services';
 import { BrandSeederService } from './services/brand-seeding.service';
 import { UserService } from '../user/services/user.service';
 import { RewardService } from '../blockchain/services/reward.service';
 import { BlockchainService } from '../blockchain/services/blockchain.service';
 
 // Models
-import { Brand, CurrentUser } from '../../models';
+import {
+  Brand,
+  BrandRankingPeriodEnum,
+  BrandRequestStatusEnum,
+  PointsReasonEnum,
+} from '../../models';
 
 // Utils
 import { HttpStatus, hasError, hasResponse } from '../../utils';
@@ -33,6 +50,13 @@ import { Session } from '../../security/decorators';
 import { getConfig } from '../../security/config';
 import NeynarService from 'src/utils/neynar';
 import { BrandSchedulerService } from './services/brand-scheduler.service';
+import { BrandRankingSnapshotService } from './services/brand-ranking-snapshot.service';
+import {
+  BrandRequestInput,
+  BrandRequestService,
+} from './services/brand-request.service';
+import { BrandFollowService } from './services/brand-follow.service';
+import { TagService } from '../tag/services';
 
 export type BrandTimePeriod = 'day' | 'week' | 'month' | 'all';
 
@@ -46,6 +70,13 @@ export class BrandController {
     private readonly rewardService: RewardService,
     private readonly brandSchedulerService: BrandSchedulerService,
     private readonly blockchainService: BlockchainService,
+    private readonly brandRankingSnapshotService: BrandRankingSnapshotService,
+    private readonly brandRequestService: BrandRequestService,
+    private readonly brandFollowService: BrandFollowService,
+    private readonly tagService: TagService,
+    private readonly brandSearchService: BrandSearchService,
+    private readonly brandOwnerService: BrandOwnerService,
+    private readonly brandAffinityService: BrandAffinityService,
   ) {}
 
   @Get('/brand/:id')
@@ -106,7 +137,6 @@ export class BrandController {
   async initiateBrandWithdrawal(
     @Session() session: QuickAuthPayload,
     @Param('brandId') brandId: Brand['id'],
-    @Body() { requesterAddress }: { requesterAddress: string },
     @Res() res: Response,
   ): Promise<Response> {
     try {
@@ -114,15 +144,6 @@ export class BrandController {
         `💰 [BRAND] Withdrawal request for brand ${brandId} by FID: ${session.sub}`,
       );
 
-      if (!requesterAddress) {
-        return hasError(
-          res,
-          HttpStatus.BAD_REQUEST,
-          'initiateBrandWithdrawal',
-          'Requester address is required',
-        );
-      }
-
       // Get brand information
       const brandResponse = await this.brandService.getById(brandId);
       if (!brandResponse) {
@@ -136,10 +157,14 @@ export class BrandController {
 
       const brand = brandResponse.brand;
 
-      // Check if requester has permission (brand owner FID or wallet address)
-      const hasPermission =
-        brand.onChainFid === session.sub ||
-        brand.walletAddress?.toLowerCase() === requesterAddress.toLowerCase();
+      // Only the session's FID and the caller's verified wallets count, never
+      // an address the client sends
+      const dbUser = await this.userService.getByFid(session.sub);
+      const requesterAddresses = [session.address, dbUser?.address];
+      const hasPermission = this.brandOwnerService.isBrandOwner(brand, {
+        fid: session.sub,
+        addresses: requesterAddresses,
+      });
 
       if (!hasPermission) {
         return hasError(
@@ -157,7 +182,7 @@ export class BrandController {
         availableBrnd: brand.availableBrnd,
         totalBrndAwarded: brand.totalBrndAwarded,
         walletAddress: brand.walletAddress,
-        requesterAddress,
+        requesterAddress: requesterAddresses.find(Boolean) || null,
         canWithdraw: parseFloat(brand.availableBrnd) > 0,
         message:
           parseFloat(brand.availableBrnd) > 0
@@ -175,6 +200,133 @@ export class BrandController {
     }
   }
 
+  /**
+   * Brands the authenticated user owns through their FID or wallet.
+   */
+  @Get('/owner/brands')
+  @UseGuards(AuthorizationGuard)
+  async getOwnedBrands(
+    @Session() session: QuickAuthPayload,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const dbUser = await this.userService.getByFid(session.sub);
+      const brands = await this.brandOwnerService.getOwnedBrands({
+        fid: session.sub,
+        addresses: [session.address, dbUser?.address],
+      });
+
+      return hasResponse(res, { brands });
+    } catch (error) {
+      logger.error('Failed to get owned brands:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getOwnedBrands',
+        'Failed to get owned brands',
+      );
+    }
+  }
+
+  /**
+   * Analytics for a brand's owner: votes by position, voters over time,
+   * audience overlap, top voters, rank history, BRND and collectibles.
+   * Defaults to the last 30 days.
+   */
+  @Get('/brand/:brandId/dashboard')
+  @UseGuards(AuthorizationGuard)
+  async getBrandDashboard(
+    @Session() session: QuickAuthPayload,
+    @Param('brandId') brandId: Brand['id'],
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Query('rankPeriod')
+    rankPeriod: BrandRankingPeriodEnum = BrandRankingPeriodEnum.DAY,
+    @Res() res: Response,
+  ): Promise<Response> {
+    if (!Object.values(BrandRankingPeriodEnum).includes(rankPeriod)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getBrandDashboard',
+        'rankPeriod must be "day", "week" or "month"',
+      );
+    }
+
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from
+      ? new Date(from)
+      : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (
+      isNaN(fromDate.getTime()) ||
+      isNaN(toDate.getTime()) ||
+      fromDate >= toDate
+    ) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getBrandDashboard',
+        'Invalid from or to date',
+      );
+    }
+    if (
+      toDate.getTime() - fromDate.getTime() >
+      MAX_DASHBOARD_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getBrandDashboard',
+        `The dashboard can span at most ${MAX_DASHBOARD_DAYS} days`,
+      );
+    }
+
+    try {
+      const brandResponse = await this.brandService.getById(Number(brandId));
+      if (!brandResponse) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getBrandDashboard',
+          'Brand not found',
+        );
+      }
+
+      const dbUser = await this.userService.getByFid(session.sub);
+      const isOwner = this.brandOwnerService.isBrandOwner(brandResponse.brand, {
+        fid: session.sub,
+        addresses: [session.address, dbUser?.address],
+      });
+      if (!isOwner) {
+        return hasError(
+          res,
+          HttpStatus.FORBIDDEN,
+          'getBrandDashboard',
+          'You do not have permission to view this brand dashboard',
+        );
+      }
+
+      logger.log(
+        `📊 [BRAND] Dashboard for brand ${brandResponse.brand.id} requested by FID: ${session.sub}`,
+      );
+
+      const dashboard = await this.brandOwnerService.getDashboard(
+        brandResponse.brand,
+        { from: fromDate, to: toDate, rankPeriod },
+      );
+
+      return hasResponse(res, dashboard);
+    } catch (error) {
+      logger.error('Failed to get brand dashboard:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getBrandDashboard',
+        'Failed to get brand dashboard',
+      );
+    }
+  }
+
   @Get('/list')
   @UseGuards(AuthorizationGuard)
   async getAllBrands(
@@ -183,42 +335,182 @@ export class BrandController {
     @Query('search') search: string,
     @Query('pageId') pageId: number,
     @Query('limit') limit: number,
+    @Query('categoryId') categoryId: string,
+    @Query('tags') tags: string,
+    @Query('cursor') cursor: string,
     @Res() res: Response,
   ) {
-    const [brands, count] = await this.brandService.getAll(
-      [
-        'id',
-        'name',
-        'url',
-        'imageUrl',
-        'profile',
-        'channel',
-        'stateScore',
-        'score',
-        'ranking',
-        'scoreWeek',
-        'stateScoreWeek',
-        'rankingWeek',
-        'scoreMonth',
-        'stateScoreMonth',
-        'rankingMonth',
-        'banned',
-        'scoreDay',
-        'createdAt',
-      ],
-      [],
-      order,
+    // tags is a comma separated list of tag ids; brands must carry them all
+    const filters: BrandListFilters = {
+      categoryId: Number(categoryId) || undefined,
+      tagIds: (tags || '')
+        .split(',')
+        .map((tagId) => Number(tagId))
+        .filter((tagId) => tagId > 0),
+    };
+
+    try {
+      const [brands, count, nextCursor] = await this.brandService.getAll(
+        [
+          'id',
+          'name',
+          'url',
+          'imageUrl',
+          'profile',
+          'channel',
+          'stateScore',
+          'score',
+          'ranking',
+          'scoreWeek',
+          'stateScoreWeek',
+          'rankingWeek',
+          'scoreMonth',
+          'stateScoreMonth',
+          'rankingMonth',
+          'banned',
+          'scoreDay',
+          'rankingDay',
+          'createdAt',
+        ],
+        [],
+        order,
+        period,
+        search,
+        pageId,
+        limit,
+        filters,
+        cursor || undefined,
+      );
+      const facets = await this.brandService.getFacets(search || '', filters);
+
+      return hasResponse(res, {
+        pageId,
+        count,
+        brands,
+        nextCursor,
+        facets,
+      });
+    } catch (error) {
+      return hasError(
+        res,
+        error.message === 'Invalid cursor'
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.INTERNAL_SERVER_ERROR,
+        'getAllBrands',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Typeahead search over brand names, handles, descriptions, categories
+   * and tags, tolerant of small typos.
+   */
+  @Get('/search')
+  @UseGuards(AuthorizationGuard)
+  async searchBrands(
+    @Query('q') q: string,
+    @Query('limit') limit: number = 10,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const brands = await this.brandSearchService.search(
+        q || '',
+        Math.min(Math.max(Number(limit) || 10, 1), 50),
+      );
+      return hasResponse(res, { brands });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'searchBrands',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Every tag with the number of listed brands carrying it, for the
+   * discovery filters.
+   */
+  @Get('/tags')
+  async getTags(@Res() res: Response): Promise<Response> {
+    try {
+      const tags = await this.tagService.getTags();
+      return hasResponse(res, { tags });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getTags',
+        error.message,
+      );
+    }
+  }
+
+  @Get('/categories/:id/leaderboard')
+  async getCategoryLeaderboard(
+    @Param('id') id: number,
+    @Query('period') period: BrandLeaderboardPeriod = 'week',
+    @Query('limit') limit: number = 10,
+    @Res() res: Response,
+  ): Promise<Response> {
+    return this.sendGroupLeaderboard(
+      res,
+      'getCategoryLeaderboard',
+      { categoryId: Number(id) },
       period,
-      search,
-      pageId,
       limit,
     );
+  }
 
-    return hasResponse(res, {
-      pageId,
-      count,
-      brands,
-    });
+  @Get('/tags/:id/leaderboard')
+  async getTagLeaderboard(
+    @Param('id') id: number,
+    @Query('period') period: BrandLeaderboardPeriod = 'week',
+    @Query('limit') limit: number = 10,
+    @Res() res: Response,
+  ): Promise<Response> {
+    return this.sendGroupLeaderboard(
+      res,
+      'getTagLeaderboard',
+      { tagId: Number(id) },
+      period,
+      limit,
+    );
+  }
+
+  private async sendGroupLeaderboard(
+    res: Response,
+    name: string,
+    group: { categoryId: number } | { tagId: number },
+    period: BrandLeaderboardPeriod,
+    limit: number,
+  ): Promise<Response> {
+    if (!['day', 'week', 'month'].includes(period)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        name,
+        'Invalid period. Use day, week or month',
+      );
+    }
+
+    try {
+      const brands = await this.brandService.getGroupLeaderboard(
+        group,
+        period,
+        Math.min(Math.max(Number(limit) || 10, 1), 100),
+      );
+      return hasResponse(res, { ...group, period, brands });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        name,
+        error.message,
+      );
+    }
   }
 
   @Post('/verify-share')
@@ -551,7 +843,11 @@ export class BrandController {
           );
         }
 
-        const updatedUser = await this.userService.addPoints(dbUser.id, 3);
+        const updatedUser = await this.userService.addPoints(dbUser.id, 3, {
+          reason: PointsReasonEnum.SHARE,
+          voteTransactionHash: vote.transactionHash,
+          note: `Verified share ${resolvedCastHash}`,
+        });
 
         const voteTimestamp = Math.floor(new Date(vote.date).getTime() / 1000);
         const day = Math.floor(voteTimestamp / 86400);
@@ -797,30 +1093,225 @@ export class BrandController {
     }
   }
 
+  /**
+   * Submits a channel or profile to be listed as a brand. If the brand is
+   * already listed it is returned instead, and if the same channel or
+   * profile is already pending the submission counts as an upvote.
+   */
   @Post('/request')
   @UseGuards(AuthorizationGuard)
   async requestBrand(
-    @Session() user: CurrentUser,
-    @Body() { name }: { name: string },
+    @Session() user: QuickAuthPayload,
+    @Body() body: BrandRequestInput,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const dbUser = await this.userService.getByFid(user.sub);
+      if (!dbUser) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'requestBrand',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const submission = await this.brandRequestService.submitRequest(
+        dbUser.id,
+        body || {},
+      );
+
+      if (submission.outcome === 'existing_brand') {
+        return hasError(
+          res,
+          HttpStatus.CONFLICT,
+          'requestBrand',
+          `${submission.brand.name} is already listed (brand ${submission.brand.id})`,
+        );
+      }
+
+      return hasResponse(res, submission);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'requestBrand',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Lists brand requests, most upvoted first for pending ones.
+   */
+  @Get('/requests')
+  @UseGuards(AuthorizationGuard)
+  async getBrandRequests(
+    @Session() user: QuickAuthPayload,
+    @Query('status')
+    status: BrandRequestStatusEnum = BrandRequestStatusEnum.PENDING,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
     @Res() res: Response,
   ): Promise<Response> {
+    if (!Object.values(BrandRequestStatusEnum).includes(status)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getBrandRequests',
+        `Invalid status: ${status}`,
+      );
+    }
+
     try {
-      // (Intentionally left blank: no-op for now, removed logs)
-      return hasResponse(res, {});
+      const dbUser = await this.userService.getByFid(user.sub);
+      const requests = await this.brandRequestService.getRequests(
+        status,
+        Math.max(1, Number(page) || 1),
+        Math.min(100, Math.max(1, Number(limit) || 20)),
+        dbUser?.id,
+      );
+
+      return hasResponse(res, requests);
     } catch (error) {
       return hasError(
         res,
         HttpStatus.INTERNAL_SERVER_ERROR,
-        'requestBrand',
-        error.toString(),
+        'getBrandRequests',
+        error.message,
+      );
+    }
+  }
+
+  @Post('/requests/:id/upvote')
+  @UseGuards(AuthorizationGuard)
+  async upvoteBrandRequest(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const dbUser = await this.userService.getByFid(user.sub);
+      if (!dbUser) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'upvoteBrandRequest',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const request = await this.brandRequestService.upvoteRequest(
+        Number(id),
+        dbUser.id,
+      );
+
+      return hasResponse(res, request);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'upvoteBrandRequest',
+        error.message,
       );
     }
   }
 
   @Post('/:id/follow')
   @UseGuards(AuthorizationGuard)
-  async followBrand(@Session() user: CurrentUser, @Param('id') id: string) {
-    // (Intentionally left blank: no-op, removed logs)
+  async followBrand(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const dbUser = await this.userService.getByFid(user.sub);
+      if (!dbUser) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'followBrand',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const follow = await this.brandFollowService.follow(
+        dbUser.id,
+        Number(id),
+      );
+
+      return hasResponse(res, follow);
+    } catch (error) {
+      return hasError(res, HttpStatus.NOT_FOUND, 'followBrand', error.message);
+    }
+  }
+
+  @Delete('/:id/follow')
+  @UseGuards(AuthorizationGuard)
+  async unfollowBrand(
+    @Session() user: QuickAuthPayload,
+    @Param('id') id: number,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const dbUser = await this.userService.getByFid(user.sub);
+      if (!dbUser) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'unfollowBrand',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const follow = await this.brandFollowService.unfollow(
+        dbUser.id,
+        Number(id),
+      );
+
+      return hasResponse(res, follow);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'unfollowBrand',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * The brands the user follows with their current day, week and all-time
+   * ranks.
+   */
+  @Get('/followed')
+  @UseGuards(AuthorizationGuard)
+  async getFollowedBrands(
+    @Session() user: QuickAuthPayload,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const dbUser = await this.userService.getByFid(user.sub);
+      if (!dbUser) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getFollowedBrands',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const brands = await this.brandFollowService.getFollowedBrands(dbUser.id);
+
+      return hasResponse(res, { brands });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getFollowedBrands',
+        error.message,
+      );
+    }
   }
 
   @Get('/debug/scoring')
@@ -922,6 +1413,230 @@ export class BrandController {
     }
   }
 
+  /**
+   * Leaderboard of a finished day, week or month as it stood when the period
+   * closed. Defaults to the most recently closed period.
+   */
+  @Get('/rankings/:period/as-of')
+  async getRankingsAsOf(
+    @Param('period') period: BrandRankingPeriodEnum,
+    @Query('date') date: string,
+    @Query('limit') limit: number = 10,
+    @Res() res: Response,
+  ) {
+    if (!Object.values(BrandRankingPeriodEnum).includes(period)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getRankingsAsOf',
+        'Period must be "day", "week" or "month"',
+      );
+    }
+
+    const asOf = date ? new Date(date) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getRankingsAsOf',
+        'Invalid date',
+      );
+    }
+
+    try {
+      const leaderboard =
+        await this.brandRankingSnapshotService.getLeaderboardAsOf(
+          period,
+          asOf,
+          Math.min(Number(limit) || 10, 500),
+        );
+
+      if (!leaderboard) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getRankingsAsOf',
+          `No ${period} ranking snapshot found before ${asOf.toISOString()}`,
+        );
+      }
+
+      return hasResponse(res, leaderboard);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getRankingsAsOf',
+        error.message,
+      );
+    }
+  }
+
+  @Get('/rankings/:period/periods')
+  async getRankingPeriods(
+    @Param('period') period: BrandRankingPeriodEnum,
+    @Query('limit') limit: number = 52,
+    @Res() res: Response,
+  ) {
+    if (!Object.values(BrandRankingPeriodEnum).includes(period)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getRankingPeriods',
+        'Period must be "day", "week" or "month"',
+      );
+    }
+
+    try {
+      const periods = await this.brandRankingSnapshotService.getSnapshotPeriods(
+        period,
+        Math.min(Number(limit) || 52, 500),
+      );
+
+      return hasResponse(res, { period, periods });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getRankingPeriods',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * A brand's rank and totals in every snapshotted period between from and
+   * to. Defaults to the last 12 weeks.
+   */
+  @Get('/brand/:id/ranking-history')
+  async getBrandRankingHistory(
+    @Param('id') id: number,
+    @Query('period')
+    period: BrandRankingPeriodEnum = BrandRankingPeriodEnum.WEEK,
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Res() res: Response,
+  ) {
+    if (!Object.values(BrandRankingPeriodEnum).includes(period)) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getBrandRankingHistory',
+        'Period must be "day", "week" or "month"',
+      );
+    }
+
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from
+      ? new Date(from)
+      : new Date(toDate.getTime() - 12 * 7 * 24 * 60 * 60 * 1000);
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getBrandRankingHistory',
+        'Invalid from or to date',
+      );
+    }
+
+    try {
+      const history = await this.brandRankingSnapshotService.getBrandTrajectory(
+        Number(id),
+        period,
+        fromDate,
+        toDate,
+      );
+
+      return hasResponse(res, {
+        brandId: Number(id),
+        period,
+        from: fromDate,
+        to: toDate,
+        history,
+      });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getBrandRankingHistory',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Brands voters most often podium together with this one, alone and in
+   * pairs, from the nightly affinity graph. sort is "podiums" or "lift".
+   */
+  @Get('/brand/:id/related')
+  async getRelatedBrands(
+    @Param('id') id: number,
+    @Query('sort') sort: BrandAffinitySort = 'podiums',
+    @Query('limit') limit: number = 10,
+    @Res() res: Response,
+  ): Promise<Response> {
+    if (sort !== 'podiums' && sort !== 'lift') {
+      return hasError(
+        res,
+        HttpStatus.BAD_REQUEST,
+        'getRelatedBrands',
+        'Sort must be "podiums" or "lift"',
+      );
+    }
+
+    try {
+      const related = await this.brandAffinityService.getRelatedBrands(
+        Number(id),
+        sort,
+        Math.min(Math.max(Number(limit) || 10, 1), 50),
+      );
+      return hasResponse(res, { brandId: Number(id), sort, ...related });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getRelatedBrands',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Brands to suggest for the authenticated user's next podium, based on
+   * the brands they voted for before.
+   */
+  @Get('/suggestions')
+  @UseGuards(AuthorizationGuard)
+  async getBrandSuggestions(
+    @Session() user: QuickAuthPayload,
+    @Query('limit') limit: number = 10,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const dbUser = await this.userService.getByFid(user.sub);
+      if (!dbUser) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getBrandSuggestions',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const suggestions = await this.brandAffinityService.getSuggestions(
+        dbUser.id,
+        Math.min(Math.max(Number(limit) || 10, 1), 50),
+      );
+      return hasResponse(res, { suggestions });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getBrandSuggestions',
+        error.message,
+      );
+    }
+  }
+
   @Get('/dev/stats')
   @UseGuards(AuthorizationGuard)
   async getDatabaseStats(
@@ -9,6 +9,14 @@ import { BrandController } from './brand.controller';
 import { BrandService } from './services';
 import { BrandMetricsService } from './services/brand-metrics.service';
 import { BrandRankingService } from './services/brand-ranking.service';
+import { BrandScoreLedgerService } from './services/brand-score-ledger.service';
+import { BrandRankingSnapshotService } from './services/brand-ranking-snapshot.service';
+import { BrandRequestService } from './services/brand-request.service';
+import { BrandFollowService } from './services/brand-follow.service';
+import { BrandSearchService } from './services/brand-search.service';
+import { BrandOwnerService } from './services/brand-owner.service';
+import { BrandAffinityService } from './services/brand-affinity.service';
+import { RankingQueueService } from '../../services/ranking-queue.service';
 import { UserService } from '../user/services';
 import { BrandSeederService } from './services/brand-seeding.service';
 import { AdminService } from '../admin/services/admin.service';
@@ -24,11 +32,23 @@ import {
   RewardClaim,
   AirdropScore,
   AirdropSnapshot,
+  BrandScoreEntry,
+  BrandRankingSnapshot,
+  RankingQueueEntry,
+  BrandRequest,
+  BrandRequestVote,
+  BrandFollow,
+  BrandAffinity,
 } from '../../models';
 import { AuthModule } from '../auth/auth.module';
 import { BrandSchedulerService } from './services/brand-scheduler.service';
 import { BlockchainModule } from '../blockchain/blockchain.module';
 import { NotificationModule } from '../notification/notification.module';
+import { LiveModule } from '../live/live.module';
+import { SeasonModule } from '../season/season.module';
+import { ScoringModule } from '../scoring/scoring.module';
+import { PointsModule } from '../points/points.module';
+import { TagModule } from '../tag/tag.module';
 
 @Module({
   imports: [
@@ -41,22 +61,51 @@ import { NotificationModule } from '../notification/notification.module';
       RewardClaim,
       AirdropScore,
       AirdropSnapshot,
+      BrandScoreEntry,
+      BrandRankingSnapshot,
+      RankingQueueEntry,
+      BrandRequest,
+      BrandRequestVote,
+      BrandFollow,
+      BrandAffinity,
     ]),
     forwardRef(() => AuthModule),
     forwardRef(() => BlockchainModule),
     NotificationModule,
+    LiveModule,
+    SeasonModule,
+    ScoringModule,
+    PointsModule,
+    TagModule,
   ],
   controllers: [BrandController],
   providers: [
     BrandService,
     BrandMetricsService,
     BrandRankingService,
+    BrandScoreLedgerService,
+    BrandRankingSnapshotService,
+    BrandRequestService,
+    BrandFollowService,
+    BrandSearchService,
+    BrandOwnerService,
+    BrandAffinityService,
+    RankingQueueService,
     UserService,
     BrandSeederService,
     AdminService,
     BrandSchedulerService,
     IpfsService,
   ],
-  exports: [BrandService, BrandRankingService],
+  exports: [
+    BrandService,
+    BrandRankingService,
+    BrandScoreLedgerService,
+    BrandRankingSnapshotService,
+    BrandRequestService,
+    BrandFollowService,
+    BrandAffinityService,
+    RankingQueueService,
+  ],
 })
 export class BrandModule {}
@@ -0,0 +1,488 @@
+import { Injectable } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import {
+  Brand,
+  BrandAffinity,
+  BrandAffinityKindEnum,
+  UserBrandVotes,
+} from '../../../models';
+import { UserService } from '../../user/services';
+import { logger } from '../../../main';
+
+// The graph is built from podiums cast over this many days, so it follows
+// what voters pick now rather than at launch
+const AFFINITY_WINDOW_DAYS = 90;
+
+// Co-occurrences seen fewer times are noise and their lift is meaningless
+const MIN_PAIR_PODIUMS = 3;
+const MIN_TRIPLE_PODIUMS = 3;
+
+// Triples grow much faster than pairs; only the most common are kept
+const MAX_TRIPLES_PER_BRAND = 20;
+
+// How many of a user's most voted brands their suggestions are based on
+const SUGGESTION_HISTORY_BRANDS = 10;
+
+const INSERT_BATCH_SIZE = 500;
+
+export type BrandAffinitySort = 'podiums' | 'lift';
+
+export interface BrandAffinityBuildSummary {
+  builtAt: Date;
+  podiums: number;
+  brands: number;
+  pairs: number;
+  triples: number;
+}
+
+interface AffinityBrand {
+  id: number;
+  name: string;
+  imageUrl: string;
+}
+
+export interface RelatedBrands {
+  builtAt: Date | null;
+  pairs: Array<{
+    brand: AffinityBrand;
+    podiums: number;
+    confidence: number;
+    lift: number;
+    pmi: number;
+  }>;
+  triples: Array<{
+    brands: AffinityBrand[];
+    podiums: number;
+    confidence: number;
+    lift: number;
+    pmi: number;
+  }>;
+}
+
+export interface BrandSuggestion {
+  brand: AffinityBrand;
+  score: number;
+  // 'affinity' when voters of the user's brands also pick it, 'popular'
+  // when it only fills the list
+  source: 'affinity' | 'popular';
+  // The user's brands the suggestion is most tied to
+  because: AffinityBrand[];
+}
+
+@Injectable()
+export class BrandAffinityService {
+  private building = false;
+
+  constructor(
+    @InjectRepository(BrandAffinity)
+    private readonly brandAffinityRepository: Repository<BrandAffinity>,
+    @InjectRepository(UserBrandVotes)
+    private readonly userBrandVotesRepository: Repository<UserBrandVotes>,
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+    private readonly userService: UserService,
+  ) {}
+
+  @Cron('30 0 * * *', { name: 'brand-affinity-build', timeZone: 'UTC' })
+  async handleScheduledBuild(): Promise<void> {
+    try {
+      await this.build();
+    } catch (error) {
+      logger.error('❌ [BRAND AFFINITY] Scheduled build failed:', error);
+    }
+  }
+
+  /**
+   * Rebuilds the affinity graph from the podiums of the last
+   * AFFINITY_WINDOW_DAYS, leaving out banned users and brands. The old
+   * graph stays readable until the new one replaces it.
+   */
+  async build(now: Date = new Date()): Promise<BrandAffinityBuildSummary> {
+    if (this.building) {
+      throw new Error('The brand affinity graph is already being built');
+    }
+    this.building = true;
+
+    try {
+      const startTime = Date.now();
+      const since = new Date(
+        now.getTime() - AFFINITY_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      );
+
+      // Each podium's distinct listed brands, from votes of users who are
+      // not banned. Everything below is counted over this set
+      const podiumBrands = `
+        WITH podium_brands AS (
+          SELECT DISTINCT p.voteId, p.brandId
+          FROM (
+            SELECT
+              v.transactionHash AS voteId,
+              CASE slot.n
+                WHEN 1 THEN v.brand1Id
+                WHEN 2 THEN v.brand2Id
+                ELSE v.brand3Id
+              END AS brandId
+            FROM user_brand_votes v
+            INNER JOIN users u ON u.id = v.userId
+            CROSS JOIN (SELECT 1 AS n UNION ALL SELECT 2 UNION ALL SELECT 3) slot
+            WHERE v.date >= ? AND v.date < ? AND u.banned = 0
+          ) p
+          INNER JOIN brands b ON b.id = p.brandId AND b.banned = 0
+        )`;
+      const range = [since, now];
+
+      const [podiumRows, brandRows, pairRows, tripleRows] = await Promise.all([
+        this.userBrandVotesRepository.query(
+          `${podiumBrands}
+            SELECT COUNT(DISTINCT voteId) AS podiums FROM podium_brands`,
+          range,
+        ),
+        this.userBrandVotesRepository.query(
+          `${podiumBrands}
+            SELECT brandId, COUNT(*) AS podiums
+            FROM podium_brands
+            GROUP BY brandId`,
+          range,
+        ),
+        this.userBrandVotesRepository.query(
+          `${podiumBrands}
+            SELECT a.brandId AS a, b.brandId AS b, COUNT(*) AS podiums
+            FROM podium_brands a
+            INNER JOIN podium_brands b
+              ON b.voteId = a.voteId AND b.brandId > a.brandId
+            GROUP BY a.brandId, b.brandId
+            HAVING COUNT(*) >= ?`,
+          [...range, MIN_PAIR_PODIUMS],
+        ),
+        this.userBrandVotesRepository.query(
+          `${podiumBrands}
+            SELECT a.brandId AS a, b.brandId AS b, c.brandId AS c, COUNT(*) AS podiums
+            FROM podium_brands a
+            INNER JOIN podium_brands b
+              ON b.voteId = a.voteId AND b.brandId > a.brandId
+            INNER JOIN podium_brands c
+              ON c.voteId = a.voteId AND c.brandId > b.brandId
+            GROUP BY a.brandId, b.brandId, c.brandId
+            HAVING COUNT(*) >= ?`,
+          [...range, MIN_TRIPLE_PODIUMS],
+        ),
+      ]);
+
+      const podiums = Number(podiumRows[0]?.podiums) || 0;
+      const brandCounts = new Map<number, number>(
+        brandRows.map((row) => [Number(row.brandId), Number(row.podiums)]),
+      );
+
+      const builtAt = new Date();
+      const rows: Array<Partial<BrandAffinity>> = [];
+
+      for (const row of pairRows) {
+        const [a, b] = [Number(row.a), Number(row.b)];
+        const count = Number(row.podiums);
+        const lift =
+          (count * podiums) / (brandCounts.get(a) * brandCounts.get(b));
+        rows.push(
+          this.toRow(
+            BrandAffinityKindEnum.PAIR,
+            a,
+            [b],
+            count,
+            brandCounts.get(a),
+            lift,
+            builtAt,
+          ),
+          this.toRow(
+            BrandAffinityKindEnum.PAIR,
+            b,
+            [a],
+            count,
+            brandCounts.get(b),
+            lift,
+            builtAt,
+          ),
+        );
+      }
+      const pairs = rows.length / 2;
+
+      const triplesByBrand = new Map<number, Array<Partial<BrandAffinity>>>();
+      for (const row of tripleRows) {
+        const brandIds = [row.a, row.b, row.c].map(Number);
+        const count = Number(row.podiums);
+        const lift =
+          (count * podiums * podiums) /
+          brandIds.reduce(
+            (product, brandId) => product * brandCounts.get(brandId),
+            1,
+          );
+        for (const brandId of brandIds) {
+          if (!triplesByBrand.has(brandId)) {
+            triplesByBrand.set(brandId, []);
+          }
+          triplesByBrand.get(brandId).push(
+            this.toRow(
+              BrandAffinityKindEnum.TRIPLE,
+              brandId,
+              brandIds.filter((other) => other !== brandId),
+              count,
+              brandCounts.get(brandId),
+              lift,
+              builtAt,
+            ),
+          );
+        }
+      }
+      let triples = 0;
+      for (const brandTriples of triplesByBrand.values()) {
+        const kept = brandTriples
+          .sort((a, b) => b.podiums - a.podiums || b.lift - a.lift)
+          .slice(0, MAX_TRIPLES_PER_BRAND);
+        rows.push(...kept);
+        triples += kept.length;
+      }
+
+      await this.brandAffinityRepository.manager.transaction(
+        async (manager) => {
+          await manager
+            .createQueryBuilder()
+            .delete()
+            .from(BrandAffinity)
+            .execute();
+          for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+            await manager.insert(
+              BrandAffinity,
+              rows.slice(i, i + INSERT_BATCH_SIZE),
+            );
+          }
+        },
+      );
+
+      logger.log(
+        `🕸️ [BRAND AFFINITY] Built graph from ${podiums} podiums: ${pairs} pairs, ${triples} triple rows in ${Date.now() - startTime}ms`,
+      );
+      return {
+        builtAt,
+        podiums,
+        brands: brandCounts.size,
+        pairs,
+        triples,
+      };
+    } finally {
+      this.building = false;
+    }
+  }
+
+  /**
+   * Brands most often podiumed together with the given one, alone and in
+   * pairs. Sorting by lift favours brands whose voters single them out over
+   * brands that are simply popular.
+   */
+  async getRelatedBrands(
+    brandId: number,
+    sort: BrandAffinitySort = 'podiums',
+    limit: number = 10,
+  ): Promise<RelatedBrands> {
+    const findRows = (kind: BrandAffinityKindEnum) =>
+      this.brandAffinityRepository.find({
+        where: { brandId, kind },
+        order:
+          sort === 'lift'
+            ? { lift: 'DESC', podiums: 'DESC' }
+            : { podiums: 'DESC', lift: 'DESC' },
+        take: limit,
+      });
+    const [pairRows, tripleRows] = await Promise.all([
+      findRows(BrandAffinityKindEnum.PAIR),
+      findRows(BrandAffinityKindEnum.TRIPLE),
+    ]);
+
+    const brands = await this.getBrands([
+      ...pairRows.map((row) => row.relatedBrandId),
+      ...tripleRows.flatMap((row) => [row.relatedBrandId, row.thirdBrandId]),
+    ]);
+
+    return {
+      builtAt: pairRows[0]?.builtAt || tripleRows[0]?.builtAt || null,
+      // Brands banned since the build are dropped
+      pairs: pairRows
+        .filter((row) => brands.has(row.relatedBrandId))
+        .map((row) => ({
+          brand: brands.get(row.relatedBrandId),
+          ...this.toScores(row),
+        })),
+      triples: tripleRows
+        .filter(
+          (row) =>
+            brands.has(row.relatedBrandId) && brands.has(row.thirdBrandId),
+        )
+        .map((row) => ({
+          brands: [
+            brands.get(row.relatedBrandId),
+            brands.get(row.thirdBrandId),
+          ],
+          ...this.toScores(row),
+        })),
+    };
+  }
+
+  /**
+   * Brands a user may want on their next podium: brands that voters of the
+   * user's favourite brands pick more often than chance, weighted by how
+   * much the user likes each favourite. Brands the user already voted for
+   * are left out, and the list is topped up with the best ranked brands
+   * when the graph knows too little about the user.
+   */
+  async getSuggestions(
+    userId: number,
+    limit: number = 10,
+  ): Promise<BrandSuggestion[]> {
+    const history = await this.userService.getUserBrands(userId);
+    const votedIds = new Set(history.map((entry) => entry.brand.id));
+    const favourites = history.slice(0, SUGGESTION_HISTORY_BRANDS);
+    const maxPoints = Math.max(1, ...favourites.map((entry) => entry.points));
+
+    const candidates = new Map<
+      number,
+      { score: number; because: Map<number, number> }
+    >();
+    if (favourites.length > 0) {
+      const rows = await this.brandAffinityRepository.find({
+        where: {
+          brandId: In(favourites.map((entry) => entry.brand.id)),
+          kind: BrandAffinityKindEnum.PAIR,
+        },
+      });
+      const weights = new Map(
+        favourites.map((entry) => [entry.brand.id, entry.points / maxPoints]),
+      );
+
+      for (const row of rows) {
+        if (votedIds.has(row.relatedBrandId) || Number(row.lift) <= 1) {
+          continue;
+        }
+        const contribution = weights.get(row.brandId) * Number(row.confidence);
+        const candidate = candidates.get(row.relatedBrandId) || {
+          score: 0,
+          because: new Map<number, number>(),
+        };
+        candidate.score += contribution;
+        candidate.because.set(row.brandId, contribution);
+        candidates.set(row.relatedBrandId, candidate);
+      }
+    }
+
+    const ranked = [...candidates.entries()]
+      .sort(([aId, a], [bId, b]) => b.score - a.score || aId - bId)
+      .slice(0, limit);
+    const brands = await this.getBrands(ranked.map(([brandId]) => brandId));
+    const favouriteBrands = new Map(
+      favourites.map((entry) => [
+        entry.brand.id,
+        {
+          id: entry.brand.id,
+          name: entry.brand.name,
+          imageUrl: entry.brand.imageUrl,
+        },
+      ]),
+    );
+
+    const suggestions: BrandSuggestion[] = ranked
+      .filter(([brandId]) => brands.has(brandId))
+      .map(([brandId, candidate]) => ({
+        brand: brands.get(brandId),
+        score: Math.round(candidate.score * 10000) / 10000,
+        source: 'affinity',
+        because: [...candidate.because.entries()]
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, 3)
+          .map(([favouriteId]) => favouriteBrands.get(favouriteId)),
+      }));
+
+    if (suggestions.length < limit) {
+      const taken = new Set([
+        ...votedIds,
+        ...suggestions.map((suggestion) => suggestion.brand.id),
+      ]);
+      const popular = await this.brandRepository
+        .createQueryBuilder('brand')
+        .select(['brand.id', 'brand.name', 'brand.imageUrl'])
+        .where('brand.banned = 0')
+        .orderBy('brand.score', 'DESC')
+        .addOrderBy('brand.id', 'ASC')
+        .limit(limit + taken.size)
+        .getMany();
+
+      for (const brand of popular) {
+        if (suggestions.length >= limit) {
+          break;
+        }
+        if (!taken.has(brand.id)) {
+          suggestions.push({
+            brand: { id: brand.id, name: brand.name, imageUrl: brand.imageUrl },
+            score: 0,
+            source: 'popular',
+            because: [],
+          });
+        }
+      }
+    }
+
+    return suggestions;
+  }
+
+  private toRow(
+    kind: BrandAffinityKindEnum,
+    brandId: number,
+    relatedBrandIds: number[],
+    podiums: number,
+    brandPodiums: number,
+    lift: number,
+    builtAt: Date,
+  ): Partial<BrandAffinity> {
+    return {
+      kind,
+      brandId,
+      relatedBrandId: relatedBrandIds[0],
+      thirdBrandId: relatedBrandIds[1] ?? null,
+      podiums,
+      confidence: Math.round((podiums / brandPodiums) * 1e6) / 1e6,
+      lift: Math.round(lift * 1e4) / 1e4,
+      pmi: Math.round(Math.log2(lift) * 1e4) / 1e4,
+      builtAt,
+    };
+  }
+
+  private toScores(row: BrandAffinity) {
+    return {
+      podiums: row.podiums,
+      confidence: Number(row.confidence),
+      lift: Number(row.lift),
+      pmi: Number(row.pmi),
+    };
+  }
+
+  /**
+   * Listed brands by id; banned and unknown ids are left out.
+   */
+  private async getBrands(
+    brandIds: number[],
+  ): Promise<Map<number, AffinityBrand>> {
+    const ids = [...new Set(brandIds)];
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const brands = await this.brandRepository.find({
+      select: ['id', 'name', 'imageUrl'],
+      where: { id: In(ids), banned: 0 },
+    });
+    return new Map(
+      brands.map((brand) => [
+        brand.id,
+        { id: brand.id, name: brand.name, imageUrl: brand.imageUrl },
+      ]),
+    );
+  }
+}
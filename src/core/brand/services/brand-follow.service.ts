@@ -0,0 +1,224 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import { Brand, BrandFollow } from '../../../models';
+import { FarcasterNotificationService } from '../../notification/services';
+import { logger } from '../../../main';
+
+export interface FollowedBrand {
+  id: number;
+  name: string;
+  imageUrl: string;
+  url: string;
+  channel: string;
+  profile: string;
+  rankingDay: number;
+  rankingWeek: number;
+  currentRanking: number;
+  scoreDay: number;
+  scoreWeek: number;
+  followedAt: Date;
+}
+
+export interface BrandDayRankChange {
+  brandId: number;
+  name: string;
+  previous: number;
+  current: number;
+}
+
+@Injectable()
+export class BrandFollowService {
+  constructor(
+    @InjectRepository(BrandFollow)
+    private readonly brandFollowRepository: Repository<BrandFollow>,
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+    private readonly farcasterNotificationService: FarcasterNotificationService,
+  ) {}
+
+  /**
+   * Follows a brand. Following a brand twice is a no-op.
+   */
+  async follow(
+    userId: number,
+    brandId: number,
+  ): Promise<{ following: boolean; followers: number }> {
+    const brand = await this.brandRepository.findOne({
+      where: { id: brandId },
+      select: ['id', 'banned'],
+    });
+    if (!brand || brand.banned) {
+      throw new Error(`Brand ${brandId} not found`);
+    }
+
+    await this.brandFollowRepository
+      .createQueryBuilder()
+      .insert()
+      .into(BrandFollow)
+      .values({ userId, brandId })
+      .orIgnore()
+      .execute();
+
+    return { following: true, followers: await this.countFollowers(brandId) };
+  }
+
+  async unfollow(
+    userId: number,
+    brandId: number,
+  ): Promise<{ following: boolean; followers: number }> {
+    await this.brandFollowRepository.delete({ userId, brandId });
+    return { following: false, followers: await this.countFollowers(brandId) };
+  }
+
+  async countFollowers(brandId: number): Promise<number> {
+    return this.brandFollowRepository.count({ where: { brandId } });
+  }
+
+  /**
+   * The brands a user follows with their current ranks, most recently
+   * followed first. A day or week rank of 0 means the brand has not scored
+   * in that period yet.
+   */
+  async getFollowedBrands(userId: number): Promise<FollowedBrand[]> {
+    const rows = await this.brandFollowRepository
+      .createQueryBuilder('follow')
+      .innerJoin(Brand, 'brand', 'brand.id = follow.brandId')
+      .select('brand.id', 'id')
+      .addSelect('brand.name', 'name')
+      .addSelect('brand.imageUrl', 'imageUrl')
+      .addSelect('brand.url', 'url')
+      .addSelect('brand.channel', 'channel')
+      .addSelect('brand.profile', 'profile')
+      .addSelect('brand.rankingDay', 'rankingDay')
+      .addSelect('brand.rankingWeek', 'rankingWeek')
+      .addSelect('brand.currentRanking', 'currentRanking')
+      .addSelect('brand.scoreDay', 'scoreDay')
+      .addSelect('brand.scoreWeek', 'scoreWeek')
+      .addSelect('follow.createdAt', 'followedAt')
+      .where('follow.userId = :userId', { userId })
+      .andWhere('brand.banned = 0')
+      .orderBy('follow.createdAt', 'DESC')
+      .addOrderBy('follow.id', 'DESC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      imageUrl: row.imageUrl,
+      url: row.url,
+      channel: row.channel,
+      profile: row.profile,
+      rankingDay: Number(row.rankingDay) || 0,
+      rankingWeek: Number(row.rankingWeek) || 0,
+      currentRanking: Number(row.currentRanking) || 0,
+      scoreDay: Number(row.scoreDay) || 0,
+      scoreWeek: Number(row.scoreWeek) || 0,
+      followedAt: row.followedAt,
+    }));
+  }
+
+  /**
+   * Tells followers when a brand enters today's top 3 or drops out of the
+   * top 10. A rank of 0 means the brand has no score today, which is what
+   * every brand falls to at the daily reset, so moves to 0 are ignored.
+   * Notification ids carry the day, so a brand flapping around a threshold
+   * reaches each follower at most once a day per kind of move.
+   */
+  async notifyDayRankChanges(changes: BrandDayRankChange[]): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+
+    for (const change of changes) {
+      const { brandId, name, previous, current } = change;
+
+      try {
+        if (current >= 1 && current <= 3 && (previous === 0 || previous > 3)) {
+          await this.notifyFollowers(
+            [brandId],
+            'Followed brand in the top 3!',
+            `${name} is #${current} on today's ranking. Vote to keep it on the podium.`,
+            `https://brnd.land/brand/${brandId}`,
+            `brand-${brandId}-top3-${today}`,
+          );
+        } else if (previous >= 1 && previous <= 10 && current > 10) {
+          await this.notifyFollowers(
+            [brandId],
+            'Followed brand left the top 10',
+            `${name} dropped from #${previous} to #${current} on today's ranking. Vote to bring it back.`,
+            `https://brnd.land/brand/${brandId}`,
+            `brand-${brandId}-out-top10-${today}`,
+          );
+        }
+      } catch (error) {
+        logger.error(
+          `❌ [BRAND FOLLOW] Failed to notify followers of brand ${brandId}:`,
+          error.message,
+        );
+      }
+    }
+  }
+
+  /**
+   * Tells the followers of any of the three brands that their podium was
+   * minted as a collectible. Followers of several of them hear it once.
+   */
+  async notifyCollectibleMinted(
+    tokenId: number,
+    brandIds: number[],
+  ): Promise<void> {
+    try {
+      const brands = await this.brandRepository.find({
+        where: { id: In(brandIds) },
+        select: ['id', 'name'],
+      });
+      const names = brandIds
+        .map((id) => brands.find((brand) => brand.id === id)?.name)
+        .filter(Boolean)
+        .join(', ');
+
+      await this.notifyFollowers(
+        brandIds,
+        'New podium collectible',
+        `A podium of ${names} was just minted as collectible #${tokenId}.`,
+        'https://brnd.land',
+        `collectible-${tokenId}-minted`,
+      );
+    } catch (error) {
+      logger.error(
+        `❌ [BRAND FOLLOW] Failed to notify followers of collectible #${tokenId}:`,
+        error.message,
+      );
+    }
+  }
+
+  private async notifyFollowers(
+    brandIds: number[],
+    title: string,
+    body: string,
+    targetUrl: string,
+    notificationId: string,
+  ): Promise<void> {
+    const follows = await this.brandFollowRepository.find({
+      where: { brandId: In(brandIds) },
+      select: ['userId'],
+    });
+    const userIds = [...new Set(follows.map((follow) => follow.userId))];
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const result =
+      await this.farcasterNotificationService.sendNotificationToUsers(
+        userIds,
+        title,
+        body.length > 128 ? `${body.slice(0, 125)}...` : body,
+        targetUrl,
+        notificationId,
+      );
+
+    logger.log(
+      `🔔 [BRAND FOLLOW] ${notificationId}: ${result.sent} sent to ${userIds.length} followers`,
+    );
+  }
+}
@@ -0,0 +1,475 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import {
+  Brand,
+  BrandRankingPeriodEnum,
+  User,
+  UserBrandVotes,
+} from '../../../models';
+import {
+  BrandRankPoint,
+  BrandRankingSnapshotService,
+} from './brand-ranking-snapshot.service';
+
+// Longest window the dashboard aggregates over in one request
+export const MAX_DASHBOARD_DAYS = 366;
+
+const DASHBOARD_LIST_LIMIT = 10;
+const DASHBOARD_COLLECTIBLES_LIMIT = 20;
+
+// Brand BRND balances are stored as decimals with 18 places
+const BRND_DECIMALS = 18;
+
+// Matches a vote with the brand on any podium position
+const ON_PODIUM = ':brandId IN (vote.brand1Id, vote.brand2Id, vote.brand3Id)';
+
+/**
+ * Who is asking for a brand's owner data: their FID and every wallet
+ * address they are known to control.
+ */
+export interface BrandOwnerIdentity {
+  fid: number;
+  addresses: string[];
+}
+
+export interface BrandDashboardOptions {
+  from: Date;
+  to: Date;
+  rankPeriod: BrandRankingPeriodEnum;
+}
+
+export interface BrandDashboard {
+  brand: {
+    id: number;
+    name: string;
+    imageUrl: string;
+    onChainId: number | null;
+    onChainFid: number | null;
+    founderFid: number | null;
+    walletAddress: string | null;
+    currentRanking: number;
+    score: number;
+  };
+  from: Date;
+  to: Date;
+  votesByPosition: {
+    gold: number;
+    silver: number;
+    bronze: number;
+    total: number;
+    brndPaid: number;
+  };
+  votersOverTime: Array<{
+    day: string;
+    uniqueVoters: number;
+    votes: number;
+  }>;
+  uniqueVoters: number;
+  audienceOverlap: Array<{
+    brandId: number;
+    name: string;
+    imageUrl: string;
+    sharedPodiums: number;
+    share: number;
+  }>;
+  topVoters: Array<{
+    fid: number;
+    username: string;
+    photoUrl: string;
+    votes: number;
+    goldVotes: number;
+    brndPaid: number;
+  }>;
+  rankHistory: {
+    period: BrandRankingPeriodEnum;
+    points: BrandRankPoint[];
+  };
+  brnd: {
+    awarded: string;
+    available: string;
+    withdrawn: string;
+  };
+  collectibles: {
+    total: number;
+    items: Array<{
+      tokenId: number;
+      position: number;
+      podium: number[];
+      ownerFid: number | null;
+      price: string | null;
+      claimCount: number;
+      metadataURI: string | null;
+      mintTxHash: string | null;
+      date: Date;
+    }>;
+  };
+}
+
+@Injectable()
+export class BrandOwnerService {
+  constructor(
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+    @InjectRepository(UserBrandVotes)
+    private readonly userBrandVotesRepository: Repository<UserBrandVotes>,
+    private readonly brandRankingSnapshotService: BrandRankingSnapshotService,
+  ) {}
+
+  /**
+   * Whether the caller owns the brand: they are its on-chain or founder
+   * FID, or control its reward wallet.
+   */
+  isBrandOwner(
+    brand: Pick<
+      Brand,
+      'onChainFid' | 'founderFid' | 'walletAddress' | 'onChainWalletAddress'
+    >,
+    owner: BrandOwnerIdentity,
+  ): boolean {
+    if (
+      (brand.onChainFid && brand.onChainFid === owner.fid) ||
+      (brand.founderFid && brand.founderFid === owner.fid)
+    ) {
+      return true;
+    }
+
+    const brandWallets = [brand.walletAddress, brand.onChainWalletAddress]
+      .filter(Boolean)
+      .map((address) => address.toLowerCase());
+    return owner.addresses
+      .filter(Boolean)
+      .some((address) => brandWallets.includes(address.toLowerCase()));
+  }
+
+  /**
+   * Brands the caller owns, for the owner's brand picker.
+   */
+  async getOwnedBrands(owner: BrandOwnerIdentity): Promise<Brand[]> {
+    const addresses = owner.addresses
+      .filter(Boolean)
+      .map((address) => address.toLowerCase());
+
+    const query = this.brandRepository
+      .createQueryBuilder('brand')
+      .select([
+        'brand.id',
+        'brand.name',
+        'brand.imageUrl',
+        'brand.onChainId',
+        'brand.currentRanking',
+        'brand.score',
+      ])
+      .where('(brand.onChainFid = :fid OR brand.founderFid = :fid)', {
+        fid: owner.fid,
+      });
+    if (addresses.length > 0) {
+      query.orWhere(
+        '(LOWER(brand.walletAddress) IN (:...addresses) OR LOWER(brand.onChainWalletAddress) IN (:...addresses))',
+        { addresses },
+      );
+    }
+
+    return query.orderBy('brand.name', 'ASC').getMany();
+  }
+
+  /**
+   * Analytics for a brand's owner over the given window. Votes from banned
+   * users are left out, as they are from the brand's score. Callers check
+   * ownership with isBrandOwner and cap the window at MAX_DASHBOARD_DAYS.
+   */
+  async getDashboard(
+    brand: Brand,
+    options: BrandDashboardOptions,
+  ): Promise<BrandDashboard> {
+    const { from, to, rankPeriod } = options;
+    const brandId = brand.id;
+    const [
+      votesByPosition,
+      votersOverTime,
+      uniqueVoters,
+      audienceOverlap,
+      topVoters,
+      rankHistory,
+      collectibles,
+    ] = await Promise.all([
+      this.getVotesByPosition(brandId, from, to),
+      this.getVotersOverTime(brandId, from, to),
+      this.countUniqueVoters(brandId, from, to),
+      this.getAudienceOverlap(brandId, from, to),
+      this.getTopVoters(brandId, from, to),
+      this.brandRankingSnapshotService.getBrandTrajectory(
+        brandId,
+        rankPeriod,
+        from,
+        to,
+      ),
+      this.getCollectibles(brandId),
+    ]);
+
+    const awarded = this.toWei(brand.totalBrndAwarded);
+    const available = this.toWei(brand.availableBrnd);
+
+    return {
+      brand: {
+        id: brand.id,
+        name: brand.name,
+        imageUrl: brand.imageUrl,
+        onChainId: brand.onChainId || null,
+        onChainFid: brand.onChainFid || null,
+        founderFid: brand.founderFid || null,
+        walletAddress: brand.walletAddress || null,
+        currentRanking: brand.currentRanking,
+        score: brand.score,
+      },
+      from,
+      to,
+      votesByPosition,
+      votersOverTime,
+      uniqueVoters,
+      audienceOverlap: audienceOverlap.map((overlap) => ({
+        ...overlap,
+        share:
+          votesByPosition.total > 0
+            ? Math.round(
+                (overlap.sharedPodiums / votesByPosition.total) * 1000,
+              ) / 1000
+            : 0,
+      })),
+      topVoters,
+      rankHistory: { period: rankPeriod, points: rankHistory },
+      brnd: {
+        awarded: this.fromWei(awarded),
+        available: this.fromWei(available),
+        // Rewards only leave the contract through withdrawals, so whatever
+        // was awarded and is no longer available has been withdrawn
+        withdrawn: this.fromWei(
+          awarded > available ? awarded - available : BigInt(0),
+        ),
+      },
+      collectibles,
+    };
+  }
+
+  private votesQuery(brandId: number, from: Date, to: Date) {
+    return this.userBrandVotesRepository
+      .createQueryBuilder('vote')
+      .innerJoin(User, 'user', 'user.id = vote.userId')
+      .where(ON_PODIUM, { brandId })
+      .andWhere('vote.date >= :from AND vote.date < :to', { from, to })
+      .andWhere('user.banned = 0');
+  }
+
+  private async getVotesByPosition(
+    brandId: number,
+    from: Date,
+    to: Date,
+  ): Promise<BrandDashboard['votesByPosition']> {
+    const row = await this.votesQuery(brandId, from, to)
+      .select(
+        'SUM(CASE WHEN vote.brand1Id = :brandId THEN 1 ELSE 0 END)',
+        'gold',
+      )
+      .addSelect(
+        'SUM(CASE WHEN vote.brand2Id = :brandId THEN 1 ELSE 0 END)',
+        'silver',
+      )
+      .addSelect(
+        'SUM(CASE WHEN vote.brand3Id = :brandId THEN 1 ELSE 0 END)',
+        'bronze',
+      )
+      .addSelect('COUNT(*)', 'total')
+      .addSelect(
+        'COALESCE(SUM(vote.brndPaidWhenCreatingPodium), 0)',
+        'brndPaid',
+      )
+      .getRawOne();
+
+    return {
+      gold: Number(row?.gold) || 0,
+      silver: Number(row?.silver) || 0,
+      bronze: Number(row?.bronze) || 0,
+      total: Number(row?.total) || 0,
+      brndPaid: Number(row?.brndPaid) || 0,
+    };
+  }
+
+  /**
+   * Daily votes and distinct voters, for days with at least one vote.
+   */
+  private async getVotersOverTime(
+    brandId: number,
+    from: Date,
+    to: Date,
+  ): Promise<BrandDashboard['votersOverTime']> {
+    const rows = await this.votesQuery(brandId, from, to)
+      .select("DATE_FORMAT(vote.date, '%Y-%m-%d')", 'day')
+      .addSelect('COUNT(DISTINCT vote.userId)', 'uniqueVoters')
+      .addSelect('COUNT(*)', 'votes')
+      .groupBy('day')
+      .orderBy('day', 'ASC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      day: row.day,
+      uniqueVoters: Number(row.uniqueVoters),
+      votes: Number(row.votes),
+    }));
+  }
+
+  private async countUniqueVoters(
+    brandId: number,
+    from: Date,
+    to: Date,
+  ): Promise<number> {
+    const row = await this.votesQuery(brandId, from, to)
+      .select('COUNT(DISTINCT vote.userId)', 'uniqueVoters')
+      .getRawOne();
+    return Number(row?.uniqueVoters) || 0;
+  }
+
+  /**
+   * Brands that share a podium with this one most often.
+   */
+  private async getAudienceOverlap(
+    brandId: number,
+    from: Date,
+    to: Date,
+  ): Promise<Array<Omit<BrandDashboard['audienceOverlap'][number], 'share'>>> {
+    const [sql, parameters] = this.votesQuery(brandId, from, to)
+      .select('vote.brand1Id', 'brand1Id')
+      .addSelect('vote.brand2Id', 'brand2Id')
+      .addSelect('vote.brand3Id', 'brand3Id')
+      .getQueryAndParameters();
+
+    const rows: Array<{
+      brandId: number;
+      name: string;
+      imageUrl: string;
+      sharedPodiums: string;
+    }> = await this.userBrandVotesRepository.query(
+      `SELECT other.id AS brandId, other.name AS name, other.imageUrl AS imageUrl, COUNT(*) AS sharedPodiums
+       FROM (${sql}) podium
+       INNER JOIN brands other
+         ON other.id IN (podium.brand1Id, podium.brand2Id, podium.brand3Id)
+       WHERE other.id <> ? AND other.banned = 0
+       GROUP BY other.id, other.name, other.imageUrl
+       ORDER BY sharedPodiums DESC, other.id ASC
+       LIMIT ?`,
+      [...parameters, brandId, DASHBOARD_LIST_LIMIT],
+    );
+
+    return rows.map((row) => ({
+      brandId: Number(row.brandId),
+      name: row.name,
+      imageUrl: row.imageUrl,
+      sharedPodiums: Number(row.sharedPodiums),
+    }));
+  }
+
+  private async getTopVoters(
+    brandId: number,
+    from: Date,
+    to: Date,
+  ): Promise<BrandDashboard['topVoters']> {
+    const rows = await this.votesQuery(brandId, from, to)
+      .select('user.fid', 'fid')
+      .addSelect('user.username', 'username')
+      .addSelect('user.photoUrl', 'photoUrl')
+      .addSelect('COUNT(*)', 'votes')
+      .addSelect(
+        'SUM(CASE WHEN vote.brand1Id = :brandId THEN 1 ELSE 0 END)',
+        'goldVotes',
+      )
+      .addSelect(
+        'COALESCE(SUM(vote.brndPaidWhenCreatingPodium), 0)',
+        'brndPaid',
+      )
+      .groupBy('user.id')
+      .addGroupBy('user.fid')
+      .addGroupBy('user.username')
+      .addGroupBy('user.photoUrl')
+      .orderBy('votes', 'DESC')
+      .addOrderBy('goldVotes', 'DESC')
+      .addOrderBy('user.fid', 'ASC')
+      .limit(DASHBOARD_LIST_LIMIT)
+      .getRawMany();
+
+    return rows.map((row) => ({
+      fid: Number(row.fid),
+      username: row.username,
+      photoUrl: row.photoUrl,
+      votes: Number(row.votes),
+      goldVotes: Number(row.goldVotes),
+      brndPaid: Number(row.brndPaid),
+    }));
+  }
+
+  /**
+   * Minted podium collectibles the brand appears on, priciest first. Not
+   * limited to the window, since a collectible keeps trading after its vote.
+   */
+  private async getCollectibles(
+    brandId: number,
+  ): Promise<BrandDashboard['collectibles']> {
+    const query = this.userBrandVotesRepository
+      .createQueryBuilder('vote')
+      .where(ON_PODIUM, { brandId })
+      .andWhere('vote.isCollectible = 1')
+      .andWhere('vote.collectibleTokenId IS NOT NULL');
+
+    const [total, rows] = await Promise.all([
+      query.clone().getCount(),
+      query
+        .clone()
+        .select('vote.collectibleTokenId', 'tokenId')
+        .addSelect('vote.brand1Id', 'brand1Id')
+        .addSelect('vote.brand2Id', 'brand2Id')
+        .addSelect('vote.brand3Id', 'brand3Id')
+        .addSelect('vote.collectibleOwnerFid', 'ownerFid')
+        .addSelect('vote.collectiblePrice', 'price')
+        .addSelect('vote.collectibleClaimCount', 'claimCount')
+        .addSelect('vote.collectibleMetadataURI', 'metadataURI')
+        .addSelect('vote.collectibleMintTxHash', 'mintTxHash')
+        .addSelect('vote.date', 'date')
+        .orderBy('vote.collectiblePrice', 'DESC')
+        .addOrderBy('vote.date', 'DESC')
+        .limit(DASHBOARD_COLLECTIBLES_LIMIT)
+        .getRawMany(),
+    ]);
+
+    return {
+      total,
+      items: rows.map((row) => {
+        const podium = [row.brand1Id, row.brand2Id, row.brand3Id].map(Number);
+        return {
+          tokenId: Number(row.tokenId),
+          position: podium.indexOf(brandId) + 1,
+          podium,
+          ownerFid: row.ownerFid ? Number(row.ownerFid) : null,
+          price: row.price || null,
+          claimCount: Number(row.claimCount) || 0,
+          metadataURI: row.metadataURI || null,
+          mintTxHash: row.mintTxHash || null,
+          date: new Date(row.date),
+        };
+      }),
+    };
+  }
+
+  private toWei(value: string | null | undefined): bigint {
+    const [whole, fraction = ''] = (value || '0').split('.');
+    return BigInt(
+      (whole || '0') +
+        fraction.padEnd(BRND_DECIMALS, '0').slice(0, BRND_DECIMALS),
+    );
+  }
+
+  private fromWei(wei: bigint): string {
+    const digits = wei.toString().padStart(BRND_DECIMALS + 1, '0');
+    const whole = digits.slice(0, -BRND_DECIMALS);
+    const fraction = digits.slice(-BRND_DECIMALS).replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole;
+  }
+}
@@ -0,0 +1,314 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between, LessThanOrEqual } from 'typeorm';
+
+import {
+  Brand,
+  BrandRankingPeriodEnum,
+  BrandRankingSnapshot,
+  BrandScoreEntry,
+  BrandScoreEntryKindEnum,
+} from '../../../models';
+import { BrandScoreLedgerService } from './brand-score-ledger.service';
+import { logger } from '../../../main';
+
+export interface SnapshotRanking {
+  rank: number;
+  score: number;
+  uniqueVoters: number;
+  votes: number;
+  brndPaid: number;
+  brand: {
+    id: number;
+    name: string;
+    imageUrl: string;
+  } | null;
+}
+
+export interface SnapshotLeaderboard {
+  period: BrandRankingPeriodEnum;
+  periodStart: Date;
+  periodEnd: Date;
+  rankings: SnapshotRanking[];
+}
+
+export interface BrandRankPoint {
+  periodStart: Date;
+  periodEnd: Date;
+  rank: number;
+  score: number;
+  uniqueVoters: number;
+  votes: number;
+  brndPaid: number;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+@Injectable()
+export class BrandRankingSnapshotService {
+  constructor(
+    @InjectRepository(BrandRankingSnapshot)
+    private readonly snapshotRepository: Repository<BrandRankingSnapshot>,
+    @InjectRepository(BrandScoreEntry)
+    private readonly brandScoreEntryRepository: Repository<BrandScoreEntry>,
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+    private readonly brandScoreLedgerService: BrandScoreLedgerService,
+  ) {}
+
+  /**
+   * Snapshots every period that closed at the given boundary: always the
+   * previous day, plus the previous week on Saturdays and the previous month
+   * on the 1st. Called at midnight UTC before the period scores are reset.
+   */
+  async captureClosedPeriods(now: Date = new Date()): Promise<void> {
+    const { dayStart, weekStart, monthStart } =
+      this.brandScoreLedgerService.getPeriodStarts(now);
+
+    const closed: BrandRankingPeriodEnum[] = [BrandRankingPeriodEnum.DAY];
+    if (weekStart.getTime() === dayStart.getTime()) {
+      closed.push(BrandRankingPeriodEnum.WEEK);
+    }
+    if (monthStart.getTime() === dayStart.getTime()) {
+      closed.push(BrandRankingPeriodEnum.MONTH);
+    }
+
+    for (const period of closed) {
+      const periodEnd = dayStart;
+      const periodStart = this.getPreviousPeriodStart(period, periodEnd);
+      await this.captureSnapshot(period, periodStart, periodEnd);
+    }
+  }
+
+  /**
+   * Writes the ranking of every active brand for [periodStart, periodEnd),
+   * computed from the score ledger. Re-capturing a period replaces it.
+   */
+  async captureSnapshot(
+    period: BrandRankingPeriodEnum,
+    periodStart: Date,
+    periodEnd: Date,
+  ): Promise<number> {
+    const [brands, totals, voters] = await Promise.all([
+      this.brandRepository.find({ select: ['id'], where: { banned: 0 } }),
+      this.brandScoreEntryRepository
+        .createQueryBuilder('entry')
+        .select('entry.brandId', 'brandId')
+        .addSelect('SUM(entry.points)', 'score')
+        .addSelect(
+          `SUM(CASE WHEN entry.kind = :vote THEN entry.brndPaid ELSE -entry.brndPaid END)`,
+          'brndPaid',
+        )
+        .addSelect(
+          `SUM(CASE WHEN entry.kind = :vote THEN 1 ELSE -1 END)`,
+          'votes',
+        )
+        .where('entry.voteDate >= :periodStart', { periodStart })
+        .andWhere('entry.voteDate < :periodEnd', { periodEnd })
+        .setParameter('vote', BrandScoreEntryKindEnum.VOTE)
+        .groupBy('entry.brandId')
+        .getRawMany(),
+      // Reverted votes are deleted, so the join only counts live voters
+      this.brandScoreEntryRepository
+        .createQueryBuilder('entry')
+        .innerJoin(
+          'user_brand_votes',
+          'vote',
+          'vote.transactionHash = entry.voteTransactionHash',
+        )
+        .select('entry.brandId', 'brandId')
+        .addSelect('COUNT(DISTINCT vote.userId)', 'uniqueVoters')
+        .where('entry.kind = :vote', { vote: BrandScoreEntryKindEnum.VOTE })
+        .andWhere('entry.voteDate >= :periodStart', { periodStart })
+        .andWhere('entry.voteDate < :periodEnd', { periodEnd })
+        .groupBy('entry.brandId')
+        .getRawMany(),
+    ]);
+
+    const totalsByBrand = new Map(totals.map((row) => [row.brandId, row]));
+    const votersByBrand = new Map(
+      voters.map((row) => [row.brandId, parseInt(row.uniqueVoters)]),
+    );
+
+    const rows = brands
+      .map((brand) => {
+        const total = totalsByBrand.get(brand.id);
+        return {
+          period,
+          periodStart,
+          periodEnd,
+          brandId: brand.id,
+          rank: 0,
+          score: total ? parseFloat(total.score) : 0,
+          brndPaid: total ? parseFloat(total.brndPaid) : 0,
+          votes: total ? parseInt(total.votes) : 0,
+          uniqueVoters: votersByBrand.get(brand.id) || 0,
+        };
+      })
+      // Ties are broken by brand id so a re-capture yields the same ranks
+      .sort((a, b) => b.score - a.score || a.brandId - b.brandId);
+
+    rows.forEach((row, index) => {
+      row.rank = index + 1;
+    });
+
+    await this.snapshotRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(BrandRankingSnapshot);
+      await repository.delete({ period, periodStart });
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await repository.insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+      }
+    });
+
+    logger.log(
+      `📸 [SNAPSHOT] Captured ${period} ranking for ${periodStart.toISOString()} (${rows.length} brands)`,
+    );
+
+    return rows.length;
+  }
+
+  /**
+   * Captures every closed period of a kind whose start falls in [from, to).
+   * Used to build history for periods that closed before snapshots existed.
+   */
+  async backfillSnapshots(
+    period: BrandRankingPeriodEnum,
+    from: Date,
+    to: Date = new Date(),
+  ): Promise<{ periods: number; rows: number }> {
+    const { dayStart, weekStart, monthStart } =
+      this.brandScoreLedgerService.getPeriodStarts(to);
+    const currentStart = {
+      [BrandRankingPeriodEnum.DAY]: dayStart,
+      [BrandRankingPeriodEnum.WEEK]: weekStart,
+      [BrandRankingPeriodEnum.MONTH]: monthStart,
+    }[period];
+
+    let periods = 0;
+    let rows = 0;
+    let periodEnd = currentStart;
+    let periodStart = this.getPreviousPeriodStart(period, periodEnd);
+
+    while (periodStart >= from) {
+      rows += await this.captureSnapshot(period, periodStart, periodEnd);
+      periods++;
+      periodEnd = periodStart;
+      periodStart = this.getPreviousPeriodStart(period, periodEnd);
+    }
+
+    return { periods, rows };
+  }
+
+  /**
+   * Leaderboard of the period that contained the given date. Falls back to
+   * the latest snapshot before it when that period is still open.
+   */
+  async getLeaderboardAsOf(
+    period: BrandRankingPeriodEnum,
+    asOf: Date,
+    limit: number = 10,
+  ): Promise<SnapshotLeaderboard | null> {
+    const latest = await this.snapshotRepository.findOne({
+      select: ['periodStart', 'periodEnd'],
+      where: { period, periodStart: LessThanOrEqual(asOf) },
+      order: { periodStart: 'DESC' },
+    });
+
+    if (!latest) {
+      return null;
+    }
+
+    const snapshots = await this.snapshotRepository.find({
+      where: { period, periodStart: latest.periodStart },
+      order: { rank: 'ASC' },
+      take: limit,
+    });
+
+    const brands = await this.brandRepository.find({
+      select: ['id', 'name', 'imageUrl'],
+      where: snapshots.map((snapshot) => ({ id: snapshot.brandId })),
+    });
+    const brandsById = new Map(brands.map((brand) => [brand.id, brand]));
+
+    return {
+      period,
+      periodStart: latest.periodStart,
+      periodEnd: latest.periodEnd,
+      rankings: snapshots.map((snapshot) => {
+        const brand = brandsById.get(snapshot.brandId);
+        return {
+          rank: snapshot.rank,
+          score: Math.round(Number(snapshot.score)),
+          uniqueVoters: snapshot.uniqueVoters,
+          votes: snapshot.votes,
+          brndPaid: Number(snapshot.brndPaid),
+          brand: brand
+            ? { id: brand.id, name: brand.name, imageUrl: brand.imageUrl }
+            : null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Start dates of the most recent snapshotted periods, newest first.
+   */
+  async getSnapshotPeriods(
+    period: BrandRankingPeriodEnum,
+    limit: number = 52,
+  ): Promise<Array<{ periodStart: Date; periodEnd: Date }>> {
+    return this.snapshotRepository
+      .createQueryBuilder('snapshot')
+      .select('snapshot.periodStart', 'periodStart')
+      .addSelect('snapshot.periodEnd', 'periodEnd')
+      .where('snapshot.period = :period', { period })
+      .groupBy('snapshot.periodStart')
+      .addGroupBy('snapshot.periodEnd')
+      .orderBy('snapshot.periodStart', 'DESC')
+      .limit(limit)
+      .getRawMany();
+  }
+
+  /**
+   * A brand's rank and totals in each snapshotted period, oldest first.
+   */
+  async getBrandTrajectory(
+    brandId: number,
+    period: BrandRankingPeriodEnum,
+    from: Date,
+    to: Date = new Date(),
+  ): Promise<BrandRankPoint[]> {
+    const snapshots = await this.snapshotRepository.find({
+      where: { brandId, period, periodStart: Between(from, to) },
+      order: { periodStart: 'ASC' },
+    });
+
+    return snapshots.map((snapshot) => ({
+      periodStart: snapshot.periodStart,
+      periodEnd: snapshot.periodEnd,
+      rank: snapshot.rank,
+      score: Math.round(Number(snapshot.score)),
+      uniqueVoters: snapshot.uniqueVoters,
+      votes: snapshot.votes,
+      brndPaid: Number(snapshot.brndPaid),
+    }));
+  }
+
+  /**
+   * Start of the period of the given kind that ends at periodEnd.
+   */
+  private getPreviousPeriodStart(
+    period: BrandRankingPeriodEnum,
+    periodEnd: Date,
+  ): Date {
+    const start = new Date(periodEnd);
+    if (period === BrandRankingPeriodEnum.DAY) {
+      start.setUTCDate(start.getUTCDate() - 1);
+    } else if (period === BrandRankingPeriodEnum.WEEK) {
+      start.setUTCDate(start.getUTCDate() - 7);
+    } else {
+      start.setUTCMonth(start.getUTCMonth() - 1);
+    }
+    return start;
+  }
+}
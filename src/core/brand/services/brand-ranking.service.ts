@@ -2,14 +2,18 @@ import { Injectable } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Brand } from '../../../models';
+import { Brand, LiveEventTypeEnum } from '../../../models';
 import { logger } from '../../../main';
+import { LiveEventService } from '../../live/services';
+import { BrandFollowService } from './brand-follow.service';
 
 @Injectable()
 export class BrandRankingService {
   constructor(
     @InjectRepository(Brand)
     private readonly brandRepository: Repository<Brand>,
+    private readonly liveEventService: LiveEventService,
+    private readonly brandFollowService: BrandFollowService,
   ) {}
 
   /**
@@ -32,6 +36,8 @@ export class BrandRankingService {
   /**
    * Updates global brand rankings based on current scores
    * This is the core logic from the script, but integrated into the service
+   * Recomputes the all-time, day, week and month rankings and only writes the
+   * brands whose rank actually moved
    */
   async updateGlobalRankings(): Promise<{
     totalBrands: number;
@@ -42,11 +48,22 @@ export class BrandRankingService {
     logger.log('🏆 [RANKING] Starting global brand rankings update...');
 
     try {
-      // Get all brands sorted by score (highest first)
       const brands = await this.brandRepository
         .createQueryBuilder('brand')
-        .select(['brand.id', 'brand.name', 'brand.score', 'brand.ranking'])
-        .orderBy('brand.score', 'DESC')
+        .select([
+          'brand.id',
+          'brand.name',
+          'brand.score',
+          'brand.scoreDay',
+          'brand.scoreWeek',
+          'brand.scoreMonth',
+          'brand.followerCount',
+          'brand.ranking',
+          'brand.currentRanking',
+          'brand.rankingDay',
+          'brand.rankingWeek',
+          'brand.rankingMonth',
+        ])
         .getMany();
 
       if (brands.length === 0) {
@@ -56,19 +73,46 @@ export class BrandRankingService {
 
       logger.log(`📊 [RANKING] Found ${brands.length} brands to process`);
 
+      // Every brand holds an all-time rank; period ranks are only given to
+      // brands that scored in the period, matching the resets at period end
+      const allTimeRanks = this.rankBy(brands, (brand) => brand.score, true);
+      const dayRanks = this.rankBy(brands, (brand) => brand.scoreDay, false);
+      const weekRanks = this.rankBy(brands, (brand) => brand.scoreWeek, false);
+      const monthRanks = this.rankBy(
+        brands,
+        (brand) => brand.scoreMonth,
+        false,
+      );
+
       // Calculate new rankings and find brands that need updates
-      const brandsToUpdate: Array<{ id: number; newRanking: string; name: string }> = [];
-      
-      for (let i = 0; i < brands.length; i++) {
-        const brand = brands[i];
-        const newRanking = (i + 1).toString();
-        
-        if (brand.ranking !== newRanking) {
-          brandsToUpdate.push({
-            id: brand.id,
-            newRanking,
-            name: brand.name,
-          });
+      const brandsToUpdate: Array<{
+        id: number;
+        name: string;
+        changes: Partial<Brand>;
+      }> = [];
+
+      for (const brand of brands) {
+        const changes: Partial<Brand> = {};
+        const allTimeRank = allTimeRanks.get(brand.id);
+
+        if (brand.ranking !== allTimeRank.toString()) {
+          changes.ranking = allTimeRank.toString();
+        }
+        if (brand.currentRanking !== allTimeRank) {
+          changes.currentRanking = allTimeRank;
+        }
+        if (brand.rankingDay !== dayRanks.get(brand.id)) {
+          changes.rankingDay = dayRanks.get(brand.id);
+        }
+        if (brand.rankingWeek !== weekRanks.get(brand.id)) {
+          changes.rankingWeek = weekRanks.get(brand.id);
+        }
+        if (brand.rankingMonth !== monthRanks.get(brand.id)) {
+          changes.rankingMonth = monthRanks.get(brand.id);
+        }
+
+        if (Object.keys(changes).length > 0) {
+          brandsToUpdate.push({ id: brand.id, name: brand.name, changes });
         }
       }
 
@@ -79,12 +123,17 @@ export class BrandRankingService {
         return { totalBrands: brands.length, brandsUpdated: 0, errors: 0 };
       }
 
-      // Log top 5 changes for monitoring
-      if (brandsToUpdate.length > 0) {
+      // Log top 5 all-time changes for monitoring
+      const allTimeChanges = brandsToUpdate.filter(
+        (brand) => brand.changes.ranking,
+      );
+      if (allTimeChanges.length > 0) {
         logger.log('🏆 [RANKING] Top 5 ranking changes:');
-        brandsToUpdate.slice(0, 5).forEach((brand) => {
+        allTimeChanges.slice(0, 5).forEach((brand) => {
           const currentRanking = brands.find(b => b.id === brand.id)?.ranking || '0';
-          logger.log(`  • ${brand.name}: #${currentRanking} → #${brand.newRanking}`);
+          logger.log(
+            `  • ${brand.name}: #${currentRanking} → #${brand.changes.ranking}`,
+          );
         });
       }
 
@@ -99,9 +148,7 @@ export class BrandRankingService {
         // Process batch updates in parallel
         const updatePromises = batch.map(async (brand) => {
           try {
-            await this.brandRepository.update(brand.id, {
-              ranking: brand.newRanking,
-            });
+            await this.brandRepository.update(brand.id, brand.changes);
             updated++;
             return { success: true, brand: brand.name };
           } catch (error) {
@@ -120,6 +167,43 @@ export class BrandRankingService {
         }
       }
 
+      // One event per run so clients can animate every movement together
+      const brandsById = new Map(brands.map((brand) => [brand.id, brand]));
+      await this.liveEventService.publish(LiveEventTypeEnum.RANK_CHANGE, {
+        changes: brandsToUpdate.map((brand) => {
+          const previous = brandsById.get(brand.id);
+          return {
+            brandId: brand.id,
+            name: brand.name,
+            previous: {
+              ranking: Number(previous.ranking) || 0,
+              rankingDay: previous.rankingDay,
+              rankingWeek: previous.rankingWeek,
+              rankingMonth: previous.rankingMonth,
+            },
+            current: {
+              ranking: allTimeRanks.get(brand.id),
+              rankingDay: dayRanks.get(brand.id),
+              rankingWeek: weekRanks.get(brand.id),
+              rankingMonth: monthRanks.get(brand.id),
+            },
+          };
+        }),
+      });
+
+      // Best effort and not awaited, so slow notifications never hold up the
+      // next ranking run
+      this.brandFollowService.notifyDayRankChanges(
+        brandsToUpdate
+          .filter((brand) => brand.changes.rankingDay !== undefined)
+          .map((brand) => ({
+            brandId: brand.id,
+            name: brand.name,
+            previous: brandsById.get(brand.id).rankingDay || 0,
+            current: dayRanks.get(brand.id) || 0,
+          })),
+      );
+
       const duration = Date.now() - startTime;
       logger.log(`🎉 [RANKING] Global ranking update completed in ${duration}ms`);
       logger.log(`📊 [RANKING] Summary: ${updated} updated, ${errors} errors, ${brands.length - brandsToUpdate.length} already correct`);
@@ -166,4 +250,29 @@ export class BrandRankingService {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Ranks brands by the given score, highest first. Ties are broken by
+   * follower count and then brand id, the order of the brand list, so
+   * repeated runs agree. Brands with no score get rank 0 unless
+   * rankUnscored is set.
+   */
+  private rankBy(
+    brands: Brand[],
+    getScore: (brand: Brand) => number,
+    rankUnscored: boolean,
+  ): Map<number, number> {
+    const sorted = [...brands].sort(
+      (a, b) =>
+        (getScore(b) || 0) - (getScore(a) || 0) ||
+        (b.followerCount || 0) - (a.followerCount || 0) ||
+        a.id - b.id,
+    );
+
+    const ranks = new Map<number, number>();
+    sorted.forEach((brand, index) => {
+      ranks.set(brand.id, rankUnscored || getScore(brand) > 0 ? index + 1 : 0);
+    });
+    return ranks;
+  }
+}
@@ -0,0 +1,501 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import {
+  Brand,
+  BrandRequest,
+  BrandRequestStatusEnum,
+  BrandRequestVote,
+  User,
+} from '../../../models';
+import { AdminService } from '../../admin/services/admin.service';
+import { ContractUploadService } from '../../blockchain/services/contract-upload.service';
+import { FarcasterNotificationService } from '../../notification/services';
+import NeynarService from '../../../utils/neynar';
+import { logger } from '../../../main';
+
+export interface BrandRequestInput {
+  name?: string;
+  channel?: string;
+  profile?: string;
+  channelOrProfile?: string;
+  queryType?: number; // 0: Channel, 1: Profile
+  url?: string;
+  description?: string;
+  imageUrl?: string;
+}
+
+export interface BrandRequestApprovalInput {
+  name?: string;
+  url?: string;
+  description?: string;
+  imageUrl?: string;
+  categoryId?: number;
+  tags?: string[];
+  uploadToContract?: boolean;
+}
+
+export interface BrandRequestSubmission {
+  // created: a new pending request; upvoted: the same channel or profile was
+  // already pending, so the submission counted as an upvote; existing_brand:
+  // the brand is already listed and nothing was stored
+  outcome: 'created' | 'upvoted' | 'existing_brand';
+  request?: BrandRequest;
+  brand?: Brand;
+}
+
+export type BrandRequestListItem = BrandRequest & { upvotedByMe: boolean };
+
+@Injectable()
+export class BrandRequestService {
+  private neynarService: NeynarService;
+
+  constructor(
+    @InjectRepository(BrandRequest)
+    private readonly brandRequestRepository: Repository<BrandRequest>,
+    @InjectRepository(BrandRequestVote)
+    private readonly brandRequestVoteRepository: Repository<BrandRequestVote>,
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly adminService: AdminService,
+    private readonly contractUploadService: ContractUploadService,
+    private readonly farcasterNotificationService: FarcasterNotificationService,
+  ) {
+    this.neynarService = new NeynarService();
+  }
+
+  /**
+   * Submits a channel or profile to be listed as a brand. Brands that are
+   * already listed are returned instead of stored, and a channel or profile
+   * that is already pending counts as an upvote on that request.
+   */
+  async submitRequest(
+    userId: number,
+    input: BrandRequestInput,
+  ): Promise<BrandRequestSubmission> {
+    const name = input.name?.trim();
+    const handle = input.channelOrProfile?.trim();
+    const rawHandle = handle || input.channel?.trim() || input.profile?.trim();
+    if (!name && !rawHandle) {
+      throw new Error('A name, channel or profile is required');
+    }
+
+    const queryType =
+      input.queryType ??
+      (handle?.startsWith('@') || input.profile?.trim() ? 1 : 0);
+    const { profile, channel } = this.adminService.processProfileAndChannel({
+      name: name || rawHandle.replace(/^[@/]/, ''),
+      channel: input.channel || (queryType === 0 ? handle : undefined),
+      profile: input.profile || (queryType === 1 ? handle : undefined),
+      queryType,
+    });
+    const requestName = name || (channel || profile).slice(1);
+
+    const existingBrand = await this.findExistingBrand(
+      requestName,
+      channel,
+      profile,
+    );
+    if (existingBrand) {
+      return { outcome: 'existing_brand', brand: existingBrand };
+    }
+
+    const pending = await this.brandRequestRepository.findOne({
+      where: [
+        ...(channel
+          ? [{ channel, status: BrandRequestStatusEnum.PENDING }]
+          : []),
+        ...(profile
+          ? [{ profile, status: BrandRequestStatusEnum.PENDING }]
+          : []),
+      ],
+    });
+    if (pending) {
+      return {
+        outcome: 'upvoted',
+        request: await this.upvoteRequest(pending.id, userId),
+      };
+    }
+
+    const request = await this.brandRequestRepository.save(
+      this.brandRequestRepository.create({
+        name: requestName,
+        channel,
+        profile,
+        queryType: channel ? 0 : 1,
+        url: input.url?.trim() || null,
+        description: input.description?.trim() || null,
+        imageUrl: input.imageUrl?.trim() || null,
+        followerCount: await this.getFollowerCount(channel, profile),
+        requesterId: userId,
+      }),
+    );
+
+    logger.log(
+      `📝 [BRAND REQUEST] User ${userId} requested "${request.name}" (${channel || profile})`,
+    );
+
+    return {
+      outcome: 'created',
+      request: await this.upvoteRequest(request.id, userId),
+    };
+  }
+
+  /**
+   * Adds a user's upvote to a pending request. Upvoting twice is a no-op.
+   */
+  async upvoteRequest(
+    requestId: number,
+    userId: number,
+  ): Promise<BrandRequest> {
+    return this.brandRequestRepository.manager.transaction(async (manager) => {
+      const request = await manager.findOne(BrandRequest, {
+        where: { id: requestId },
+      });
+      if (!request) {
+        throw new Error(`Brand request ${requestId} not found`);
+      }
+      if (request.status !== BrandRequestStatusEnum.PENDING) {
+        throw new Error(`Brand request ${requestId} is ${request.status}`);
+      }
+
+      const result = await manager
+        .createQueryBuilder()
+        .insert()
+        .into(BrandRequestVote)
+        .values({ requestId, userId })
+        .orIgnore()
+        .execute();
+
+      if (result.raw?.affectedRows) {
+        await manager.increment(BrandRequest, { id: requestId }, 'upvotes', 1);
+        request.upvotes += 1;
+      }
+
+      return request;
+    });
+  }
+
+  /**
+   * Requests in a status, most upvoted first. When a user id is given, each
+   * request says whether that user upvoted it.
+   */
+  async getRequests(
+    status: BrandRequestStatusEnum = BrandRequestStatusEnum.PENDING,
+    page: number = 1,
+    limit: number = 20,
+    userId?: number,
+  ): Promise<{
+    requests: BrandRequestListItem[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const [requests, total] = await this.brandRequestRepository.findAndCount({
+      where: { status },
+      order:
+        status === BrandRequestStatusEnum.PENDING
+          ? { upvotes: 'DESC', createdAt: 'ASC' }
+          : { reviewedAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const upvoted = new Set<number>();
+    if (userId && requests.length > 0) {
+      const votes = await this.brandRequestVoteRepository.find({
+        where: { userId, requestId: In(requests.map((r) => r.id)) },
+      });
+      votes.forEach((vote) => upvoted.add(vote.requestId));
+    }
+
+    return {
+      requests: requests.map((request) => ({
+        ...request,
+        upvotedByMe: upvoted.has(request.id),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Creates the brand for a pending request and registers it on the
+   * contract. Admins can correct the submitted details on the way. A failed
+   * contract upload does not undo the approval; it is reported in the result
+   * and the brand stays listed.
+   */
+  async approveRequest(
+    requestId: number,
+    reviewerFid: number,
+    input: BrandRequestApprovalInput = {},
+  ): Promise<{
+    request: BrandRequest;
+    brand: Brand;
+    contractUpload: {
+      success: boolean;
+      transactionHashes?: string[];
+      error?: string;
+    } | null;
+  }> {
+    const request = await this.getPendingRequest(requestId);
+
+    const name = input.name?.trim() || request.name;
+    const existingBrand = await this.findExistingBrand(
+      name,
+      request.channel,
+      request.profile,
+    );
+    if (existingBrand) {
+      throw new Error(
+        `Brand "${existingBrand.name}" (ID: ${existingBrand.id}) already exists`,
+      );
+    }
+
+    // Claim the request before creating the brand, so two reviewers
+    // approving at once cannot both list it
+    request.status = BrandRequestStatusEnum.APPROVED;
+    request.reviewedByFid = reviewerFid;
+    request.reviewedAt = new Date();
+    await this.claimPendingRequest(request);
+
+    let brand: Brand;
+    try {
+      brand = await this.adminService.createBrand({
+        name,
+        url: input.url ?? request.url ?? '',
+        description: input.description ?? request.description ?? '',
+        imageUrl: input.imageUrl ?? request.imageUrl ?? '',
+        categoryId: input.categoryId,
+        tags: input.tags,
+        followerCount: request.followerCount,
+        channel: request.channel,
+        profile: request.profile,
+        queryType: request.queryType,
+      });
+    } catch (error) {
+      // Hand the request back so it can be reviewed again
+      await this.brandRequestRepository.update(
+        { id: request.id, status: BrandRequestStatusEnum.APPROVED },
+        {
+          status: BrandRequestStatusEnum.PENDING,
+          reviewedByFid: null,
+          reviewedAt: null,
+        },
+      );
+      throw error;
+    }
+
+    request.brandId = brand.id;
+    await this.brandRequestRepository.update(
+      { id: request.id },
+      { brandId: brand.id },
+    );
+
+    logger.log(
+      `✅ [BRAND REQUEST] FID ${reviewerFid} approved request ${request.id} as brand ${brand.id} (${brand.name})`,
+    );
+
+    const contractUpload =
+      input.uploadToContract === false
+        ? null
+        : await this.uploadBrandToContract(brand);
+
+    await this.notifyRequester(
+      request,
+      'Your brand request is live',
+      `${brand.name} was approved and is now listed on BRND. Go vote for it!`,
+      'approved',
+    );
+
+    return { request, brand, contractUpload };
+  }
+
+  /**
+   * Rejects a pending request and tells the requester why.
+   */
+  async rejectRequest(
+    requestId: number,
+    reviewerFid: number,
+    reason: string,
+  ): Promise<BrandRequest> {
+    if (!reason?.trim()) {
+      throw new Error('A rejection reason is required');
+    }
+
+    const request = await this.getPendingRequest(requestId);
+    request.status = BrandRequestStatusEnum.REJECTED;
+    request.rejectionReason = reason.trim().slice(0, 255);
+    request.reviewedByFid = reviewerFid;
+    request.reviewedAt = new Date();
+    await this.claimPendingRequest(request, {
+      rejectionReason: request.rejectionReason,
+    });
+
+    logger.log(
+      `🚫 [BRAND REQUEST] FID ${reviewerFid} rejected request ${request.id}: ${request.rejectionReason}`,
+    );
+
+    await this.notifyRequester(
+      request,
+      'Brand request not approved',
+      `${request.name}: ${request.rejectionReason}`,
+      'rejected',
+    );
+
+    return request;
+  }
+
+  private async getPendingRequest(requestId: number): Promise<BrandRequest> {
+    const request = await this.brandRequestRepository.findOne({
+      where: { id: requestId },
+    });
+    if (!request) {
+      throw new Error(`Brand request ${requestId} not found`);
+    }
+    if (request.status !== BrandRequestStatusEnum.PENDING) {
+      throw new Error(
+        `Brand request ${requestId} is already ${request.status}`,
+      );
+    }
+    return request;
+  }
+
+  /**
+   * Moves a request out of pending with its review fields, only if no other
+   * reviewer got there first.
+   */
+  private async claimPendingRequest(
+    request: BrandRequest,
+    extra: Partial<BrandRequest> = {},
+  ): Promise<void> {
+    const { affected } = await this.brandRequestRepository.update(
+      { id: request.id, status: BrandRequestStatusEnum.PENDING },
+      {
+        status: request.status,
+        reviewedByFid: request.reviewedByFid,
+        reviewedAt: request.reviewedAt,
+        ...extra,
+      },
+    );
+    if (!affected) {
+      throw new Error(`Brand request ${request.id} was already reviewed`);
+    }
+  }
+
+  /**
+   * Listed brand with the same name, channel or profile, if any. Name
+   * matching follows the column collation, so it ignores case.
+   */
+  private async findExistingBrand(
+    name: string,
+    channel: string,
+    profile: string,
+  ): Promise<Brand | null> {
+    return this.brandRepository.findOne({
+      where: [
+        { name },
+        ...(channel ? [{ channel }] : []),
+        ...(profile ? [{ profile }] : []),
+      ],
+    });
+  }
+
+  private async getFollowerCount(
+    channel: string,
+    profile: string,
+  ): Promise<number> {
+    try {
+      if (channel) {
+        return await this.neynarService.getChannelFollowerCount(
+          channel.slice(1),
+        );
+      }
+      return await this.neynarService.getProfileFollowerCount(profile.slice(1));
+    } catch (error) {
+      logger.warn(
+        `⚠️ [BRAND REQUEST] Could not fetch follower count for ${channel || profile}: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+
+  private async uploadBrandToContract(brand: Brand): Promise<{
+    success: boolean;
+    transactionHashes?: string[];
+    error?: string;
+  }> {
+    try {
+      const brands = await this.contractUploadService.getAllBrandsForContract(
+        undefined,
+        [brand.id],
+      );
+      const validation =
+        this.contractUploadService.validateBrandsForContract(brands);
+      if (!validation.valid) {
+        throw new Error(validation.issues.join(', '));
+      }
+
+      // Never reset the upload flags here: that is only for fresh deployments
+      const result = await this.contractUploadService.uploadBrandsToContract(
+        brands,
+        false,
+      );
+      if (result.failedBrands > 0) {
+        throw new Error(result.errors.map((e) => e.error).join(', '));
+      }
+
+      return { success: true, transactionHashes: result.txHashes };
+    } catch (error) {
+      logger.error(
+        `❌ [BRAND REQUEST] Contract upload failed for brand ${brand.id}:`,
+        error.message,
+      );
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Best effort: a failed notification never fails the review. Bodies are
+   * cut to the 128 characters Farcaster notifications allow.
+   */
+  private async notifyRequester(
+    request: BrandRequest,
+    title: string,
+    body: string,
+    outcome: 'approved' | 'rejected',
+  ): Promise<void> {
+    try {
+      const requester = await this.userRepository.findOne({
+        where: { id: request.requesterId },
+        select: ['id', 'fid'],
+      });
+      if (!requester) {
+        return;
+      }
+
+      await this.farcasterNotificationService.sendNotificationToSpecificFid(
+        requester.fid,
+        title,
+        body.length > 128 ? `${body.slice(0, 125)}...` : body,
+        'https://brnd.land',
+        `brand-request-${request.id}-${outcome}`,
+      );
+    } catch (error) {
+      logger.error(
+        `❌ [BRAND REQUEST] Failed to notify requester of request ${request.id}:`,
+        error.message,
+      );
+    }
+  }
+}
@@ -5,6 +5,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, MoreThan } from 'typeorm';
 import { Brand, UserBrandVotes } from '../../../models';
 import { FarcasterNotificationService } from '../../notification/services';
+import { BrandRankingSnapshotService } from './brand-ranking-snapshot.service';
+import { BRAND_PERIOD_SCORE_COLUMNS } from './brand.service';
 import { getConfig } from '../../../security/config';
 import {
   devLog,
@@ -25,6 +27,7 @@ export class BrandSchedulerService {
     @InjectRepository(UserBrandVotes)
     private readonly userBrandVotesRepository: Repository<UserBrandVotes>,
     private readonly notificationService: FarcasterNotificationService,
+    private readonly brandRankingSnapshotService: BrandRankingSnapshotService,
   ) {}
 
   /**
@@ -40,6 +43,14 @@ export class BrandSchedulerService {
     );
     criticalLog(this.logger, `PERIOD END: Processing at ${now.toISOString()}`);
 
+    // Keep the finished periods' rankings before their scores are reset.
+    // A failed snapshot can be re-captured later, so it must not block resets.
+    try {
+      await this.brandRankingSnapshotService.captureClosedPeriods(now);
+    } catch (error) {
+      errorLog(this.logger, 'PERIOD END Snapshot error:', error);
+    }
+
     try {
       // Check what periods are ending
       const isEndOfMonth = this.isEndOfMonth(now);
@@ -123,16 +134,12 @@ export class BrandSchedulerService {
     period: 'day' | 'week' | 'month',
     limit: number,
   ): Promise<Brand[]> {
-    const scoreField =
-      period === 'day'
-        ? 'scoreDay'
-        : period === 'week'
-          ? 'scoreWeek'
-          : 'scoreMonth';
+    const scoreField = BRAND_PERIOD_SCORE_COLUMNS[period];
 
+    // Same order as the brand list, so the podium matches what users see
     return await this.brandRepository.find({
       where: { banned: 0 },
-      order: { [scoreField]: 'DESC' },
+      order: { [scoreField]: 'DESC', followerCount: 'DESC', id: 'ASC' },
       take: limit,
     });
   }
@@ -147,6 +154,7 @@ export class BrandSchedulerService {
       .set({
         scoreDay: 0,
         stateScoreDay: 0,
+        rankingDay: 0,
       })
       .execute();
     this.logger.log(
@@ -0,0 +1,247 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { EntityManager, Repository } from 'typeorm';
+
+import {
+  Brand,
+  BrandScoreEntry,
+  BrandScoreEntryKindEnum,
+} from '../../../models';
+import { DEFAULT_SCORING_RULES, ScoringService } from '../../scoring/services';
+import {
+  BrandScoreLedgerService,
+  VoteScoreInput,
+} from './brand-score-ledger.service';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+/**
+ * In-memory stand-in for the entity manager of a vote's transaction: keeps
+ * the ledger rows and applies counter updates to a map of brand counters.
+ */
+function createLedgerManager() {
+  const entries: BrandScoreEntry[] = [];
+  const counters = new Map<number, Record<string, number>>();
+
+  const repository = {
+    find: jest.fn(async ({ where }) =>
+      entries.filter(
+        (entry) => entry.voteTransactionHash === where.voteTransactionHash,
+      ),
+    ),
+    insert: jest.fn(async (rows: Partial<BrandScoreEntry>[]) => {
+      rows.forEach((row) =>
+        entries.push({ id: entries.length + 1, ...row } as BrandScoreEntry),
+      );
+    }),
+  };
+
+  const createQueryBuilder = jest.fn(() => {
+    let increments: Record<string, () => string> = {};
+    let brandId: number;
+    let points: number;
+    const builder = {
+      update: () => builder,
+      set: (values: Record<string, () => string>) => {
+        increments = values;
+        return builder;
+      },
+      where: (_condition: string, parameters: { brandId: number }) => {
+        brandId = parameters.brandId;
+        return builder;
+      },
+      setParameter: (_name: string, value: number) => {
+        points = value;
+        return builder;
+      },
+      execute: async () => {
+        const brand = counters.get(brandId) || {};
+        for (const column of Object.keys(increments)) {
+          brand[column] = (brand[column] || 0) + points;
+        }
+        counters.set(brandId, brand);
+      },
+    };
+    return builder;
+  });
+
+  const manager = {
+    getRepository: jest.fn(() => repository),
+    createQueryBuilder,
+  } as unknown as EntityManager;
+
+  return { manager, entries, counters };
+}
+
+describe('BrandScoreLedgerService', () => {
+  const now = new Date();
+  let brandRepository: { query: jest.Mock<Repository<Brand>['query']> };
+  let service: BrandScoreLedgerService;
+
+  const vote = (overrides: Partial<VoteScoreInput> = {}): VoteScoreInput => ({
+    transactionHash: '0xvote',
+    brandIds: [1, 2, 3],
+    brndPaid: 100,
+    date: now,
+    day: Math.floor(now.getTime() / 86400000),
+    rules: DEFAULT_SCORING_RULES,
+    brandBonusPoints: [0, 0, 0],
+    voteWeight: 1,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    brandRepository = { query: jest.fn() };
+    service = new BrandScoreLedgerService(
+      {} as Repository<BrandScoreEntry>,
+      brandRepository as unknown as Repository<Brand>,
+      {} as ScoringService,
+    );
+  });
+
+  describe('recordVote', () => {
+    it('appends one entry per position and applies the points to every counter', async () => {
+      const { manager, entries, counters } = createLedgerManager();
+
+      await service.recordVote(manager, vote());
+
+      expect(entries.map((entry) => [entry.position, entry.points])).toEqual([
+        [1, 60],
+        [2, 30],
+        [3, 10],
+      ]);
+      expect(entries.every((entry) => entry.generation === 0)).toBe(true);
+      expect(counters.get(1)).toEqual({
+        score: 60,
+        stateScore: 60,
+        scoreDay: 60,
+        stateScoreDay: 60,
+        scoreWeek: 60,
+        stateScoreWeek: 60,
+        scoreMonth: 60,
+        stateScoreMonth: 60,
+      });
+    });
+
+    it('leaves the period counters alone for votes cast before the period', async () => {
+      const { manager, counters } = createLedgerManager();
+      const date = new Date('2025-01-15T12:00:00Z');
+
+      await service.recordVote(manager, vote({ date }));
+
+      expect(counters.get(1)).toEqual({ score: 60, stateScore: 60 });
+    });
+
+    it('refuses a vote that is already counted', async () => {
+      const { manager } = createLedgerManager();
+      await service.recordVote(manager, vote());
+
+      await expect(service.recordVote(manager, vote())).rejects.toThrow(
+        'Vote 0xvote is already in the score ledger',
+      );
+    });
+
+    it('records a reverted vote again as a new generation', async () => {
+      const { manager, entries, counters } = createLedgerManager();
+      await service.recordVote(manager, vote());
+      await service.recordReversal(manager, '0xvote');
+
+      await service.recordVote(manager, vote());
+
+      expect(
+        entries
+          .filter((entry) => entry.generation === 1)
+          .map((entry) => entry.kind),
+      ).toEqual([
+        BrandScoreEntryKindEnum.VOTE,
+        BrandScoreEntryKindEnum.VOTE,
+        BrandScoreEntryKindEnum.VOTE,
+      ]);
+      expect(counters.get(1).score).toBe(60);
+    });
+  });
+
+  describe('recordReversal', () => {
+    it('appends cancelling entries and takes the points off the counters', async () => {
+      const { manager, entries, counters } = createLedgerManager();
+      await service.recordVote(manager, vote());
+
+      const cancelled = await service.recordReversal(manager, '0xvote');
+
+      expect(cancelled).toHaveLength(3);
+      expect(
+        entries
+          .filter((entry) => entry.kind === BrandScoreEntryKindEnum.REVERSAL)
+          .map((entry) => entry.points),
+      ).toEqual([-60, -30, -10]);
+      expect(entries).toHaveLength(6);
+      expect(counters.get(1).score).toBe(0);
+      expect(counters.get(1).stateScoreDay).toBe(0);
+    });
+
+    it('cancels nothing twice', async () => {
+      const { manager, entries } = createLedgerManager();
+      await service.recordVote(manager, vote());
+      await service.recordReversal(manager, '0xvote');
+
+      expect(await service.recordReversal(manager, '0xvote')).toEqual([]);
+      expect(entries).toHaveLength(6);
+    });
+
+    it('returns null for a vote that is not in the ledger', async () => {
+      const { manager } = createLedgerManager();
+
+      expect(await service.recordReversal(manager, '0xmissing')).toBeNull();
+    });
+  });
+
+  describe('rebuildCounters', () => {
+    it('rebuilds the score and stateScore columns from the ledger', async () => {
+      brandRepository.query.mockResolvedValue({ affectedRows: 4 });
+
+      const summary = await service.rebuildCounters();
+
+      const [sql, parameters] = brandRepository.query.mock.calls[0];
+      for (const column of [
+        'score',
+        'scoreDay',
+        'scoreWeek',
+        'scoreMonth',
+        'stateScore',
+        'stateScoreDay',
+        'stateScoreWeek',
+        'stateScoreMonth',
+      ]) {
+        expect(sql).toContain(`b.${column} =`);
+      }
+      expect(parameters).toEqual([
+        summary.dayStart,
+        summary.weekStart,
+        summary.monthStart,
+      ]);
+      expect(summary.brandsUpdated).toBe(4);
+      expect(summary.backfilledEntries).toBe(0);
+    });
+  });
+
+  describe('getPeriodStarts', () => {
+    it('starts weeks on the most recent Saturday', () => {
+      const { dayStart, weekStart, monthStart } = service.getPeriodStarts(
+        new Date('2026-10-14T15:30:00Z'),
+      );
+
+      expect(dayStart.toISOString()).toBe('2026-10-14T00:00:00.000Z');
+      expect(weekStart.toISOString()).toBe('2026-10-10T00:00:00.000Z');
+      expect(monthStart.toISOString()).toBe('2026-10-01T00:00:00.000Z');
+    });
+
+    it('starts the week on the day itself on a Saturday', () => {
+      const { weekStart } = service.getPeriodStarts(
+        new Date('2026-10-10T08:00:00Z'),
+      );
+
+      expect(weekStart.toISOString()).toBe('2026-10-10T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,550 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+
+import {
+  Brand,
+  BrandScoreEntry,
+  BrandScoreEntryKindEnum,
+  ScoringRules,
+  UserBrandVotes,
+} from '../../../models';
+import { ScoringService, getPositionPoints } from '../../scoring/services';
+import { logger } from '../../../main';
+
+// BRND equivalent of the flat 60/30/10 points legacy votes were scored with
+const LEGACY_BRND_PAID = 100;
+
+export interface VoteScoreInput {
+  transactionHash: string;
+  brandIds: number[];
+  brndPaid: number;
+  date: Date;
+  day: number;
+  rules: ScoringRules;
+  // Brand.bonusPoints of each podium brand when the vote was cast
+  brandBonusPoints: number[];
+  // How much the voter's votes count, see ScoringRules.flaggedVoteWeight
+  voteWeight: number;
+}
+
+export interface BrandWindowScore {
+  brandId: number;
+  name: string;
+  score: number;
+  votes: number;
+}
+
+export interface ScoreRebuildSummary {
+  backfilledEntries: number;
+  brandsUpdated: number;
+  dayStart: Date;
+  weekStart: Date;
+  monthStart: Date;
+}
+
+@Injectable()
+export class BrandScoreLedgerService {
+  constructor(
+    @InjectRepository(BrandScoreEntry)
+    private readonly brandScoreEntryRepository: Repository<BrandScoreEntry>,
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+    private readonly scoringService: ScoringService,
+  ) {}
+
+  /**
+   * Appends one entry per podium position for a vote and applies the points
+   * to the brands' counters. Runs inside the vote's transaction so the
+   * ledger, the counters and the vote row commit together. A vote that was
+   * reverted can be recorded again; one that is still counted cannot.
+   */
+  async recordVote(
+    manager: EntityManager,
+    vote: VoteScoreInput,
+  ): Promise<void> {
+    const repository = manager.getRepository(BrandScoreEntry);
+    const ledgerEntries = await repository.find({
+      where: { voteTransactionHash: vote.transactionHash },
+    });
+
+    let generation = 0;
+    if (ledgerEntries.length > 0) {
+      const latest = Math.max(...ledgerEntries.map((e) => e.generation));
+      if (this.getUncancelledEntries(ledgerEntries, latest).length > 0) {
+        throw new Error(
+          `Vote ${vote.transactionHash} is already in the score ledger`,
+        );
+      }
+      generation = latest + 1;
+    }
+
+    const entries = this.toVoteEntries(vote, generation);
+    await repository.insert(entries);
+    await this.applyToCounters(manager, entries);
+  }
+
+  /**
+   * Records a vote cast through the off-chain voting flow, which scores a
+   * flat 60/30/10, i.e. LEGACY_BRND_PAID under the rules in effect.
+   */
+  async recordLegacyVote(
+    transactionHash: string,
+    brandIds: number[],
+    date: Date,
+  ): Promise<void> {
+    const { rules } = await this.scoringService.getRulesForDate(date);
+
+    await this.brandRepository.manager.transaction((manager) =>
+      this.recordVote(manager, {
+        transactionHash,
+        brandIds,
+        brndPaid: LEGACY_BRND_PAID,
+        date,
+        day: Math.floor(date.getTime() / 86400000),
+        rules,
+        brandBonusPoints: brandIds.map(() => 0),
+        voteWeight: 1,
+      }),
+    );
+  }
+
+  /**
+   * Enters a stored vote that predates the ledger, scored like
+   * backfillFromVotes would. Counters are left alone since they already
+   * include the vote.
+   */
+  async backfillVote(
+    manager: EntityManager,
+    vote: UserBrandVotes,
+  ): Promise<void> {
+    const { rules } = await this.scoringService.getRulesForVote(vote);
+    const brandIds = [vote.brand1?.id, vote.brand2?.id, vote.brand3?.id];
+
+    const entries = this.toVoteEntries(
+      {
+        transactionHash: vote.transactionHash,
+        brandIds,
+        brndPaid: vote.brndPaidWhenCreatingPodium ?? LEGACY_BRND_PAID,
+        date: vote.date,
+        day: vote.day ?? Math.floor(vote.date.getTime() / 86400000),
+        rules,
+        brandBonusPoints: brandIds.map(() => 0),
+        voteWeight: 1,
+      },
+      0,
+    ).filter((entry) => entry.brandId);
+
+    await manager.getRepository(BrandScoreEntry).insert(entries);
+  }
+
+  /**
+   * Appends entries that cancel a vote's points and takes them off the
+   * brands' counters. Existing entries are never touched, so the ledger keeps
+   * the history of the rollback. Returns the entries that were cancelled now,
+   * leaving out positions an earlier reversal already cancelled, or null when
+   * the vote is not in the ledger.
+   */
+  async recordReversal(
+    manager: EntityManager,
+    transactionHash: string,
+  ): Promise<BrandScoreEntry[] | null> {
+    const repository = manager.getRepository(BrandScoreEntry);
+    const ledgerEntries = await repository.find({
+      where: { voteTransactionHash: transactionHash },
+    });
+    if (ledgerEntries.length === 0) {
+      return null;
+    }
+
+    // Votes of banned users are cancelled without being deleted
+    const latest = Math.max(...ledgerEntries.map((e) => e.generation));
+    const entries = this.getUncancelledEntries(ledgerEntries, latest);
+    if (entries.length === 0) {
+      return [];
+    }
+
+    await this.cancelEntries(manager, entries);
+    return entries;
+  }
+
+  /**
+   * Cancels every vote a user cast, e.g. after they were banned, and takes
+   * the points off the brands' counters in the same transaction. The votes
+   * stay stored; only their points leave the ledger. Votes that predate the
+   * ledger are entered first so they are cancelled too. Votes already
+   * cancelled are skipped, so this can be run repeatedly. Returns the brands
+   * whose scores changed.
+   */
+  async reverseUserVotes(
+    manager: EntityManager,
+    userId: number,
+  ): Promise<{ entriesReversed: number; brandIds: number[] }> {
+    const repository = manager.getRepository(BrandScoreEntry);
+
+    const unledgeredVotes = await manager
+      .getRepository(UserBrandVotes)
+      .createQueryBuilder('vote')
+      .leftJoinAndSelect('vote.brand1', 'brand1')
+      .leftJoinAndSelect('vote.brand2', 'brand2')
+      .leftJoinAndSelect('vote.brand3', 'brand3')
+      .where('vote.userId = :userId', { userId })
+      .andWhere(
+        'NOT EXISTS (SELECT 1 FROM brand_score_entries e WHERE e.voteTransactionHash = vote.transactionHash)',
+      )
+      .getMany();
+    for (const vote of unledgeredVotes) {
+      await this.backfillVote(manager, vote);
+    }
+
+    const entries = await repository
+      .createQueryBuilder('entry')
+      .innerJoin(
+        UserBrandVotes,
+        'vote',
+        'vote.transactionHash = entry.voteTransactionHash',
+      )
+      .where('vote.userId = :userId', { userId })
+      .andWhere('entry.kind = :vote', { vote: BrandScoreEntryKindEnum.VOTE })
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM brand_score_entries r
+          WHERE r.voteTransactionHash = entry.voteTransactionHash
+            AND r.generation = entry.generation
+            AND r.position = entry.position
+            AND r.kind = :reversal
+        )`,
+        { reversal: BrandScoreEntryKindEnum.REVERSAL },
+      )
+      .getMany();
+
+    if (entries.length > 0) {
+      await this.cancelEntries(manager, entries);
+    }
+
+    logger.log(
+      `📒 [SCORE LEDGER] Reversed ${entries.length} entries of user ${userId}'s votes`,
+    );
+    return {
+      entriesReversed: entries.length,
+      brandIds: [...new Set(entries.map((entry) => entry.brandId))],
+    };
+  }
+
+  /**
+   * Brand scores summed over votes cast in [from, to). Either bound may be
+   * omitted. Reversed votes cancel out and are not counted as votes.
+   */
+  async getScoresForWindow(
+    from?: Date,
+    to?: Date,
+    limit: number = 50,
+  ): Promise<BrandWindowScore[]> {
+    const query = this.brandScoreEntryRepository
+      .createQueryBuilder('entry')
+      .innerJoin(Brand, 'brand', 'brand.id = entry.brandId')
+      .select('entry.brandId', 'brandId')
+      .addSelect('brand.name', 'name')
+      .addSelect('SUM(entry.points)', 'score')
+      .addSelect(
+        `SUM(CASE WHEN entry.kind = '${BrandScoreEntryKindEnum.VOTE}' THEN 1 ELSE -1 END)`,
+        'votes',
+      )
+      .groupBy('entry.brandId')
+      .addGroupBy('brand.name')
+      .orderBy('score', 'DESC')
+      .addOrderBy('entry.brandId', 'ASC')
+      .limit(limit);
+
+    if (from) {
+      query.andWhere('entry.voteDate >= :from', { from });
+    }
+    if (to) {
+      query.andWhere('entry.voteDate < :to', { to });
+    }
+
+    const rows = await query.getRawMany();
+
+    return rows.map((row) => ({
+      brandId: row.brandId,
+      name: row.name,
+      score: Math.round(parseFloat(row.score)),
+      votes: parseInt(row.votes),
+    }));
+  }
+
+  /**
+   * Writes ledger entries for stored votes that predate the ledger, weighted
+   * with the scoring rules version that scored each vote. Entries that
+   * already exist are skipped, so this can be run repeatedly. Votes cast
+   * before on-chain voting carry no BRND amount and scored a flat 60/30/10,
+   * which is the same as 100 BRND paid. Brand bonus points are not known
+   * after the fact and are left out.
+   */
+  async backfillFromVotes(): Promise<number> {
+    const versions = await this.scoringService.getVersions();
+    const globalVersions = versions.filter((version) => !version.seasonId);
+    let inserted = 0;
+
+    for (const version of versions) {
+      // Season versions only score the votes that recorded them
+      const versionIndex = globalVersions.indexOf(version);
+      inserted += await this.backfillVersionFromVotes(
+        version.version,
+        version.rules.positionWeights,
+        version.seasonId ? null : version.effectiveFrom,
+        globalVersions[versionIndex + 1]?.effectiveFrom || null,
+      );
+    }
+
+    logger.log(`📒 [SCORE LEDGER] Backfilled ${inserted} entries from votes`);
+    return inserted;
+  }
+
+  /**
+   * Backfills the votes scored with one rules version: those that recorded
+   * it, and unversioned votes cast while it was in effect. Without an
+   * effectiveFrom only the votes that recorded it are backfilled.
+   */
+  private async backfillVersionFromVotes(
+    version: number,
+    positionWeights: number[],
+    effectiveFrom: Date | null,
+    effectiveUntil: Date | null,
+  ): Promise<number> {
+    let inserted = 0;
+
+    for (let index = 0; index < positionWeights.length; index++) {
+      const position = index + 1;
+      const result = await this.brandScoreEntryRepository.query(
+        `
+        INSERT IGNORE INTO brand_score_entries
+          (brandId, voteTransactionHash, position, kind, weight, brndPaid, points, voteDate, day)
+        SELECT
+          v.brand${position}Id,
+          v.transactionHash,
+          ?,
+          ?,
+          ?,
+          COALESCE(v.brndPaidWhenCreatingPodium, ${LEGACY_BRND_PAID}),
+          ? * COALESCE(v.brndPaidWhenCreatingPodium, ${LEGACY_BRND_PAID}),
+          v.date,
+          COALESCE(v.day, FLOOR(UNIX_TIMESTAMP(v.date) / 86400))
+        FROM user_brand_votes v
+        WHERE v.brand${position}Id IS NOT NULL
+          AND (
+            v.scoringRulesVersion = ?
+            OR (
+              v.scoringRulesVersion IS NULL
+              AND ? IS NOT NULL
+              AND v.date >= ?
+              AND (? IS NULL OR v.date < ?)
+            )
+          )
+        `,
+        [
+          position,
+          BrandScoreEntryKindEnum.VOTE,
+          positionWeights[index],
+          positionWeights[index],
+          version,
+          effectiveFrom,
+          effectiveFrom,
+          effectiveUntil,
+          effectiveUntil,
+        ],
+      );
+      inserted += result.affectedRows || 0;
+    }
+
+    return inserted;
+  }
+
+  /**
+   * Recomputes every brand's score counters, and the stateScore columns that
+   * mirror them, from the ledger in one statement. The result only depends on
+   * the ledger and the current period boundaries, so running it twice in the
+   * same period gives the same counters.
+   */
+  async rebuildCounters(
+    backfill: boolean = false,
+  ): Promise<ScoreRebuildSummary> {
+    const backfilledEntries = backfill ? await this.backfillFromVotes() : 0;
+    const { dayStart, weekStart, monthStart } = this.getPeriodStarts();
+
+    logger.log(
+      `📒 [SCORE LEDGER] Rebuilding brand scores (day from ${dayStart.toISOString()}, week from ${weekStart.toISOString()}, month from ${monthStart.toISOString()})`,
+    );
+
+    const result = await this.brandRepository.query(
+      `
+      UPDATE brands b
+      LEFT JOIN (
+        SELECT
+          brandId,
+          SUM(points) AS total,
+          SUM(CASE WHEN voteDate >= ? THEN points ELSE 0 END) AS dayTotal,
+          SUM(CASE WHEN voteDate >= ? THEN points ELSE 0 END) AS weekTotal,
+          SUM(CASE WHEN voteDate >= ? THEN points ELSE 0 END) AS monthTotal
+        FROM brand_score_entries
+        GROUP BY brandId
+      ) s ON s.brandId = b.id
+      SET
+        b.score = ROUND(COALESCE(s.total, 0)),
+        b.scoreDay = ROUND(COALESCE(s.dayTotal, 0)),
+        b.scoreWeek = ROUND(COALESCE(s.weekTotal, 0)),
+        b.scoreMonth = ROUND(COALESCE(s.monthTotal, 0)),
+        b.stateScore = ROUND(COALESCE(s.total, 0)),
+        b.stateScoreDay = ROUND(COALESCE(s.dayTotal, 0)),
+        b.stateScoreWeek = ROUND(COALESCE(s.weekTotal, 0)),
+        b.stateScoreMonth = ROUND(COALESCE(s.monthTotal, 0))
+      `,
+      [dayStart, weekStart, monthStart],
+    );
+
+    const brandsUpdated = result.affectedRows || 0;
+    logger.log(
+      `✅ [SCORE LEDGER] Rebuilt scores, ${brandsUpdated} brands changed`,
+    );
+
+    return {
+      backfilledEntries,
+      brandsUpdated,
+      dayStart,
+      weekStart,
+      monthStart,
+    };
+  }
+
+  /**
+   * Vote entries of one generation that no reversal has cancelled yet.
+   */
+  private getUncancelledEntries(
+    ledgerEntries: BrandScoreEntry[],
+    generation: number,
+  ): BrandScoreEntry[] {
+    const current = ledgerEntries.filter((e) => e.generation === generation);
+    return current.filter(
+      (entry) =>
+        entry.kind === BrandScoreEntryKindEnum.VOTE &&
+        !current.some(
+          (other) =>
+            other.kind === BrandScoreEntryKindEnum.REVERSAL &&
+            other.position === entry.position,
+        ),
+    );
+  }
+
+  private toVoteEntries(
+    vote: VoteScoreInput,
+    generation: number,
+  ): Omit<BrandScoreEntry, 'id' | 'createdAt'>[] {
+    return vote.brandIds.map((brandId, index) => ({
+      brandId,
+      voteTransactionHash: vote.transactionHash,
+      generation,
+      position: index + 1,
+      kind: BrandScoreEntryKindEnum.VOTE,
+      weight: vote.rules.positionWeights[index],
+      brndPaid: vote.brndPaid,
+      points: getPositionPoints(
+        vote.rules,
+        index + 1,
+        vote.brndPaid,
+        vote.brandBonusPoints[index],
+        vote.voteWeight,
+      ),
+      voteDate: vote.date,
+      day: vote.day,
+    }));
+  }
+
+  /**
+   * Appends a reversal for each vote entry and takes its points off the
+   * brand's counters.
+   */
+  private async cancelEntries(
+    manager: EntityManager,
+    entries: BrandScoreEntry[],
+  ): Promise<void> {
+    const reversals = entries.map((entry) => ({
+      brandId: entry.brandId,
+      voteTransactionHash: entry.voteTransactionHash,
+      generation: entry.generation,
+      position: entry.position,
+      kind: BrandScoreEntryKindEnum.REVERSAL,
+      weight: entry.weight,
+      brndPaid: entry.brndPaid,
+      points: -Number(entry.points),
+      voteDate: entry.voteDate,
+      day: entry.day,
+    }));
+    await manager.getRepository(BrandScoreEntry).insert(reversals);
+    await this.applyToCounters(manager, reversals);
+  }
+
+  /**
+   * Adds entry points to each brand's all-time counter, and to the period
+   * counters of the periods the vote falls in. The stateScore columns move
+   * with their score counterparts.
+   */
+  private async applyToCounters(
+    manager: EntityManager,
+    entries: Array<Pick<BrandScoreEntry, 'brandId' | 'points' | 'voteDate'>>,
+  ): Promise<void> {
+    const { dayStart, weekStart, monthStart } = this.getPeriodStarts();
+
+    for (const entry of entries) {
+      const increments: Record<string, () => string> = {
+        score: () => 'score + :points',
+        stateScore: () => 'stateScore + :points',
+      };
+      if (entry.voteDate >= dayStart) {
+        increments.scoreDay = () => 'scoreDay + :points';
+        increments.stateScoreDay = () => 'stateScoreDay + :points';
+      }
+      if (entry.voteDate >= weekStart) {
+        increments.scoreWeek = () => 'scoreWeek + :points';
+        increments.stateScoreWeek = () => 'stateScoreWeek + :points';
+      }
+      if (entry.voteDate >= monthStart) {
+        increments.scoreMonth = () => 'scoreMonth + :points';
+        increments.stateScoreMonth = () => 'stateScoreMonth + :points';
+      }
+
+      await manager
+        .createQueryBuilder()
+        .update(Brand)
+        .set(increments)
+        .where('id = :brandId', { brandId: entry.brandId })
+        .setParameter('points', Number(entry.points))
+        .execute();
+    }
+  }
+
+  /**
+   * Start of the open day, week and month. Days start at 00:00 UTC, weeks on
+   * Saturday 00:00 UTC and months on the 1st, matching the score resets in
+   * BrandSchedulerService.
+   */
+  getPeriodStarts(now: Date = new Date()): {
+    dayStart: Date;
+    weekStart: Date;
+    monthStart: Date;
+  } {
+    const dayStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+    );
+
+    // Saturday is day 6; days since the most recent Saturday
+    const daysSinceSaturday = (now.getUTCDay() + 1) % 7;
+    const weekStart = new Date(dayStart);
+    weekStart.setUTCDate(dayStart.getUTCDate() - daysSinceSaturday);
+
+    const monthStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+    );
+
+    return { dayStart, weekStart, monthStart };
+  }
+}
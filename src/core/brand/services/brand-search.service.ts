@@ -0,0 +1,364 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Brand } from '../../../models';
+import { TagService } from '../../tag/services';
+import { logger } from '../../../main';
+
+// The catalog is small enough to search in memory; each replica reloads it
+// at most this often, which also refreshes the popularity boost
+const SEARCH_INDEX_TTL = 60 * 1000;
+
+// How much a match on each field counts, relative to a match on the name
+const FIELD_WEIGHTS = {
+  name: 1,
+  ticker: 0.95,
+  channel: 0.9,
+  profile: 0.9,
+  onChainHandle: 0.9,
+  tags: 0.6,
+  category: 0.5,
+  description: 0.3,
+};
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Fuzzy matches below this similarity (1 - edit distance / length) are
+// dropped; 0.7 lets one typo through in a 4 letter word
+const MIN_FUZZY_SIMILARITY = 0.7;
+
+interface SearchIndexEntry {
+  brand: Brand;
+  categoryName: string | null;
+  tagNames: string[];
+  fields: Array<{ field: SearchField; values: string[] }>;
+  popularity: number;
+}
+
+export interface BrandSearchResult {
+  id: number;
+  name: string;
+  imageUrl: string;
+  ticker: string | null;
+  channel: string;
+  profile: string;
+  category: string | null;
+  tags: string[];
+  score: number;
+  followerCount: number;
+  currentRanking: number;
+  matchedField: SearchField;
+  relevance: number;
+}
+
+@Injectable()
+export class BrandSearchService {
+  private index: { entries: SearchIndexEntry[]; loadedAt: number } | null =
+    null;
+  private indexLoading: Promise<SearchIndexEntry[]> | null = null;
+
+  constructor(
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+    private readonly tagService: TagService,
+  ) {}
+
+  /**
+   * Searches listed brands by name, ticker, channel, profile, on-chain
+   * handle, description, category and tags. Case, accents and the leading
+   * '/', '@' or '$' are ignored, prefixes match for typeahead and small
+   * typos still match. Results are ordered by how well they match, boosted
+   * by the brand's score and follower count.
+   */
+  async search(
+    query: string,
+    limit: number = 10,
+  ): Promise<BrandSearchResult[]> {
+    const normalizedQuery = this.normalize(query);
+    if (!normalizedQuery) {
+      return [];
+    }
+    const queryTokens = normalizedQuery.split(' ');
+
+    const entries = await this.getIndex();
+    const results: BrandSearchResult[] = [];
+
+    for (const entry of entries) {
+      let best: { field: SearchField; match: number } | null = null;
+
+      for (const { field, values } of entry.fields) {
+        const match = Math.max(
+          0,
+          ...values.map((value) =>
+            this.matchValue(normalizedQuery, queryTokens, value, field),
+          ),
+        );
+        const weighted = match * FIELD_WEIGHTS[field];
+        if (weighted > 0 && (!best || weighted > best.match)) {
+          best = { field, match: weighted };
+        }
+      }
+
+      if (!best) {
+        continue;
+      }
+
+      // Popularity only reorders comparable matches, it never lifts a weak
+      // description hit over a strong name match
+      const relevance = best.match * (1 + 0.25 * entry.popularity);
+      results.push({
+        id: entry.brand.id,
+        name: entry.brand.name,
+        imageUrl: entry.brand.imageUrl,
+        ticker: entry.brand.ticker || null,
+        channel: entry.brand.channel,
+        profile: entry.brand.profile,
+        category: entry.categoryName,
+        tags: entry.tagNames,
+        score: entry.brand.score || 0,
+        followerCount: entry.brand.followerCount || 0,
+        currentRanking: entry.brand.currentRanking || 0,
+        matchedField: best.field,
+        relevance: Math.round(relevance * 1000) / 1000,
+      });
+    }
+
+    return results
+      .sort(
+        (a, b) =>
+          b.relevance - a.relevance ||
+          b.score - a.score ||
+          b.followerCount - a.followerCount ||
+          a.id - b.id,
+      )
+      .slice(0, limit);
+  }
+
+  private async getIndex(): Promise<SearchIndexEntry[]> {
+    if (this.index && Date.now() - this.index.loadedAt < SEARCH_INDEX_TTL) {
+      return this.index.entries;
+    }
+
+    // Concurrent keystrokes share one reload
+    if (!this.indexLoading) {
+      this.indexLoading = this.loadIndex()
+        .then((entries) => {
+          this.index = { entries, loadedAt: Date.now() };
+          return entries;
+        })
+        .finally(() => {
+          this.indexLoading = null;
+        });
+    }
+
+    // Serve the stale catalog while it reloads, rather than making the
+    // user wait on the database
+    if (this.index) {
+      this.indexLoading.catch((error) =>
+        logger.error('❌ [BRAND SEARCH] Failed to reload the index:', error),
+      );
+      return this.index.entries;
+    }
+    return this.indexLoading;
+  }
+
+  private async loadIndex(): Promise<SearchIndexEntry[]> {
+    const startTime = Date.now();
+    const [brands, tagNamesByBrand] = await Promise.all([
+      this.brandRepository
+        .createQueryBuilder('brand')
+        .leftJoinAndSelect('brand.category', 'category')
+        .select([
+          'brand.id',
+          'brand.name',
+          'brand.imageUrl',
+          'brand.ticker',
+          'brand.channel',
+          'brand.profile',
+          'brand.onChainHandle',
+          'brand.description',
+          'brand.score',
+          'brand.followerCount',
+          'brand.currentRanking',
+          'category.id',
+          'category.name',
+        ])
+        .where('brand.banned = 0')
+        .getMany(),
+      this.tagService.getTagNamesByBrand(),
+    ]);
+
+    const maxScore = Math.max(1, ...brands.map((brand) => brand.score || 0));
+    const maxFollowers = Math.max(
+      1,
+      ...brands.map((brand) => brand.followerCount || 0),
+    );
+    const logShare = (value: number, max: number) =>
+      Math.log10(1 + Math.max(value || 0, 0)) / Math.log10(1 + max);
+
+    const entries = brands.map((brand) => {
+      const tagNames = tagNamesByBrand.get(brand.id) || [];
+      const categoryName = brand.category?.name || null;
+      const fields: SearchIndexEntry['fields'] = [
+        { field: 'name', values: [brand.name] },
+        { field: 'ticker', values: [brand.ticker] },
+        { field: 'channel', values: [brand.channel] },
+        { field: 'profile', values: [brand.profile] },
+        { field: 'onChainHandle', values: [brand.onChainHandle] },
+        { field: 'tags', values: tagNames },
+        { field: 'category', values: [categoryName] },
+        { field: 'description', values: [brand.description] },
+      ];
+
+      return {
+        brand,
+        categoryName,
+        tagNames,
+        fields: fields
+          .map(({ field, values }) => ({
+            field,
+            values: values
+              .map((value) => this.normalize(value))
+              .filter(Boolean),
+          }))
+          .filter(({ values }) => values.length > 0),
+        popularity:
+          0.5 * logShare(brand.score, maxScore) +
+          0.5 * logShare(brand.followerCount, maxFollowers),
+      };
+    });
+
+    logger.log(
+      `🔎 [BRAND SEARCH] Indexed ${entries.length} brands in ${Date.now() - startTime}ms`,
+    );
+    return entries;
+  }
+
+  /**
+   * How well a normalized field value matches the query, from 0 to 1.
+   */
+  private matchValue(
+    query: string,
+    queryTokens: string[],
+    value: string,
+    field: SearchField,
+  ): number {
+    if (value === query) {
+      return 1;
+    }
+    if (value.startsWith(query)) {
+      return 0.9;
+    }
+
+    const words = value.split(' ');
+    if (words.some((word) => word.startsWith(query))) {
+      return 0.8;
+    }
+    // "base app" should find "baseapp" and the other way round
+    const compactQuery = query.replace(/ /g, '');
+    const compactValue = value.replace(/ /g, '');
+    if (compactValue.startsWith(compactQuery)) {
+      return 0.75;
+    }
+    if (query.length >= 3 && value.includes(query)) {
+      return 0.6;
+    }
+
+    // Long descriptions would fuzzy match almost anything
+    if (field === 'description') {
+      return 0;
+    }
+
+    if (queryTokens.length > 1) {
+      const tokenMatches = queryTokens.map((token) =>
+        Math.max(0, ...words.map((word) => this.matchWord(token, word))),
+      );
+      if (tokenMatches.every((match) => match > 0)) {
+        return (
+          0.7 *
+          (tokenMatches.reduce((sum, match) => sum + match, 0) /
+            tokenMatches.length)
+        );
+      }
+      return 0;
+    }
+
+    return (
+      0.7 * Math.max(0, ...words.map((word) => this.matchWord(query, word)))
+    );
+  }
+
+  /**
+   * Prefix or fuzzy match of one query token against one word. A partly
+   * typed token is compared with the start of the word, so "sanpshot"
+   * still finds "snapshot" while the user is typing.
+   */
+  private matchWord(token: string, word: string): number {
+    if (word.startsWith(token)) {
+      return 1;
+    }
+    if (token.length < 3) {
+      return 0;
+    }
+
+    const candidate =
+      word.length > token.length + 1 ? word.slice(0, token.length) : word;
+    const longest = Math.max(token.length, candidate.length);
+    const maxDistance = Math.floor(longest * (1 - MIN_FUZZY_SIMILARITY));
+    const distance = this.editDistance(token, candidate, maxDistance);
+    if (distance > maxDistance) {
+      return 0;
+    }
+    return 1 - distance / longest;
+  }
+
+  /**
+   * Damerau-Levenshtein distance (adjacent swaps count as one edit), giving
+   * up once it exceeds maxDistance.
+   */
+  private editDistance(a: string, b: string, maxDistance: number): number {
+    if (Math.abs(a.length - b.length) > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    let previousRow: number[] = [];
+    let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const nextRow = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let distance = Math.min(
+          row[j] + 1,
+          nextRow[j - 1] + 1,
+          row[j - 1] + cost,
+        );
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          distance = Math.min(distance, previousRow[j - 2] + 1);
+        }
+        nextRow[j] = distance;
+        rowMin = Math.min(rowMin, distance);
+      }
+      if (rowMin > maxDistance) {
+        return maxDistance + 1;
+      }
+      previousRow = row;
+      row = nextRow;
+    }
+    return row[b.length];
+  }
+
+  /**
+   * Lowercases, strips accents and the '/', '@' and '$' prefixes, and turns
+   * everything that is not a letter or digit into single spaces.
+   */
+  private normalize(value: string | null | undefined): string {
+    return (value || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
+  }
+}
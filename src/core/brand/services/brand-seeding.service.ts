@@ -11,6 +11,9 @@ import { Brand, Category } from '../../../models';
 // Utils
 import { logger } from '../../../main';
 
+// Services
+import { TagService } from '../../tag/services';
+
 interface BrandSeedData {
   name: string;
   url?: string;
@@ -35,6 +38,7 @@ interface BrandSeedData {
   banned?: number;
   queryType?: number;
   category: string;
+  tags?: string[];
 }
 
 /**
@@ -50,6 +54,8 @@ export class BrandSeederService {
 
     @InjectRepository(Category)
     private readonly categoryRepository: Repository<Category>,
+
+    private readonly tagService: TagService,
   ) {}
 
   /**
@@ -181,6 +187,14 @@ export class BrandSeederService {
       throw new Error('Channel must be a string if provided');
     }
 
+    if (
+      brand.tags !== undefined &&
+      (!Array.isArray(brand.tags) ||
+        brand.tags.some((tag: unknown) => typeof tag !== 'string'))
+    ) {
+      throw new Error('tags must be an array of strings if provided');
+    }
+
     // Optional numeric fields validation
     if (
       brand.followerCount !== undefined &&
@@ -304,6 +318,11 @@ export class BrandSeederService {
 
     // Save to database
     await this.brandRepository.save(brand);
+
+    // Tags are optional; when listed they replace the brand's tags
+    if (brandData.tags) {
+      await this.tagService.setBrandTags(brand.id, brandData.tags);
+    }
     console.log(
       `✅ Saved brand: ${brandData.name} (profile: ${brand.profile || 'none'}, channel: ${brand.channel})`,
     );
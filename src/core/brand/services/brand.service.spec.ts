@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+
+import { Brand, UserBrandVotes } from '../../../models';
+import { UserService } from '../../user/services';
+import { TagService } from '../../tag/services';
+import { BrandMetricsService } from './brand-metrics.service';
+import { BrandScoreLedgerService } from './brand-score-ledger.service';
+import { BrandService } from './brand.service';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+/**
+ * Records what getAll asks of the query builder and returns the given rows.
+ */
+function createListQuery(rows: Partial<Brand>[], count = rows.length) {
+  const query = {
+    where: jest.fn(() => query),
+    andWhere: jest.fn(() => query),
+    select: jest.fn(() => query),
+    leftJoinAndSelect: jest.fn(() => query),
+    skip: jest.fn(() => query),
+    addOrderBy: jest.fn(() => query),
+    take: jest.fn(() => query),
+    clone: jest.fn(() => ({ getCount: async () => count })),
+    getMany: jest.fn(async () => rows),
+  };
+  return query;
+}
+
+const encode = (values: unknown[]) =>
+  Buffer.from(JSON.stringify(values)).toString('base64url');
+
+describe('BrandService', () => {
+  let query: ReturnType<typeof createListQuery>;
+  let service: BrandService;
+
+  const useRows = (rows: Partial<Brand>[], count?: number) => {
+    query = createListQuery(rows, count);
+  };
+
+  beforeEach(() => {
+    useRows([]);
+    const brandRepository = {
+      createQueryBuilder: () => query as unknown as SelectQueryBuilder<Brand>,
+    };
+    service = new BrandService(
+      brandRepository as unknown as Repository<Brand>,
+      {} as Repository<UserBrandVotes>,
+      {} as UserService,
+      {} as BrandMetricsService,
+      {} as TagService,
+      {} as BrandScoreLedgerService,
+    );
+  });
+
+  describe('getAll', () => {
+    const brands: Partial<Brand>[] = [
+      { id: 4, score: 90, followerCount: 10 },
+      { id: 2, score: 50, followerCount: 30 },
+      { id: 7, score: 50, followerCount: 30 },
+    ];
+
+    it('pages by offset without a cursor and returns the cursor of the next page', async () => {
+      useRows(brands, 12);
+
+      const [page, count, nextCursor] = await service.getAll(
+        [],
+        [],
+        'all',
+        'all',
+        '',
+        3,
+        2,
+      );
+
+      expect(page.map((brand) => brand.id)).toEqual([4, 2]);
+      expect(count).toBe(12);
+      expect(query.skip).toHaveBeenCalledWith(4);
+      expect(query.take).toHaveBeenCalledWith(3);
+      expect(nextCursor).toBe(encode([50, 30, 2]));
+    });
+
+    it('returns no cursor on the last page', async () => {
+      useRows(brands.slice(0, 2));
+
+      const [, , nextCursor] = await service.getAll(
+        [],
+        [],
+        'all',
+        'all',
+        '',
+        1,
+        2,
+      );
+
+      expect(nextCursor).toBeNull();
+    });
+
+    it('keeps the rows after the cursor row instead of skipping', async () => {
+      await service.getAll(
+        [],
+        [],
+        'all',
+        'week',
+        '',
+        1,
+        2,
+        {},
+        encode([50, 30, 2]),
+      );
+
+      expect(query.skip).not.toHaveBeenCalled();
+      expect(query.andWhere).toHaveBeenCalledWith(
+        '((brand.scoreWeek < :cursor0) OR ' +
+          '(brand.scoreWeek = :cursor0 AND brand.followerCount < :cursor1) OR ' +
+          '(brand.scoreWeek = :cursor0 AND brand.followerCount = :cursor1 AND brand.id > :cursor2))',
+        { cursor0: 50, cursor1: 30, cursor2: 2 },
+      );
+      expect(query.addOrderBy.mock.calls).toEqual([
+        ['brand.scoreWeek', 'DESC'],
+        ['brand.followerCount', 'DESC'],
+        ['brand.id', 'ASC'],
+      ]);
+    });
+
+    it('pages the newest brands by creation date and id', async () => {
+      const createdAt = new Date('2026-09-01T10:00:00.000Z');
+      useRows([
+        { id: 9, createdAt },
+        { id: 8, createdAt },
+      ]);
+
+      const [, , nextCursor] = await service.getAll(
+        [],
+        [],
+        'new',
+        'all',
+        '',
+        1,
+        1,
+        {},
+        encode(['2026-09-02T00:00:00.000Z', 12]),
+      );
+
+      expect(nextCursor).toBe(encode(['2026-09-01T10:00:00.000Z', 9]));
+      expect(query.andWhere).toHaveBeenCalledWith(
+        '((brand.createdAt < :cursor0) OR (brand.createdAt = :cursor0 AND brand.id < :cursor1))',
+        { cursor0: new Date('2026-09-02T00:00:00.000Z'), cursor1: 12 },
+      );
+    });
+
+    it('always reads the sort keys so the cursor can be built', async () => {
+      await service.getAll(['name'], [], 'all', 'day');
+
+      expect(query.select).toHaveBeenCalledWith([
+        'brand.name',
+        'brand.scoreDay',
+        'brand.followerCount',
+        'brand.id',
+      ]);
+    });
+
+    it('rejects a cursor that does not match the sort keys', async () => {
+      await expect(
+        service.getAll([], [], 'new', 'all', '', 1, 15, {}, encode([1, 2, 3])),
+      ).rejects.toThrow('Invalid cursor');
+      await expect(
+        service.getAll([], [], 'all', 'all', '', 1, 15, {}, 'not-a-cursor'),
+      ).rejects.toThrow('Invalid cursor');
+    });
+  });
+});
@@ -1,22 +1,54 @@
 // Dependencies
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, IsNull, Like, MoreThan, Not, Repository } from 'typeorm';
+import {
+  In,
+  IsNull,
+  MoreThan,
+  Not,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 
 // Models
-import { Brand, UserBrandVotes } from '../../../models';
+import {
+  Brand,
+  BrandTags,
+  PointsReasonEnum,
+  Tag,
+  UserBrandVotes,
+} from '../../../models';
 
 // Services
 import { UserService } from '../../user/services';
 import { BrandMetricsService } from './brand-metrics.service';
+import { BrandScoreLedgerService } from './brand-score-ledger.service';
+import { TagService } from '../../tag/services';
 import { User } from '../../../security/decorators';
 import NeynarService from '../../../utils/neynar';
 import { getConfig } from '../../../security/config';
 
 // Types
-import { BrandOrderType, BrandResponse } from '.';
+import {
+  BrandFacets,
+  BrandLeaderboardEntry,
+  BrandLeaderboardPeriod,
+  BrandListFilters,
+  BrandOrderType,
+  BrandResponse,
+} from '.';
 import { BrandTimePeriod } from '../brand.controller';
 
+// Score column each list period sorts by; the scheduler resets the period
+// columns when their period ends
+export const BRAND_PERIOD_SCORE_COLUMNS: Record<BrandTimePeriod, keyof Brand> =
+  {
+    all: 'score',
+    day: 'scoreDay',
+    week: 'scoreWeek',
+    month: 'scoreMonth',
+  };
+
 @Injectable()
 export class BrandService {
   private readonly logger = new Logger(BrandService.name);
@@ -31,6 +63,8 @@ export class BrandService {
 
     private readonly userService: UserService,
     private readonly brandMetricsService: BrandMetricsService,
+    private readonly tagService: TagService,
+    private readonly brandScoreLedgerService: BrandScoreLedgerService,
   ) {}
 
   // Add these methods to your BrandService (brand.service.ts)
@@ -892,12 +926,18 @@ export class BrandService {
   }
 
   /**
-   * Retrieves all brands with pagination.
-   * For period-based queries (week/month), dynamically calculates scores from votes.
+   * Retrieves all brands with pagination. Ordering, search, filters and
+   * paging all run in SQL on the period's score column, ties broken by
+   * follower count and then id so pages never overlap.
+   *
+   * Pass the nextCursor of the previous page as cursor to page by keyset
+   * instead of by pageId, which stays fast however deep the client scrolls.
    *
    * @param {number} [pageId=1] - The page number to retrieve.
    * @param {number} [limit=15] - The number of brands to retrieve per page.
-   * @returns {Promise<[Brand[], number]>} A promise that resolves to an array containing the list of brands and the total count.
+   * @param {BrandListFilters} [filters] - Optional category and tag filters.
+   * @param {string} [cursor] - Cursor of the previous page, replaces pageId.
+   * @returns {Promise<[Brand[], number, string | null]>} A promise that resolves to the list of brands, the total count and the cursor of the next page, or null on the last page.
    */
   async getAll(
     select: (keyof Brand)[] = [],
@@ -907,126 +947,271 @@ export class BrandService {
     searchName: string = '',
     pageId: number = 1,
     limit: number = 15,
-  ): Promise<[Brand[], number]> {
-    const hasSearch = searchName !== '';
-    const skip = (pageId - 1) * limit;
-
-    // For period-based queries, we need to calculate scores dynamically
-    if (period !== 'all' && (order === 'all' || order === 'top')) {
-      return this.getAllWithDynamicPeriodScoring(
-        select,
-        relations,
-        order,
-        period,
-        searchName,
-        pageId,
-        limit,
-      );
+    filters: BrandListFilters = {},
+    cursor?: string,
+  ): Promise<[Brand[], number, string | null]> {
+    // Query parameters arrive as strings
+    const page = Math.max(Number(pageId) || 1, 1);
+    const pageSize = Math.max(Number(limit) || 15, 1);
+
+    const taggedBrandIds = filters.tagIds?.length
+      ? await this.tagService.getBrandIdsWithAllTags(filters.tagIds)
+      : null;
+    if (taggedBrandIds && taggedBrandIds.length === 0) {
+      return [[], 0, null];
     }
 
-    // Build order clause based on order parameter
-    let orderClause: any = { score: 'DESC' }; // default
-    if (order === 'new') {
-      orderClause = { createdAt: 'DESC' };
-    } else if (order === 'top') {
-      orderClause = { score: 'DESC', followerCount: 'DESC' };
+    // 'new' lists the newest brands whatever the period
+    const sortColumn =
+      order === 'new'
+        ? 'createdAt'
+        : (BRAND_PERIOD_SCORE_COLUMNS[period] ?? 'score');
+    const keys = this.getListSortKeys(sortColumn);
+
+    const query = this.applyListFilters(
+      this.brandRepository.createQueryBuilder('brand'),
+      searchName || '',
+      filters.categoryId,
+      taggedBrandIds,
+    );
+    if (select.length > 0) {
+      // The sort keys are always read so the next cursor can be built
+      const columns = new Set<string>([
+        ...select,
+        ...keys.map((k) => k.column),
+      ]);
+      query.select([...columns].map((column) => `brand.${column}`));
     }
+    relations.forEach((relation) =>
+      query.leftJoinAndSelect(`brand.${relation}`, relation),
+    );
 
-    // For all-time scoring or non-score-based ordering, use original logic
-    return this.brandRepository.findAndCount({
-      ...(select.length > 0 && { select }),
-      skip,
-      take: limit,
-      where: {
-        ...(hasSearch && { name: Like(`${searchName}%`) }),
-        banned: 0,
-      },
-      ...(relations.length > 0 && { relations }),
-      order: orderClause,
-    });
+    const count = await query.clone().getCount();
+
+    if (cursor) {
+      this.applyListCursor(query, keys, cursor);
+    } else {
+      query.skip((page - 1) * pageSize);
+    }
+    keys.forEach(({ column, direction }) =>
+      query.addOrderBy(`brand.${column}`, direction),
+    );
+
+    // One extra row tells whether there is a next page
+    const rows = await query.take(pageSize + 1).getMany();
+    const brands = rows.slice(0, pageSize);
+    const nextCursor =
+      rows.length > pageSize
+        ? this.encodeListCursor(keys, brands[brands.length - 1])
+        : null;
+
+    return [brands, count, nextCursor];
   }
 
   /**
-   * Helper method to get brands with dynamic period scoring
+   * Order of the brand list: the sort column descending, then follower
+   * count for score orders, then id as the final tie-break.
    */
-  private async getAllWithDynamicPeriodScoring(
-    select: (keyof Brand)[] = [],
-    relations: (keyof Brand)[] = [],
-    order: BrandOrderType = 'all',
-    period: BrandTimePeriod,
-    searchName: string = '',
-    pageId: number = 1,
-    limit: number = 15,
-  ): Promise<[Brand[], number]> {
-    const hasSearch = searchName !== '';
-    const skip = (pageId - 1) * limit;
+  private getListSortKeys(
+    sortColumn: keyof Brand,
+  ): Array<{ column: keyof Brand; direction: 'ASC' | 'DESC' }> {
+    if (sortColumn === 'createdAt') {
+      return [
+        { column: 'createdAt', direction: 'DESC' },
+        { column: 'id', direction: 'DESC' },
+      ];
+    }
+    return [
+      { column: sortColumn, direction: 'DESC' },
+      { column: 'followerCount', direction: 'DESC' },
+      { column: 'id', direction: 'ASC' },
+    ];
+  }
 
-    // Get all brands first (for counting and filtering)
-    // Note: Period scores (scoreWeek, scoreMonth) are maintained by cron jobs
-    const allBrands = await this.brandRepository.find({
-      ...(select.length > 0 && {
-        select,
-      }),
-      where: {
-        ...(hasSearch && {
-          name: Like(`${searchName}%`),
-        }),
-        banned: 0,
-      },
-      ...(relations.length > 0 && {
-        relations,
-      }),
+  /**
+   * Keeps the rows that sort after the cursor row. Builds the usual
+   * (a < x) OR (a = x AND b < y) OR ... condition over the sort keys.
+   */
+  private applyListCursor(
+    query: SelectQueryBuilder<Brand>,
+    keys: Array<{ column: keyof Brand; direction: 'ASC' | 'DESC' }>,
+    cursor: string,
+  ): void {
+    let values: unknown[];
+    try {
+      values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+    if (!Array.isArray(values) || values.length !== keys.length) {
+      throw new Error('Invalid cursor');
+    }
+
+    const params: Record<string, unknown> = {};
+    keys.forEach(({ column }, index) => {
+      params[`cursor${index}`] =
+        column === 'createdAt'
+          ? new Date(values[index] as string)
+          : values[index];
     });
 
-    const totalCount = allBrands.length;
-
-    // Use the appropriate score field from Brand model based on period
-    // Cron jobs will maintain these scores, so we just read them directly
-    const getPeriodScore = (brand: Brand): number => {
-      switch (period) {
-        case 'day':
-          return brand.scoreDay || 0;
-        case 'week':
-          return brand.scoreWeek || 0;
-        case 'month':
-          return brand.scoreMonth || 0;
-        case 'all':
-        default:
-          return brand.score || 0;
-      }
-    };
+    const branches = keys.map((key, index) => {
+      const equal = keys
+        .slice(0, index)
+        .map(({ column }, i) => `brand.${column} = :cursor${i}`);
+      const operator = key.direction === 'DESC' ? '<' : '>';
+      return [...equal, `brand.${key.column} ${operator} :cursor${index}`].join(
+        ' AND ',
+      );
+    });
+    query.andWhere(`(${branches.map((b) => `(${b})`).join(' OR ')})`, params);
+  }
 
-    // Add period scores to brands and sort
-    const brandsWithPeriodScores = allBrands.map((brand) => ({
-      ...brand,
-      periodScore: getPeriodScore(brand),
-    }));
+  private encodeListCursor(
+    keys: Array<{ column: keyof Brand; direction: 'ASC' | 'DESC' }>,
+    brand: Brand,
+  ): string {
+    const values = keys.map(({ column }) => {
+      const value = brand[column];
+      return value instanceof Date ? value.toISOString() : value;
+    });
+    return Buffer.from(JSON.stringify(values)).toString('base64url');
+  }
 
-    // Sort by period score and apply pagination
-    let sortedBrands = brandsWithPeriodScores.sort(
-      (a, b) => b.periodScore - a.periodScore,
-    );
+  /**
+   * Facet counts for the brand list: how many listed brands match the search
+   * in each category and with each tag. Category counts ignore the category
+   * filter so the other categories stay selectable; tag counts apply every
+   * filter, since picking another tag narrows the list further.
+   */
+  async getFacets(
+    searchName: string = '',
+    filters: BrandListFilters = {},
+  ): Promise<BrandFacets> {
+    const taggedBrandIds = filters.tagIds?.length
+      ? await this.tagService.getBrandIdsWithAllTags(filters.tagIds)
+      : null;
+    if (taggedBrandIds && taggedBrandIds.length === 0) {
+      return { categories: [], tags: [] };
+    }
+
+    const categoryRows = await this.applyListFilters(
+      this.brandRepository
+        .createQueryBuilder('brand')
+        .innerJoin('brand.category', 'category'),
+      searchName,
+      undefined,
+      taggedBrandIds,
+    )
+      .select('category.id', 'id')
+      .addSelect('category.name', 'name')
+      .addSelect('COUNT(brand.id)', 'count')
+      .groupBy('category.id')
+      .addGroupBy('category.name')
+      .orderBy('count', 'DESC')
+      .addOrderBy('category.name', 'ASC')
+      .getRawMany();
+
+    const tagRows = await this.applyListFilters(
+      this.brandRepository
+        .createQueryBuilder('brand')
+        .innerJoin(BrandTags, 'brandTag', 'brandTag.brandId = brand.id')
+        .innerJoin(Tag, 'tag', 'tag.id = brandTag.tagId'),
+      searchName,
+      filters.categoryId,
+      taggedBrandIds,
+    )
+      .select('tag.id', 'id')
+      .addSelect('tag.name', 'name')
+      .addSelect('COUNT(DISTINCT brand.id)', 'count')
+      .groupBy('tag.id')
+      .addGroupBy('tag.name')
+      .orderBy('count', 'DESC')
+      .addOrderBy('tag.name', 'ASC')
+      .getRawMany();
+
+    const toFacet = (row: any) => ({
+      id: row.id,
+      name: row.name,
+      count: Number(row.count),
+    });
+    return {
+      categories: categoryRows.map(toFacet),
+      tags: tagRows.map(toFacet),
+    };
+  }
 
-    // Apply additional sorting for 'top' order
-    if (order === 'top') {
-      sortedBrands = sortedBrands.sort((a, b) => {
-        if (b.periodScore !== a.periodScore) {
-          return b.periodScore - a.periodScore;
-        }
-        return (b.followerCount || 0) - (a.followerCount || 0);
+  /**
+   * Brands of one category or tag ranked by their score for the period.
+   * Like the global period ranks, only brands that scored in the period are
+   * ranked.
+   */
+  async getGroupLeaderboard(
+    group: { categoryId: number } | { tagId: number },
+    period: BrandLeaderboardPeriod,
+    limit: number = 10,
+  ): Promise<BrandLeaderboardEntry[]> {
+    const scoreColumn = BRAND_PERIOD_SCORE_COLUMNS[period];
+    const rankingColumn = {
+      day: 'rankingDay',
+      week: 'rankingWeek',
+      month: 'rankingMonth',
+    }[period];
+
+    const query = this.brandRepository
+      .createQueryBuilder('brand')
+      .select('brand.id', 'id')
+      .addSelect('brand.name', 'name')
+      .addSelect('brand.imageUrl', 'imageUrl')
+      .addSelect(`brand.${scoreColumn}`, 'score')
+      .addSelect(`brand.${rankingColumn}`, 'globalRanking')
+      .where('brand.banned = 0')
+      .andWhere(`brand.${scoreColumn} > 0`);
+
+    if ('categoryId' in group) {
+      query.andWhere('brand.categoryId = :categoryId', {
+        categoryId: group.categoryId,
       });
+    } else {
+      query
+        .innerJoin(BrandTags, 'brandTag', 'brandTag.brandId = brand.id')
+        .andWhere('brandTag.tagId = :tagId', { tagId: group.tagId });
     }
 
-    // Apply pagination
-    const paginatedBrands = sortedBrands.slice(skip, skip + limit);
+    const rows = await query
+      .orderBy(`brand.${scoreColumn}`, 'DESC')
+      .addOrderBy('brand.followerCount', 'DESC')
+      .addOrderBy('brand.id', 'ASC')
+      .limit(limit)
+      .getRawMany();
 
-    // Remove the temporary periodScore field before returning
-    const finalBrands = paginatedBrands.map((brand) => {
-      const { periodScore, ...brandWithoutPeriodScore } = brand;
-      return brandWithoutPeriodScore;
-    }) as Brand[];
+    return rows.map((row, index) => ({
+      position: index + 1,
+      id: row.id,
+      name: row.name,
+      imageUrl: row.imageUrl,
+      score: Number(row.score) || 0,
+      globalRanking: Number(row.globalRanking) || 0,
+    }));
+  }
 
-    return [finalBrands, totalCount];
+  private applyListFilters(
+    query: SelectQueryBuilder<Brand>,
+    searchName: string,
+    categoryId: number | undefined,
+    brandIds: number[] | null,
+  ): SelectQueryBuilder<Brand> {
+    query.where('brand.banned = 0');
+    if (searchName !== '') {
+      query.andWhere('brand.name LIKE :search', { search: `${searchName}%` });
+    }
+    if (categoryId) {
+      query.andWhere('brand.categoryId = :categoryId', { categoryId });
+    }
+    if (brandIds) {
+      query.andWhere('brand.id IN (:...brandIds)', { brandIds });
+    }
+    return query;
   }
 
   /**
@@ -1299,8 +1484,15 @@ export class BrandService {
     // Update user's calculated fields after voting
     await this.userService.updateUserCalculatedFields(user.id);
 
-    await this.userService.addPoints(user.id, 3);
-    await this.updateBrandScores(brandIds);
+    await this.userService.addPoints(user.id, 3, {
+      reason: PointsReasonEnum.VOTE,
+      voteTransactionHash: savedVote.transactionHash,
+    });
+    await this.brandScoreLedgerService.recordLegacyVote(
+      savedVote.transactionHash,
+      brandIds,
+      savedVote.date,
+    );
 
     // Update brand metrics asynchronously after vote
     setImmediate(() => {
@@ -1382,28 +1574,4 @@ export class BrandService {
       return null;
     }
   }
-
-  private async updateBrandScores(brandIds: Brand['id'][]): Promise<void> {
-    const [firstPlace, secondPlace, thirdPlace] = brandIds;
-
-    await Promise.all([
-      // First place (60 points) - update ALL score fields
-      this.brandRepository.increment({ id: firstPlace }, 'score', 60),
-      this.brandRepository.increment({ id: firstPlace }, 'stateScore', 60),
-      this.brandRepository.increment({ id: firstPlace }, 'scoreWeek', 60),
-      this.brandRepository.increment({ id: firstPlace }, 'scoreMonth', 60),
-
-      // Second place (30 points) - update ALL score fields
-      this.brandRepository.increment({ id: secondPlace }, 'score', 30),
-      this.brandRepository.increment({ id: secondPlace }, 'stateScore', 30),
-      this.brandRepository.increment({ id: secondPlace }, 'scoreWeek', 30),
-      this.brandRepository.increment({ id: secondPlace }, 'scoreMonth', 30),
-
-      // Third place (10 points) - update ALL score fields
-      this.brandRepository.increment({ id: thirdPlace }, 'score', 10),
-      this.brandRepository.increment({ id: thirdPlace }, 'stateScore', 10),
-      this.brandRepository.increment({ id: thirdPlace }, 'scoreWeek', 10),
-      this.brandRepository.increment({ id: thirdPlace }, 'scoreMonth', 10),
-    ]);
-  }
 }
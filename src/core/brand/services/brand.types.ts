@@ -18,3 +18,32 @@ export type BrandResponse = {
   fanCount: number;
   voteTrend7d: number;
 };
+
+export type BrandListFilters = {
+  categoryId?: number;
+  // A brand must carry every one of these tags
+  tagIds?: number[];
+};
+
+export type BrandFacetCount = {
+  id: number;
+  name: string;
+  count: number;
+};
+
+export type BrandFacets = {
+  categories: BrandFacetCount[];
+  tags: BrandFacetCount[];
+};
+
+export type BrandLeaderboardPeriod = 'day' | 'week' | 'month';
+
+export type BrandLeaderboardEntry = {
+  position: number;
+  id: number;
+  name: string;
+  imageUrl: string;
+  score: number;
+  // The brand's rank among all brands for the same period
+  globalRanking: number;
+};
@@ -3,3 +3,10 @@ export * from './brand.types';
 export * from './brand-seeding.service';
 export * from './brand-metrics.service';
 export * from './brand-ranking.service';
+export * from './brand-score-ledger.service';
+export * from './brand-ranking-snapshot.service';
+export * from './brand-request.service';
+export * from './brand-follow.service';
+export * from './brand-search.service';
+export * from './brand-owner.service';
+export * from './brand-affinity.service';
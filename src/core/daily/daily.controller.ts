@@ -40,21 +40,15 @@ export class DailyController {
     try {
       logger.log('🔧 [DAILY] Manual airdrop calculation endpoint triggered');
 
-      const result = await this.dailyService.triggerManualAirdropCalculation();
+      const job = await this.dailyService.triggerManualAirdropCalculation();
 
       return {
         success: true,
-        message: 'Airdrop leaderboard calculation triggered successfully',
+        message: 'Airdrop leaderboard calculation queued',
         timestamp: new Date().toISOString(),
-        results: {
-          eligibleUsers: result.eligibleUsers,
-          processed: result.processed,
-          successful: result.successful,
-          failed: result.failed,
-          totalTokensAllocated: result.totalTokensAllocated,
-          totalAirdropPoints: result.totalAirdropPoints,
-          topUsers: result.topAirdropScores.slice(0, 10), // Return top 10 for response
-        },
+        jobId: job.id,
+        status: job.status,
+        progress: job.progress,
       };
     } catch (error) {
       logger.error('❌ [DAILY] Manual airdrop calculation failed:', error);
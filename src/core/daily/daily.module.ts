@@ -6,6 +6,9 @@ import { DailyController } from './daily.controller';
 import { UserService } from '../user/services';
 import { AirdropModule } from '../airdrop/airdrop.module';
 import { BlockchainModule } from '../blockchain/blockchain.module';
+import { SeasonModule } from '../season/season.module';
+import { PointsModule } from '../points/points.module';
+import { JobModule } from '../job/job.module';
 
 import {
   User,
@@ -28,6 +31,9 @@ import {
     ]),
     AirdropModule, // Import AirdropModule to access AirdropService
     forwardRef(() => BlockchainModule), // Import BlockchainModule to access IndexerSyncService
+    SeasonModule,
+    PointsModule,
+    JobModule,
   ],
   controllers: [DailyController],
   providers: [DailyService, UserService],
@@ -3,9 +3,10 @@ import { Cron } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, MoreThan } from 'typeorm';
 
-import { User, UserBrandVotes } from '../../models';
+import { BackgroundJobTypeEnum, User, UserBrandVotes } from '../../models';
 import { UserService } from '../user/services';
 import { AirdropService } from '../airdrop/services/airdrop.service';
+import { BackgroundJobStatus, JobService } from '../job/services';
 import { IndexerSyncService } from '../blockchain/services/indexer-sync.service';
 import { logger } from '../../main';
 
@@ -19,6 +20,7 @@ export class DailyService {
     private readonly userService: UserService,
     private readonly airdropService: AirdropService,
     private readonly indexerSyncService: IndexerSyncService,
+    private readonly jobService: JobService,
   ) {}
 
   /**
@@ -129,6 +131,7 @@ export class DailyService {
   /**
    * Calculate daily airdrop leaderboard for top 1111 users
    * This runs as part of the daily reset to update positions and token allocations
+   * The calculation itself is queued as a background job so it resumes after a restart
    */
   private async calculateDailyAirdropLeaderboard(): Promise<void> {
     logger.log('🏆 [DAILY] Starting daily airdrop leaderboard calculation...');
@@ -151,32 +154,17 @@ export class DailyService {
       logger.log(
         '✅ [DAILY] No snapshots found - proceeding with airdrop calculations...',
       );
-      const startTime = Date.now();
 
       // Calculate airdrop for all eligible users (top 1111 by points)
-      const result = await this.airdropService.calculateAirdropForAllUsers(88); // Use 0 batch size for daily run because the snapshot for the airdrop was taken.
-
-      const endTime = Date.now();
-      const duration = Math.round((endTime - startTime) / 1000);
-
-      logger.log('✅ [DAILY] Airdrop leaderboard calculation completed', {
-        duration: `${duration}s`,
-        eligibleUsers: result.eligibleUsers,
-        processed: result.processed,
-        successful: result.successful,
-        failed: result.failed,
-        totalTokensAllocated: result.totalTokensAllocated,
-        totalAirdropPoints: result.totalAirdropPoints,
-      });
+      const job = await this.jobService.enqueue(
+        BackgroundJobTypeEnum.AIRDROP_CALCULATION,
+        { batchSize: 88 },
+        { unique: true },
+      );
 
-      if (result.failed > 0) {
-        logger.warn(
-          `⚠️ [DAILY] ${result.failed} users failed during airdrop calculation`,
-          {
-            errors: result.errors.slice(0, 5), // Log first 5 errors
-          },
-        );
-      }
+      logger.log(
+        `✅ [DAILY] Airdrop leaderboard calculation queued as job ${job.id}`,
+      );
     } catch (error) {
       logger.error(
         '❌ [DAILY] Error calculating daily airdrop leaderboard:',
@@ -196,8 +184,9 @@ export class DailyService {
 
   /**
    * Manual trigger for airdrop leaderboard calculation
+   * Returns the queued job; an already queued or running calculation is returned instead of starting another
    */
-  async triggerManualAirdropCalculation(): Promise<any> {
+  async triggerManualAirdropCalculation(): Promise<BackgroundJobStatus> {
     logger.log('🔧 [DAILY] Manual airdrop calculation triggered');
 
     try {
@@ -217,11 +206,15 @@ export class DailyService {
         );
       }
 
-      const result = await this.airdropService.calculateAirdropForAllUsers(10); // Smaller batch for manual trigger
+      const job = await this.jobService.enqueue(
+        BackgroundJobTypeEnum.AIRDROP_CALCULATION,
+        { batchSize: 10 }, // Smaller batch for manual trigger
+        { unique: true },
+      );
       logger.log(
-        '✅ [DAILY] Manual airdrop calculation completed successfully',
+        `✅ [DAILY] Manual airdrop calculation queued as job ${job.id}`,
       );
-      return result;
+      return job;
     } catch (error) {
       logger.error('❌ [DAILY] Manual airdrop calculation failed:', error);
       throw error;
@@ -230,8 +223,9 @@ export class DailyService {
 
   /**
    * Daily indexer sync job that runs at 01:00 UTC every day
-   * Syncs user power levels and votes from the PostgreSQL indexer to MySQL
-   * Uses a 48-hour window to catch any missed data with a 1-day buffer
+   * Syncs brands, user power levels, votes and collectibles from the PostgreSQL indexer to MySQL
+   * Resumes each stream from its block checkpoint and reverts votes the indexer rolled back;
+   * the 48-hour window only applies to streams that have no checkpoint yet
    */
   @Cron('0 1 * * *', {
     name: 'indexerSync',
@@ -257,9 +251,17 @@ export class DailyService {
         brandsUpdated: stats.brandsUpdated,
         usersUpdated: stats.usersUpdated,
         votesInserted: stats.votesInserted,
+        votesReverted: stats.votesReverted,
+        collectiblesUpdated: stats.collectiblesUpdated,
         errors: stats.errors.length,
       });
 
+      if (stats.votesReverted > 0) {
+        logger.warn(
+          `⚠️ [DAILY] Reverted ${stats.votesReverted} votes rolled back by the indexer`,
+        );
+      }
+
       if (stats.errors.length > 0) {
         logger.warn(
           `⚠️ [DAILY] ${stats.errors.length} errors during indexer sync`,
@@ -273,7 +275,7 @@ export class DailyService {
 
   /**
    * Manual trigger for indexer sync with custom window
-   * @param windowHours - Number of hours to look back (0 for full sync)
+   * @param windowHours - Number of hours to look back for streams without a checkpoint (0 for full sync)
    */
   async triggerManualIndexerSync(windowHours: number = 48): Promise<any> {
     logger.log(
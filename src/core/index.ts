@@ -9,6 +9,13 @@ import { AdminModule } from './admin/admin.module';
 import { AirdropModule } from './airdrop/airdrop.module';
 import { BlockchainModule } from './blockchain/blockchain.module';
 import { DailyModule } from './daily/daily.module';
+import { LiveModule } from './live/live.module';
+import { SeasonModule } from './season/season.module';
+import { PointsModule } from './points/points.module';
+import { TagModule } from './tag/tag.module';
+import { ScoringModule } from './scoring/scoring.module';
+import { VoteQualityModule } from './vote-quality/vote-quality.module';
+import { JobModule } from './job/job.module';
 
 const CoreModules = [
   UserModule,
@@ -21,6 +28,13 @@ const CoreModules = [
   AirdropModule,
   BlockchainModule,
   DailyModule,
+  LiveModule,
+  SeasonModule,
+  PointsModule,
+  TagModule,
+  ScoringModule,
+  VoteQualityModule,
+  JobModule,
 ];
 
 export default CoreModules;
@@ -0,0 +1,16 @@
+// Dependencies
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Services
+import { JobService } from './services';
+
+// Models
+import { BackgroundJob } from '../../models';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([BackgroundJob])],
+  providers: [JobService],
+  exports: [JobService],
+})
+export class JobModule {}
@@ -0,0 +1,276 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { FindOperator, Repository } from 'typeorm';
+
+import {
+  BackgroundJob,
+  BackgroundJobStatusEnum,
+  BackgroundJobTypeEnum,
+} from '../../../models';
+import { JobService } from './job.service';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const MINUTE = 60 * 1000;
+
+type JobWhere = Record<string, unknown>;
+
+/**
+ * In-memory job table that understands the where clauses JobService uses:
+ * plain values, In and LessThan.
+ */
+function createJobRepository() {
+  const jobs: BackgroundJob[] = [];
+
+  const matches = (job: BackgroundJob, where: JobWhere = {}) =>
+    Object.entries(where).every(([column, condition]) => {
+      const value = job[column as keyof BackgroundJob];
+      if (condition instanceof FindOperator) {
+        if (condition.type === 'in') {
+          return (condition.value as unknown as unknown[]).includes(value);
+        }
+        if (condition.type === 'lessThan') {
+          return value !== null && value < condition.value;
+        }
+        throw new Error(`Unsupported operator ${condition.type}`);
+      }
+      return value === condition;
+    });
+
+  const byCreatedAt = (a: BackgroundJob, b: BackgroundJob) =>
+    a.createdAt.getTime() - b.createdAt.getTime();
+
+  const repository = {
+    create: (values: Partial<BackgroundJob>) =>
+      ({
+        status: BackgroundJobStatusEnum.QUEUED,
+        attempts: 0,
+        processedItems: 0,
+        totalItems: 0,
+        checkpoint: null,
+        result: null,
+        error: null,
+        cancelRequested: false,
+        heartbeatAt: null,
+        startedAt: null,
+        finishedAt: null,
+        createdAt: new Date(),
+        ...values,
+      }) as BackgroundJob,
+    save: async (job: BackgroundJob) => {
+      jobs.push({ ...job, id: jobs.length + 1 });
+      return { ...jobs[jobs.length - 1] };
+    },
+    findOne: async ({ where }: { where: JobWhere }) => {
+      const job = jobs.filter((j) => matches(j, where)).sort(byCreatedAt)[0];
+      return job ? { ...job } : null;
+    },
+    find: async ({ where }: { where: JobWhere }) =>
+      jobs.filter((job) => matches(job, where)).map((job) => ({ ...job })),
+    update: async (where: JobWhere, values: Partial<BackgroundJob>) => {
+      const matched = jobs.filter((job) => matches(job, where));
+      matched.forEach((job) => Object.assign(job, values));
+      return { affected: matched.length };
+    },
+  };
+
+  return {
+    jobs,
+    repository: repository as unknown as Repository<BackgroundJob>,
+  };
+}
+
+describe('JobService', () => {
+  let jobs: BackgroundJob[];
+  let repository: Repository<BackgroundJob>;
+  let service: JobService;
+
+  const TYPE = BackgroundJobTypeEnum.BRAND_FOLLOWER_REFRESH;
+
+  beforeEach(() => {
+    ({ jobs, repository } = createJobRepository());
+    service = new JobService(repository);
+  });
+
+  describe('enqueue', () => {
+    it('returns the pending job of the type instead of queueing another', async () => {
+      const first = await service.enqueue(TYPE, null, { unique: true });
+      const second = await service.enqueue(TYPE, null, { unique: true });
+
+      expect(second.id).toBe(first.id);
+      expect(jobs).toHaveLength(1);
+    });
+  });
+
+  describe('processNextJob', () => {
+    it('runs the oldest queued job with its params and stores the result', async () => {
+      const handler = jest.fn(
+        async ({ params }: { params: { limit: number } }) => ({
+          refreshed: params.limit,
+        }),
+      );
+      service.registerHandler(TYPE, handler);
+      const { id } = await service.enqueue(TYPE, { limit: 20 });
+
+      expect(await service.processNextJob()).toBe(true);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      const job = await service.getJob(id);
+      expect(job).toMatchObject({
+        status: BackgroundJobStatusEnum.COMPLETED,
+        attempts: 1,
+        result: { refreshed: 20 },
+        progress: 100,
+      });
+    });
+
+    it('lets only one runner claim a job', async () => {
+      const handler = jest.fn(async () => null);
+      const other = new JobService(repository);
+      service.registerHandler(TYPE, handler);
+      other.registerHandler(TYPE, handler);
+      await service.enqueue(TYPE);
+
+      const claimed = await Promise.all([
+        service.processNextJob(),
+        other.processNextJob(),
+      ]);
+
+      expect(claimed.filter(Boolean)).toHaveLength(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('resumes an interrupted job from its last checkpoint', async () => {
+      const { id } = await service.enqueue(TYPE);
+      Object.assign(jobs[0], {
+        status: BackgroundJobStatusEnum.RUNNING,
+        attempts: 1,
+        heartbeatAt: new Date(Date.now() - 10 * MINUTE),
+        checkpoint: { lastId: 300 },
+      });
+      const handler = jest.fn(
+        async ({ resumeFrom }: { resumeFrom: { lastId: number } | null }) =>
+          resumeFrom,
+      );
+      service.registerHandler(TYPE, handler);
+
+      await service.processNextJob();
+
+      expect(await service.getJob(id)).toMatchObject({
+        status: BackgroundJobStatusEnum.COMPLETED,
+        attempts: 2,
+        result: { lastId: 300 },
+      });
+    });
+
+    it('leaves a running job with a fresh heartbeat alone', async () => {
+      await service.enqueue(TYPE);
+      Object.assign(jobs[0], {
+        status: BackgroundJobStatusEnum.RUNNING,
+        attempts: 1,
+        heartbeatAt: new Date(),
+      });
+      const handler = jest.fn(async () => null);
+      service.registerHandler(TYPE, handler);
+
+      expect(await service.processNextJob()).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('gives up on a job interrupted too many times', async () => {
+      const { id } = await service.enqueue(TYPE);
+      Object.assign(jobs[0], {
+        status: BackgroundJobStatusEnum.RUNNING,
+        attempts: 3,
+        heartbeatAt: new Date(Date.now() - 10 * MINUTE),
+      });
+      const handler = jest.fn(async () => null);
+      service.registerHandler(TYPE, handler);
+
+      expect(await service.processNextJob()).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+      expect(await service.getJob(id)).toMatchObject({
+        status: BackgroundJobStatusEnum.FAILED,
+        error: 'Interrupted 3 times',
+      });
+    });
+
+    it('records the error of a failing handler', async () => {
+      service.registerHandler(TYPE, async () => {
+        throw new Error('Neynar is down');
+      });
+      const { id } = await service.enqueue(TYPE);
+
+      await service.processNextJob();
+
+      expect(await service.getJob(id)).toMatchObject({
+        status: BackgroundJobStatusEnum.FAILED,
+        error: 'Neynar is down',
+      });
+    });
+
+    it('fails a job nobody handles', async () => {
+      const { id } = await service.enqueue(TYPE);
+
+      await service.processNextJob();
+
+      expect(await service.getJob(id)).toMatchObject({
+        status: BackgroundJobStatusEnum.FAILED,
+        error: `No handler registered for ${TYPE}`,
+      });
+    });
+  });
+
+  describe('cancel', () => {
+    it('cancels a queued job right away', async () => {
+      const { id } = await service.enqueue(TYPE);
+
+      const cancelled = await service.cancel(id);
+
+      expect(cancelled.status).toBe(BackgroundJobStatusEnum.CANCELLED);
+      expect(await service.processNextJob()).toBe(false);
+    });
+
+    it('stops a running job at its next checkpoint and keeps its progress', async () => {
+      const { id } = await service.enqueue(TYPE);
+      const batches: number[] = [];
+      service.registerHandler<null, { lastId: number }>(
+        TYPE,
+        async ({ checkpoint }) => {
+          for (let batch = 1; batch <= 3; batch++) {
+            batches.push(batch);
+            if (batch === 1) {
+              await service.cancel(id);
+            }
+            await checkpoint({
+              processed: batch * 10,
+              total: 30,
+              checkpoint: { lastId: batch * 10 },
+            });
+          }
+        },
+      );
+
+      await service.processNextJob();
+
+      expect(batches).toEqual([1]);
+      expect(await service.getJob(id)).toMatchObject({
+        status: BackgroundJobStatusEnum.CANCELLED,
+        processedItems: 10,
+        checkpoint: { lastId: 10 },
+        progress: 33.3,
+      });
+    });
+
+    it('refuses to cancel a finished job', async () => {
+      service.registerHandler(TYPE, async () => null);
+      const { id } = await service.enqueue(TYPE);
+      await service.processNextJob();
+
+      await expect(service.cancel(id)).rejects.toThrow(
+        `Job ${id} is already ${BackgroundJobStatusEnum.COMPLETED}`,
+      );
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+
+import {
+  BackgroundJob,
+  BackgroundJobStatusEnum,
+  BackgroundJobTypeEnum,
+} from '../../../models';
+import { logger } from '../../../main';
+
+// How often a running job refreshes its heartbeat
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+// A running job whose heartbeat is older than this was interrupted (crash,
+// deploy) and is resumed from its checkpoint by the next tick
+const STALE_AFTER = 5 * 60 * 1000;
+
+// Runs, including resumes, before an interrupted job is given up on
+const MAX_ATTEMPTS = 3;
+
+const CANCELLED_MESSAGE = 'Job cancelled';
+
+export interface BackgroundJobContext<TParams = null, TCheckpoint = never> {
+  job: BackgroundJob;
+  // job.params and job.checkpoint, typed for the handler
+  params: TParams;
+  // What the last completed batch of an interrupted run saved, null on a
+  // fresh start
+  resumeFrom: TCheckpoint | null;
+  /**
+   * Records progress and the checkpoint to resume from if the job is
+   * interrupted. Throws once the job has been cancelled, so call it between
+   * batches.
+   */
+  checkpoint(progress: {
+    processed: number;
+    total: number;
+    checkpoint?: TCheckpoint;
+  }): Promise<void>;
+}
+
+// Returns the job's result, stored as JSON
+export type BackgroundJobHandler<
+  TParams = null,
+  TCheckpoint = never,
+  TResult = unknown,
+> = (context: BackgroundJobContext<TParams, TCheckpoint>) => Promise<TResult>;
+
+export type BackgroundJobStatus = BackgroundJob & {
+  // Percent done, from the last reported progress
+  progress: number;
+};
+
+@Injectable()
+export class JobService {
+  private handlers = new Map<
+    BackgroundJobTypeEnum,
+    BackgroundJobHandler<unknown, unknown>
+  >();
+  private isProcessing = false;
+
+  constructor(
+    @InjectRepository(BackgroundJob)
+    private readonly jobRepository: Repository<BackgroundJob>,
+  ) {}
+
+  /**
+   * Called by the module that owns a job type, from its onModuleInit.
+   */
+  registerHandler<TParams = null, TCheckpoint = never, TResult = unknown>(
+    type: BackgroundJobTypeEnum,
+    handler: BackgroundJobHandler<TParams, TCheckpoint, TResult>,
+  ): void {
+    this.handlers.set(type, handler as BackgroundJobHandler<unknown, unknown>);
+  }
+
+  /**
+   * Queues a job. With unique, a queued or running job of the same type is
+   * returned instead of queueing another one.
+   */
+  async enqueue(
+    type: BackgroundJobTypeEnum,
+    params: unknown = null,
+    options: { requestedByFid?: number; unique?: boolean } = {},
+  ): Promise<BackgroundJobStatus> {
+    if (options.unique) {
+      const pending = await this.jobRepository.findOne({
+        where: {
+          type,
+          status: In([
+            BackgroundJobStatusEnum.QUEUED,
+            BackgroundJobStatusEnum.RUNNING,
+          ]),
+        },
+        order: { createdAt: 'ASC' },
+      });
+      if (pending) {
+        return this.toStatus(pending);
+      }
+    }
+
+    const job = await this.jobRepository.save(
+      this.jobRepository.create({
+        type,
+        params,
+        requestedByFid: options.requestedByFid ?? null,
+      }),
+    );
+
+    logger.log(`🧵 [JOBS] Queued ${type} job ${job.id}`);
+    return this.toStatus(job);
+  }
+
+  async getJob(id: number): Promise<BackgroundJobStatus | null> {
+    const job = await this.jobRepository.findOne({ where: { id } });
+    return job ? this.toStatus(job) : null;
+  }
+
+  /**
+   * Most recent jobs first.
+   */
+  async listJobs(
+    filters: {
+      status?: BackgroundJobStatusEnum;
+      type?: BackgroundJobTypeEnum;
+    } = {},
+    limit: number = 50,
+  ): Promise<BackgroundJobStatus[]> {
+    const jobs = await this.jobRepository.find({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.type && { type: filters.type }),
+      },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+    return jobs.map((job) => this.toStatus(job));
+  }
+
+  /**
+   * A queued job is cancelled right away. A running one stops at its next
+   * checkpoint; work done until then is kept.
+   */
+  async cancel(id: number): Promise<BackgroundJobStatus> {
+    const job = await this.jobRepository.findOne({ where: { id } });
+    if (!job) {
+      throw new Error(`Job ${id} not found`);
+    }
+
+    if (job.status === BackgroundJobStatusEnum.QUEUED) {
+      await this.jobRepository.update(
+        { id, status: BackgroundJobStatusEnum.QUEUED },
+        {
+          status: BackgroundJobStatusEnum.CANCELLED,
+          cancelRequested: true,
+          finishedAt: new Date(),
+        },
+      );
+    } else if (job.status === BackgroundJobStatusEnum.RUNNING) {
+      await this.jobRepository.update({ id }, { cancelRequested: true });
+    } else {
+      throw new Error(`Job ${id} is already ${job.status}`);
+    }
+
+    logger.log(`🧵 [JOBS] Cancellation requested for job ${id}`);
+    return this.getJob(id);
+  }
+
+  /**
+   * Picks up the oldest queued job, or a running one that stopped sending
+   * heartbeats, every few seconds. Each replica runs one job at a time.
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS, { name: 'background-jobs' })
+  async processJobsScheduled(): Promise<void> {
+    try {
+      await this.processNextJob();
+    } catch (error) {
+      logger.error(`❌ [JOBS] Error processing background jobs:`, error);
+    }
+  }
+
+  async processNextJob(): Promise<boolean> {
+    if (this.isProcessing) {
+      return false;
+    }
+
+    this.isProcessing = true;
+    try {
+      const job = await this.claimNextJob();
+      if (!job) {
+        return false;
+      }
+
+      await this.run(job);
+      return true;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Marks the next runnable job as running on this replica. The update only
+   * matches while the job is still in the state it was read in, so two
+   * replicas never claim the same job.
+   */
+  private async claimNextJob(): Promise<BackgroundJob | null> {
+    const staleBefore = new Date(Date.now() - STALE_AFTER);
+    const candidate =
+      (await this.jobRepository.findOne({
+        where: {
+          status: BackgroundJobStatusEnum.RUNNING,
+          heartbeatAt: LessThan(staleBefore),
+        },
+        order: { createdAt: 'ASC' },
+      })) ||
+      (await this.jobRepository.findOne({
+        where: { status: BackgroundJobStatusEnum.QUEUED },
+        order: { createdAt: 'ASC' },
+      }));
+    if (!candidate) {
+      return null;
+    }
+
+    if (candidate.attempts >= MAX_ATTEMPTS) {
+      await this.jobRepository.update(
+        { id: candidate.id, status: candidate.status },
+        {
+          status: BackgroundJobStatusEnum.FAILED,
+          error: `Interrupted ${candidate.attempts} times`,
+          finishedAt: new Date(),
+        },
+      );
+      return null;
+    }
+
+    const now = new Date();
+    const { affected } = await this.jobRepository.update(
+      candidate.status === BackgroundJobStatusEnum.RUNNING
+        ? {
+            id: candidate.id,
+            status: candidate.status,
+            heartbeatAt: LessThan(staleBefore),
+          }
+        : { id: candidate.id, status: candidate.status },
+      {
+        status: BackgroundJobStatusEnum.RUNNING,
+        attempts: candidate.attempts + 1,
+        heartbeatAt: now,
+        startedAt: candidate.startedAt || now,
+      },
+    );
+    if (!affected) {
+      return null;
+    }
+
+    return this.jobRepository.findOne({ where: { id: candidate.id } });
+  }
+
+  private async run(job: BackgroundJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.finish(job.id, BackgroundJobStatusEnum.FAILED, {
+        error: `No handler registered for ${job.type}`,
+      });
+      return;
+    }
+
+    logger.log(
+      `🧵 [JOBS] Running ${job.type} job ${job.id} (attempt ${job.attempts}${job.checkpoint ? ', resuming from checkpoint' : ''})`,
+    );
+
+    const heartbeat = setInterval(() => {
+      this.jobRepository
+        .update({ id: job.id }, { heartbeatAt: new Date() })
+        .catch((error) =>
+          logger.error(`❌ [JOBS] Heartbeat failed for job ${job.id}:`, error),
+        );
+    }, HEARTBEAT_INTERVAL);
+
+    try {
+      const result = await handler({
+        job,
+        params: job.params,
+        resumeFrom: job.checkpoint ?? null,
+        checkpoint: async ({ processed, total, checkpoint }) => {
+          await this.jobRepository.update(
+            { id: job.id },
+            {
+              processedItems: processed,
+              totalItems: total,
+              heartbeatAt: new Date(),
+              ...(checkpoint !== undefined && { checkpoint }),
+            },
+          );
+
+          const { cancelRequested } = await this.jobRepository.findOne({
+            select: ['id', 'cancelRequested'],
+            where: { id: job.id },
+          });
+          if (cancelRequested) {
+            throw new Error(CANCELLED_MESSAGE);
+          }
+        },
+      });
+
+      await this.finish(job.id, BackgroundJobStatusEnum.COMPLETED, {
+        result: result ?? null,
+      });
+      logger.log(`✅ [JOBS] ${job.type} job ${job.id} completed`);
+    } catch (error) {
+      const { cancelRequested } = await this.jobRepository.findOne({
+        select: ['id', 'cancelRequested'],
+        where: { id: job.id },
+      });
+
+      if (cancelRequested) {
+        await this.finish(job.id, BackgroundJobStatusEnum.CANCELLED);
+        logger.log(`🛑 [JOBS] ${job.type} job ${job.id} cancelled`);
+      } else {
+        await this.finish(job.id, BackgroundJobStatusEnum.FAILED, {
+          error: error?.message || String(error),
+        });
+        logger.error(`❌ [JOBS] ${job.type} job ${job.id} failed:`, error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async finish(
+    id: number,
+    status: BackgroundJobStatusEnum,
+    fields: Partial<Pick<BackgroundJob, 'result' | 'error'>> = {},
+  ): Promise<void> {
+    await this.jobRepository.update(
+      { id },
+      { ...fields, status, finishedAt: new Date() },
+    );
+  }
+
+  private toStatus(job: BackgroundJob): BackgroundJobStatus {
+    const progress =
+      job.status === BackgroundJobStatusEnum.COMPLETED
+        ? 100
+        : job.totalItems > 0
+          ? Math.round((job.processedItems / job.totalItems) * 1000) / 10
+          : 0;
+    return { ...job, progress };
+  }
+}
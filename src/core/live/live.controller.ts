@@ -0,0 +1,43 @@
+// Dependencies
+import { Controller, Headers, MessageEvent, Query, Sse } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+
+// Services
+import { LiveEventService } from './services';
+
+// Models
+import { LiveEventTypeEnum } from '../../models';
+
+@ApiTags('live-service')
+@Controller('live-service')
+export class LiveController {
+  constructor(private readonly liveEventService: LiveEventService) {}
+
+  /**
+   * Server-Sent Events stream of podium votes, rank changes, collectible
+   * mints and buys, and level-ups. `types` is a comma separated filter.
+   * Browsers resend the last event id on reconnect; it can also be passed
+   * as `lastEventId` to resume after a page reload.
+   */
+  @Sse('/events')
+  streamEvents(
+    @Query('types') types: string,
+    @Query('lastEventId') lastEventIdQuery: string,
+    @Headers('last-event-id') lastEventIdHeader: string,
+  ): Observable<MessageEvent> {
+    const typeFilter = types
+      ?.split(',')
+      .map((type) => type.trim())
+      .filter((type): type is LiveEventTypeEnum =>
+        Object.values(LiveEventTypeEnum).includes(type as LiveEventTypeEnum),
+      );
+
+    const lastEventId = parseInt(lastEventIdHeader || lastEventIdQuery);
+
+    return this.liveEventService.stream(
+      isNaN(lastEventId) ? undefined : lastEventId,
+      typeFilter,
+    );
+  }
+}
@@ -0,0 +1,20 @@
+// Dependencies
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Controllers
+import { LiveController } from './live.controller';
+
+// Services
+import { LiveEventService } from './services';
+
+// Models
+import { LiveEvent } from '../../models';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([LiveEvent])],
+  controllers: [LiveController],
+  providers: [LiveEventService],
+  exports: [LiveEventService],
+})
+export class LiveModule {}
@@ -0,0 +1 @@
+export * from './live-event.service';
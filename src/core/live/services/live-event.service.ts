@@ -0,0 +1,180 @@
+import { Injectable, MessageEvent, OnModuleInit } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, MoreThan, Repository } from 'typeorm';
+import { Observable, Subject, interval, merge } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+import { LiveEvent, LiveEventTypeEnum } from '../../../models';
+import { logger } from '../../../main';
+
+// Most events delivered to a reconnecting client before it catches up live
+const REPLAY_LIMIT = 500;
+// How long events are kept for reconnecting clients
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+// Keeps proxies from closing idle streams
+const HEARTBEAT_MS = 25 * 1000;
+
+@Injectable()
+export class LiveEventService implements OnModuleInit {
+  private readonly events$ = new Subject<LiveEvent>();
+  private lastEventId = 0;
+  private isPolling = false;
+
+  constructor(
+    @InjectRepository(LiveEvent)
+    private readonly liveEventRepository: Repository<LiveEvent>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      this.lastEventId = await this.getLatestEventId();
+    } catch (error) {
+      logger.error('❌ [LIVE] Failed to read latest live event id:', error);
+    }
+  }
+
+  /**
+   * Publishes an event to every stream subscriber, on every replica.
+   * Publishing is best effort: a failure is logged and never thrown, so it
+   * cannot fail the vote or indexer event that triggered it.
+   */
+  async publish(
+    type: LiveEventTypeEnum,
+    payload: Record<string, any>,
+  ): Promise<void> {
+    try {
+      await this.liveEventRepository.insert({ type, payload });
+    } catch (error) {
+      logger.error(`❌ [LIVE] Failed to publish ${type} event:`, error);
+    }
+  }
+
+  /**
+   * Stream of events for one subscriber. When lastEventId is given, events
+   * missed since then are replayed first. Optionally filtered by type.
+   */
+  stream(
+    lastEventId?: number,
+    types?: LiveEventTypeEnum[],
+  ): Observable<MessageEvent> {
+    const events = new Observable<LiveEvent>((subscriber) => {
+      let cursor = lastEventId ?? this.lastEventId;
+      let replaying = lastEventId !== undefined;
+      const buffered: LiveEvent[] = [];
+
+      const emit = (event: LiveEvent) => {
+        if (event.id <= cursor) {
+          return;
+        }
+        cursor = event.id;
+        if (!types?.length || types.includes(event.type)) {
+          subscriber.next(event);
+        }
+      };
+
+      // Subscribe before replaying so nothing published in between is lost
+      const subscription = this.events$.subscribe((event) => {
+        if (replaying) {
+          buffered.push(event);
+        } else {
+          emit(event);
+        }
+      });
+
+      if (replaying) {
+        this.liveEventRepository
+          .find({
+            where: { id: MoreThan(cursor) },
+            order: { id: 'ASC' },
+            take: REPLAY_LIMIT,
+          })
+          .then((missed) => {
+            missed.forEach(emit);
+          })
+          .catch((error) => {
+            logger.error('❌ [LIVE] Failed to replay live events:', error);
+          })
+          .finally(() => {
+            replaying = false;
+            buffered.splice(0).forEach(emit);
+          });
+      }
+
+      return () => subscription.unsubscribe();
+    });
+
+    return merge(
+      events.pipe(
+        map(
+          (event): MessageEvent => ({
+            id: event.id.toString(),
+            type: event.type,
+            data: {
+              ...event.payload,
+              createdAt: event.createdAt,
+            },
+          }),
+        ),
+      ),
+      interval(HEARTBEAT_MS).pipe(
+        map((): MessageEvent => ({ type: 'ping', data: {} })),
+      ),
+    );
+  }
+
+  /**
+   * Picks up events published by any replica and pushes them to this
+   * replica's subscribers.
+   */
+  @Cron(CronExpression.EVERY_SECOND, { name: 'live-events-poll' })
+  async pollEvents(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      const events = await this.liveEventRepository.find({
+        where: { id: MoreThan(this.lastEventId) },
+        order: { id: 'ASC' },
+        take: REPLAY_LIMIT,
+      });
+
+      for (const event of events) {
+        this.lastEventId = event.id;
+        this.events$.next(event);
+      }
+    } catch (error) {
+      logger.error('❌ [LIVE] Failed to poll live events:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Removes events too old to be replayed to reconnecting clients.
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'live-events-cleanup' })
+  async purgeOldEvents(): Promise<void> {
+    try {
+      const result = await this.liveEventRepository.delete({
+        createdAt: LessThan(new Date(Date.now() - RETENTION_MS)),
+      });
+      if (result.affected) {
+        logger.log(`🧹 [LIVE] Purged ${result.affected} old live events`);
+      }
+    } catch (error) {
+      logger.error('❌ [LIVE] Failed to purge old live events:', error);
+    }
+  }
+
+  private async getLatestEventId(): Promise<number> {
+    const row = await this.liveEventRepository
+      .createQueryBuilder('event')
+      .select('MAX(event.id)', 'id')
+      .getRawOne();
+
+    return parseInt(row?.id || '0');
+  }
+}
@@ -1,7 +1,7 @@
 // src/core/notification/services/farcaster-notification.service.ts
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Not, IsNull } from 'typeorm';
+import { Repository, Not, IsNull, In } from 'typeorm';
 import { User, UserBrandVotes } from '../../../models';
 import { Brand } from '../../../models';
 import {
@@ -141,53 +141,13 @@ export class FarcasterNotificationService {
       return { sent: 0, failed: 0, rateLimited };
     }
 
-    // Batch notifications (up to 100 per request as per Farcaster docs)
-    const batchSize = 100;
-    let sent = 0;
-    let failed = 0;
-
-    for (let i = 0; i < eligibleUsers.length; i += batchSize) {
-      const batch = eligibleUsers.slice(i, i + batchSize);
-      const tokens = batch.map((u) => u.notificationToken).filter(Boolean);
-
-      try {
-        const response = await fetch(this.NOTIFICATION_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            notificationId, // Same ID for all users - Farcaster deduplicates by (FID, notificationId)
-            title,
-            body,
-            targetUrl,
-            tokens, // Array of tokens for batch sending
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          this.logger.error(
-            `❌ Failed to send notification batch: ${response.status} ${errorText}`,
-          );
-          failed += batch.length;
-        } else {
-          const result = await response.json();
-          const batchSent = result.sent || batch.length;
-          sent += batchSent;
-
-          // Record notifications for rate limiting
-          batch.forEach((user) => this.recordNotificationSent(user.id));
-
-          this.logger.log(
-            `✅ Sent batch: ${batchSent}/${batch.length} notifications`,
-          );
-        }
-      } catch (error) {
-        errorLog(this.logger, `Error sending notification batch:`, error);
-        failed += batch.length;
-      }
-    }
+    const { sent, failed } = await this.sendInBatches(
+      eligibleUsers,
+      title,
+      body,
+      targetUrl,
+      notificationId,
+    );
 
     this.logger.log(
       `📊 Notification summary: ${sent} sent, ${failed} failed, ${rateLimited} rate-limited out of ${users.length} users`,
@@ -266,13 +226,91 @@ export class FarcasterNotificationService {
       `📋 Found ${eligibleNonVoters.length} eligible non-voters (${rateLimited} rate-limited) out of ${nonVoters.length} total non-voters`,
     );
 
-    // Batch notifications (up to 100 per request as per Farcaster docs)
+    const { sent, failed } = await this.sendInBatches(
+      eligibleNonVoters,
+      title,
+      body,
+      targetUrl,
+      notificationId,
+    );
+
+    this.logger.log(
+      `📊 Reminder summary: ${sent} sent, ${failed} failed, ${rateLimited} rate-limited out of ${nonVoters.length} non-voters`,
+    );
+
+    return { sent, failed, rateLimited };
+  }
+
+  /**
+   * Send notification only to the given users, e.g. the followers of a brand
+   * Uses notificationId for idempotency (Farcaster deduplicates by (FID, notificationId))
+   */
+  async sendNotificationToUsers(
+    userIds: number[],
+    title: string,
+    body: string,
+    targetUrl: string,
+    notificationId: string,
+  ): Promise<{ sent: number; failed: number; rateLimited: number }> {
+    // Validate content against Farcaster limits
+    this.validateNotificationContent(title, body, notificationId);
+
+    if (userIds.length === 0) {
+      return { sent: 0, failed: 0, rateLimited: 0 };
+    }
+
+    const users = await this.userRepository.find({
+      where: {
+        id: In(userIds),
+        notificationToken: Not(IsNull()),
+        notificationsEnabled: true,
+      },
+      select: ['id', 'fid', 'notificationToken'],
+    });
+
+    const eligibleUsers = users.filter((user) => this.canSendToUser(user.id));
+    const rateLimited = users.length - eligibleUsers.length;
+
+    if (eligibleUsers.length === 0) {
+      debugLog(
+        this.logger,
+        `No eligible users for ${notificationId} (${rateLimited} rate-limited)`,
+      );
+      return { sent: 0, failed: 0, rateLimited };
+    }
+
+    const { sent, failed } = await this.sendInBatches(
+      eligibleUsers,
+      title,
+      body,
+      targetUrl,
+      notificationId,
+    );
+
+    this.logger.log(
+      `📊 Notification summary for ${notificationId}: ${sent} sent, ${failed} failed, ${rateLimited} rate-limited out of ${users.length} users`,
+    );
+
+    return { sent, failed, rateLimited };
+  }
+
+  /**
+   * Post a notification to the users' tokens, up to 100 per request as per
+   * Farcaster docs, and record each delivered batch for rate limiting
+   */
+  private async sendInBatches(
+    users: User[],
+    title: string,
+    body: string,
+    targetUrl: string,
+    notificationId: string,
+  ): Promise<{ sent: number; failed: number }> {
     const batchSize = 100;
     let sent = 0;
     let failed = 0;
 
-    for (let i = 0; i < eligibleNonVoters.length; i += batchSize) {
-      const batch = eligibleNonVoters.slice(i, i + batchSize);
+    for (let i = 0; i < users.length; i += batchSize) {
+      const batch = users.slice(i, i + batchSize);
       const tokens = batch.map((u) => u.notificationToken).filter(Boolean);
 
       try {
@@ -286,7 +324,7 @@ export class FarcasterNotificationService {
             title,
             body,
             targetUrl,
-            tokens,
+            tokens, // Array of tokens for batch sending
           }),
         });
 
@@ -314,11 +352,7 @@ export class FarcasterNotificationService {
       }
     }
 
-    this.logger.log(
-      `📊 Reminder summary: ${sent} sent, ${failed} failed, ${rateLimited} rate-limited out of ${nonVoters.length} non-voters`,
-    );
-
-    return { sent, failed, rateLimited };
+    return { sent, failed };
   }
 
   /**
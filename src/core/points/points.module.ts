@@ -0,0 +1,19 @@
+// Dependencies
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Services
+import { PointsLedgerService } from './services';
+
+// Models
+import { PointsLedgerEntry, User } from '../../models';
+
+// Other modules
+import { SeasonModule } from '../season/season.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PointsLedgerEntry, User]), SeasonModule],
+  providers: [PointsLedgerService],
+  exports: [PointsLedgerService],
+})
+export class PointsModule {}
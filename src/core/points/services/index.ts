@@ -0,0 +1 @@
+export * from './points-ledger.service';
@@ -0,0 +1,289 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+
+import { PointsLedgerEntry, PointsReasonEnum, User } from '../../../models';
+import { SeasonService } from '../../season/services';
+import { logger } from '../../../main';
+
+export interface PointsSource {
+  reason: PointsReasonEnum;
+  // Defaults to the running season; null counts the points towards no season
+  seasonId?: number | null;
+  transactionHash?: string | null;
+  voteTransactionHash?: string | null;
+  actorFid?: number | null;
+  note?: string | null;
+}
+
+export interface PointsAdjustmentInput {
+  fid: number;
+  points: number;
+  note: string;
+  actorFid: number;
+  seasonId?: number | null;
+}
+
+export interface PointsHistoryPage {
+  entries: PointsLedgerEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export interface PointsRebuildSummary {
+  backfilledEntries: number;
+  usersUpdated: number;
+  seasonTotals: number;
+}
+
+@Injectable()
+export class PointsLedgerService {
+  constructor(
+    @InjectRepository(PointsLedgerEntry)
+    private readonly pointsLedgerRepository: Repository<PointsLedgerEntry>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly seasonService: SeasonService,
+  ) {}
+
+  /**
+   * Appends a credit (or a debit, for negative points) and applies it to the
+   * user's total and season total. Pass the caller's transaction manager so
+   * the entry commits with the change that earned the points; without one
+   * the three writes get a transaction of their own.
+   */
+  async record(
+    userId: number,
+    points: number,
+    source: PointsSource,
+    manager?: EntityManager,
+  ): Promise<PointsLedgerEntry | null> {
+    if (!points) {
+      return null;
+    }
+    if (!manager) {
+      return this.pointsLedgerRepository.manager.transaction((transaction) =>
+        this.record(userId, points, source, transaction),
+      );
+    }
+
+    let seasonId = source.seasonId;
+    if (seasonId === undefined) {
+      seasonId = (await this.seasonService.getActiveSeason())?.id ?? null;
+    }
+
+    const repository = manager.getRepository(PointsLedgerEntry);
+    const entry = await repository.save(
+      repository.create({
+        userId,
+        points,
+        reason: source.reason,
+        seasonId,
+        transactionHash: source.transactionHash ?? null,
+        voteTransactionHash: source.voteTransactionHash ?? null,
+        actorFid: source.actorFid ?? null,
+        note: source.note ?? null,
+      }),
+    );
+
+    await manager
+      .createQueryBuilder()
+      .update(User)
+      .set({ points: () => `points + ${Number(points)}` })
+      .where('id = :id', { id: userId })
+      .execute();
+
+    if (seasonId !== null) {
+      await this.seasonService.addPoints(userId, seasonId, points, manager);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Posts a manual credit or debit on behalf of an admin. The note is
+   * required so every adjustment explains itself in the user's history.
+   */
+  async postAdjustment(
+    input: PointsAdjustmentInput,
+  ): Promise<{ entry: PointsLedgerEntry; balance: number }> {
+    const points = Number(input.points);
+    if (!Number.isInteger(points) || points === 0) {
+      throw new Error('points must be a non-zero integer');
+    }
+    if (!input.note?.trim()) {
+      throw new Error('note is required');
+    }
+    if (
+      input.seasonId !== undefined &&
+      input.seasonId !== null &&
+      !(await this.seasonService.getSeasonById(input.seasonId))
+    ) {
+      throw new Error(`Season ${input.seasonId} not found`);
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { fid: input.fid },
+    });
+    if (!user) {
+      throw new Error(`User with FID ${input.fid} not found`);
+    }
+
+    const entry = await this.record(user.id, points, {
+      reason: PointsReasonEnum.ADMIN_ADJUSTMENT,
+      seasonId: input.seasonId,
+      actorFid: input.actorFid,
+      note: input.note.trim().slice(0, 255),
+    });
+
+    logger.log(
+      `🧾 [POINTS LEDGER] FID ${input.actorFid} adjusted FID ${input.fid} by ${points} points: ${entry.note}`,
+    );
+
+    return { entry, balance: user.points + points };
+  }
+
+  /**
+   * A user's ledger entries, newest first. Optionally limited to a season.
+   */
+  async getHistory(
+    userId: number,
+    page: number = 1,
+    limit: number = 20,
+    seasonId?: number,
+  ): Promise<PointsHistoryPage> {
+    const [entries, total] = await this.pointsLedgerRepository.findAndCount({
+      where: {
+        userId,
+        ...(seasonId !== undefined ? { seasonId } : {}),
+      },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Writes opening balances for points earned before the ledger existed: the
+   * difference between each stored season total and the ledger, then between
+   * each user total and the ledger. Users that already had an opening
+   * balance are skipped, so running this again never hides later drift.
+   */
+  async backfillFromTotals(): Promise<number> {
+    // Balances written by this run have higher ids and must not count as
+    // earlier ones when the second statement checks for them
+    const [{ maxId }] = await this.pointsLedgerRepository.query(
+      `SELECT COALESCE(MAX(id), 0) AS maxId FROM points_ledger`,
+    );
+    const notBackfilled = (userColumn: string) => `
+      NOT EXISTS (
+        SELECT 1 FROM points_ledger b
+        WHERE b.userId = ${userColumn} AND b.reason = ? AND b.id <= ?
+      )
+    `;
+
+    const seasonResult = await this.pointsLedgerRepository.query(
+      `
+      INSERT INTO points_ledger (userId, points, reason, seasonId, note)
+      SELECT sp.userId, sp.points - COALESCE(l.total, 0), ?, sp.seasonId, 'Opening season balance'
+      FROM season_points sp
+      LEFT JOIN (
+        SELECT userId, seasonId, SUM(points) AS total
+        FROM points_ledger
+        WHERE seasonId IS NOT NULL
+        GROUP BY userId, seasonId
+      ) l ON l.userId = sp.userId AND l.seasonId = sp.seasonId
+      WHERE sp.points <> COALESCE(l.total, 0)
+        AND ${notBackfilled('sp.userId')}
+      `,
+      [PointsReasonEnum.BACKFILL, PointsReasonEnum.BACKFILL, maxId],
+    );
+
+    // Whatever the user total has beyond the ledger once the season
+    // balances are in belongs to no season
+    const userResult = await this.pointsLedgerRepository.query(
+      `
+      INSERT INTO points_ledger (userId, points, reason, seasonId, note)
+      SELECT u.id, u.points - COALESCE(l.total, 0), ?, NULL, 'Opening balance'
+      FROM users u
+      LEFT JOIN (
+        SELECT userId, SUM(points) AS total
+        FROM points_ledger
+        GROUP BY userId
+      ) l ON l.userId = u.id
+      WHERE u.points <> COALESCE(l.total, 0)
+        AND ${notBackfilled('u.id')}
+      `,
+      [PointsReasonEnum.BACKFILL, PointsReasonEnum.BACKFILL, maxId],
+    );
+
+    const inserted =
+      (seasonResult.affectedRows || 0) + (userResult.affectedRows || 0);
+    logger.log(`🧾 [POINTS LEDGER] Backfilled ${inserted} opening balances`);
+    return inserted;
+  }
+
+  /**
+   * Recomputes every user's points and every season total from the ledger.
+   * Pass backfill: true to first write opening balances for points that
+   * predate the ledger, otherwise those points are dropped from the totals.
+   */
+  async rebuildTotals(
+    backfill: boolean = false,
+  ): Promise<PointsRebuildSummary> {
+    const backfilledEntries = backfill ? await this.backfillFromTotals() : 0;
+
+    logger.log('🧾 [POINTS LEDGER] Rebuilding user and season point totals');
+
+    return this.pointsLedgerRepository.manager.transaction(async (manager) => {
+      const userResult = await manager.query(`
+        UPDATE users u
+        LEFT JOIN (
+          SELECT userId, SUM(points) AS total
+          FROM points_ledger
+          GROUP BY userId
+        ) l ON l.userId = u.id
+        SET u.points = COALESCE(l.total, 0)
+      `);
+
+      await manager.query(`DELETE FROM season_points`);
+      const seasonResult = await manager.query(`
+        INSERT INTO season_points (userId, seasonId, points)
+        SELECT userId, seasonId, SUM(points)
+        FROM points_ledger
+        WHERE seasonId IS NOT NULL
+        GROUP BY userId, seasonId
+      `);
+
+      const summary = {
+        backfilledEntries,
+        usersUpdated: userResult.affectedRows || 0,
+        seasonTotals: seasonResult.affectedRows || 0,
+      };
+      logger.log(
+        `✅ [POINTS LEDGER] Rebuilt totals, ${summary.usersUpdated} users changed, ${summary.seasonTotals} season totals`,
+      );
+
+      return summary;
+    });
+  }
+}
@@ -0,0 +1,42 @@
+// Dependencies
+import { Controller, Get, Res } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+
+// Services
+import { ScoringService } from './services';
+
+// Utils
+import { HttpStatus, hasError, hasResponse } from '../../utils';
+
+@ApiTags('scoring-service')
+@Controller('scoring-service')
+export class ScoringController {
+  constructor(private readonly scoringService: ScoringService) {}
+
+  /**
+   * Lists every scoring rules version and which one votes are scored with
+   * now.
+   */
+  @Get('/rules')
+  async getRules(@Res() res: Response) {
+    try {
+      const [versions, activeVersion] = await Promise.all([
+        this.scoringService.getVersions(),
+        this.scoringService.getVersionForDate(new Date()),
+      ]);
+
+      return hasResponse(res, {
+        versions,
+        activeVersion: activeVersion.version,
+      });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getRules',
+        error.message,
+      );
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// Dependencies
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Controllers
+import { ScoringController } from './scoring.controller';
+
+// Services
+import { ScoringService } from './services';
+
+// Models
+import { ScoringRulesVersion } from '../../models';
+import { SeasonModule } from '../season/season.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ScoringRulesVersion]), SeasonModule],
+  controllers: [ScoringController],
+  providers: [ScoringService],
+  exports: [ScoringService],
+})
+export class ScoringModule {}
@@ -0,0 +1,2 @@
+export * from './scoring.service';
+export * from './scoring-rules';
@@ -0,0 +1,137 @@
+import { ScoringRules } from '../../../models';
+
+// Scoring the app launched with. It is version 1 and lives in code, so votes
+// are scored the same way before any version has been stored
+export const DEFAULT_SCORING_RULES_VERSION = 1;
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  positionWeights: [0.6, 0.3, 0.1],
+  baseVoteCost: 100,
+  maxVoteCostLevel: 8,
+  rewardMultiplier: 10,
+  votePoints: 3,
+  claimPointsPerLevel: 3,
+  streakBonuses: [],
+  brandBonusMultiplier: 0,
+  flaggedVoteWeight: 1,
+};
+
+const WEI_PER_BRND = BigInt(10 ** 18);
+
+/*
+ * The helpers below are plain functions of a rule set so the standalone
+ * scripts in /scripts can score votes exactly like the API does.
+ */
+
+/**
+ * Brand score a podium position earns: its share of the BRND paid plus the
+ * brand's own bonus points, scaled by how much the voter's votes count (see
+ * flaggedVoteWeight).
+ */
+export function getPositionPoints(
+  rules: ScoringRules,
+  position: number,
+  brndPaid: number,
+  brandBonusPoints: number = 0,
+  voteWeight: number = 1,
+): number {
+  return (
+    ((rules.positionWeights[position - 1] || 0) * brndPaid +
+      (brandBonusPoints || 0) * rules.brandBonusMultiplier) *
+    voteWeight
+  );
+}
+
+/**
+ * Vote cost in wei at a BRND power level, mirroring getVoteCost on the
+ * voting contract.
+ */
+export function getVoteCostWei(
+  rules: ScoringRules,
+  brndPowerLevel: number,
+): bigint {
+  const level = Math.min(
+    Math.max(brndPowerLevel || 0, 1),
+    rules.maxVoteCostLevel,
+  );
+  return BigInt(rules.baseVoteCost) * BigInt(level) * WEI_PER_BRND;
+}
+
+/**
+ * Claimable reward in wei for a vote that paid brndPaid BRND.
+ */
+export function getRewardAmountWei(
+  rules: ScoringRules,
+  brndPaid: number,
+): string {
+  return (
+    BigInt(Math.floor(brndPaid)) *
+    WEI_PER_BRND *
+    BigInt(rules.rewardMultiplier)
+  ).toString();
+}
+
+/**
+ * Extra leaderboard points for a vote that brings the voter's daily streak
+ * to the given number of days.
+ */
+export function getStreakBonus(rules: ScoringRules, streak: number): number {
+  return rules.streakBonuses
+    .filter((bonus) => streak >= bonus.minStreak)
+    .reduce((best, bonus) => Math.max(best, bonus.points), 0);
+}
+
+/**
+ * Throws when a rule set could not score a vote sensibly.
+ */
+export function validateScoringRules(rules: ScoringRules): void {
+  const isNumber = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value);
+
+  if (
+    !Array.isArray(rules.positionWeights) ||
+    rules.positionWeights.length !== 3 ||
+    !rules.positionWeights.every((weight) => isNumber(weight) && weight >= 0)
+  ) {
+    throw new Error('positionWeights must be 3 non-negative numbers');
+  }
+  if (!Number.isInteger(rules.baseVoteCost) || rules.baseVoteCost <= 0) {
+    throw new Error('baseVoteCost must be a positive whole number of BRND');
+  }
+  if (!Number.isInteger(rules.maxVoteCostLevel) || rules.maxVoteCostLevel < 1) {
+    throw new Error('maxVoteCostLevel must be a whole number of at least 1');
+  }
+  if (!Number.isInteger(rules.rewardMultiplier) || rules.rewardMultiplier < 0) {
+    throw new Error('rewardMultiplier must be a non-negative whole number');
+  }
+  for (const key of [
+    'votePoints',
+    'claimPointsPerLevel',
+    'brandBonusMultiplier',
+  ] as const) {
+    if (!isNumber(rules[key]) || rules[key] < 0) {
+      throw new Error(`${key} must be a non-negative number`);
+    }
+  }
+  if (
+    !isNumber(rules.flaggedVoteWeight) ||
+    rules.flaggedVoteWeight < 0 ||
+    rules.flaggedVoteWeight > 1
+  ) {
+    throw new Error('flaggedVoteWeight must be between 0 and 1');
+  }
+  if (
+    !Array.isArray(rules.streakBonuses) ||
+    !rules.streakBonuses.every(
+      (bonus) =>
+        Number.isInteger(bonus?.minStreak) &&
+        bonus.minStreak >= 1 &&
+        isNumber(bonus.points) &&
+        bonus.points >= 0,
+    )
+  ) {
+    throw new Error(
+      'streakBonuses must be a list of { minStreak >= 1, points >= 0 }',
+    );
+  }
+}
@@ -0,0 +1,272 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Repository } from 'typeorm';
+
+import { ScoringRulesVersion, Season } from '../../../models';
+import { SeasonService } from '../../season/services';
+import { DEFAULT_SCORING_RULES } from './scoring-rules';
+import { ScoringService } from './scoring.service';
+
+jest.mock('../../../main', () => ({
+  logger: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+describe('ScoringService', () => {
+  let stored: ScoringRulesVersion[];
+  let repository: {
+    find: jest.Mock<() => Promise<ScoringRulesVersion[]>>;
+    create: jest.Mock<(values: ScoringRulesVersion) => ScoringRulesVersion>;
+    insert: jest.Mock<(version: ScoringRulesVersion) => Promise<void>>;
+  };
+  let seasonService: {
+    getSeasonForDate: jest.Mock<(date: Date) => Promise<Season | null>>;
+    getSeasonById: jest.Mock<(id: number) => Promise<Season | null>>;
+  };
+  let service: ScoringService;
+
+  const storedVersion = (
+    version: number,
+    effectiveFrom: Date,
+    rules: Partial<typeof DEFAULT_SCORING_RULES> = {},
+  ) =>
+    ({
+      version,
+      effectiveFrom,
+      rules: { ...DEFAULT_SCORING_RULES, ...rules },
+    }) as ScoringRulesVersion;
+
+  beforeEach(() => {
+    stored = [];
+    repository = {
+      find: jest.fn(async () => [...stored]),
+      create: jest.fn((values) => ({ ...values })),
+      insert: jest.fn(async (version) => {
+        stored.push(version);
+      }),
+    };
+    seasonService = {
+      getSeasonForDate: jest.fn(async () => null),
+      getSeasonById: jest.fn(async () => null),
+    };
+    service = new ScoringService(
+      repository as unknown as Repository<ScoringRulesVersion>,
+      seasonService as unknown as SeasonService,
+    );
+  });
+
+  describe('getVersions', () => {
+    it('starts with the launch rules before any version is stored', async () => {
+      const versions = await service.getVersions();
+
+      expect(versions).toHaveLength(1);
+      expect(versions[0].version).toBe(1);
+      expect(versions[0].rules).toEqual(DEFAULT_SCORING_RULES);
+      expect(versions[0].rules.brandBonusMultiplier).toBe(0);
+    });
+
+    it('reads the stored versions once while the cache is fresh', async () => {
+      await service.getVersions();
+      await service.getVersions();
+
+      expect(repository.find).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getRulesForDate', () => {
+    const season = {
+      id: 3,
+      startsAt: new Date('2026-05-01T00:00:00Z'),
+      scoringRules: { votePoints: 5 },
+    } as Season;
+
+    it('scores with the version in effect at the date', async () => {
+      stored = [storedVersion(2, new Date('2026-06-01T00:00:00Z'))];
+
+      const before = await service.getRulesForDate(
+        new Date('2026-05-31T23:59:59Z'),
+      );
+      const after = await service.getRulesForDate(
+        new Date('2026-06-01T00:00:00Z'),
+      );
+
+      expect(before.version).toBe(1);
+      expect(after.version).toBe(2);
+    });
+
+    it('records the season overrides in a version of their own', async () => {
+      stored = [storedVersion(2, new Date('2026-06-01T00:00:00Z'))];
+      seasonService.getSeasonForDate.mockResolvedValue(season);
+
+      const resolved = await service.getRulesForDate(
+        new Date('2026-06-02T00:00:00Z'),
+      );
+
+      expect(resolved.version).toBe(3);
+      expect(resolved.rules.votePoints).toBe(5);
+      expect(repository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          version: 3,
+          seasonId: 3,
+          effectiveFrom: new Date('2026-06-01T00:00:00Z'),
+          createdByFid: null,
+        }),
+      );
+      // Picking a version by date still leaves season versions out
+      expect(
+        (await service.getVersionForDate(new Date('2026-06-02T00:00:00Z')))
+          .version,
+      ).toBe(2);
+    });
+
+    it('reuses the season version while the overrides stay the same', async () => {
+      seasonService.getSeasonForDate.mockResolvedValue(season);
+
+      const first = await service.getRulesForDate(new Date());
+      // Stored JSON does not keep key order
+      stored[0] = {
+        ...stored[0],
+        rules: Object.fromEntries(Object.entries(stored[0].rules).reverse()),
+      } as ScoringRulesVersion;
+      service['versionsCache'] = null;
+      const second = await service.getRulesForDate(new Date());
+
+      expect(second.version).toBe(first.version);
+      expect(repository.insert).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps scoring recorded votes the same after the overrides change', async () => {
+      seasonService.getSeasonForDate.mockResolvedValue(season);
+      const { version } = await service.getRulesForDate(new Date());
+
+      const changed = { ...season, scoringRules: { votePoints: 9 } } as Season;
+      seasonService.getSeasonForDate.mockResolvedValue(changed);
+      seasonService.getSeasonById.mockResolvedValue(changed);
+      const later = await service.getRulesForDate(new Date());
+      const recorded = await service.getRulesForVote({
+        scoringRulesVersion: version,
+        season: season.id,
+        date: new Date(),
+      });
+
+      expect(later.version).toBe(version + 1);
+      expect(later.rules.votePoints).toBe(9);
+      expect(recorded.rules.votePoints).toBe(5);
+    });
+  });
+
+  describe('getRulesForVote', () => {
+    it('uses the version the vote recorded', async () => {
+      stored = [
+        storedVersion(2, new Date('2026-06-01T00:00:00Z'), {
+          rewardMultiplier: 20,
+        }),
+      ];
+
+      const { version, rules } = await service.getRulesForVote({
+        scoringRulesVersion: 2,
+        season: null,
+        date: new Date('2026-01-01T00:00:00Z'),
+      });
+
+      expect(version).toBe(2);
+      expect(rules.rewardMultiplier).toBe(20);
+    });
+
+    it('fails for a version that does not exist', async () => {
+      await expect(
+        service.getRulesForVote({
+          scoringRulesVersion: 7,
+          season: null,
+          date: new Date(),
+        }),
+      ).rejects.toThrow('Scoring rules version 7 not found');
+    });
+  });
+
+  describe('createVersion', () => {
+    it('adds the next version with the rules left out copied from the latest', async () => {
+      stored = [
+        storedVersion(2, new Date(Date.now() - HOUR), { votePoints: 4 }),
+      ];
+      const effectiveFrom = new Date(Date.now() + HOUR);
+
+      const created = await service.createVersion(
+        { rules: { rewardMultiplier: 12 }, effectiveFrom },
+        42,
+      );
+
+      expect(repository.insert).toHaveBeenCalledWith(created);
+      expect(created).toMatchObject({
+        version: 3,
+        effectiveFrom,
+        createdByFid: 42,
+        description: null,
+      });
+      expect(created.rules).toEqual({
+        ...DEFAULT_SCORING_RULES,
+        votePoints: 4,
+        rewardMultiplier: 12,
+      });
+      expect((await service.getVersions()).map((v) => v.version)).toEqual([
+        1, 2, 3,
+      ]);
+    });
+
+    it('numbers a version after season versions but copies the latest other version', async () => {
+      stored = [
+        storedVersion(2, new Date(Date.now() - HOUR), { votePoints: 4 }),
+        {
+          ...storedVersion(3, new Date(Date.now() - HOUR), { votePoints: 5 }),
+          seasonId: 1,
+        } as ScoringRulesVersion,
+      ];
+
+      const created = await service.createVersion({ rules: {} }, 42);
+
+      expect(created.version).toBe(4);
+      expect(created.rules.votePoints).toBe(4);
+    });
+
+    it('only lets a version take effect from now on, after the latest', async () => {
+      stored = [storedVersion(2, new Date(Date.now() + 2 * HOUR))];
+
+      await expect(
+        service.createVersion(
+          { rules: {}, effectiveFrom: new Date(Date.now() - 2 * HOUR) },
+          42,
+        ),
+      ).rejects.toThrow('effectiveFrom cannot be in the past');
+      await expect(
+        service.createVersion(
+          { rules: {}, effectiveFrom: new Date(Date.now() + HOUR) },
+          42,
+        ),
+      ).rejects.toThrow('effectiveFrom must be after version 2 takes effect');
+      expect(repository.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown and invalid rules', async () => {
+      await expect(
+        service.createVersion({ rules: { bogus: 1 } as never }, 42),
+      ).rejects.toThrow('Unknown scoring rules: bogus');
+      await expect(
+        service.createVersion({ rules: { flaggedVoteWeight: 2 } }, 42),
+      ).rejects.toThrow('flaggedVoteWeight must be between 0 and 1');
+    });
+
+    it('reports a version created concurrently instead of overwriting it', async () => {
+      repository.insert.mockRejectedValueOnce(
+        Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' }),
+      );
+
+      await expect(service.createVersion({ rules: {} }, 42)).rejects.toThrow(
+        'Rules version 2 was created concurrently, reload the versions and try again',
+      );
+
+      // The versions are read again on the next call
+      await service.getVersions();
+      expect(repository.find).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import {
+  ScoringRules,
+  ScoringRulesVersion,
+  Season,
+  UserBrandVotes,
+} from '../../../models';
+import { SeasonService } from '../../season/services';
+import { logger } from '../../../main';
+import {
+  DEFAULT_SCORING_RULES,
+  DEFAULT_SCORING_RULES_VERSION,
+  validateScoringRules,
+} from './scoring-rules';
+
+// Versions change rarely; every replica re-reads them at most this often
+const VERSIONS_CACHE_TTL = 60 * 1000;
+
+export interface ScoringRulesVersionInput {
+  rules: Partial<ScoringRules>;
+  effectiveFrom?: Date;
+  description?: string;
+}
+
+/**
+ * The rules a vote is scored with and the version that pins them. Season
+ * point overrides are baked into a version of their own.
+ */
+export interface ResolvedScoringRules {
+  version: number;
+  season: Season | null;
+  rules: ScoringRules;
+}
+
+@Injectable()
+export class ScoringService {
+  private versionsCache: {
+    versions: ScoringRulesVersion[];
+    loadedAt: number;
+  } | null = null;
+
+  constructor(
+    @InjectRepository(ScoringRulesVersion)
+    private readonly scoringRulesVersionRepository: Repository<ScoringRulesVersion>,
+    private readonly seasonService: SeasonService,
+  ) {}
+
+  /**
+   * Every rules version, oldest first. Version 1 is always present, even
+   * before anything has been stored.
+   */
+  async getVersions(): Promise<ScoringRulesVersion[]> {
+    if (
+      this.versionsCache &&
+      Date.now() - this.versionsCache.loadedAt < VERSIONS_CACHE_TTL
+    ) {
+      return this.versionsCache.versions;
+    }
+
+    const stored = await this.scoringRulesVersionRepository.find({
+      order: { version: 'ASC' },
+    });
+    const versions = stored.some(
+      (version) => version.version === DEFAULT_SCORING_RULES_VERSION,
+    )
+      ? stored
+      : [this.getDefaultVersion(), ...stored];
+
+    this.versionsCache = { versions, loadedAt: Date.now() };
+    return versions;
+  }
+
+  async getVersion(version: number): Promise<ScoringRulesVersion | null> {
+    const versions = await this.getVersions();
+    return versions.find((candidate) => candidate.version === version) || null;
+  }
+
+  /**
+   * The version in effect at the given date. Season versions are left out.
+   */
+  async getVersionForDate(date: Date): Promise<ScoringRulesVersion> {
+    const versions = await this.getVersions();
+    return versions
+      .filter((candidate) => !candidate.seasonId)
+      .reduce((current, candidate) =>
+        candidate.effectiveFrom <= date ? candidate : current,
+      );
+  }
+
+  /**
+   * Rules for a vote cast at the given date. When the season running at that
+   * date overrides any rules, the version returned is the season version
+   * with those overrides baked in.
+   */
+  async getRulesForDate(date: Date): Promise<ResolvedScoringRules> {
+    const [version, season] = await Promise.all([
+      this.getVersionForDate(date),
+      this.seasonService.getSeasonForDate(date),
+    ]);
+    if (!season?.scoringRules || !Object.keys(season.scoringRules).length) {
+      return this.resolve(version, season);
+    }
+    return this.resolve(await this.getSeasonVersion(version, season), season);
+  }
+
+  /**
+   * Rules a stored vote was scored with, from the version it recorded alone.
+   * Votes from before versioning are scored with the version in effect when
+   * they were cast.
+   */
+  async getRulesForVote(
+    vote: Pick<UserBrandVotes, 'scoringRulesVersion' | 'season' | 'date'>,
+  ): Promise<ResolvedScoringRules> {
+    const [version, season] = await Promise.all([
+      vote.scoringRulesVersion
+        ? this.getVersion(vote.scoringRulesVersion)
+        : this.getVersionForDate(vote.date),
+      vote.season ? this.seasonService.getSeasonById(vote.season) : null,
+    ]);
+    if (!version) {
+      throw new Error(
+        `Scoring rules version ${vote.scoringRulesVersion} not found`,
+      );
+    }
+    return this.resolve(version, season);
+  }
+
+  /**
+   * Adds a rules version. Rules left out are copied from the latest version.
+   * A version can only take effect from now on and after the latest one,
+   * so votes that were already scored never change meaning.
+   */
+  async createVersion(
+    input: ScoringRulesVersionInput,
+    createdByFid: number,
+  ): Promise<ScoringRulesVersion> {
+    // Another replica may have added a version since this one cached them
+    this.versionsCache = null;
+    const versions = await this.getVersions();
+    const latest = versions.filter((version) => !version.seasonId).pop();
+    const effectiveFrom = input.effectiveFrom || new Date();
+
+    if (isNaN(effectiveFrom.getTime())) {
+      throw new Error('effectiveFrom must be a valid date');
+    }
+    if (effectiveFrom.getTime() < Date.now() - 60 * 1000) {
+      throw new Error('effectiveFrom cannot be in the past');
+    }
+    if (effectiveFrom <= latest.effectiveFrom) {
+      throw new Error(
+        `effectiveFrom must be after version ${latest.version} takes effect (${latest.effectiveFrom.toISOString()})`,
+      );
+    }
+
+    const unknownRules = Object.keys(input.rules).filter(
+      (key) => !(key in DEFAULT_SCORING_RULES),
+    );
+    if (unknownRules.length > 0) {
+      throw new Error(`Unknown scoring rules: ${unknownRules.join(', ')}`);
+    }
+
+    const rules: ScoringRules = { ...latest.rules, ...input.rules };
+    validateScoringRules(rules);
+
+    // Insert rather than save: save would overwrite a version another
+    // replica created with the same number in the meantime
+    const saved = this.scoringRulesVersionRepository.create({
+      version: versions[versions.length - 1].version + 1,
+      rules,
+      effectiveFrom,
+      seasonId: null,
+      description: input.description || null,
+      createdByFid,
+    });
+    try {
+      await this.scoringRulesVersionRepository.insert(saved);
+    } catch (error) {
+      if (this.isDuplicateVersionError(error)) {
+        throw new Error(
+          `Rules version ${saved.version} was created concurrently, reload the versions and try again`,
+        );
+      }
+      throw error;
+    } finally {
+      this.versionsCache = null;
+    }
+
+    logger.log(
+      `🧮 [SCORING] FID ${createdByFid} created rules version ${saved.version}, effective ${saved.effectiveFrom.toISOString()}`,
+    );
+    return saved;
+  }
+
+  /**
+   * The version that bakes a season's overrides into a base version, added
+   * the first time a vote needs it. Votes record it, so editing the season's
+   * overrides later leaves the votes already scored alone.
+   */
+  private async getSeasonVersion(
+    base: ScoringRulesVersion,
+    season: Season,
+  ): Promise<ScoringRulesVersion> {
+    const rules: ScoringRules = { ...base.rules, ...season.scoringRules };
+    const findExisting = (versions: ScoringRulesVersion[]) =>
+      versions.find(
+        (version) =>
+          version.seasonId === season.id &&
+          this.getRulesKey(version.rules) === this.getRulesKey(rules),
+      );
+
+    const cached = findExisting(await this.getVersions());
+    if (cached) {
+      return cached;
+    }
+
+    // Another replica may have added it since this one cached the versions
+    this.versionsCache = null;
+    const versions = await this.getVersions();
+    const existing = findExisting(versions);
+    if (existing) {
+      return existing;
+    }
+
+    const saved = this.scoringRulesVersionRepository.create({
+      version: versions[versions.length - 1].version + 1,
+      rules,
+      effectiveFrom:
+        season.startsAt > base.effectiveFrom
+          ? season.startsAt
+          : base.effectiveFrom,
+      seasonId: season.id,
+      description: `Season ${season.id} overrides on version ${base.version}`,
+      createdByFid: null,
+    });
+    try {
+      await this.scoringRulesVersionRepository.insert(saved);
+    } catch (error) {
+      if (!this.isDuplicateVersionError(error)) {
+        throw error;
+      }
+      // Usually the same season version, added by a concurrent vote
+      this.versionsCache = null;
+      const concurrent = findExisting(await this.getVersions());
+      if (!concurrent) {
+        throw new Error(
+          `Rules version ${saved.version} was created concurrently, retry the vote`,
+        );
+      }
+      return concurrent;
+    } finally {
+      this.versionsCache = null;
+    }
+
+    logger.log(
+      `🧮 [SCORING] Added rules version ${saved.version} for season ${season.id} overrides on version ${base.version}`,
+    );
+    return saved;
+  }
+
+  /**
+   * Compares rule sets regardless of key order, which MySQL JSON columns do
+   * not keep.
+   */
+  private getRulesKey(rules: ScoringRules): string {
+    return JSON.stringify(rules, (_key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(
+            Object.keys(value)
+              .sort()
+              .map((key) => [key, value[key]]),
+          )
+        : value,
+    );
+  }
+
+  private isDuplicateVersionError(error: any): boolean {
+    return (
+      error?.code === 'ER_DUP_ENTRY' ||
+      error?.driverError?.code === 'ER_DUP_ENTRY'
+    );
+  }
+
+  private resolve(
+    version: ScoringRulesVersion,
+    season: Season | null,
+  ): ResolvedScoringRules {
+    return {
+      version: version.version,
+      season,
+      rules: { ...DEFAULT_SCORING_RULES, ...version.rules },
+    };
+  }
+
+  private getDefaultVersion(): ScoringRulesVersion {
+    return this.scoringRulesVersionRepository.create({
+      version: DEFAULT_SCORING_RULES_VERSION,
+      rules: DEFAULT_SCORING_RULES,
+      effectiveFrom: new Date(0),
+      seasonId: null,
+      description: 'Launch rules',
+      createdByFid: null,
+    });
+  }
+}
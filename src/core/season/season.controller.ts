@@ -0,0 +1,65 @@
+// Dependencies
+import { Controller, Get, Res } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+
+// Services
+import { SeasonService } from './services';
+
+// Utils
+import { HttpStatus, hasError, hasResponse } from '../../utils';
+
+@ApiTags('season-service')
+@Controller('season-service')
+export class SeasonController {
+  constructor(private readonly seasonService: SeasonService) {}
+
+  /**
+   * Lists every configured season and which one is running now.
+   */
+  @Get('/seasons')
+  async getSeasons(@Res() res: Response) {
+    try {
+      const [seasons, activeSeason] = await Promise.all([
+        this.seasonService.getSeasons(),
+        this.seasonService.getActiveSeason(),
+      ]);
+
+      return hasResponse(res, {
+        seasons,
+        activeSeasonId: activeSeason?.id ?? null,
+      });
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getSeasons',
+        error.message,
+      );
+    }
+  }
+
+  @Get('/seasons/current')
+  async getCurrentSeason(@Res() res: Response) {
+    try {
+      const season = await this.seasonService.getActiveSeason();
+      if (!season) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getCurrentSeason',
+          'No season is running',
+        );
+      }
+
+      return hasResponse(res, season);
+    } catch (error) {
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getCurrentSeason',
+        error.message,
+      );
+    }
+  }
+}
@@ -0,0 +1,20 @@
+// Dependencies
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Controllers
+import { SeasonController } from './season.controller';
+
+// Services
+import { SeasonService } from './services';
+
+// Models
+import { Season, SeasonPoints } from '../../models';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Season, SeasonPoints])],
+  controllers: [SeasonController],
+  providers: [SeasonService],
+  exports: [SeasonService],
+})
+export class SeasonModule {}
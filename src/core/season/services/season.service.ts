@@ -0,0 +1,315 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+
+import {
+  Season,
+  SeasonPoints,
+  SeasonScoringRules,
+  User,
+} from '../../../models';
+import { logger } from '../../../main';
+
+// Seasons change rarely; every replica re-reads them at most this often
+const SEASONS_CACHE_TTL = 60 * 1000;
+
+export interface SeasonInput {
+  id?: number;
+  name?: string;
+  startsAt?: Date;
+  endsAt?: Date | null;
+  contractAddress?: string | null;
+  scoringRules?: SeasonScoringRules | null;
+}
+
+export interface SeasonLeaderboardEntry {
+  id: number;
+  fid: number;
+  username: string;
+  photoUrl: string;
+  points: number;
+}
+
+@Injectable()
+export class SeasonService {
+  private seasonsCache: { seasons: Season[]; loadedAt: number } | null = null;
+
+  constructor(
+    @InjectRepository(Season)
+    private readonly seasonRepository: Repository<Season>,
+    @InjectRepository(SeasonPoints)
+    private readonly seasonPointsRepository: Repository<SeasonPoints>,
+  ) {}
+
+  /**
+   * All configured seasons, oldest first.
+   */
+  async getSeasons(): Promise<Season[]> {
+    if (
+      this.seasonsCache &&
+      Date.now() - this.seasonsCache.loadedAt < SEASONS_CACHE_TTL
+    ) {
+      return this.seasonsCache.seasons;
+    }
+
+    const seasons = await this.seasonRepository.find({
+      order: { startsAt: 'ASC' },
+    });
+    this.seasonsCache = { seasons, loadedAt: Date.now() };
+    return seasons;
+  }
+
+  async getSeasonById(id: number): Promise<Season | null> {
+    const seasons = await this.getSeasons();
+    return seasons.find((season) => season.id === id) || null;
+  }
+
+  /**
+   * The season running at the given date, or null between seasons.
+   */
+  async getSeasonForDate(date: Date): Promise<Season | null> {
+    const seasons = await this.getSeasons();
+    return (
+      seasons.find(
+        (season) =>
+          season.startsAt <= date && (!season.endsAt || date < season.endsAt),
+      ) || null
+    );
+  }
+
+  async getActiveSeason(): Promise<Season | null> {
+    return this.getSeasonForDate(new Date());
+  }
+
+  /**
+   * Parses a `season` query parameter: 'all', 'current', a season id, or the
+   * legacy 's1'/'s2' names. Returns null when the season does not exist.
+   */
+  async resolveSeasonParam(param?: string): Promise<'all' | number | null> {
+    const value = (param || 'all').trim().toLowerCase();
+    if (value === 'all') {
+      return 'all';
+    }
+    if (value === 'current') {
+      return (await this.getActiveSeason())?.id ?? null;
+    }
+
+    const id = parseInt(value.replace(/^s/, ''), 10);
+    if (isNaN(id)) {
+      return null;
+    }
+    return (await this.getSeasonById(id)) ? id : null;
+  }
+
+  async createSeason(input: SeasonInput): Promise<Season> {
+    if (!input.id || !input.name || !input.startsAt) {
+      throw new Error('id, name and startsAt are required');
+    }
+    if (await this.seasonRepository.findOne({ where: { id: input.id } })) {
+      throw new Error(`Season ${input.id} already exists`);
+    }
+
+    const season = this.seasonRepository.create({
+      id: input.id,
+      name: input.name,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt || null,
+      contractAddress: input.contractAddress || null,
+      scoringRules: input.scoringRules || null,
+    });
+    await this.assertNoOverlap(season);
+
+    const saved = await this.seasonRepository.save(season);
+    this.seasonsCache = null;
+
+    logger.log(
+      `🗓️ [SEASON] Created season ${saved.id} (${saved.name}) starting ${saved.startsAt.toISOString()}`,
+    );
+    return saved;
+  }
+
+  async updateSeason(id: number, input: SeasonInput): Promise<Season> {
+    const season = await this.seasonRepository.findOne({ where: { id } });
+    if (!season) {
+      throw new Error(`Season ${id} not found`);
+    }
+
+    if (input.name !== undefined) season.name = input.name;
+    if (input.startsAt !== undefined) season.startsAt = input.startsAt;
+    if (input.endsAt !== undefined) season.endsAt = input.endsAt;
+    if (input.contractAddress !== undefined) {
+      season.contractAddress = input.contractAddress;
+    }
+    if (input.scoringRules !== undefined) {
+      season.scoringRules = input.scoringRules;
+    }
+    await this.assertNoOverlap(season);
+
+    const saved = await this.seasonRepository.save(season);
+    this.seasonsCache = null;
+
+    logger.log(`🗓️ [SEASON] Updated season ${saved.id} (${saved.name})`);
+    return saved;
+  }
+
+  /**
+   * Credits points to a user's total for a season. Pass the caller's
+   * transaction manager so the credit commits with the change that earned it.
+   */
+  async addPoints(
+    userId: number,
+    seasonId: number,
+    points: number,
+    manager: EntityManager = this.seasonPointsRepository.manager,
+  ): Promise<void> {
+    if (!points) {
+      return;
+    }
+
+    await manager.query(
+      `
+      INSERT INTO season_points (userId, seasonId, points)
+      VALUES (?, ?, ?)
+      ON DUPLICATE KEY UPDATE points = points + VALUES(points)
+      `,
+      [userId, seasonId, points],
+    );
+  }
+
+  /**
+   * A user's points in every season they earned points in, oldest first.
+   */
+  async getUserSeasonPoints(
+    userId: number,
+  ): Promise<Array<{ seasonId: number; name: string; points: number }>> {
+    const seasons = await this.getSeasons();
+    const rows = await this.seasonPointsRepository.find({
+      where: { userId },
+    });
+    const pointsBySeason = new Map(
+      rows.map((row) => [row.seasonId, row.points]),
+    );
+
+    return seasons
+      .filter((season) => pointsBySeason.has(season.id))
+      .map((season) => ({
+        seasonId: season.id,
+        name: season.name,
+        points: pointsBySeason.get(season.id),
+      }));
+  }
+
+  async getUserPoints(userId: number, seasonId: number): Promise<number> {
+    const row = await this.seasonPointsRepository.findOne({
+      where: { userId, seasonId },
+    });
+    return row?.points || 0;
+  }
+
+  /**
+   * Every user with points in a season, highest first. Ties are broken by
+   * earliest registration, like the all-time leaderboard.
+   */
+  async getLeaderboard(seasonId: number): Promise<SeasonLeaderboardEntry[]> {
+    const rows = await this.seasonPointsRepository
+      .createQueryBuilder('seasonPoints')
+      .innerJoin(User, 'user', 'user.id = seasonPoints.userId')
+      .select('user.id', 'id')
+      .addSelect('user.fid', 'fid')
+      .addSelect('user.username', 'username')
+      .addSelect('user.photoUrl', 'photoUrl')
+      .addSelect('seasonPoints.points', 'points')
+      .where('seasonPoints.seasonId = :seasonId', { seasonId })
+      .orderBy('seasonPoints.points', 'DESC')
+      .addOrderBy('user.createdAt', 'ASC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      id: row.id,
+      fid: row.fid,
+      username: row.username,
+      photoUrl: row.photoUrl,
+      points: Number(row.points),
+    }));
+  }
+
+  /**
+   * Tags every vote cast during a season with its id, moves the points
+   * ledger entries of those votes to the season and rebuilds the season's
+   * points from the ledger. Use this after creating or moving a season.
+   * Seasons that lost votes to this one need a recompute of their own.
+   */
+  async recomputeSeason(
+    seasonId: number,
+  ): Promise<{ votesTagged: number; entriesTagged: number; users: number }> {
+    const season = await this.seasonRepository.findOne({
+      where: { id: seasonId },
+    });
+    if (!season) {
+      throw new Error(`Season ${seasonId} not found`);
+    }
+
+    return this.seasonRepository.manager.transaction(async (manager) => {
+      const tagResult = await manager.query(
+        `
+        UPDATE user_brand_votes
+        SET season = ?
+        WHERE date >= ? AND (? IS NULL OR date < ?)
+        `,
+        [season.id, season.startsAt, season.endsAt, season.endsAt],
+      );
+
+      const entriesResult = await manager.query(
+        `
+        UPDATE points_ledger l
+        INNER JOIN user_brand_votes v ON v.transactionHash = l.voteTransactionHash
+        SET l.seasonId = v.season
+        WHERE v.season = ? AND NOT (l.seasonId <=> v.season)
+        `,
+        [season.id],
+      );
+
+      await manager.delete(SeasonPoints, { seasonId: season.id });
+      const pointsResult = await manager.query(
+        `
+        INSERT INTO season_points (userId, seasonId, points)
+        SELECT userId, seasonId, SUM(points)
+        FROM points_ledger
+        WHERE seasonId = ?
+        GROUP BY userId, seasonId
+        `,
+        [season.id],
+      );
+
+      const votesTagged = tagResult.affectedRows || 0;
+      const entriesTagged = entriesResult.affectedRows || 0;
+      const users = pointsResult.affectedRows || 0;
+      logger.log(
+        `🗓️ [SEASON] Recomputed season ${season.id}: ${votesTagged} votes and ${entriesTagged} ledger entries retagged, ${users} users with points`,
+      );
+
+      return { votesTagged, entriesTagged, users };
+    });
+  }
+
+  private async assertNoOverlap(season: Season): Promise<void> {
+    if (season.endsAt && season.endsAt <= season.startsAt) {
+      throw new Error('endsAt must be after startsAt');
+    }
+
+    const others = (await this.seasonRepository.find()).filter(
+      (other) => other.id !== season.id,
+    );
+    const overlapping = others.find(
+      (other) =>
+        (!other.endsAt || season.startsAt < other.endsAt) &&
+        (!season.endsAt || other.startsAt < season.endsAt),
+    );
+
+    if (overlapping) {
+      throw new Error(
+        `Season ${season.id} overlaps season ${overlapping.id} (${overlapping.name})`,
+      );
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+
+import { Brand, BrandTags, Tag } from '../../../models';
+import { logger } from '../../../main';
+
+export interface TagWithBrandCount {
+  id: number;
+  name: string;
+  brandCount: number;
+}
+
+@Injectable()
+export class TagService {
+  constructor(
+    @InjectRepository(Tag)
+    private readonly tagRepository: Repository<Tag>,
+    @InjectRepository(BrandTags)
+    private readonly brandTagsRepository: Repository<BrandTags>,
+    @InjectRepository(Brand)
+    private readonly brandRepository: Repository<Brand>,
+  ) {}
+
+  /**
+   * Every tag with the number of listed brands carrying it, by name.
+   */
+  async getTags(): Promise<TagWithBrandCount[]> {
+    const rows = await this.tagRepository
+      .createQueryBuilder('tag')
+      .leftJoin(BrandTags, 'brandTag', 'brandTag.tagId = tag.id')
+      .leftJoin(
+        Brand,
+        'brand',
+        'brand.id = brandTag.brandId AND brand.banned = 0',
+      )
+      .select('tag.id', 'id')
+      .addSelect('tag.name', 'name')
+      .addSelect('COUNT(DISTINCT brand.id)', 'brandCount')
+      .groupBy('tag.id')
+      .addGroupBy('tag.name')
+      .orderBy('tag.name', 'ASC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      brandCount: Number(row.brandCount),
+    }));
+  }
+
+  async createTag(name: string): Promise<Tag> {
+    const tagName = this.normalizeName(name);
+    if (await this.tagRepository.findOne({ where: { name: tagName } })) {
+      throw new Error(`Tag "${tagName}" already exists`);
+    }
+
+    const tag = await this.tagRepository.save(
+      this.tagRepository.create({ name: tagName }),
+    );
+    logger.log(`🏷️ [TAG] Created tag ${tag.id} (${tag.name})`);
+    return tag;
+  }
+
+  async renameTag(id: number, name: string): Promise<Tag> {
+    const tag = await this.tagRepository.findOne({ where: { id } });
+    if (!tag) {
+      throw new Error(`Tag ${id} not found`);
+    }
+
+    const tagName = this.normalizeName(name);
+    const existing = await this.tagRepository.findOne({
+      where: { name: tagName },
+    });
+    if (existing && existing.id !== id) {
+      throw new Error(`Tag "${tagName}" already exists`);
+    }
+
+    tag.name = tagName;
+    const saved = await this.tagRepository.save(tag);
+    logger.log(`🏷️ [TAG] Renamed tag ${saved.id} to ${saved.name}`);
+    return saved;
+  }
+
+  /**
+   * Deletes a tag and removes it from every brand.
+   */
+  async deleteTag(id: number): Promise<{ brandsUntagged: number }> {
+    const tag = await this.tagRepository.findOne({ where: { id } });
+    if (!tag) {
+      throw new Error(`Tag ${id} not found`);
+    }
+
+    return this.tagRepository.manager.transaction(async (manager) => {
+      const result = await manager
+        .createQueryBuilder()
+        .delete()
+        .from(BrandTags)
+        .where('tagId = :id', { id })
+        .execute();
+      await manager.delete(Tag, { id });
+
+      const brandsUntagged = result.affected || 0;
+      logger.log(
+        `🏷️ [TAG] Deleted tag ${id} (${tag.name}) from ${brandsUntagged} brands`,
+      );
+      return { brandsUntagged };
+    });
+  }
+
+  async getBrandTags(brandId: number): Promise<Tag[]> {
+    return this.tagRepository
+      .createQueryBuilder('tag')
+      .innerJoin(BrandTags, 'brandTag', 'brandTag.tagId = tag.id')
+      .where('brandTag.brandId = :brandId', { brandId })
+      .orderBy('tag.name', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Tag names of every tagged brand, keyed by brand id.
+   */
+  async getTagNamesByBrand(): Promise<Map<number, string[]>> {
+    const rows = await this.brandTagsRepository
+      .createQueryBuilder('brandTag')
+      .innerJoin(Tag, 'tag', 'tag.id = brandTag.tagId')
+      .select('brandTag.brandId', 'brandId')
+      .addSelect('tag.name', 'name')
+      .getRawMany();
+
+    const namesByBrand = new Map<number, string[]>();
+    for (const row of rows) {
+      const brandId = Number(row.brandId);
+      namesByBrand.set(brandId, [
+        ...(namesByBrand.get(brandId) || []),
+        row.name,
+      ]);
+    }
+    return namesByBrand;
+  }
+
+  /**
+   * Replaces a brand's tags. Tags are given by name and created when they
+   * do not exist yet, the same way brand categories are.
+   */
+  async setBrandTags(brandId: number, names: string[]): Promise<Tag[]> {
+    if (!(await this.brandRepository.findOne({ where: { id: brandId } }))) {
+      throw new Error(`Brand ${brandId} not found`);
+    }
+
+    return this.tagRepository.manager.transaction(async (manager) => {
+      const tags = await this.getOrCreateTags(names, manager);
+
+      await manager
+        .createQueryBuilder()
+        .delete()
+        .from(BrandTags)
+        .where('brandId = :brandId', { brandId })
+        .execute();
+      await manager.save(
+        BrandTags,
+        tags.map((tag) => ({ tag, brand: { id: brandId } })),
+      );
+
+      return tags;
+    });
+  }
+
+  /**
+   * Ids of the brands carrying every one of the given tags.
+   */
+  async getBrandIdsWithAllTags(tagIds: number[]): Promise<number[]> {
+    const uniqueTagIds = [...new Set(tagIds)];
+    if (uniqueTagIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.brandTagsRepository
+      .createQueryBuilder('brandTag')
+      .select('brandTag.brandId', 'brandId')
+      .where('brandTag.tagId IN (:...tagIds)', { tagIds: uniqueTagIds })
+      .groupBy('brandTag.brandId')
+      .having('COUNT(DISTINCT brandTag.tagId) = :count', {
+        count: uniqueTagIds.length,
+      })
+      .getRawMany();
+
+    return rows.map((row) => Number(row.brandId));
+  }
+
+  private async getOrCreateTags(
+    names: string[],
+    manager: EntityManager,
+  ): Promise<Tag[]> {
+    const tagNames = [
+      ...new Map(
+        names
+          .map((name) => this.normalizeName(name))
+          .map((name) => [name.toLowerCase(), name]),
+      ).values(),
+    ];
+    if (tagNames.length === 0) {
+      return [];
+    }
+
+    const repository = manager.getRepository(Tag);
+    const existing = await repository.find({ where: { name: In(tagNames) } });
+    const tags: Tag[] = [];
+    for (const name of tagNames) {
+      // Tag names compare with the column collation, so ignore case here too
+      let tag = existing.find(
+        (candidate) => candidate.name.toLowerCase() === name.toLowerCase(),
+      );
+      if (!tag) {
+        tag = await repository.save(repository.create({ name }));
+        logger.log(`🏷️ [TAG] Created tag ${tag.id} (${tag.name})`);
+      }
+      tags.push(tag);
+    }
+
+    return tags;
+  }
+
+  private normalizeName(name: string): string {
+    const tagName = (name || '').trim().replace(/\s+/g, ' ');
+    if (!tagName) {
+      throw new Error('Tag name is required');
+    }
+    if (tagName.length > 50) {
+      throw new Error('Tag name must be at most 50 characters');
+    }
+    return tagName;
+  }
+}
@@ -0,0 +1,16 @@
+// Dependencies
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Services
+import { TagService } from './services';
+
+// Models
+import { Brand, BrandTags, Tag } from '../../models';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Tag, BrandTags, Brand])],
+  providers: [TagService],
+  exports: [TagService],
+})
+export class TagModule {}
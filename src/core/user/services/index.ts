@@ -1 +1,2 @@
 export * from './user.service';
+export * from './user-social.service';
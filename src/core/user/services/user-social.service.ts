@@ -0,0 +1,356 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Brand, User, UserBrandVotes, UserFollowing } from '../../../models';
+import NeynarService from '../../../utils/neynar';
+import { LeaderboardResponse, UserService } from './user.service';
+import { logger } from '../../../main';
+
+// Follows change slowly; each user's list is fetched from Neynar at most
+// this often
+const FOLLOWING_CACHE_TTL = 6 * 60 * 60 * 1000;
+
+// Follows beyond this are ignored, which keeps a sync to a few requests
+const MAX_FOLLOWING = 2000;
+
+const INSERT_BATCH_SIZE = 500;
+
+export interface FriendPodium {
+  id: string;
+  date: string;
+  user: Pick<User, 'fid' | 'username' | 'photoUrl'>;
+  brand1: FriendPodiumBrand | null;
+  brand2: FriendPodiumBrand | null;
+  brand3: FriendPodiumBrand | null;
+  brndPaidWhenCreatingPodium: number;
+}
+
+interface FriendPodiumBrand {
+  id: number;
+  name: string;
+  imageUrl: string;
+}
+
+export interface TasteSimilarity {
+  // Cosine similarity of the two users' brand points, from 0 to 1
+  similarity: number;
+  sharedBrands: Array<{
+    brand: FriendPodiumBrand;
+    points: number;
+    otherPoints: number;
+  }>;
+  brandCount: number;
+  otherBrandCount: number;
+}
+
+export interface FriendsLeaderboardEntry {
+  position: number;
+  globalPosition: number;
+  points: number;
+  isCurrentUser: boolean;
+  user: Pick<User, 'id' | 'fid' | 'username' | 'photoUrl'>;
+}
+
+export interface FriendsLeaderboardResponse
+  extends Omit<LeaderboardResponse, 'users' | 'currentUser'> {
+  users: FriendsLeaderboardEntry[];
+  currentUser?: FriendsLeaderboardEntry;
+}
+
+@Injectable()
+export class UserSocialService {
+  private neynarService: NeynarService;
+
+  // Concurrent requests for the same user share one Neynar sync
+  private syncing = new Map<number, Promise<void>>();
+
+  constructor(
+    @InjectRepository(UserFollowing)
+    private readonly userFollowingRepository: Repository<UserFollowing>,
+    @InjectRepository(UserBrandVotes)
+    private readonly userBrandVotesRepository: Repository<UserBrandVotes>,
+    private readonly userService: UserService,
+  ) {
+    this.neynarService = new NeynarService();
+  }
+
+  /**
+   * FIDs the user follows on Farcaster, from the local copy. The copy is
+   * refreshed from Neynar when it is older than FOLLOWING_CACHE_TTL; if
+   * Neynar fails, the stale copy is used.
+   */
+  async getFollowingFids(user: User): Promise<number[]> {
+    await this.syncFollowingIfStale(user);
+
+    const rows = await this.userFollowingRepository.find({
+      select: ['followingFid'],
+      where: { fid: user.fid },
+    });
+    return rows.map((row) => row.followingFid);
+  }
+
+  /**
+   * Podiums cast today by people the user follows, newest first.
+   */
+  async getFriendsFeed(
+    user: User,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ day: number; count: number; data: FriendPodium[] }> {
+    await this.syncFollowingIfStale(user);
+
+    const day = Math.floor(Date.now() / 1000 / 86400);
+    const [votes, count] = await this.userBrandVotesRepository
+      .createQueryBuilder('vote')
+      .innerJoinAndSelect('vote.user', 'user')
+      .innerJoin(
+        UserFollowing,
+        'following',
+        'following.followingFid = user.fid AND following.fid = :fid',
+        { fid: user.fid },
+      )
+      .leftJoinAndSelect('vote.brand1', 'brand1')
+      .leftJoinAndSelect('vote.brand2', 'brand2')
+      .leftJoinAndSelect('vote.brand3', 'brand3')
+      .where('vote.day = :day', { day })
+      .andWhere('user.banned = 0')
+      .orderBy('vote.date', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    const toBrand = (brand: Brand | null): FriendPodiumBrand | null =>
+      brand
+        ? { id: brand.id, name: brand.name, imageUrl: brand.imageUrl }
+        : null;
+
+    return {
+      day,
+      count,
+      data: votes.map((vote) => ({
+        id: vote.transactionHash,
+        date: vote.date.toISOString(),
+        user: {
+          fid: vote.user.fid,
+          username: vote.user.username,
+          photoUrl: vote.user.photoUrl,
+        },
+        brand1: toBrand(vote.brand1),
+        brand2: toBrand(vote.brand2),
+        brand3: toBrand(vote.brand3),
+        brndPaidWhenCreatingPodium: vote.brndPaidWhenCreatingPodium,
+      })),
+    };
+  }
+
+  /**
+   * How alike two users vote, as the cosine similarity of the points each
+   * gave every brand (see UserService.getUserBrands), with the brands they
+   * both like most.
+   */
+  async getTasteSimilarity(
+    user: User,
+    other: User,
+    sharedLimit: number = 5,
+  ): Promise<TasteSimilarity> {
+    const [brands, otherBrands] = await Promise.all([
+      this.userService.getUserBrands(user.id),
+      this.userService.getUserBrands(other.id),
+    ]);
+    const otherPoints = new Map(
+      otherBrands.map((entry) => [entry.brand.id, entry.points]),
+    );
+
+    const norm = (entries: typeof brands) =>
+      Math.sqrt(entries.reduce((sum, entry) => sum + entry.points ** 2, 0));
+    const dot = brands.reduce(
+      (sum, entry) =>
+        sum + entry.points * (otherPoints.get(entry.brand.id) || 0),
+      0,
+    );
+    const norms = norm(brands) * norm(otherBrands);
+
+    const sharedBrands = brands
+      .filter((entry) => otherPoints.has(entry.brand.id))
+      .map((entry) => ({
+        brand: {
+          id: entry.brand.id,
+          name: entry.brand.name,
+          imageUrl: entry.brand.imageUrl,
+        },
+        points: entry.points,
+        otherPoints: otherPoints.get(entry.brand.id),
+      }))
+      .sort(
+        (a, b) =>
+          Math.min(b.points, b.otherPoints) -
+            Math.min(a.points, a.otherPoints) || a.brand.id - b.brand.id,
+      )
+      .slice(0, sharedLimit);
+
+    return {
+      similarity: norms > 0 ? Math.round((dot / norms) * 1000) / 1000 : 0,
+      sharedBrands,
+      brandCount: brands.length,
+      otherBrandCount: otherBrands.length,
+    };
+  }
+
+  /**
+   * The global points leaderboard narrowed to the user and the people they
+   * follow, keeping each entry's global position. Only the requested page
+   * and the user's own entry are read; global positions are counted in SQL
+   * with the same ordering as UserService.getLeaderboard.
+   */
+  async getFriendsLeaderboard(
+    user: User,
+    page: number = 1,
+    limit: number = 50,
+    season: 'all' | number = 'all',
+  ): Promise<FriendsLeaderboardResponse> {
+    await this.syncFollowingIfStale(user);
+
+    const seasonal = season !== 'all';
+    const seasonParams = seasonal ? [season] : [];
+
+    // The user and everyone they follow, with the points they are ranked by
+    const members = `
+      WITH members AS (
+        SELECT u.id, u.fid, u.username, u.photoUrl, u.createdAt,
+          ${seasonal ? 'sp.points' : 'u.points'} AS points
+        FROM users u
+        ${seasonal ? 'INNER JOIN season_points sp ON sp.userId = u.id AND sp.seasonId = ?' : ''}
+        WHERE u.fid = ?
+          OR u.fid IN (SELECT f.followingFid FROM user_followings f WHERE f.fid = ?)
+      )`;
+    const memberParams = [...seasonParams, user.fid, user.fid];
+
+    // Users ranked ahead of an entry on the full leaderboard
+    const ahead = seasonal
+      ? `SELECT COUNT(*)
+        FROM season_points asp
+        INNER JOIN users ahead ON ahead.id = asp.userId
+        WHERE asp.seasonId = ?
+          AND (asp.points > r.points OR (asp.points = r.points AND ahead.createdAt < r.createdAt))`
+      : `SELECT COUNT(*)
+        FROM users ahead
+        WHERE ahead.points > r.points OR (ahead.points = r.points AND ahead.createdAt < r.createdAt)`;
+
+    const [[{ total }], rows] = await Promise.all([
+      this.userFollowingRepository.query(
+        `${members}
+        SELECT COUNT(*) AS total FROM members`,
+        memberParams,
+      ),
+      this.userFollowingRepository.query(
+        `${members},
+        ranked AS (
+          SELECT m.*, ROW_NUMBER() OVER (ORDER BY m.points DESC, m.createdAt ASC, m.id ASC) AS position
+          FROM members m
+        )
+        SELECT r.*, (${ahead}) + 1 AS globalPosition
+        FROM ranked r
+        WHERE (r.position > ? AND r.position <= ?) OR r.fid = ?
+        ORDER BY r.position`,
+        [
+          ...memberParams,
+          ...seasonParams,
+          (page - 1) * limit,
+          page * limit,
+          user.fid,
+        ],
+      ),
+    ]);
+
+    const entries: FriendsLeaderboardEntry[] = rows.map((row) => ({
+      position: Number(row.position),
+      globalPosition: Number(row.globalPosition),
+      points: Number(row.points),
+      isCurrentUser: Number(row.fid) === user.fid,
+      user: {
+        id: row.id,
+        fid: Number(row.fid),
+        username: row.username,
+        photoUrl: row.photoUrl,
+      },
+    }));
+
+    const totalPages = Math.ceil(Number(total) / limit);
+    return {
+      users: entries.filter(
+        (entry) =>
+          entry.position > (page - 1) * limit && entry.position <= page * limit,
+      ),
+      pagination: {
+        page,
+        limit,
+        total: Number(total),
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+      currentUser: entries.find((entry) => entry.isCurrentUser),
+    };
+  }
+
+  private async syncFollowingIfStale(user: User): Promise<void> {
+    if (
+      user.followingSyncedAt &&
+      Date.now() - new Date(user.followingSyncedAt).getTime() <
+        FOLLOWING_CACHE_TTL
+    ) {
+      return;
+    }
+
+    if (!this.syncing.has(user.fid)) {
+      this.syncing.set(
+        user.fid,
+        this.syncFollowing(user).finally(() => this.syncing.delete(user.fid)),
+      );
+    }
+
+    try {
+      await this.syncing.get(user.fid);
+    } catch (error) {
+      logger.error(
+        `❌ [SOCIAL] Failed to sync follows of FID ${user.fid}, using the cached copy:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Replaces the local copy of the user's follows with Neynar's.
+   */
+  private async syncFollowing(user: User): Promise<void> {
+    const followingFids = [
+      ...new Set(
+        await this.neynarService.getUserFollowingFids(user.fid, MAX_FOLLOWING),
+      ),
+    ];
+    const syncedAt = new Date();
+
+    await this.userFollowingRepository.manager.transaction(async (manager) => {
+      await manager.delete(UserFollowing, { fid: user.fid });
+      for (let i = 0; i < followingFids.length; i += INSERT_BATCH_SIZE) {
+        await manager.insert(
+          UserFollowing,
+          followingFids
+            .slice(i, i + INSERT_BATCH_SIZE)
+            .map((followingFid) => ({ fid: user.fid, followingFid })),
+        );
+      }
+      await manager.update(
+        User,
+        { id: user.id },
+        { followingSyncedAt: syncedAt },
+      );
+    });
+    user.followingSyncedAt = syncedAt;
+
+    logger.log(
+      `👥 [SOCIAL] Synced ${followingFids.length} follows of FID ${user.fid}`,
+    );
+  }
+}
@@ -1,7 +1,7 @@
 // Dependencies
 import { Injectable, Inject, Optional } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Between, Repository, In, MoreThan } from 'typeorm';
+import { Between, Repository, In, MoreThan, EntityManager } from 'typeorm';
 
 // Models
 import {
@@ -13,9 +13,12 @@ import {
   UserBrandRanking,
   AirdropSnapshot,
   AirdropScore,
+  PointsReasonEnum,
 } from '../../../models';
 import { logger } from 'src/main';
 import { AirdropContractService } from '../../airdrop/services/airdrop-contract.service';
+import { SeasonService } from '../../season/services';
+import { PointsLedgerService, PointsSource } from '../../points/services';
 import { getConfig } from '../../../security/config';
 import { of } from 'rxjs';
 
@@ -74,6 +77,10 @@ export class UserService {
     @InjectRepository(AirdropScore)
     private readonly airdropScoreRepository: Repository<AirdropScore>,
 
+    private readonly seasonService: SeasonService,
+
+    private readonly pointsLedgerService: PointsLedgerService,
+
     @Optional()
     private readonly airdropContractService?: AirdropContractService,
   ) {}
@@ -236,32 +243,48 @@ export class UserService {
   }
 
   /**
-   * Adds points to a user's account.
+   * Adds points to a user's account through the points ledger, which also
+   * credits their total for a season. Negative points are debits.
    * Also invalidates leaderboard cache for real-time updates.
    *
    * @param {User['id']} userId - The ID of the user to add points to.
    * @param {number} points - The number of points to add.
+   * @param {PointsSource} source - Why the points moved and what moved them. Its seasonId defaults to the running season; null credits no season.
+   * @param {EntityManager} [manager] - Optional transactional entity manager, so the write commits or rolls back with the caller's unit of work.
    * @throws {Error} If the user with the specified ID is not found.
    */
-  async addPoints(userId: User['id'], points: number) {
-    const user = await this.getById(userId);
+  async addPoints(
+    userId: User['id'],
+    points: number,
+    source: PointsSource,
+    manager?: EntityManager,
+  ) {
+    const userRepository = manager
+      ? manager.getRepository(User)
+      : this.userRepository;
+
+    const user = await userRepository.findOne({ where: { id: userId } });
 
     if (!user) {
       throw new Error(`User with ID ${userId} not found.`);
     }
 
+    const entry = await this.pointsLedgerService.record(
+      userId,
+      points,
+      source,
+      manager,
+    );
     user.points += points;
-    user.totalS2Points += points;
-    const updatedUser = await this.userRepository.save(user);
 
     // Invalidate leaderboard cache for real-time updates
     this.invalidateLeaderboardCache();
 
     console.log(
-      `💰 [UserService] Added ${points} points to user ${userId}, total: ${user.points}, S2: ${user.totalS2Points}`,
+      `💰 [UserService] Added ${points} points to user ${userId} (${source.reason}), total: ${user.points}, season: ${entry?.seasonId ?? 'none'}`,
     );
 
-    return updatedUser;
+    return user;
   }
 
   /**
@@ -269,22 +292,14 @@ export class UserService {
    *
    * @param {User['id']} userId - The ID of the user to remove points from.
    * @param {number} points - The number of points to remove.
+   * @param {PointsSource} source - Why the points were removed.
    * @throws {Error} If the user with the specified ID is not found.
    */
-  async removePoints(userId: User['id'], points: number) {
-    const user = await this.getById(userId);
-
-    if (!user) {
-      throw new Error(`User with ID ${userId} not found.`);
-    }
-
-    user.points -= points;
-    await this.userRepository.save(user);
+  async removePoints(userId: User['id'], points: number, source: PointsSource) {
+    await this.addPoints(userId, -points, source);
   }
 
   async addPointsForShareFrame(userId: User['id']): Promise<boolean> {
-    let result = false;
-
     // Add 3 points for sharing a frame only the first time
     const user = await this.getById(userId);
 
@@ -292,33 +307,39 @@ export class UserService {
       throw new Error(`User with ID ${userId} not found.`);
     }
 
-    let userDailyActions = await this.userDailyActionsRepository.findOne({
-      where: {
-        user: { id: userId },
-      },
-      relations: ['user'],
-    });
-
-    if (!userDailyActions) {
-      user.points += 3;
-      await this.userRepository.save(user);
-
-      userDailyActions = this.userDailyActionsRepository.create({
-        user: user,
-        shareFirstTime: true,
-      });
-      await this.userDailyActionsRepository.save(userDailyActions);
+    const result = await this.userDailyActionsRepository.manager.transaction(
+      async (manager) => {
+        const userDailyActionsRepository =
+          manager.getRepository(UserDailyActions);
+        let userDailyActions = await userDailyActionsRepository.findOne({
+          where: {
+            user: { id: userId },
+          },
+          relations: ['user'],
+        });
 
-      result = true;
-    } else if (userDailyActions.shareFirstTime === false) {
-      user.points += 3;
-      await this.userRepository.save(user);
+        if (userDailyActions?.shareFirstTime) {
+          return false;
+        }
 
-      userDailyActions.shareFirstTime = true;
-      await this.userDailyActionsRepository.save(userDailyActions);
+        if (!userDailyActions) {
+          userDailyActions = userDailyActionsRepository.create({
+            user: user,
+          });
+        }
+        userDailyActions.shareFirstTime = true;
+        await userDailyActionsRepository.save(userDailyActions);
+
+        await this.pointsLedgerService.record(
+          userId,
+          3,
+          { reason: PointsReasonEnum.SHARE, note: 'First frame share' },
+          manager,
+        );
 
-      result = true;
-    }
+        return true;
+      },
+    );
 
     // Invalidate leaderboard cache when points are added
     if (result) {
@@ -328,6 +349,23 @@ export class UserService {
     return result;
   }
 
+  /**
+   * A user's points history from the points ledger, newest first.
+   *
+   * @param {User['id']} userId - The ID of the user.
+   * @param {number} page - Page number, starting at 1.
+   * @param {number} limit - Entries per page.
+   * @param {number} [seasonId] - Only entries that count towards this season.
+   */
+  async getPointsHistory(
+    userId: User['id'],
+    page: number = 1,
+    limit: number = 20,
+    seasonId?: number,
+  ) {
+    return this.pointsLedgerService.getHistory(userId, page, limit, seasonId);
+  }
+
   /**
    * Deletes a user by their ID.
    *
@@ -578,14 +616,14 @@ export class UserService {
    * @param {number} page - Page number for pagination
    * @param {number} limit - Number of users per page
    * @param {number} currentUserFid - FID of the current user (to show their position)
-   * @param {'all' | 's1' | 's2'} season - Season filter for points
+   * @param {'all' | number} season - 'all' for all-time points, or a season id
    * @returns {Promise<LeaderboardResponse>} Leaderboard data with pagination
    */
   async getLeaderboard(
     page: number = 1,
     limit: number = 50,
     currentUserFid?: number,
-    season: 'all' | 's1' | 's2' = 'all',
+    season: 'all' | number = 'all',
   ): Promise<LeaderboardResponse> {
     console.log(
       `🏆 [UserService] Getting leaderboard - page: ${page}, limit: ${limit}, season: ${season}`,
@@ -600,32 +638,8 @@ export class UserService {
       allUsers = this.leaderboardCache!.users;
       total = this.leaderboardCache!.total;
     } else {
-      // Query directly for season-specific leaderboards
-      const pointsField =
-        season === 's1' ? 'totalS1Points' : 'totalS2Points';
-
-      const users = await this.userRepository.find({
-        select: [
-          'id',
-          'fid',
-          'username',
-          'photoUrl',
-          'points',
-          'totalS1Points',
-          'totalS2Points',
-          'createdAt',
-        ],
-        order: {
-          [pointsField]: 'DESC',
-          createdAt: 'ASC', // Ties broken by earliest registration
-        },
-      });
-
-      // Map users to replace points with season-specific points
-      allUsers = users.map((user) => ({
-        ...user,
-        points: season === 's1' ? user.totalS1Points : user.totalS2Points,
-      }));
+      // Season leaderboards read the per-season points table
+      allUsers = (await this.seasonService.getLeaderboard(season)) as User[];
       total = allUsers.length;
     }
 
@@ -1174,8 +1188,10 @@ export class UserService {
         where: { fid },
       });
 
-      // Get latest snapshot info
+      // Get the snapshot claims are served from; newer ones may still be
+      // waiting for their root to go on-chain
       const snapshotResults = await this.airdropSnapshotRepository.find({
+        where: { isActive: true },
         order: { createdAt: 'DESC' },
         select: [
           'id',
@@ -1377,6 +1393,7 @@ export class UserService {
   async getUserProfile(fid: number): Promise<{
     leaderboardPosition: number;
     currentPoints: number;
+    seasonPoints: Array<{ seasonId: number; name: string; points: number }>;
     dailyStreak: number;
     totalPodiums: number;
     favoriteBrand: {
@@ -1459,9 +1476,14 @@ export class UserService {
         }
       }
 
+      const seasonPoints = await this.seasonService.getUserSeasonPoints(
+        user.id,
+      );
+
       return {
         leaderboardPosition,
         currentPoints: user.points,
+        seasonPoints,
         dailyStreak: user.dailyStreak,
         totalPodiums: user.totalPodiums,
         favoriteBrand,
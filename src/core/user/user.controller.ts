@@ -16,7 +16,8 @@ import { ApiTags } from '@nestjs/swagger';
 import { Response } from 'express';
 
 // Services
-import { UserService } from './services';
+import { UserService, UserSocialService } from './services';
+import { SeasonService } from '../season/services';
 
 // Security
 import {
@@ -35,7 +36,11 @@ import { hasError, hasResponse } from '../../utils';
 @ApiTags('user-service')
 @Controller('user-service')
 export class UserController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly seasonService: SeasonService,
+    private readonly userSocialService: UserSocialService,
+  ) {}
 
   /**
    * Retrieves a user by their ID.
@@ -259,6 +264,67 @@ export class UserController {
     }
   }
 
+  /**
+   * Retrieves the current authenticated user's points history: every credit
+   * and debit with its reason, season and source, newest first.
+   *
+   * @param {QuickAuthPayload} session - The authenticated user session from JWT
+   * @param {number} page - The page number for pagination
+   * @param {number} limit - The number of entries per page
+   * @param {string} season - 'all', 'current' or a season id
+   * @param {Response} res - The response object
+   * @returns {Promise<Response>} The response containing the user's points history
+   */
+  @Get('/my-points-history')
+  @UseGuards(AuthorizationGuard)
+  async getMyPointsHistory(
+    @Session() session: QuickAuthPayload,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Query('season') season: string = 'all',
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const user = await this.userService.getByFid(session.sub);
+      if (!user) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getMyPointsHistory',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const validatedSeason =
+        await this.seasonService.resolveSeasonParam(season);
+      if (validatedSeason === null) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getMyPointsHistory',
+          `Season ${season} not found`,
+        );
+      }
+
+      const history = await this.userService.getPointsHistory(
+        user.id,
+        Math.max(1, Number(page) || 1),
+        Math.min(100, Math.max(1, Number(limit) || 20)),
+        validatedSeason === 'all' ? undefined : validatedSeason,
+      );
+
+      return hasResponse(res, { points: user.points, ...history });
+    } catch (error) {
+      console.error('❌ [UserController] Error getting points history:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getMyPointsHistory',
+        'Failed to retrieve points history',
+      );
+    }
+  }
+
   @Get('/leaderboard')
   @UseGuards(AuthorizationGuard)
   async getLeaderboard(
@@ -271,9 +337,16 @@ export class UserController {
     try {
       const validatedPage = Math.max(1, Number(page) || 1);
       const validatedLimit = Math.min(100, Math.max(10, Number(limit) || 50));
-      const validatedSeason = ['all', 's1', 's2'].includes(season)
-        ? (season as 'all' | 's1' | 's2')
-        : 'all';
+      const validatedSeason =
+        await this.seasonService.resolveSeasonParam(season);
+      if (validatedSeason === null) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getLeaderboard',
+          `Season ${season} not found`,
+        );
+      }
 
       const leaderboard = await this.userService.getLeaderboard(
         validatedPage,
@@ -294,6 +367,160 @@ export class UserController {
     }
   }
 
+  /**
+   * Today's podiums from the people the authenticated user follows on
+   * Farcaster, newest first.
+   */
+  @Get('/friends/feed')
+  @UseGuards(AuthorizationGuard)
+  async getFriendsFeed(
+    @Session() session: QuickAuthPayload,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const user = await this.userService.getByFid(session.sub);
+      if (!user) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getFriendsFeed',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const feed = await this.userSocialService.getFriendsFeed(
+        user,
+        Math.max(1, Number(page) || 1),
+        Math.min(100, Math.max(1, Number(limit) || 20)),
+      );
+
+      return hasResponse(res, feed);
+    } catch (error) {
+      console.error('❌ [UserController] Error getting friends feed:', error);
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getFriendsFeed',
+        'Failed to retrieve friends feed',
+      );
+    }
+  }
+
+  /**
+   * The points leaderboard narrowed to the authenticated user and the
+   * people they follow. Accepts the same season values as /leaderboard.
+   */
+  @Get('/friends/leaderboard')
+  @UseGuards(AuthorizationGuard)
+  async getFriendsLeaderboard(
+    @Session() session: QuickAuthPayload,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 50,
+    @Query('season') season: string = 'all',
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const user = await this.userService.getByFid(session.sub);
+      if (!user) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getFriendsLeaderboard',
+          'User not found. Please refresh the app.',
+        );
+      }
+
+      const validatedSeason =
+        await this.seasonService.resolveSeasonParam(season);
+      if (validatedSeason === null) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getFriendsLeaderboard',
+          `Season ${season} not found`,
+        );
+      }
+
+      const leaderboard = await this.userSocialService.getFriendsLeaderboard(
+        user,
+        Math.max(1, Number(page) || 1),
+        Math.min(100, Math.max(10, Number(limit) || 50)),
+        validatedSeason,
+      );
+
+      return hasResponse(res, leaderboard);
+    } catch (error) {
+      console.error(
+        '❌ [UserController] Error getting friends leaderboard:',
+        error,
+      );
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getFriendsLeaderboard',
+        'Failed to retrieve friends leaderboard',
+      );
+    }
+  }
+
+  /**
+   * How similar the authenticated user's votes are to another user's.
+   */
+  @Get('/taste/:fid')
+  @UseGuards(AuthorizationGuard)
+  async getTasteSimilarity(
+    @Session() session: QuickAuthPayload,
+    @Param('fid') fid: number,
+    @Res() res: Response,
+  ): Promise<Response> {
+    try {
+      const [user, other] = await Promise.all([
+        this.userService.getByFid(session.sub),
+        this.userService.getByFid(Number(fid)),
+      ]);
+      if (!user) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getTasteSimilarity',
+          'User not found. Please refresh the app.',
+        );
+      }
+      if (!other) {
+        return hasError(
+          res,
+          HttpStatus.NOT_FOUND,
+          'getTasteSimilarity',
+          `User with FID ${fid} not found`,
+        );
+      }
+
+      const taste = await this.userSocialService.getTasteSimilarity(
+        user,
+        other,
+      );
+
+      return hasResponse(res, {
+        fid: user.fid,
+        otherFid: other.fid,
+        ...taste,
+      });
+    } catch (error) {
+      console.error(
+        '❌ [UserController] Error getting taste similarity:',
+        error,
+      );
+      return hasError(
+        res,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        'getTasteSimilarity',
+        'Failed to compare votes',
+      );
+    }
+  }
+
   /**
    * Gets consolidated user profile data including leaderboard position,
    * points, streak, podiums, favorite brand, and voting statistics.
@@ -3,12 +3,14 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthModule } from '../auth/auth.module';
 import { AirdropModule } from '../airdrop/airdrop.module';
+import { SeasonModule } from '../season/season.module';
+import { PointsModule } from '../points/points.module';
 
 // Controllers
 import { UserController } from './user.controller';
 
 // Services
-import { UserService } from './services';
+import { UserService, UserSocialService } from './services';
 
 // Models
 import {
@@ -18,6 +20,7 @@ import {
   UserDailyActions,
   AirdropSnapshot,
   AirdropScore,
+  UserFollowing,
 } from '../../models';
 @Module({
   imports: [
@@ -28,12 +31,15 @@ import {
       UserDailyActions,
       AirdropSnapshot,
       AirdropScore,
+      UserFollowing,
     ]),
     AuthModule,
     AirdropModule,
+    SeasonModule,
+    PointsModule,
   ],
   controllers: [UserController],
-  providers: [UserService],
-  exports: [UserService],
+  providers: [UserService, UserSocialService],
+  exports: [UserService, UserSocialService],
 })
 export class UserModule {}
@@ -0,0 +1 @@
+export * from './vote-quality.service';
@@ -0,0 +1,460 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import {
+  User,
+  UserBrandVotes,
+  VoteQualityFlag,
+  VoteQualityFlagReasonEnum,
+  VoteQualityFlagStatusEnum,
+} from '../../../models';
+import { BrandScoreLedgerService } from '../../brand/services/brand-score-ledger.service';
+import { RankingQueueService } from '../../../services/ranking-queue.service';
+import { logger } from '../../../main';
+
+// We do not index who funded a wallet, so FIDs sharing the wallet they vote
+// or verified with are the closest signal to a common funder
+const SHARED_WALLET_MIN_USERS = 3;
+
+// The same 1-2-3 podium from this many users inside the window is a burst
+const PODIUM_BURST_WINDOW = 10 * 60 * 1000;
+const PODIUM_BURST_MIN_USERS = 4;
+
+// Users below this Neynar score voting the same podium on the same day
+const LOW_NEYNAR_SCORE = 0.3;
+const LOW_SCORE_RING_MIN_USERS = 3;
+
+// Podium patterns are looked for in votes cast this far back
+const SCAN_LOOKBACK = 48 * 60 * 60 * 1000;
+
+interface PodiumVote {
+  userId: number;
+  podium: string;
+  date: Date;
+  neynarScore: number;
+}
+
+interface VoteQualityCluster {
+  reason: VoteQualityFlagReasonEnum;
+  clusterKey: string;
+  userIds: number[];
+  summary: string;
+  // Podium of a burst; users already flagged for a burst of it are left out
+  podium?: string;
+}
+
+export interface VoteQualityScanSummary {
+  clusters: number;
+  flagsRaised: number;
+  byReason: Record<VoteQualityFlagReasonEnum, number>;
+}
+
+export interface FlaggedUser {
+  userId: number;
+  fid: number;
+  username: string;
+  photoUrl: string;
+  address: string;
+  neynarScore: number;
+  verified: boolean;
+  banned: boolean;
+  totalVotes: number;
+  flags: VoteQualityFlag[];
+}
+
+@Injectable()
+export class VoteQualityService {
+  constructor(
+    @InjectRepository(VoteQualityFlag)
+    private readonly voteQualityFlagRepository: Repository<VoteQualityFlag>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(UserBrandVotes)
+    private readonly userBrandVotesRepository: Repository<UserBrandVotes>,
+    private readonly brandScoreLedgerService: BrandScoreLedgerService,
+    private readonly rankingQueueService: RankingQueueService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR, { name: 'vote-quality-scan' })
+  async handleScheduledScan(): Promise<void> {
+    try {
+      await this.scan();
+    } catch (error) {
+      logger.error('❌ [VOTE QUALITY] Scheduled scan failed:', error);
+    }
+  }
+
+  /**
+   * Looks for suspicious clusters and flags every user in them. Flags are
+   * keyed by cluster, so a dismissed flag is not raised again by the next
+   * scan for the same cluster.
+   */
+  async scan(): Promise<VoteQualityScanSummary> {
+    const startTime = Date.now();
+    const clusters = [
+      ...(await this.findSharedWalletClusters()),
+      ...(await this.findPodiumClusters(new Date(Date.now() - SCAN_LOOKBACK))),
+    ];
+
+    const byReason = {
+      [VoteQualityFlagReasonEnum.SHARED_WALLET]: 0,
+      [VoteQualityFlagReasonEnum.PODIUM_BURST]: 0,
+      [VoteQualityFlagReasonEnum.LOW_SCORE_RING]: 0,
+    };
+    for (const cluster of clusters) {
+      byReason[cluster.reason] += await this.raiseFlags(cluster);
+    }
+    const flagsRaised = Object.values(byReason).reduce(
+      (sum, count) => sum + count,
+      0,
+    );
+
+    logger.log(
+      `🕵️ [VOTE QUALITY] Scan found ${clusters.length} clusters and raised ${flagsRaised} new flags in ${Date.now() - startTime}ms`,
+    );
+    return { clusters: clusters.length, flagsRaised, byReason };
+  }
+
+  /**
+   * Whether the user has a flag no admin has reviewed yet.
+   */
+  async isFlagged(userId: number): Promise<boolean> {
+    const count = await this.voteQualityFlagRepository.count({
+      where: { userId, status: VoteQualityFlagStatusEnum.OPEN },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Users with flags in the given status and all of their flags, for the
+   * admin review queue. Users with the most flags come first.
+   */
+  async getFlaggedUsers(
+    status: VoteQualityFlagStatusEnum = VoteQualityFlagStatusEnum.OPEN,
+    limit: number = 50,
+  ): Promise<FlaggedUser[]> {
+    const rows = await this.voteQualityFlagRepository
+      .createQueryBuilder('flag')
+      .select('flag.userId', 'userId')
+      .addSelect('COUNT(*)', 'flagCount')
+      .addSelect('MIN(flag.createdAt)', 'firstFlaggedAt')
+      .where('flag.status = :status', { status })
+      .groupBy('flag.userId')
+      .orderBy('flagCount', 'DESC')
+      .addOrderBy('firstFlaggedAt', 'ASC')
+      .limit(limit)
+      .getRawMany();
+    const userIds = rows.map((row) => Number(row.userId));
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const [users, flags] = await Promise.all([
+      this.userRepository.find({ where: { id: In(userIds) } }),
+      this.voteQualityFlagRepository
+        .createQueryBuilder('flag')
+        .where('flag.userId IN (:...userIds)', { userIds })
+        .orderBy('flag.createdAt', 'DESC')
+        .getMany(),
+    ]);
+
+    return userIds
+      .map((userId) => users.find((user) => user.id === userId))
+      .filter(Boolean)
+      .map((user) => ({
+        userId: user.id,
+        fid: user.fid,
+        username: user.username,
+        photoUrl: user.photoUrl,
+        address: user.address,
+        neynarScore: Number(user.neynarScore) || 0,
+        verified: user.verified,
+        banned: user.banned,
+        totalVotes: user.totalVotes || 0,
+        flags: flags.filter((flag) => flag.userId === user.id),
+      }));
+  }
+
+  /**
+   * Clears a user's open flags after review. Their future votes count in
+   * full again; votes already down-weighted stay as they were scored.
+   */
+  async dismissFlags(
+    userId: number,
+    adminFid: number,
+  ): Promise<{ flagsDismissed: number }> {
+    const result = await this.voteQualityFlagRepository.update(
+      { userId, status: VoteQualityFlagStatusEnum.OPEN },
+      {
+        status: VoteQualityFlagStatusEnum.DISMISSED,
+        reviewedByFid: adminFid,
+        reviewedAt: new Date(),
+      },
+    );
+
+    const flagsDismissed = result.affected || 0;
+    logger.log(
+      `🕵️ [VOTE QUALITY] FID ${adminFid} dismissed ${flagsDismissed} flags of user ${userId}`,
+    );
+    return { flagsDismissed };
+  }
+
+  /**
+   * Bans a user, closes their open flags and takes every vote they cast out
+   * of the brand scores and counters, and queues the affected brands for
+   * re-ranking, all in one transaction.
+   */
+  async banUser(
+    userId: number,
+    adminFid: number,
+  ): Promise<{
+    flagsClosed: number;
+    entriesReversed: number;
+    brandsRequeued: number;
+  }> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    const { flagsClosed, entriesReversed, brandIds } =
+      await this.userRepository.manager.transaction(async (manager) => {
+        await manager.update(User, { id: userId }, { banned: true });
+
+        const flagResult = await manager.update(
+          VoteQualityFlag,
+          { userId, status: VoteQualityFlagStatusEnum.OPEN },
+          {
+            status: VoteQualityFlagStatusEnum.BANNED,
+            reviewedByFid: adminFid,
+            reviewedAt: new Date(),
+          },
+        );
+        const reversal = await this.brandScoreLedgerService.reverseUserVotes(
+          manager,
+          userId,
+        );
+        await this.rankingQueueService.queueRankingUpdate(
+          reversal.brandIds,
+          manager,
+        );
+
+        return {
+          flagsClosed: flagResult.affected || 0,
+          ...reversal,
+        };
+      });
+
+    logger.warn(
+      `🚫 [VOTE QUALITY] FID ${adminFid} banned user ${userId} (FID ${user.fid}): ${flagsClosed} flags closed, ${entriesReversed} score entries reversed`,
+    );
+    return { flagsClosed, entriesReversed, brandsRequeued: brandIds.length };
+  }
+
+  private async findSharedWalletClusters(): Promise<VoteQualityCluster[]> {
+    const rows = await this.userRepository
+      .createQueryBuilder('user')
+      .select('user.id', 'id')
+      .addSelect('LOWER(user.address)', 'address')
+      .where('user.banned = 0')
+      .andWhere(
+        `LOWER(user.address) IN (
+          SELECT LOWER(shared.address)
+          FROM users shared
+          WHERE shared.address IS NOT NULL AND shared.address <> '' AND shared.banned = 0
+          GROUP BY LOWER(shared.address)
+          HAVING COUNT(*) >= :minUsers
+        )`,
+        { minUsers: SHARED_WALLET_MIN_USERS },
+      )
+      .getRawMany();
+
+    const userIdsByAddress = new Map<string, number[]>();
+    for (const row of rows) {
+      userIdsByAddress.set(row.address, [
+        ...(userIdsByAddress.get(row.address) || []),
+        Number(row.id),
+      ]);
+    }
+
+    return [...userIdsByAddress.entries()].map(([address, userIds]) => ({
+      reason: VoteQualityFlagReasonEnum.SHARED_WALLET,
+      clusterKey: address,
+      userIds,
+      summary: `${userIds.length} accounts share wallet ${address}`,
+    }));
+  }
+
+  /**
+   * Finds podium bursts and low-score rings among votes cast since the
+   * given date. Both look at users submitting the exact same podium.
+   */
+  private async findPodiumClusters(since: Date): Promise<VoteQualityCluster[]> {
+    const rows = await this.userBrandVotesRepository
+      .createQueryBuilder('vote')
+      .innerJoin(User, 'user', 'user.id = vote.userId')
+      .select('vote.userId', 'userId')
+      .addSelect(
+        "CONCAT(vote.brand1Id, '-', vote.brand2Id, '-', vote.brand3Id)",
+        'podium',
+      )
+      .addSelect('vote.date', 'date')
+      .addSelect('user.neynarScore', 'neynarScore')
+      .where('vote.date >= :since', { since })
+      .andWhere('user.banned = 0')
+      .orderBy('vote.date', 'ASC')
+      .getRawMany();
+
+    const votesByPodium = new Map<string, PodiumVote[]>();
+    for (const row of rows) {
+      const vote: PodiumVote = {
+        userId: Number(row.userId),
+        podium: row.podium,
+        date: new Date(row.date),
+        neynarScore: Number(row.neynarScore) || 0,
+      };
+      votesByPodium.set(vote.podium, [
+        ...(votesByPodium.get(vote.podium) || []),
+        vote,
+      ]);
+    }
+
+    const clusters: VoteQualityCluster[] = [];
+    for (const [podium, podiumVotes] of votesByPodium) {
+      clusters.push(...this.findBursts(podium, podiumVotes));
+      clusters.push(...this.findLowScoreRings(podium, podiumVotes));
+    }
+    return clusters;
+  }
+
+  /**
+   * Windows of PODIUM_BURST_WINDOW in which enough distinct users sent the
+   * same podium. Votes are in date order; each burst is reported once and
+   * the search resumes after it. Bursts are keyed by the fixed UTC window
+   * they start in rather than their first vote, which moves as the scan
+   * lookback slides past it.
+   */
+  private findBursts(
+    podium: string,
+    votes: PodiumVote[],
+  ): VoteQualityCluster[] {
+    const clusters: VoteQualityCluster[] = [];
+
+    let start = 0;
+    while (start < votes.length) {
+      const windowEnd = votes[start].date.getTime() + PODIUM_BURST_WINDOW;
+      let end = start;
+      while (end < votes.length && votes[end].date.getTime() <= windowEnd) {
+        end++;
+      }
+
+      const userIds = [
+        ...new Set(votes.slice(start, end).map((vote) => vote.userId)),
+      ];
+      if (userIds.length >= PODIUM_BURST_MIN_USERS) {
+        const startedAt = votes[start].date.toISOString();
+        const bucket = new Date(
+          Math.floor(votes[start].date.getTime() / PODIUM_BURST_WINDOW) *
+            PODIUM_BURST_WINDOW,
+        ).toISOString();
+        clusters.push({
+          reason: VoteQualityFlagReasonEnum.PODIUM_BURST,
+          clusterKey: `${podium}@${bucket}`,
+          userIds,
+          summary: `${userIds.length} users sent podium ${podium} within ${PODIUM_BURST_WINDOW / 60000} minutes from ${startedAt}`,
+          podium,
+        });
+        start = end;
+      } else {
+        start++;
+      }
+    }
+
+    return clusters;
+  }
+
+  /**
+   * Days on which enough low Neynar score users sent the same podium.
+   */
+  private findLowScoreRings(
+    podium: string,
+    votes: PodiumVote[],
+  ): VoteQualityCluster[] {
+    const userIdsByDay = new Map<string, Set<number>>();
+    for (const vote of votes) {
+      if (vote.neynarScore >= LOW_NEYNAR_SCORE) {
+        continue;
+      }
+      const day = vote.date.toISOString().split('T')[0];
+      userIdsByDay.set(
+        day,
+        (userIdsByDay.get(day) || new Set<number>()).add(vote.userId),
+      );
+    }
+
+    return [...userIdsByDay.entries()]
+      .filter(([, userIds]) => userIds.size >= LOW_SCORE_RING_MIN_USERS)
+      .map(([day, userIds]) => ({
+        reason: VoteQualityFlagReasonEnum.LOW_SCORE_RING,
+        clusterKey: `${podium}@${day}`,
+        userIds: [...userIds],
+        summary: `${userIds.size} users with a Neynar score below ${LOW_NEYNAR_SCORE} sent podium ${podium} on ${day}`,
+      }));
+  }
+
+  /**
+   * Flags every user in a cluster. Returns how many flags were new.
+   */
+  private async raiseFlags(cluster: VoteQualityCluster): Promise<number> {
+    const userIds = cluster.podium
+      ? await this.getUsersNotFlaggedForPodium(cluster)
+      : cluster.userIds;
+    if (userIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.voteQualityFlagRepository
+      .createQueryBuilder()
+      .insert()
+      .into(VoteQualityFlag)
+      .values(
+        userIds.map((userId) => ({
+          userId,
+          reason: cluster.reason,
+          clusterKey: cluster.clusterKey,
+          details: {
+            relatedUserIds: cluster.userIds.filter((other) => other !== userId),
+            summary: cluster.summary,
+          },
+        })),
+      )
+      .orIgnore()
+      .execute();
+
+    return result.raw?.affectedRows || 0;
+  }
+
+  /**
+   * Users of a burst cluster without a flag, open or dismissed, for another
+   * burst of the same podium. A burst seen again under a different window
+   * does not bring back flags an admin already reviewed.
+   */
+  private async getUsersNotFlaggedForPodium(
+    cluster: VoteQualityCluster,
+  ): Promise<number[]> {
+    const flagged = await this.voteQualityFlagRepository
+      .createQueryBuilder('flag')
+      .select('DISTINCT flag.userId', 'userId')
+      .where('flag.userId IN (:...userIds)', { userIds: cluster.userIds })
+      .andWhere('flag.reason = :reason', { reason: cluster.reason })
+      .andWhere('flag.clusterKey LIKE :podium', {
+        podium: `${cluster.podium}@%`,
+      })
+      .getRawMany();
+    const flaggedUserIds = new Set(flagged.map((row) => Number(row.userId)));
+
+    return cluster.userIds.filter((userId) => !flaggedUserIds.has(userId));
+  }
+}
@@ -0,0 +1,20 @@
+// Dependencies
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+// Services
+import { VoteQualityService } from './services';
+
+// Models
+import { User, UserBrandVotes, VoteQualityFlag } from '../../models';
+import { BrandModule } from '../brand/brand.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([VoteQualityFlag, User, UserBrandVotes]),
+    forwardRef(() => BrandModule),
+  ],
+  providers: [VoteQualityService],
+  exports: [VoteQualityService],
+})
+export class VoteQualityModule {}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+@Entity({ name: 'airdrop_rounds' })
+export class AirdropRound {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string; // Shown to users, e.g. "Season 2 airdrop"
+
+  @Column({ type: 'int' })
+  @Index()
+  snapshotId: number; // Snapshot whose merkle root is set on this round's contract
+
+  @Column({ type: 'varchar', length: 42, unique: true })
+  contractAddress: string; // Each round is claimed from its own airdrop contract
+
+  @Column({ type: 'varchar', length: 50, default: 'BRNDAIRDROP1' })
+  signatureDomain: string; // EIP-712 domain name the contract verifies claim signatures with
+
+  @Column({ type: 'datetime' })
+  claimStartsAt: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  claimEndsAt: Date | null; // No end when null
+
+  @Column({ type: 'datetime', nullable: true })
+  vestingStartsAt: Date | null; // With vestingEndsAt, amounts unlock linearly between the two
+
+  @Column({ type: 'datetime', nullable: true })
+  vestingEndsAt: Date | null; // No vesting when null: the whole amount unlocks at claimStartsAt
+
+  @Column({ type: 'boolean', default: true })
+  isEnabled: boolean; // Disabled rounds are left out of claim status and signatures
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne('AirdropSnapshot')
+  @JoinColumn({ name: 'snapshotId' })
+  snapshot: any;
+}
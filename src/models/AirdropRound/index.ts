@@ -0,0 +1 @@
+export { AirdropRound } from './AirdropRound.model';
@@ -10,6 +10,9 @@ export class AirdropSnapshot {
   @PrimaryGeneratedColumn()
   id: number;
 
+  @Column({ type: 'int', default: 1 })
+  version: number; // Increases with every snapshot; snapshots are never deleted
+
   @Column({ type: 'varchar', length: 66, unique: true })
   merkleRoot: string; // hex string (0x...)
 
@@ -26,7 +29,7 @@ export class AirdropSnapshot {
   snapshotDate: Date;
 
   @Column({ type: 'boolean', default: false })
-  isFrozen: boolean; // Once frozen, data cannot be updated
+  isFrozen: boolean; // Set once every leaf is written; leaves never change after
 
   @Column({ type: 'varchar', length: 42, nullable: true })
   contractAddress: string; // Address of deployed airdrop contract (if deployed)
@@ -35,7 +38,13 @@ export class AirdropSnapshot {
   deployedAt: Date; // When merkle root was set on contract
 
   @Column({ type: 'boolean', default: false })
-  isActive: boolean; // Only one snapshot can be active at a time
+  isActive: boolean; // Only one snapshot can be active at a time, and only if its root is on-chain
+
+  @Column({ type: 'timestamp', nullable: true })
+  activatedAt: Date; // When the snapshot was last made the active one
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  proofsUri: string; // IPFS URI of the published proofs file
 
   @CreateDateColumn()
   createdAt: Date;
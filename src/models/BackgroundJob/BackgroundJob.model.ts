@@ -0,0 +1,86 @@
+/**
+ * @file This file defines the BackgroundJob entity, a long-running operation run outside of the request that started it.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Types
+import {
+  BackgroundJobStatusEnum,
+  BackgroundJobTypeEnum,
+} from './BackgroundJob.types';
+
+/**
+ * @class BackgroundJob
+ * @classdesc BackgroundJob class stores a queued or running operation with its progress and the checkpoint it saved after its last completed batch, so a job interrupted by a crash or deploy resumes from there instead of starting over.
+ */
+@Entity({ name: 'background_jobs' })
+@Index(['status', 'createdAt'])
+@Index(['type', 'status'])
+export class BackgroundJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: BackgroundJobTypeEnum })
+  type: BackgroundJobTypeEnum;
+
+  @Column({ type: 'json', nullable: true })
+  params: unknown;
+
+  @Column({
+    type: 'enum',
+    enum: BackgroundJobStatusEnum,
+    default: BackgroundJobStatusEnum.QUEUED,
+  })
+  status: BackgroundJobStatusEnum;
+
+  // Items done out of total, as reported by the job
+  @Column({ default: 0 })
+  processedItems: number;
+
+  @Column({ default: 0 })
+  totalItems: number;
+
+  // Whatever the job needs to continue after its last completed batch
+  @Column({ type: 'json', nullable: true })
+  checkpoint: unknown;
+
+  @Column({ type: 'json', nullable: true })
+  result: unknown;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  // Runs started, including resumes after a crash
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ default: false })
+  cancelRequested: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  requestedByFid: number | null;
+
+  // Refreshed while the job runs; a running job whose heartbeat stopped was
+  // interrupted and is picked up again
+  @Column({ type: 'datetime', nullable: true })
+  heartbeatAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  finishedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,20 @@
+/**
+ * Kinds of long-running work the job runner knows how to do.
+ */
+export enum BackgroundJobTypeEnum {
+  AIRDROP_CALCULATION = 'airdrop_calculation',
+  AIRDROP_FIX_ZERO_ALLOCATIONS = 'airdrop_fix_zero_allocations',
+  AIRDROP_TOKEN_DISTRIBUTION = 'airdrop_token_distribution',
+  BRAND_FOLLOWER_REFRESH = 'brand_follower_refresh',
+}
+
+/**
+ * Where a job is in its life.
+ */
+export enum BackgroundJobStatusEnum {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
@@ -0,0 +1,2 @@
+export * from './BackgroundJob.model';
+export * from './BackgroundJob.types';
@@ -10,6 +10,7 @@ import {
   OneToMany,
   ManyToOne,
   Unique,
+  Index,
 } from 'typeorm';
 
 /**
@@ -18,6 +19,12 @@ import {
  */
 @Entity({ name: 'brands' })
 @Unique(['name'])
+// Brand list orders, see BrandService.getAll
+@Index(['banned', 'score', 'followerCount'])
+@Index(['banned', 'scoreDay', 'followerCount'])
+@Index(['banned', 'scoreWeek', 'followerCount'])
+@Index(['banned', 'scoreMonth', 'followerCount'])
+@Index(['banned', 'createdAt'])
 export class Brand {
   @PrimaryGeneratedColumn()
   id: number;
@@ -68,6 +75,11 @@ export class Brand {
   })
   stateScoreDay: number;
 
+  @Column({
+    default: 0,
+  })
+  rankingDay: number;
+
   @Column()
   scoreWeek: number;
 
@@ -0,0 +1,54 @@
+/**
+ * @file This file defines the BrandAffinity entity, how often brands share a podium.
+ */
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+// Types
+import { BrandAffinityKindEnum } from './BrandAffinity.types';
+
+/**
+ * @class BrandAffinity
+ * @classdesc BrandAffinity class stores how often a brand was podiumed together with one other brand (a pair) or two others (a triple), and how much more often than chance. Every co-occurrence is stored once per brand in it, so a brand's affinities are read from its own rows. The table is rebuilt as a whole from recent votes.
+ */
+@Entity({ name: 'brand_affinities' })
+@Index(['brandId', 'kind', 'podiums'])
+@Index(['brandId', 'kind', 'lift'])
+export class BrandAffinity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: BrandAffinityKindEnum })
+  kind: BrandAffinityKindEnum;
+
+  // The brand these affinities are read for
+  @Column()
+  brandId: number;
+
+  @Column()
+  relatedBrandId: number;
+
+  // Second related brand of a triple, null for pairs
+  @Column({ nullable: true })
+  thirdBrandId: number | null;
+
+  // Podiums that contain every brand of the row
+  @Column()
+  podiums: number;
+
+  // Share of the anchor brand's podiums that also contain the others
+  @Column({ type: 'decimal', precision: 8, scale: 6 })
+  confidence: number;
+
+  // Observed podiums over the podiums expected if brands were picked
+  // independently; above 1 means the brands attract the same voters
+  @Column({ type: 'decimal', precision: 24, scale: 4 })
+  lift: number;
+
+  // log2 of lift
+  @Column({ type: 'decimal', precision: 10, scale: 4 })
+  pmi: number;
+
+  // When the graph this row belongs to was built
+  @Column()
+  builtAt: Date;
+}
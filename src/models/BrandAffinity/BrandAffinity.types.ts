@@ -0,0 +1,7 @@
+/**
+ * How many brands a co-occurrence covers, counting the anchor brand.
+ */
+export enum BrandAffinityKindEnum {
+  PAIR = 'pair',
+  TRIPLE = 'triple',
+}
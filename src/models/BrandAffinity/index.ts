@@ -0,0 +1,2 @@
+export * from './BrandAffinity.model';
+export * from './BrandAffinity.types';
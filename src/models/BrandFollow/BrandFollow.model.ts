@@ -0,0 +1,31 @@
+/**
+ * @file This file defines the BrandFollow entity, a user following a brand.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * @class BrandFollow
+ * @classdesc BrandFollow class records that a user follows a brand and wants to hear about its rank and collectibles. A user can follow each brand once.
+ */
+@Entity({ name: 'brand_follows' })
+@Index(['userId', 'brandId'], { unique: true })
+@Index(['brandId'])
+export class BrandFollow {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @Column()
+  brandId: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,61 @@
+/**
+ * @file This file defines the BrandRankingSnapshot entity, a brand's final standing in a finished period.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Types
+import { BrandRankingPeriodEnum } from './BrandRankingSnapshot.types';
+
+/**
+ * @class BrandRankingSnapshot
+ * @classdesc BrandRankingSnapshot class stores one brand's rank and totals for a closed day, week or month.
+ */
+@Entity({ name: 'brand_ranking_snapshots' })
+@Index(['period', 'periodStart', 'brandId'], { unique: true })
+@Index(['period', 'periodStart', 'rank'])
+@Index(['brandId', 'period', 'periodStart'])
+export class BrandRankingSnapshot {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({
+    type: 'enum',
+    enum: BrandRankingPeriodEnum,
+  })
+  period: BrandRankingPeriodEnum;
+
+  // Inclusive start and exclusive end of the period, in UTC
+  @Column()
+  periodStart: Date;
+
+  @Column()
+  periodEnd: Date;
+
+  @Column()
+  brandId: number;
+
+  @Column()
+  rank: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 4, default: 0 })
+  score: number;
+
+  @Column({ default: 0 })
+  uniqueVoters: number;
+
+  @Column({ default: 0 })
+  votes: number;
+
+  // BRND paid on the podiums this brand appeared in
+  @Column({ type: 'decimal', precision: 30, scale: 4, default: 0 })
+  brndPaid: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
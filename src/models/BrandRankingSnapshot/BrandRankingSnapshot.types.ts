@@ -0,0 +1,8 @@
+/**
+ * Scoring periods a ranking snapshot can cover.
+ */
+export enum BrandRankingPeriodEnum {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
@@ -0,0 +1,2 @@
+export * from './BrandRankingSnapshot.model';
+export * from './BrandRankingSnapshot.types';
@@ -0,0 +1,89 @@
+/**
+ * @file This file defines the BrandRequest entity, a brand submitted by a user for admins to review.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Types
+import { BrandRequestStatusEnum } from './BrandRequest.types';
+
+/**
+ * @class BrandRequest
+ * @classdesc BrandRequest class stores a channel or profile a user asked to have listed as a brand. Other users upvote pending requests and admins approve them into brands or reject them.
+ */
+@Entity({ name: 'brand_requests' })
+@Index(['status', 'upvotes'])
+@Index(['requesterId'])
+export class BrandRequest {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  // '/'-prefixed channel, empty for profile requests
+  @Column({ default: '' })
+  channel: string;
+
+  // '@'-prefixed profile, empty for channel requests
+  @Column({ default: '' })
+  profile: string;
+
+  // 0: Channel, 1: Profile
+  @Column({ default: 0 })
+  queryType: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  url: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  imageUrl: string | null;
+
+  // Follower count from Neynar when the request was submitted
+  @Column({ default: 0 })
+  followerCount: number;
+
+  // User who submitted the request
+  @Column()
+  requesterId: number;
+
+  @Column({
+    type: 'enum',
+    enum: BrandRequestStatusEnum,
+    default: BrandRequestStatusEnum.PENDING,
+  })
+  status: BrandRequestStatusEnum;
+
+  // Counts the requester's own vote
+  @Column({ default: 0 })
+  upvotes: number;
+
+  // Shown to the requester when the request is rejected
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  rejectionReason: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  reviewedByFid: number | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  reviewedAt: Date | null;
+
+  // Brand created when the request was approved
+  @Column({ type: 'int', nullable: true })
+  brandId: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,8 @@
+/**
+ * Where a brand request is in the review process.
+ */
+export enum BrandRequestStatusEnum {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
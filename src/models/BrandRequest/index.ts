@@ -0,0 +1,2 @@
+export * from './BrandRequest.model';
+export * from './BrandRequest.types';
@@ -0,0 +1,30 @@
+/**
+ * @file This file defines the BrandRequestVote entity, one user's upvote on a brand request.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * @class BrandRequestVote
+ * @classdesc BrandRequestVote class records that a user upvoted a brand request. A user can upvote each request once.
+ */
+@Entity({ name: 'brand_request_votes' })
+@Index(['requestId', 'userId'], { unique: true })
+export class BrandRequestVote {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  requestId: number;
+
+  @Column()
+  userId: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,71 @@
+/**
+ * @file This file defines the BrandScoreEntry entity, the append-only ledger behind brand scores.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Types
+import { BrandScoreEntryKindEnum } from './BrandScoreEntry.types';
+
+/**
+ * @class BrandScoreEntry
+ * @classdesc BrandScoreEntry class stores the points one podium position gave a brand. Brand score counters are sums over these rows.
+ */
+@Entity({ name: 'brand_score_entries' })
+@Index(['voteTransactionHash', 'generation', 'position', 'kind'], {
+  unique: true,
+})
+@Index(['brandId', 'voteDate'])
+@Index(['voteDate'])
+export class BrandScoreEntry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  brandId: number;
+
+  @Column({ length: 66 })
+  voteTransactionHash: string;
+
+  // Bumped each time a reverted vote is recorded again, e.g. when a reorg
+  // drops the vote and a later block includes the same transaction
+  @Column({ default: 0 })
+  generation: number;
+
+  // Podium position: 1, 2 or 3
+  @Column({ type: 'tinyint' })
+  position: number;
+
+  @Column({
+    type: 'enum',
+    enum: BrandScoreEntryKindEnum,
+    default: BrandScoreEntryKindEnum.VOTE,
+  })
+  kind: BrandScoreEntryKindEnum;
+
+  // Share of the BRND paid that goes to this position (0.6 / 0.3 / 0.1)
+  @Column({ type: 'decimal', precision: 4, scale: 2 })
+  weight: number;
+
+  @Column()
+  brndPaid: number;
+
+  // weight * brndPaid, negated for reversals
+  @Column({ type: 'decimal', precision: 20, scale: 4 })
+  points: number;
+
+  // When the vote was cast on-chain; period windows are taken over this
+  @Column()
+  voteDate: Date;
+
+  @Column()
+  day: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
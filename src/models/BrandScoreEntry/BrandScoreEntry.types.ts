@@ -0,0 +1,7 @@
+/**
+ * Why a score ledger entry was written.
+ */
+export enum BrandScoreEntryKindEnum {
+  VOTE = 'vote',
+  REVERSAL = 'reversal', // Cancels a vote the indexer rolled back
+}
@@ -0,0 +1,2 @@
+export * from './BrandScoreEntry.model';
+export * from './BrandScoreEntry.types';
@@ -0,0 +1,80 @@
+/**
+ * @file This file defines the IndexerEvent entity, the durable log of inbound indexer webhooks.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Types
+import {
+  IndexerEventStatusEnum,
+  IndexerEventTypeEnum,
+} from './IndexerEvent.types';
+
+/**
+ * @class IndexerEvent
+ * @classdesc IndexerEvent class stores every payload received from the Ponder indexer so it can be audited and replayed.
+ */
+@Entity({ name: 'indexer_events' })
+@Index(['eventType', 'eventKey'], { unique: true }) // One row per on-chain event
+@Index(['status', 'eventType'])
+export class IndexerEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({
+    type: 'enum',
+    enum: IndexerEventTypeEnum,
+  })
+  eventType: IndexerEventTypeEnum;
+
+  // Natural key of the event within its type (tx hash, levelUpId, ...)
+  @Column({ length: 160 })
+  eventKey: string;
+
+  @Column({ type: 'json' })
+  payload: any;
+
+  @Column({
+    type: 'enum',
+    enum: IndexerEventStatusEnum,
+    default: IndexerEventStatusEnum.RECEIVED,
+  })
+  status: IndexerEventStatusEnum;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  // Key of the missing prerequisite while pending (e.g. vote:<fid>:<day>)
+  @Index()
+  @Column({ type: 'varchar', length: 160, nullable: true })
+  dependsOn: string | null;
+
+  @Column({ nullable: true })
+  pendingSince: Date | null;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  blockNumber: number | null;
+
+  @Column({ nullable: true })
+  processedAt: Date | null;
+
+  // What the handler returned; a redelivered processed event gets this back
+  // instead of running the handler again
+  @Column({ type: 'json', nullable: true })
+  result: any;
+
+  @CreateDateColumn()
+  receivedAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
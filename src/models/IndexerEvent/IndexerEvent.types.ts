@@ -0,0 +1,21 @@
+/**
+ * Kinds of events the Ponder indexer pushes to the API.
+ */
+export enum IndexerEventTypeEnum {
+  VOTE = 'vote',
+  REWARD_CLAIM = 'reward_claim',
+  USER_LEVEL = 'user_level',
+  COLLECTIBLE_MINTED = 'collectible_minted',
+  COLLECTIBLE_BOUGHT = 'collectible_bought',
+  BRAND = 'brand',
+}
+
+/**
+ * Processing status of a stored indexer event.
+ */
+export enum IndexerEventStatusEnum {
+  RECEIVED = 'received',
+  PENDING = 'pending', // Waiting on an event it depends on
+  PROCESSED = 'processed',
+  FAILED = 'failed',
+}
@@ -0,0 +1,2 @@
+export * from './IndexerEvent.model';
+export * from './IndexerEvent.types';
@@ -0,0 +1,27 @@
+/**
+ * @file This file defines the IndexerSyncCheckpoint entity, the last indexer block applied per sync stream.
+ */
+import { Entity, Column, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+// Types
+import { IndexerSyncStreamEnum } from './IndexerSyncCheckpoint.types';
+
+/**
+ * @class IndexerSyncCheckpoint
+ * @classdesc IndexerSyncCheckpoint class records how far each indexer sync stream has been applied so the next run can resume from there.
+ */
+@Entity({ name: 'indexer_sync_checkpoints' })
+export class IndexerSyncCheckpoint {
+  @PrimaryColumn({
+    type: 'enum',
+    enum: IndexerSyncStreamEnum,
+  })
+  stream: IndexerSyncStreamEnum;
+
+  // Highest indexer block number applied for this stream
+  @Column({ type: 'bigint', default: 0 })
+  blockNumber: number;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,9 @@
+/**
+ * Data streams pulled from the Ponder database by the indexer sync.
+ */
+export enum IndexerSyncStreamEnum {
+  VOTES = 'votes',
+  BRANDS = 'brands',
+  POWER_LEVELS = 'power_levels',
+  COLLECTIBLES = 'collectibles',
+}
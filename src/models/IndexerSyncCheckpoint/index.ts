@@ -0,0 +1,2 @@
+export * from './IndexerSyncCheckpoint.model';
+export * from './IndexerSyncCheckpoint.types';
@@ -0,0 +1,36 @@
+/**
+ * @file This file defines the LiveEvent entity, an activity event published to live stream subscribers.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Types
+import { LiveEventTypeEnum } from './LiveEvent.types';
+
+/**
+ * @class LiveEvent
+ * @classdesc LiveEvent class stores recent activity events. Every API replica reads new rows from this table and pushes them to its own stream subscribers, and clients that reconnect resume from the last id they saw.
+ */
+@Entity({ name: 'live_events' })
+@Index(['createdAt'])
+export class LiveEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({
+    type: 'enum',
+    enum: LiveEventTypeEnum,
+  })
+  type: LiveEventTypeEnum;
+
+  @Column({ type: 'json' })
+  payload: Record<string, any>;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
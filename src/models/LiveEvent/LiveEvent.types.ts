@@ -0,0 +1,10 @@
+/**
+ * Kinds of activity pushed to live stream subscribers.
+ */
+export enum LiveEventTypeEnum {
+  PODIUM_VOTE = 'podium_vote',
+  RANK_CHANGE = 'rank_change',
+  COLLECTIBLE_MINTED = 'collectible_minted',
+  COLLECTIBLE_BOUGHT = 'collectible_bought',
+  LEVEL_UP = 'level_up',
+}
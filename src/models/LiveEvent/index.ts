@@ -0,0 +1,2 @@
+export * from './LiveEvent.model';
+export * from './LiveEvent.types';
@@ -0,0 +1,58 @@
+/**
+ * @file This file defines the PointsLedgerEntry entity, the append-only ledger behind user points.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Types
+import { PointsReasonEnum } from './PointsLedgerEntry.types';
+
+/**
+ * @class PointsLedgerEntry
+ * @classdesc PointsLedgerEntry class stores one credit or debit of a user's points and where it came from. User and season point totals are sums over these rows.
+ */
+@Entity({ name: 'points_ledger' })
+@Index(['userId', 'createdAt'])
+@Index(['userId', 'seasonId'])
+@Index(['voteTransactionHash'])
+export class PointsLedgerEntry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  // Negative for debits
+  @Column()
+  points: number;
+
+  @Column({ type: 'enum', enum: PointsReasonEnum })
+  reason: PointsReasonEnum;
+
+  // Season the points count towards, null when they count towards none
+  @Column({ type: 'int', nullable: true })
+  seasonId: number | null;
+
+  // On-chain transaction that moved the points: the vote or the reward claim
+  @Column({ type: 'varchar', length: 66, nullable: true })
+  transactionHash: string | null;
+
+  // Vote the points were earned for. Claims and shares point at the vote too
+  @Column({ type: 'varchar', length: 66, nullable: true })
+  voteTransactionHash: string | null;
+
+  // Admin who posted a manual adjustment; null for points the system awarded
+  @Column({ type: 'int', nullable: true })
+  actorFid: number | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  note: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
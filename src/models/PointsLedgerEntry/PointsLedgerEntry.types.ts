@@ -0,0 +1,11 @@
+/**
+ * Why a user's points changed.
+ */
+export enum PointsReasonEnum {
+  VOTE = 'vote',
+  VOTE_REVERSAL = 'vote_reversal', // Cancels a vote the indexer rolled back
+  CLAIM = 'claim',
+  SHARE = 'share',
+  ADMIN_ADJUSTMENT = 'admin_adjustment',
+  BACKFILL = 'backfill', // Opening balance for points earned before the ledger
+}
@@ -0,0 +1,2 @@
+export * from './PointsLedgerEntry.model';
+export * from './PointsLedgerEntry.types';
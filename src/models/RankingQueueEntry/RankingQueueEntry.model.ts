@@ -0,0 +1,22 @@
+/**
+ * @file This file defines the RankingQueueEntry entity, a brand whose rankings need to be recomputed.
+ */
+import { Entity, Column, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * @class RankingQueueEntry
+ * @classdesc RankingQueueEntry class marks a brand whose score changed since rankings were last recomputed. Rows are written in the same transaction as the score change, so a queued update survives restarts.
+ */
+@Entity({ name: 'ranking_queue' })
+export class RankingQueueEntry {
+  @PrimaryColumn()
+  brandId: number;
+
+  // Bumped every time the brand is queued again, so a worker only removes
+  // the entries it actually processed
+  @Column({ default: 1 })
+  version: number;
+
+  @UpdateDateColumn()
+  queuedAt: Date;
+}
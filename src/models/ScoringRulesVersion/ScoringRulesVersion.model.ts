@@ -0,0 +1,41 @@
+/**
+ * @file This file defines the ScoringRulesVersion entity, one immutable version of the vote scoring rules.
+ */
+import { Entity, Column, PrimaryColumn, CreateDateColumn } from 'typeorm';
+
+// Types
+import { ScoringRules } from './ScoringRulesVersion.types';
+
+/**
+ * @class ScoringRulesVersion
+ * @classdesc ScoringRulesVersion class describes one version of the rules votes are scored with and when it took effect. Versions are only ever added, and every vote records the version that scored it.
+ */
+@Entity({ name: 'scoring_rules_versions' })
+export class ScoringRulesVersion {
+  @PrimaryColumn()
+  version: number;
+
+  @Column({ type: 'json' })
+  rules: ScoringRules;
+
+  // Votes cast from this date on are scored with this version, until the
+  // next version takes effect
+  @Column()
+  effectiveFrom: Date;
+
+  // Season whose overrides this version bakes into the version in effect.
+  // Season versions are picked by a vote's season rather than its date;
+  // null for the versions admins create
+  @Column({ nullable: true })
+  seasonId: number;
+
+  @Column({ nullable: true })
+  description: string;
+
+  // Admin who created the version
+  @Column({ nullable: true })
+  createdByFid: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,34 @@
+/**
+ * Leaderboard points a vote earns on top of votePoints once the voter's
+ * daily streak reaches minStreak days. The highest tier reached applies.
+ */
+export interface StreakBonus {
+  minStreak: number;
+  points: number;
+}
+
+/**
+ * Everything that decides what a podium vote is worth. A version of these
+ * rules never changes once created; see ScoringService.
+ */
+export interface ScoringRules {
+  // Share of the BRND paid credited to podium positions 1, 2 and 3
+  positionWeights: number[];
+  // BRND a vote costs per BRND power level; level 0 pays for level 1
+  baseVoteCost: number;
+  // Levels above this pay the same as this level
+  maxVoteCostLevel: number;
+  // The claimable reward is the BRND paid times this
+  rewardMultiplier: number;
+  // Leaderboard points for casting a podium vote
+  votePoints: number;
+  // Leaderboard points per BRND power level when the vote reward is claimed
+  claimPointsPerLevel: number;
+  streakBonuses: StreakBonus[];
+  // Brand.bonusPoints times this is added to a brand's score every time it
+  // lands on a podium
+  brandBonusMultiplier: number;
+  // Share of their brand score contribution that votes from users with an
+  // open vote-quality flag keep; 1 leaves them untouched
+  flaggedVoteWeight: number;
+}
@@ -0,0 +1,2 @@
+export * from './ScoringRulesVersion.model';
+export * from './ScoringRulesVersion.types';
@@ -0,0 +1,46 @@
+/**
+ * @file This file defines the Season entity, a configured competition period.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+// Types
+import { SeasonScoringRules } from './Season.types';
+
+/**
+ * @class Season
+ * @classdesc Season class describes a competition period: when it runs, which voting contract it uses and how votes are scored. Votes are tagged with the season active when they were cast.
+ */
+@Entity({ name: 'seasons' })
+export class Season {
+  // Season number, shown to users as "Season N"
+  @PrimaryColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column()
+  startsAt: Date;
+
+  // Null while the season is open-ended
+  @Column({ nullable: true })
+  endsAt: Date;
+
+  @Column({ nullable: true, length: 42 })
+  contractAddress: string;
+
+  @Column({ type: 'json', nullable: true })
+  scoringRules: SeasonScoringRules;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
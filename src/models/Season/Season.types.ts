@@ -0,0 +1,12 @@
+/**
+ * Per-season overrides of the scoring rules. Missing values fall back to
+ * the scoring rules version in effect when the vote was cast. Votes record
+ * a version with the overrides baked in, so changing them only affects
+ * votes ingested afterwards.
+ */
+export interface SeasonScoringRules {
+  // Leaderboard points for casting a podium vote
+  votePoints?: number;
+  // Leaderboard points per BRND power level when the vote reward is claimed
+  claimPointsPerLevel?: number;
+}
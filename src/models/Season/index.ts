@@ -0,0 +1,2 @@
+export * from './Season.model';
+export * from './Season.types';
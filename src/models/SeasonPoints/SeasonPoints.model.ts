@@ -0,0 +1,34 @@
+/**
+ * @file This file defines the SeasonPoints entity, a user's leaderboard points within one season.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * @class SeasonPoints
+ * @classdesc SeasonPoints class holds the points a user earned in a season. Rows are created the first time a user earns points in that season.
+ */
+@Entity({ name: 'season_points' })
+@Index(['userId', 'seasonId'], { unique: true })
+@Index(['seasonId', 'points'])
+export class SeasonPoints {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @Column()
+  seasonId: number;
+
+  @Column({ default: 0 })
+  points: number;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
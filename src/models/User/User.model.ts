@@ -44,6 +44,8 @@ export class User {
   })
   points: number;
 
+  // Legacy per-season totals, kept for reference. Season points now live in
+  // the season_points table
   @Column({
     default: 0,
   })
@@ -158,6 +160,13 @@ export class User {
   })
   neynarScore: number;
 
+  // When the user's Farcaster follows were last copied into user_followings
+  @Column({
+    default: null,
+    nullable: true,
+  })
+  followingSyncedAt: Date;
+
   @OneToMany('UserBrandVotes', 'user')
   userBrandVotes: any[];
 }
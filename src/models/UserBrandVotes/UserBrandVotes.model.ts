@@ -130,7 +130,16 @@ export class UserBrandVotes {
   @Column({ nullable: true })
   pointsEarned: number;
 
-  // Season number (1 = before Dec 13 2025, 2 = Dec 13 2025 onwards)
+  // Id of the Season active when the vote was cast
   @Column({ nullable: true })
   season: number;
+
+  // Version of the scoring rules the vote was scored with. Null for votes
+  // stored before rules were versioned, which were scored with version 1
+  @Column({ nullable: true })
+  scoringRulesVersion: number;
+
+  // Block the vote was mined in, used to detect votes dropped by a reorg
+  @Column({ type: 'bigint', nullable: true })
+  blockNumber: number;
 }
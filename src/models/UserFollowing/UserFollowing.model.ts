@@ -0,0 +1,33 @@
+/**
+ * @file This file defines the UserFollowing entity, a local copy of who a user follows on Farcaster.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * @class UserFollowing
+ * @classdesc UserFollowing class caches one Farcaster follow of a BRND user, so friend feeds and leaderboards do not call Neynar on every request. A user's follows are replaced as a whole when their cache expires (see User.followingSyncedAt).
+ */
+@Entity({ name: 'user_followings' })
+@Index(['fid', 'followingFid'], { unique: true })
+@Index(['followingFid'])
+export class UserFollowing {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // The follower
+  @Column()
+  fid: number;
+
+  // The account they follow, which may not use BRND
+  @Column()
+  followingFid: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
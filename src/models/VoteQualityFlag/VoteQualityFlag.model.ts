@@ -0,0 +1,63 @@
+/**
+ * @file This file defines the VoteQualityFlag entity, a user the vote-quality checks found suspicious.
+ */
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Types
+import {
+  VoteQualityFlagDetails,
+  VoteQualityFlagReasonEnum,
+  VoteQualityFlagStatusEnum,
+} from './VoteQualityFlag.types';
+
+/**
+ * @class VoteQualityFlag
+ * @classdesc VoteQualityFlag class records that a user was caught in a suspicious voting pattern, together with the cluster they were caught in. Open flags can down-weight the user's votes until an admin dismisses them or bans the user.
+ */
+@Entity({ name: 'vote_quality_flags' })
+@Index(['userId', 'reason', 'clusterKey'], { unique: true })
+@Index(['status', 'createdAt'])
+export class VoteQualityFlag {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @Column({ type: 'enum', enum: VoteQualityFlagReasonEnum })
+  reason: VoteQualityFlagReasonEnum;
+
+  // Identifies the cluster, e.g. the shared wallet or the podium and time,
+  // so repeated scans do not raise the same flag twice
+  @Column({ length: 128 })
+  clusterKey: string;
+
+  @Column({ type: 'json' })
+  details: VoteQualityFlagDetails;
+
+  @Column({
+    type: 'enum',
+    enum: VoteQualityFlagStatusEnum,
+    default: VoteQualityFlagStatusEnum.OPEN,
+  })
+  status: VoteQualityFlagStatusEnum;
+
+  @Column({ type: 'int', nullable: true })
+  reviewedByFid: number | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  reviewedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+/**
+ * Which suspicious pattern a flag was raised for.
+ */
+export enum VoteQualityFlagReasonEnum {
+  SHARED_WALLET = 'shared_wallet', // Several FIDs behind the same wallet
+  PODIUM_BURST = 'podium_burst', // The same podium from many users within minutes
+  LOW_SCORE_RING = 'low_score_ring', // Low Neynar score users voting the same podium
+}
+
+/**
+ * Where a flag is in the admin review.
+ */
+export enum VoteQualityFlagStatusEnum {
+  OPEN = 'open',
+  DISMISSED = 'dismissed',
+  BANNED = 'banned',
+}
+
+/**
+ * What the detector saw when it raised a flag.
+ */
+export interface VoteQualityFlagDetails {
+  // Other users in the same cluster
+  relatedUserIds: number[];
+  summary: string;
+}
@@ -0,0 +1,2 @@
+export * from './VoteQualityFlag.model';
+export * from './VoteQualityFlag.types';
@@ -8,5 +8,23 @@ export * from './UserDailyActions';
 export * from './AirdropScore';
 export * from './AirdropSnapshot';
 export * from './AirdropLeaf';
+export * from './AirdropRound';
 export * from './RewardClaim';
 export * from './CollectibleActivity';
+export * from './IndexerEvent';
+export * from './IndexerSyncCheckpoint';
+export * from './BrandScoreEntry';
+export * from './BrandRankingSnapshot';
+export * from './RankingQueueEntry';
+export * from './LiveEvent';
+export * from './Season';
+export * from './SeasonPoints';
+export * from './PointsLedgerEntry';
+export * from './BrandRequest';
+export * from './BrandRequestVote';
+export * from './BrandFollow';
+export * from './ScoringRulesVersion';
+export * from './VoteQualityFlag';
+export * from './BrandAffinity';
+export * from './UserFollowing';
+export * from './BackgroundJob';
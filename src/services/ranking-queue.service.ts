@@ -1,84 +1,146 @@
 import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Brand } from '../models';
+import { EntityManager, Repository } from 'typeorm';
+import { RankingQueueEntry } from '../models';
+import { BrandRankingService } from '../core/brand/services/brand-ranking.service';
 import { logger } from '../main';
 
+// MySQL named lock held by the replica that is draining the queue
+const RANKING_LOCK_NAME = 'brnd_ranking_queue';
+
 @Injectable()
 export class RankingQueueService {
-  private updateQueue = new Set<number>(); // Brand IDs that need ranking updates
   private isProcessing = false;
-  private readonly BATCH_DELAY = 10000; // 10 seconds delay before processing
-  private batchTimeout: NodeJS.Timeout | null = null;
 
   constructor(
-    @InjectRepository(Brand)
-    private readonly brandRepository: Repository<Brand>,
+    @InjectRepository(RankingQueueEntry)
+    private readonly rankingQueueRepository: Repository<RankingQueueEntry>,
+    private readonly brandRankingService: BrandRankingService,
   ) {}
 
   /**
-   * Queue a brand for ranking update (called from indexer)
+   * Queue brands for ranking update (called from indexer). Pass the manager of
+   * the transaction that changed their scores so the entry commits with it.
    */
-  queueRankingUpdate(brandId: number): void {
-    this.updateQueue.add(brandId);
-    this.scheduleUpdate();
+  async queueRankingUpdate(
+    brandIds: number[],
+    manager: EntityManager = this.rankingQueueRepository.manager,
+  ): Promise<void> {
+    const ids = [...new Set(brandIds.filter(Boolean))];
+    if (ids.length === 0) {
+      return;
+    }
+
+    await manager.query(
+      `
+      INSERT INTO ranking_queue (brandId, version)
+      VALUES ${ids.map(() => '(?, 1)').join(', ')}
+      ON DUPLICATE KEY UPDATE version = version + 1
+      `,
+      ids,
+    );
   }
 
   /**
-   * Schedule a batch update with debouncing
+   * Drains the queue every few seconds. Votes arriving in between are
+   * batched into one recomputation.
    */
-  private scheduleUpdate(): void {
-    if (this.batchTimeout) {
-      clearTimeout(this.batchTimeout);
+  @Cron(CronExpression.EVERY_5_SECONDS, { name: 'ranking-queue' })
+  async processQueueScheduled(): Promise<void> {
+    try {
+      await this.processQueue();
+    } catch (error) {
+      logger.error(`❌ [RANKING] Error processing ranking queue:`, error);
     }
-
-    this.batchTimeout = setTimeout(() => {
-      this.processBatch();
-    }, this.BATCH_DELAY);
   }
 
   /**
-   * Process queued ranking updates
+   * Recomputes rankings if any brand is queued. Only one replica drains the
+   * queue at a time; the others skip the tick. Entries are removed after the
+   * rankings are written, and only if they were not queued again meanwhile,
+   * so a crash at any point leaves them to be picked up by the next run.
    */
-  private async processBatch(): Promise<void> {
-    if (this.isProcessing || this.updateQueue.size === 0) {
-      return;
+  async processQueue(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
     }
 
     this.isProcessing = true;
-    const queuedBrands = Array.from(this.updateQueue);
-    this.updateQueue.clear();
+    const queryRunner =
+      this.rankingQueueRepository.manager.connection.createQueryRunner();
 
     try {
-      logger.log(`🏆 [RANKING] Processing ranking updates for ${queuedBrands.length} brands`);
-
-      // Get all brands sorted by score
-      const brands = await this.brandRepository
-        .createQueryBuilder('brand')
-        .select(['brand.id', 'brand.ranking'])
-        .orderBy('brand.score', 'DESC')
-        .getMany();
-
-      // Update rankings for affected brands only
-      const updates = [];
-      for (let i = 0; i < brands.length; i++) {
-        const brand = brands[i];
-        const newRanking = (i + 1).toString();
-        
-        if (queuedBrands.includes(brand.id) && brand.ranking !== newRanking) {
-          updates.push(
-            this.brandRepository.update(brand.id, { ranking: newRanking })
-          );
-        }
+      await queryRunner.connect();
+
+      // Named locks belong to the connection, so take and release it on the
+      // same query runner
+      const [{ acquired }] = await queryRunner.query(
+        `SELECT GET_LOCK(?, 0) AS acquired`,
+        [RANKING_LOCK_NAME],
+      );
+      if (Number(acquired) !== 1) {
+        return 0;
       }
 
-      await Promise.all(updates);
-      logger.log(`✅ [RANKING] Updated rankings for ${updates.length} brands`);
-      
-    } catch (error) {
-      logger.error(`❌ [RANKING] Error updating rankings:`, error);
+      try {
+        const queued = await this.rankingQueueRepository.find({
+          select: ['brandId', 'version'],
+        });
+
+        if (queued.length === 0) {
+          return 0;
+        }
+
+        logger.log(
+          `🏆 [RANKING] Processing ranking updates for ${queued.length} queued brands`,
+        );
+
+        await this.brandRankingService.updateGlobalRankings();
+
+        await this.rankingQueueRepository
+          .createQueryBuilder()
+          .delete()
+          .where(
+            queued
+              .map(
+                (_, index) =>
+                  `(brandId = :brandId${index} AND version = :version${index})`,
+              )
+              .join(' OR '),
+            Object.fromEntries(
+              queued.flatMap((entry, index) => [
+                [`brandId${index}`, entry.brandId],
+                [`version${index}`, entry.version],
+              ]),
+            ),
+          )
+          .execute();
+
+        return queued.length;
+      } finally {
+        await queryRunner.query(`SELECT RELEASE_LOCK(?)`, [RANKING_LOCK_NAME]);
+      }
     } finally {
+      await queryRunner.release();
       this.isProcessing = false;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Number of brands waiting for a ranking update and how long the oldest
+   * one has been waiting.
+   */
+  async getQueueStatus(): Promise<{ queued: number; oldestQueuedAt: Date }> {
+    const row = await this.rankingQueueRepository
+      .createQueryBuilder('entry')
+      .select('COUNT(*)', 'queued')
+      .addSelect('MIN(entry.queuedAt)', 'oldestQueuedAt')
+      .getRawOne();
+
+    return {
+      queued: parseInt(row?.queued || '0'),
+      oldestQueuedAt: row?.oldestQueuedAt || null,
+    };
+  }
+}
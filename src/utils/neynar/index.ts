@@ -186,6 +186,30 @@ export default class NeynarService {
     return response.users[0];
   };
 
+  /**
+   * Fetches the FIDs a user follows, following the pagination cursor until
+   * maxUsers have been read
+   */
+  getUserFollowingFids = async (
+    fid: number,
+    maxUsers: number = 1000,
+  ): Promise<number[]> => {
+    const fids: number[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.client.fetchUserFollowing({
+        fid,
+        limit: 100,
+        cursor,
+      });
+      fids.push(...response.users.map((follow) => follow.user.fid));
+      cursor = response.next?.cursor || undefined;
+    } while (cursor && fids.length < maxUsers);
+
+    return fids.slice(0, maxUsers);
+  };
+
   /**
    * Fetches follower count for a channel
    */